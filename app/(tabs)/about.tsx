@@ -4,6 +4,7 @@
 // - Quick explanation of what each tab does
 // - Sources + disclaimers
 // - Useful links
+// - Data issues (novena dates that couldn't be worked out, app/data-issues.tsx)
 //
 // ✅ NO language toggle here.
 // ✅ Uses global app language via i18n (whatever user picked on Home).
@@ -13,6 +14,7 @@ import React, { useCallback } from "react";
 import { View, Linking } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { LinearGradient } from "expo-linear-gradient";
+import { useRouter } from "expo-router";
 import { Card, Text, Divider, Button } from "react-native-paper";
 import { useTranslation } from "react-i18next";
 
@@ -20,6 +22,7 @@ import { AppTheme } from "../../utils/theme";
 
 export default function AboutScreen() {
   const { t } = useTranslation();
+  const router = useRouter();
 
   const openUrl = useCallback((url: string) => {
     Linking.openURL(url);
@@ -126,6 +129,15 @@ export default function AboutScreen() {
                     "If a parish/diocese observes a transferred feast or local proper, always follow local guidance.",
                 })}
               </Text>
+
+              <Button
+                mode="text"
+                compact
+                style={{ marginTop: 10, alignSelf: "flex-start" }}
+                onPress={() => router.push("/data-issues")}
+              >
+                {t("about_data_issues", { defaultValue: "Data issues" })}
+              </Button>
             </Card.Content>
           </Card>
 
@@ -1,17 +1,103 @@
 // app/(tabs)/index.tsx
+//
+// Home = "Today" dashboard + language / calendar settings.
+// - Season, color and celebration of the day (utils/liturgicalCalendar.ts)
+// - Saint of the day (utils/saintsOfDay.ts) -> /saint/[id]
+// - Enrolled novena runs in progress today, with the day number
+// - Novenas starting today or tomorrow -> /novena/[id]
+// - Readings (bundled citation + USCCB link); hidden for the 1962 Missal,
+//   whose lectionary is not bundled
+//
+// "Today" comes from hooks/use-today-key.ts, so the dashboard rolls over at
+// local midnight without restarting the app.
+
 import React, { useMemo, useState, useCallback } from "react";
-import { ImageBackground, View } from "react-native";
+import { ImageBackground, Linking, ScrollView, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { Text, Card, Button } from "react-native-paper";
+import { useRouter } from "expo-router";
+import { Text, Card, Button, Divider } from "react-native-paper";
 import { useTranslation } from "react-i18next";
 
+import { usePersistedStore } from "@/hooks/use-persisted-store";
+import { useTodayKey } from "@/hooks/use-today-key";
 import i18n, { setLanguage, type AppLang } from "../../i18n";
+import { getNovenasOnDate } from "../../data/calendar";
+import {
+  CALENDAR_PROFILES,
+  type CalendarProfileId,
+} from "../../utils/calendarProfiles";
+import { calendarProfileStore } from "../../utils/calendarProfileStore";
+import { addDaysToKey, keyToUTCNoon } from "../../utils/dateKeys";
+import { getLiturgicalDay } from "../../utils/liturgicalCalendar";
+import { getLectionaryDay, usccbReadingsUrl } from "../../utils/lectionary";
+import {
+  activeEnrollmentsOn,
+  dayNumberOn,
+  enrollmentsStore,
+} from "../../utils/novenaProgress";
+import { getSaintsOfDay } from "../../utils/saintsOfDay";
 
 const background = require("../../assets/images/bg.jpg");
 
+const cardStyle = {
+  borderRadius: 16,
+  backgroundColor: "rgba(255,255,255,0.95)",
+  marginBottom: 12,
+} as const;
+
 export default function HomeScreen() {
   const { t } = useTranslation();
+  const router = useRouter();
   const [busy, setBusy] = useState(false);
+  const profile = usePersistedStore(calendarProfileStore);
+  const enrollments = usePersistedStore(enrollmentsStore);
+  const todayKey = useTodayKey();
+  const tomorrowKey = addDaysToKey(todayKey, 1);
+
+  const day = useMemo(
+    () => getLiturgicalDay(todayKey, profile),
+    [todayKey, profile],
+  );
+  const lectionary = useMemo(
+    () => getLectionaryDay(todayKey, profile),
+    [todayKey, profile],
+  );
+  const saints = useMemo(() => getSaintsOfDay(todayKey), [todayKey]);
+  const startsToday = useMemo(
+    () => getNovenasOnDate(todayKey, profile).starts,
+    [todayKey, profile],
+  );
+  const startsTomorrow = useMemo(
+    () => getNovenasOnDate(tomorrowKey, profile).starts,
+    [tomorrowKey, profile],
+  );
+  const praying = useMemo(
+    () => activeEnrollmentsOn(enrollments, todayKey),
+    [enrollments, todayKey],
+  );
+
+  let longDate = todayKey;
+  try {
+    longDate = keyToUTCNoon(todayKey).toLocaleDateString(i18n.language, {
+      timeZone: "UTC",
+      weekday: "long",
+      month: "long",
+      day: "numeric",
+    });
+  } catch {
+    // keep the YYYY-MM-DD key
+  }
+
+  const openReadings = useCallback(async () => {
+    const url = usccbReadingsUrl(todayKey);
+    try {
+      const ok = await Linking.canOpenURL(url);
+      if (ok) await Linking.openURL(url);
+      else console.warn("Cannot open URL:", url);
+    } catch (e) {
+      console.warn("Failed to open readings URL:", url, e);
+    }
+  }, [todayKey]);
 
   const currentLang = useMemo<AppLang>(() => {
     const lng = (i18n.language || "en").toLowerCase();
@@ -46,25 +132,34 @@ export default function HomeScreen() {
     [t],
   );
 
+  const onChangeProfile = useCallback(
+    (id: CalendarProfileId) => {
+      if (id === profile) return;
+      calendarProfileStore.set(id).catch((e) => {
+        console.warn("[HomeScreen] failed to save calendar profile:", e);
+      });
+    },
+    [profile],
+  );
+
+  const top = day.celebrations[0];
+  const readings = lectionary?.readings ?? null;
+
   return (
     <ImageBackground source={background} style={{ flex: 1 }} resizeMode="cover">
       <SafeAreaView style={{ flex: 1, backgroundColor: "rgba(0,0,0,0.45)" }}>
-        <View style={{ flex: 1, padding: 24 }}>
-          {/* Centered title block */}
-          <View
-            style={{
-              flex: 1,
-              justifyContent: "center",
-              alignItems: "center",
-              paddingHorizontal: 12,
-            }}
-          >
+        <ScrollView
+          contentContainerStyle={{ padding: 24 }}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Title block */}
+          <View style={{ alignItems: "center", marginBottom: 20 }}>
             <Text
               variant="headlineLarge"
               style={{
                 color: "white",
                 fontWeight: "700",
-                marginBottom: 12,
+                marginBottom: 8,
                 letterSpacing: 0.5,
                 textAlign: "center",
               }}
@@ -75,23 +170,223 @@ export default function HomeScreen() {
             <Text
               style={{
                 color: "rgba(255,255,255,0.82)",
-                fontSize: 15,
-                lineHeight: 22,
+                fontSize: 14,
+                lineHeight: 20,
                 textAlign: "center",
                 maxWidth: 340,
               }}
             >
               {t("home_subtitle")}
             </Text>
+
+            <Button
+              mode="contained-tonal"
+              icon="magnify"
+              style={{ marginTop: 14 }}
+              onPress={() => router.push("/search")}
+            >
+              {t("search_title", { defaultValue: "Search" })}
+            </Button>
+
+            <Button
+              mode="text"
+              textColor="white"
+              style={{ marginTop: 4 }}
+              onPress={() => router.push("/intentions")}
+            >
+              {t("intentions_open", {
+                defaultValue: "Find a saint or novena for an intention",
+              })}
+            </Button>
           </View>
 
-          {/* Bottom language selector */}
-          <Card
-            style={{
-              borderRadius: 16,
-              backgroundColor: "rgba(255,255,255,0.95)",
-            }}
-          >
+          {/* Today: season + celebration */}
+          <Card style={cardStyle}>
+            <Card.Content>
+              <Text variant="labelLarge" style={{ opacity: 0.7 }}>
+                {t("today_title", { defaultValue: "Today" })} · {longDate}
+              </Text>
+              <Text
+                variant="titleLarge"
+                style={{ fontWeight: "800", marginTop: 4 }}
+              >
+                {top.title}
+              </Text>
+              <Text style={{ marginTop: 2, opacity: 0.8 }}>{top.rank}</Text>
+              <Text style={{ marginTop: 6, opacity: 0.8 }}>
+                {t("liturgical_season_week", {
+                  defaultValue: "{{season}}, week {{week}}",
+                  season: day.season,
+                  week: day.seasonWeek,
+                })}
+                {" · "}
+                {t("liturgical_color", {
+                  defaultValue: "Color: {{color}}",
+                  color: day.color,
+                })}
+              </Text>
+              <Button
+                mode="text"
+                compact
+                style={{ marginTop: 8, alignSelf: "flex-start" }}
+                onPress={() =>
+                  router.push({
+                    pathname: "/day/[date]",
+                    params: { date: todayKey },
+                  })
+                }
+              >
+                {t("day_open", { defaultValue: "Open full day" })}
+              </Button>
+            </Card.Content>
+          </Card>
+
+          {/* Saint of the day */}
+          {saints.primary ? (
+            <Card
+              style={cardStyle}
+              onPress={() =>
+                router.push({
+                  pathname: "/saint/[id]",
+                  params: { id: saints.primary!.id, date: todayKey },
+                })
+              }
+            >
+              <Card.Content>
+                <Text variant="labelLarge" style={{ opacity: 0.7 }}>
+                  {t("saint_of_the_day")}
+                </Text>
+                <Text
+                  variant="titleMedium"
+                  style={{ fontWeight: "800", marginTop: 4 }}
+                >
+                  {saints.primary.name}
+                </Text>
+                {saints.others.length > 0 ? (
+                  <Text style={{ marginTop: 4, opacity: 0.7 }}>
+                    {t("other_saints_today")}:{" "}
+                    {saints.others.slice(0, 3).join(", ")}
+                  </Text>
+                ) : null}
+              </Card.Content>
+            </Card>
+          ) : null}
+
+          {/* Novenas */}
+          {praying.length > 0 ||
+          startsToday.length > 0 ||
+          startsTomorrow.length > 0 ? (
+            <Card style={cardStyle}>
+              <Card.Content>
+                {praying.length > 0 ? (
+                  <>
+                    <Text variant="labelLarge" style={{ opacity: 0.7 }}>
+                      {t("today_praying", {
+                        defaultValue: "Novenas you're praying",
+                      })}
+                    </Text>
+                    {praying.map((e) => {
+                      const dayNumber = dayNumberOn(e, todayKey) ?? 1;
+                      const prayed = e.prayedDays.includes(dayNumber);
+                      return (
+                        <Button
+                          key={e.key}
+                          mode={prayed ? "outlined" : "contained"}
+                          style={{ marginTop: 8 }}
+                          onPress={() =>
+                            router.push({
+                              pathname: "/novena/[id]",
+                              params: { id: e.novenaId, run: e.key },
+                            })
+                          }
+                        >
+                          {e.title} ·{" "}
+                          {prayed
+                            ? t("novena_prayed")
+                            : t("novena_progress_day", {
+                                day: dayNumber,
+                                total: e.durationDays,
+                              })}
+                        </Button>
+                      );
+                    })}
+                  </>
+                ) : null}
+
+                {[
+                  {
+                    label: t("starts_today"),
+                    date: todayKey,
+                    list: startsToday,
+                  },
+                  {
+                    label: t("starts_tomorrow", {
+                      defaultValue: "Starts tomorrow",
+                    }),
+                    date: tomorrowKey,
+                    list: startsTomorrow,
+                  },
+                ]
+                  .filter((g) => g.list.length > 0)
+                  .map((g) => (
+                    <View key={g.date} style={{ marginTop: 12 }}>
+                      <Text variant="labelLarge" style={{ opacity: 0.7 }}>
+                        {g.label}
+                      </Text>
+                      {g.list.map((n) => (
+                        <Button
+                          key={`${g.date}-${n.id}`}
+                          mode="text"
+                          compact
+                          style={{ marginTop: 2, alignSelf: "flex-start" }}
+                          onPress={() =>
+                            router.push({
+                              pathname: "/novena/[id]",
+                              params: {
+                                id: n.id,
+                                date: g.date,
+                                run: n.instanceId,
+                              },
+                            })
+                          }
+                        >
+                          {n.title}
+                        </Button>
+                      ))}
+                    </View>
+                  ))}
+              </Card.Content>
+            </Card>
+          ) : null}
+
+          {/* Readings */}
+          {lectionary ? (
+            <Card style={cardStyle}>
+              <Card.Content>
+                <Text variant="labelLarge" style={{ opacity: 0.7 }}>
+                  {t("readings_title", { defaultValue: "Readings" })}
+                </Text>
+                {readings ? (
+                  <Text style={{ marginTop: 4 }}>
+                    <Text style={{ fontWeight: "700" }}>
+                      {t("reading_gospel", { defaultValue: "Gospel" })}:{" "}
+                    </Text>
+                    {readings.gospel}
+                  </Text>
+                ) : null}
+                <Button
+                  mode="outlined"
+                  style={{ marginTop: 10 }}
+                  onPress={openReadings}
+                >
+                  Open USCCB Readings
+                </Button>
+              </Card.Content>
+            </Card>
+          ) : null}
+
+          {/* Bottom language + calendar selector */}
+          <Card style={cardStyle}>
             <Card.Content>
               <Text
                 variant="labelLarge"
@@ -114,9 +409,35 @@ export default function HomeScreen() {
                   </Button>
                 ))}
               </View>
+
+              <Divider style={{ marginVertical: 10 }} />
+
+              <Text variant="labelLarge" style={{ fontWeight: "700" }}>
+                {t("calendar_profile", { defaultValue: "Calendar" })}
+              </Text>
+              <Text style={{ opacity: 0.7, fontSize: 12, marginBottom: 8 }}>
+                {t("calendar_profile_hint", {
+                  defaultValue:
+                    "Sets national feasts and whether Epiphany, Ascension and Corpus Christi move to Sunday.",
+                })}
+              </Text>
+
+              <View style={{ flexDirection: "row", flexWrap: "wrap" }}>
+                {CALENDAR_PROFILES.map((p) => (
+                  <Button
+                    key={p.id}
+                    compact
+                    mode={profile === p.id ? "contained" : "text"}
+                    onPress={() => onChangeProfile(p.id)}
+                    style={{ marginRight: 8, marginBottom: 6 }}
+                  >
+                    {t(`calendar_profile_${p.id}`)}
+                  </Button>
+                ))}
+              </View>
             </Card.Content>
           </Card>
-        </View>
+        </ScrollView>
       </SafeAreaView>
     </ImageBackground>
   );
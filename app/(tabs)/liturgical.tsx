@@ -1,181 +1,85 @@
 // app/(tabs)/liturgical.tsx
 //
-// Liturgical tab = season cycle + major celebrations (NOT saints, NOT novenas).
+// Liturgical tab = the Roman Calendar day by day (NOT novenas).
 // Goal: show IMPORTANT liturgical dates and Sundays that define the Church year.
-
-import React, { useMemo, useState, useCallback } from "react";
+// - Every day comes from utils/liturgicalCalendar.ts (season, week, psalter, color)
+// - Resolved for the user's calendar profile (national feasts + transfers)
+// - Badges only for memorials and above; optional memorials stay in the modal
+// - Month grid or agenda list (per-tab toggle); the agenda lists the same
+//   badge-worthy days
+// - Lectionary cycles + bundled citations (utils/lectionary.ts) work offline;
+//   the USCCB link stays for full texts and weekday readings
+// - 1962 Missal profile: Class I–IV badges, its own season legend, and no
+//   psalter week, readings or USCCB link (that lectionary is not bundled)
+
+import React, { useState, useCallback, useMemo } from "react";
 import { Linking } from "react-native";
 import { LinearGradient } from "expo-linear-gradient";
+import { useRouter } from "expo-router";
 import { Portal, Modal, Card, Text, Divider, Button } from "react-native-paper";
 import { useTranslation } from "react-i18next";
 
 import { MonthGrid } from "@/components/MonthGrid";
-import { SeasonLegend } from "@/components/SeasonLegend";
+import { AgendaList, type AgendaEntry } from "@/components/AgendaList";
+import {
+  CalendarViewToggle,
+  changeCalendarView,
+  useCalendarViewMode,
+} from "@/components/CalendarViewToggle";
+import { SeasonLegend, TRADITIONAL_SEASONS } from "@/components/SeasonLegend";
+import { usePersistedStore } from "@/hooks/use-persisted-store";
 
 import {
-  computeMovableFeastsForYear,
-  type MovableObservance,
-  type LiturgicalRank,
-  type LiturgicalSeason,
-} from "../../utils/movableFeastsRules";
+  getLiturgicalDay,
+  type Celebration,
+  type LiturgicalDay,
+} from "../../utils/liturgicalCalendar";
+import { type LiturgicalRank } from "../../utils/movableFeastsRules";
+import { calendarProfileStore } from "../../utils/calendarProfileStore";
+import { isTraditionalProfile } from "../../utils/calendarProfiles";
+import { getLectionaryDay, usccbReadingsUrl } from "../../utils/lectionary";
 
 import { AppTheme, seasonOutlineColor } from "../../utils/theme";
 
-type SelectedDay = {
-  dateKey: string; // YYYY-MM-DD
-  entries: MovableObservance[];
-};
-
-function pad2(n: number) {
-  return String(n).padStart(2, "0");
-}
-
-/**
- * USCCB Readings URL builder.
- * Typical format: https://bible.usccb.org/bible/readings/MMDDYY.cfm
- * Christmas Day often has a "-Day" page; we special-case it.
- */
-function usccbReadingsUrl(dateKey: string): string {
-  const [y, m, d] = dateKey.split("-").map((x) => parseInt(x, 10));
-  const yy = String(y).slice(-2);
-  const mm = pad2(m);
-  const dd = pad2(d);
-
-  if (m === 12 && d === 25) {
-    return `https://bible.usccb.org/bible/readings/${mm}${dd}${yy}-Day.cfm`;
-  }
-  return `https://bible.usccb.org/bible/readings/${mm}${dd}${yy}.cfm`;
-}
-
-function rankWeight(rank: LiturgicalRank): number {
-  switch (rank) {
-    case "Triduum":
-      return 7;
-    case "Solemnity":
-      return 6;
-    case "Sunday":
-      return 5;
-    case "Feast":
-      return 4;
-    case "Memorial":
-      return 3;
-    case "Optional Memorial":
-      return 2;
-    case "Weekday":
-    default:
-      return 1;
-  }
-}
-
-function toneForRank(rank: LiturgicalRank): "primary" | "secondary" | "none" {
+function toneForRank(
+  rank: LiturgicalRank,
+  source: Celebration["source"],
+): "primary" | "secondary" | "none" {
   switch (rank) {
     case "Triduum":
     case "Solemnity":
+    case "Class I":
       return "primary";
     case "Sunday":
     case "Feast":
     case "Memorial":
-    case "Optional Memorial":
+    case "Class II":
       return "secondary";
+    case "Class III":
+      // Class III feasts, not the ferias of Lent and Advent
+      return source === "temporal" ? "none" : "secondary";
+    case "Optional Memorial":
     case "Weekday":
     default:
       return "none";
   }
 }
 
-function shortBadge(m: MovableObservance): string {
+function shortBadge(m: { rank: LiturgicalRank; title: string }): string {
   const title =
     m.title.length > 18 ? `${m.title.slice(0, 18).trim()}…` : m.title;
   return `${m.rank}: ${title}`;
 }
 
-/**
- * Build a "best-guess season" resolver.
- * Uses season markers (kind === "SeasonMarker") from movableFeastsRules.
- * For any dateKey, returns the last marker <= dateKey.
- */
-function buildSeasonResolver(calendarMap: Record<string, MovableObservance[]>) {
-  const markers: Array<{ dateKey: string; season: LiturgicalSeason }> = [];
-
-  for (const [dateKey, arr] of Object.entries(calendarMap)) {
-    for (const e of arr) {
-      if (e.kind === "SeasonMarker" && e.season) {
-        markers.push({ dateKey, season: e.season });
-      }
-    }
-  }
-
-  markers.sort((a, b) => a.dateKey.localeCompare(b.dateKey));
-
-  return (dateKey: string): LiturgicalSeason | undefined => {
-    let lo = 0;
-    let hi = markers.length - 1;
-    let best: LiturgicalSeason | undefined = undefined;
-
-    while (lo <= hi) {
-      const mid = (lo + hi) >> 1;
-      const m = markers[mid];
-      if (m.dateKey <= dateKey) {
-        best = m.season;
-        lo = mid + 1;
-      } else {
-        hi = mid - 1;
-      }
-    }
-    return best;
-  };
-}
-
 export default function LiturgicalScreen() {
   const { t } = useTranslation();
+  const router = useRouter();
 
   const [currentDate, setCurrentDate] = useState(() => new Date());
-  const [selected, setSelected] = useState<SelectedDay | null>(null);
-
-  const year = currentDate.getFullYear();
-
-  // Cross-year: prev/current/next so late-Dec / early-Jan works
-  const calendarMap = useMemo(() => {
-    const prev = computeMovableFeastsForYear(year - 1);
-    const cur = computeMovableFeastsForYear(year);
-    const next = computeMovableFeastsForYear(year + 1);
-
-    const out: Record<string, MovableObservance[]> = {};
-
-    const merge = (m: Record<string, MovableObservance[]>) => {
-      for (const [k, arr] of Object.entries(m)) {
-        if (!out[k]) out[k] = [];
-        out[k].push(...arr);
-      }
-    };
-
-    merge(prev);
-    merge(cur);
-    merge(next);
-
-    // De-dupe and sort by importance
-    for (const k of Object.keys(out)) {
-      const seen = new Set<string>();
-      out[k] = out[k]
-        .filter((x) => {
-          if (seen.has(x.id)) return false;
-          seen.add(x.id);
-          return true;
-        })
-        .sort((a, b) => {
-          const dw = rankWeight(b.rank) - rankWeight(a.rank);
-          if (dw !== 0) return dw;
-          return a.title.localeCompare(b.title);
-        });
-    }
-
-    return out;
-  }, [year]);
-
-  const resolveSeason = useMemo(
-    () => buildSeasonResolver(calendarMap),
-    [calendarMap],
-  );
+  const [selected, setSelected] = useState<LiturgicalDay | null>(null);
+  const profile = usePersistedStore(calendarProfileStore);
+  const traditional = isTraditionalProfile(profile);
+  const viewMode = useCalendarViewMode("liturgical");
 
   const openReadings = useCallback(async (dateKey: string) => {
     const url = usccbReadingsUrl(dateKey);
@@ -190,66 +94,133 @@ export default function LiturgicalScreen() {
 
   const getDayMeta = useCallback(
     (dateKey: string) => {
-      const entries = calendarMap[dateKey] ?? [];
-      const hasAny = entries.length > 0;
-
-      // Prefer explicit season on the top entry; otherwise infer from season markers.
-      const season = hasAny ? entries[0]?.season : resolveSeason(dateKey);
+      const day = getLiturgicalDay(dateKey, profile);
+      const top = day.celebrations[0];
       const outlineColor =
-        seasonOutlineColor(season) ?? AppTheme.outlineFallback;
+        seasonOutlineColor(day.season) ?? AppTheme.outlineFallback;
 
-      if (hasAny) {
-        const top = entries[0];
-        const thick =
-          top.rank === "Triduum" || top.rank === "Solemnity" ? 3 : 2;
+      const tone = toneForRank(top.rank, top.source);
+      if (tone !== "none") {
+        const thick = tone === "primary" ? 3 : 2;
 
         return {
           hasEvent: true,
-          tone: toneForRank(top.rank),
+          tone,
           badgeText: shortBadge(top),
+          title: `${top.rank}: ${top.title}`,
           outlineColor,
           outlineWidth: thick,
         };
       }
 
-      // “Empty” day: still tappable; show readings cue
+      // Weekday / optional memorial: still tappable; show readings cue
       return {
         hasEvent: true,
         tone: "none" as const,
-        badgeText: "📖",
+        badgeText: traditional ? null : "📖",
         outlineColor,
         outlineWidth: 2,
       };
     },
-    [calendarMap, resolveSeason],
+    [profile, traditional],
+  );
+
+  const getAgendaEntry = useCallback(
+    (dateKey: string): AgendaEntry | null => {
+      const day = getLiturgicalDay(dateKey, profile);
+      const top = day.celebrations[0];
+      const tone = toneForRank(top.rank, top.source);
+      if (tone === "none") return null;
+
+      return {
+        title: `${top.rank}: ${top.title}`,
+        subtitle: t("liturgical_season_week", {
+          defaultValue: "{{season}}, week {{week}}",
+          season: day.season,
+          week: day.seasonWeek,
+        }),
+        tone,
+        outlineColor:
+          seasonOutlineColor(day.season) ?? AppTheme.outlineFallback,
+      };
+    },
+    [profile, t],
   );
 
   const onPressDate = useCallback(
     (dateKey: string) => {
-      setSelected({
-        dateKey,
-        entries: calendarMap[dateKey] ?? [],
-      });
+      setSelected(getLiturgicalDay(dateKey, profile));
     },
-    [calendarMap],
+    [profile],
   );
 
-  const selectedDateKey = selected?.dateKey ?? null;
-  const entries = selected?.entries ?? [];
+  const entries = selected?.celebrations ?? [];
+
+  const lectionary = useMemo(
+    () => (selected ? getLectionaryDay(selected.date, profile) : null),
+    [selected, profile],
+  );
+  const readings = lectionary?.readings ?? null;
+
+  const statusNote = (c: Celebration): string | null => {
+    if (c.transferredFrom) {
+      return t("liturgical_transferred_from", {
+        defaultValue: "transferred from {{date}}",
+        date: c.transferredFrom,
+      });
+    }
+    switch (c.status) {
+      case "optional":
+        return t("liturgical_status_optional", { defaultValue: "optional" });
+      case "commemorated":
+        return t("liturgical_status_commemorated", {
+          defaultValue: "commemoration",
+        });
+      case "transferred":
+        return t("liturgical_transferred_to", {
+          defaultValue: "transferred to {{date}}",
+          date: c.transferredTo,
+        });
+      case "suppressed":
+        return t("liturgical_status_suppressed", {
+          defaultValue: "not celebrated this year",
+        });
+      default:
+        return null;
+    }
+  };
 
   return (
     <LinearGradient colors={[...AppTheme.gradients.main]} style={{ flex: 1 }}>
-      <MonthGrid
-        currentDate={currentDate}
-        onChangeDate={setCurrentDate}
-        onPressDate={onPressDate}
-        onLongPressDate={openReadings}
-        getDayMeta={getDayMeta}
-        headerTitle={t("liturgical")}
+      {viewMode === "agenda" ? (
+        <AgendaList
+          year={currentDate.getFullYear()}
+          getEntry={getAgendaEntry}
+          onPressDate={onPressDate}
+          onLongPressDate={traditional ? undefined : openReadings}
+          onTodayOutsideWindow={() => setCurrentDate(new Date())}
+          headerTitle={t("liturgical")}
+          toolbar={<CalendarViewToggle tab="liturgical" />}
+        />
+      ) : (
+        <MonthGrid
+          currentDate={currentDate}
+          onChangeDate={setCurrentDate}
+          onPressDate={onPressDate}
+          onLongPressDate={traditional ? undefined : openReadings}
+          getDayMeta={getDayMeta}
+          headerTitle={t("liturgical")}
+          toolbar={<CalendarViewToggle tab="liturgical" />}
+          view={viewMode}
+          onChangeView={(v) => changeCalendarView("liturgical", v)}
+        />
+      )}
+
+      <SeasonLegend
+        seasons={traditional ? TRADITIONAL_SEASONS : undefined}
+        style={{ marginBottom: 12 }}
       />
 
-      <SeasonLegend style={{ marginBottom: 12 }} />
-
       <Portal>
         <Modal
           visible={!!selected}
@@ -261,22 +232,103 @@ export default function LiturgicalScreen() {
             padding: 20,
           }}
         >
-          {!selectedDateKey ? null : (
+          {!selected ? null : (
             <Card style={{ borderRadius: 20 }}>
               <Card.Content>
                 <Text variant="titleLarge" style={{ fontWeight: "800" }}>
-                  {selectedDateKey}
+                  {selected.date}
                 </Text>
 
+                <Text style={{ marginTop: 6, opacity: 0.8 }}>
+                  {t("liturgical_season_week", {
+                    defaultValue: "{{season}}, week {{week}}",
+                    season: selected.season,
+                    week: selected.seasonWeek,
+                  })}
+                </Text>
+                <Text style={{ marginTop: 2, opacity: 0.8 }}>
+                  {selected.psalterWeek !== null ? (
+                    <>
+                      {t("liturgical_psalter_week", {
+                        defaultValue: "Psalter week {{week}}",
+                        week: selected.psalterWeek,
+                      })}
+                      {" · "}
+                    </>
+                  ) : null}
+                  {t("liturgical_color", {
+                    defaultValue: "Color: {{color}}",
+                    color: selected.color,
+                  })}
+                </Text>
+                {lectionary ? (
+                  <Text style={{ marginTop: 2, opacity: 0.8 }}>
+                    {t("lectionary_cycles", {
+                      defaultValue:
+                        "Sunday cycle {{sunday}} · Weekday cycle {{weekday}}",
+                      sunday: lectionary.sundayCycle,
+                      weekday: lectionary.weekdayCycle,
+                    })}
+                  </Text>
+                ) : null}
+
                 <Divider style={{ marginTop: 12 }} />
 
-                <Button
-                  mode="contained"
-                  style={{ marginTop: 12 }}
-                  onPress={() => openReadings(selectedDateKey)}
-                >
-                  Open USCCB Readings
-                </Button>
+                {!lectionary ? null : readings ? (
+                  <>
+                    <Text style={{ marginTop: 12, fontWeight: "800" }}>
+                      {t("readings_title", { defaultValue: "Readings" })}
+                    </Text>
+                    {[
+                      {
+                        label: t("reading_first", {
+                          defaultValue: "First Reading",
+                        }),
+                        cite: readings.first,
+                      },
+                      {
+                        label: t("reading_psalm", {
+                          defaultValue: "Responsorial Psalm",
+                        }),
+                        cite: readings.psalm,
+                      },
+                      {
+                        label: t("reading_second", {
+                          defaultValue: "Second Reading",
+                        }),
+                        cite: readings.second,
+                      },
+                      {
+                        label: t("reading_gospel", { defaultValue: "Gospel" }),
+                        cite: readings.gospel,
+                      },
+                    ]
+                      .filter((r) => !!r.cite)
+                      .map((r) => (
+                        <Text key={r.label} style={{ marginTop: 6 }}>
+                          <Text style={{ fontWeight: "700" }}>{r.label}: </Text>
+                          {r.cite}
+                        </Text>
+                      ))}
+                  </>
+                ) : (
+                  <Text style={{ marginTop: 12, opacity: 0.7 }}>
+                    {t("readings_not_bundled", {
+                      defaultValue:
+                        "Readings for this day are not included offline.",
+                    })}
+                  </Text>
+                )}
+
+                {lectionary ? (
+                  <Button
+                    mode="contained"
+                    style={{ marginTop: 12 }}
+                    onPress={() => openReadings(selected.date)}
+                  >
+                    Open USCCB Readings
+                  </Button>
+                ) : null}
 
                 {entries.length > 0 ? (
                   <>
@@ -285,11 +337,30 @@ export default function LiturgicalScreen() {
                     </Text>
                     <Divider style={{ marginTop: 8 }} />
 
-                    {entries.map((m) => (
-                      <Text key={m.id} style={{ marginTop: 10, opacity: 0.9 }}>
-                        • {m.rank}: {m.title}
-                      </Text>
-                    ))}
+                    {entries.map((m) => {
+                      const note = [
+                        m.source === "proper"
+                          ? t("liturgical_proper", {
+                              defaultValue: "national calendar",
+                            })
+                          : null,
+                        statusNote(m),
+                      ]
+                        .filter(Boolean)
+                        .join(", ");
+                      return (
+                        <Text
+                          key={`${m.id}:${m.status}`}
+                          style={{
+                            marginTop: 10,
+                            opacity: m.status === "suppressed" ? 0.55 : 0.9,
+                          }}
+                        >
+                          • {m.rank}: {m.title}
+                          {note ? ` (${note})` : ""}
+                        </Text>
+                      );
+                    })}
                   </>
                 ) : (
                   <Text style={{ marginTop: 14, opacity: 0.7 }}>
@@ -297,9 +368,23 @@ export default function LiturgicalScreen() {
                   </Text>
                 )}
 
-                <Text style={{ marginTop: 10, opacity: 0.65, fontSize: 12 }}>
-                  Tip: Long-press any date to jump straight to readings.
-                </Text>
+                {lectionary ? (
+                  <Text style={{ marginTop: 10, opacity: 0.65, fontSize: 12 }}>
+                    Tip: Long-press any date to jump straight to readings.
+                  </Text>
+                ) : null}
+
+                <Button
+                  mode="outlined"
+                  style={{ marginTop: 16 }}
+                  onPress={() => {
+                    const date = selected.date;
+                    setSelected(null);
+                    router.push({ pathname: "/day/[date]", params: { date } });
+                  }}
+                >
+                  {t("day_open", { defaultValue: "Open full day" })}
+                </Button>
 
                 <Button
                   mode="text"
@@ -9,10 +9,12 @@
 // - Season-colored outline for EVERY day (so grid always looks alive)
 // - Stronger outline when novena starts; medium when feast exists
 // - Shows SeasonLegend at bottom
-//
-// ✅ Runtime hardening:
-// - buildCalendarMapsForYear may return Map OR plain object
-// - Avoids crash: "src.entries is not a function"
+// - Dates follow the user's calendar profile (Ascension, national feasts)
+// - Month grid or agenda list (per-tab toggle, persisted)
+// - Filter chips (category / tag / duration) hide non-matching novenas from
+//   the badges and the day modal; the selection is persisted
+// - Maps cover the agenda window (year-1 .. year+1); runs straddling New
+//   Year appear once, and the day modal opens that specific run
 
 import React, { useMemo, useState, useCallback } from "react";
 import { LinearGradient } from "expo-linear-gradient";
@@ -21,65 +23,40 @@ import { Portal, Modal, Card, Text, Divider, Button } from "react-native-paper";
 import { useTranslation } from "react-i18next";
 
 import { MonthGrid } from "@/components/MonthGrid";
-import { SeasonLegend } from "@/components/SeasonLegend";
-
-import { buildCalendarMapsForYear } from "../../data/calendar";
-
+import { AgendaList, type AgendaEntry } from "@/components/AgendaList";
 import {
-  computeMovableFeastsForYear,
-  type MovableObservance,
-  type LiturgicalSeason,
-} from "../../utils/movableFeastsRules";
+  CalendarViewToggle,
+  changeCalendarView,
+  useCalendarViewMode,
+} from "@/components/CalendarViewToggle";
+import { SeasonLegend, TRADITIONAL_SEASONS } from "@/components/SeasonLegend";
+import { NovenaFilterBar } from "@/components/NovenaFilterBar";
+import { usePersistedStore } from "@/hooks/use-persisted-store";
+
+import { NOVENAS, buildCalendarMapsForRange } from "../../data/calendar";
+
+import { getLiturgicalDay } from "../../utils/liturgicalCalendar";
+import { calendarProfileStore } from "../../utils/calendarProfileStore";
+import { isTraditionalProfile } from "../../utils/calendarProfiles";
+import { agendaWindow } from "../../utils/calendarViewMode";
+import {
+  filterableTags,
+  hasActiveFilters,
+  matchesNovenaFilters,
+  novenaFiltersStore,
+} from "../../utils/novenaFilters";
+import type { NovenaInstance } from "../../utils/novenasRules";
 
 import { AppTheme, seasonOutlineColor } from "../../utils/theme";
 
-// Local type to avoid depending on a named export that may not exist.
-type CalendarEntry = {
-  id: string;
-  title: string;
-  startDate?: string; // YYYY-MM-DD
-  feastDate?: string; // YYYY-MM-DD
-};
-
 type SelectedDay = {
   dateKey: string;
-  starts: CalendarEntry[];
-  feasts: CalendarEntry[];
+  starts: NovenaInstance[];
+  feasts: NovenaInstance[];
+  hidden: number; // entries on this day the active filters leave out
 };
 
-/**
- * Build a "best-guess season" resolver using season markers.
- */
-function buildSeasonResolver(calendarMap: Record<string, MovableObservance[]>) {
-  const markers: Array<{ dateKey: string; season: LiturgicalSeason }> = [];
-
-  for (const [dateKey, arr] of Object.entries(calendarMap)) {
-    for (const e of arr) {
-      if (e.kind === "SeasonMarker" && e.season) {
-        markers.push({ dateKey, season: e.season });
-      }
-    }
-  }
-
-  markers.sort((a, b) => a.dateKey.localeCompare(b.dateKey));
-
-  return (dateKey: string): LiturgicalSeason | undefined => {
-    let lo = 0;
-    let hi = markers.length - 1;
-    let best: LiturgicalSeason | undefined;
-
-    while (lo <= hi) {
-      const mid = (lo + hi) >> 1;
-      if (markers[mid].dateKey <= dateKey) {
-        best = markers[mid].season;
-        lo = mid + 1;
-      } else {
-        hi = mid - 1;
-      }
-    }
-    return best;
-  };
-}
+const FILTER_TAGS = filterableTags(NOVENAS);
 
 function shortTitle(s: string, max = 18) {
   const t = (s ?? "").trim();
@@ -87,105 +64,41 @@ function shortTitle(s: string, max = 18) {
   return t.length > max ? `${t.slice(0, max).trim()}…` : t;
 }
 
-/**
- * Normalize Map | object → Map
- */
-function toMap(src: any): Map<string, CalendarEntry[]> {
-  if (!src) return new Map();
-  if (src instanceof Map) return src;
-
-  if (typeof src === "object") {
-    const m = new Map<string, CalendarEntry[]>();
-    for (const [k, v] of Object.entries(src)) {
-      if (Array.isArray(v)) m.set(k, v as CalendarEntry[]);
-    }
-    return m;
-  }
-  return new Map();
-}
-
 export default function NovenasScreen() {
   const { t } = useTranslation();
   const router = useRouter();
 
   const [currentDate, setCurrentDate] = useState(() => new Date());
   const [selected, setSelected] = useState<SelectedDay | null>(null);
+  const profile = usePersistedStore(calendarProfileStore);
+  const filters = usePersistedStore(novenaFiltersStore);
+  const viewMode = useCalendarViewMode("novenas");
 
   const year = currentDate.getFullYear();
 
   const { startsMap, feastsMap } = useMemo(() => {
-    if (typeof buildCalendarMapsForYear !== "function") {
-      throw new Error(
-        "[NovenasScreen] buildCalendarMapsForYear is not a function",
-      );
-    }
-
-    const prev = buildCalendarMapsForYear(year - 1);
-    const cur = buildCalendarMapsForYear(year);
-    const next = buildCalendarMapsForYear(year + 1);
-
-    const s = new Map<string, CalendarEntry[]>();
-    const f = new Map<string, CalendarEntry[]>();
-
-    const merge = (srcLike: any, dest: Map<string, CalendarEntry[]>) => {
-      const src = toMap(srcLike);
-      for (const [k, arr] of src.entries()) {
-        if (!dest.has(k)) dest.set(k, []);
-        dest.get(k)!.push(...arr);
-      }
-    };
-
-    merge(prev?.startsMap, s);
-    merge(cur?.startsMap, s);
-    merge(next?.startsMap, s);
-
-    merge(prev?.feastsMap, f);
-    merge(cur?.feastsMap, f);
-    merge(next?.feastsMap, f);
-
-    for (const arr of s.values()) {
-      arr.sort((a, b) => (a.title || "").localeCompare(b.title || ""));
-    }
-    for (const arr of f.values()) {
-      arr.sort((a, b) => (a.title || "").localeCompare(b.title || ""));
-    }
-
-    return { startsMap: s, feastsMap: f };
-  }, [year]);
-
-  const liturgicalMap = useMemo(() => {
-    const prev = computeMovableFeastsForYear(year - 1);
-    const cur = computeMovableFeastsForYear(year);
-    const next = computeMovableFeastsForYear(year + 1);
-
-    const out: Record<string, MovableObservance[]> = {};
-    const merge = (m: Record<string, MovableObservance[]>) => {
-      for (const [k, arr] of Object.entries(m)) {
-        if (!out[k]) out[k] = [];
-        out[k].push(...arr);
-      }
-    };
-
-    merge(prev);
-    merge(cur);
-    merge(next);
-    return out;
-  }, [year]);
-
-  const resolveSeason = useMemo(
-    () => buildSeasonResolver(liturgicalMap),
-    [liturgicalMap],
+    const { start, end } = agendaWindow(year);
+    return buildCalendarMapsForRange(start, end, profile);
+  }, [year, profile]);
+
+  const entriesOn = useCallback(
+    (map: Map<string, NovenaInstance[]>, dateKey: string) => {
+      const all = map.get(dateKey) ?? [];
+      if (!hasActiveFilters(filters)) return all;
+      return all.filter((n) => matchesNovenaFilters(n, filters));
+    },
+    [filters],
   );
 
   const getDayMeta = useCallback(
     (dateKey: string) => {
-      const starts = startsMap.get(dateKey) ?? [];
-      const feasts = feastsMap.get(dateKey) ?? [];
+      const starts = entriesOn(startsMap, dateKey);
+      const feasts = entriesOn(feastsMap, dateKey);
 
       const hasStart = starts.length > 0;
       const hasFeast = feasts.length > 0;
 
-      const season = resolveSeason(dateKey);
+      const season = getLiturgicalDay(dateKey, profile).season;
       const outlineColor =
         seasonOutlineColor(season) ?? AppTheme.outlineFallback;
 
@@ -194,6 +107,7 @@ export default function NovenasScreen() {
           hasEvent: true,
           tone: "primary" as const,
           badgeText: shortTitle(starts[0].title),
+          title: starts.map((n) => n.title).join(" · "),
           outlineColor,
           outlineWidth: 3,
         };
@@ -204,6 +118,7 @@ export default function NovenasScreen() {
           hasEvent: true,
           tone: "secondary" as const,
           badgeText: shortTitle(`${t("badge_feast_prefix")}${feasts[0].title}`),
+          title: `${t("badge_feast_prefix")}${feasts.map((f) => f.title).join(" · ")}`,
           outlineColor,
           outlineWidth: 2,
         };
@@ -217,34 +132,94 @@ export default function NovenasScreen() {
         outlineWidth: 2,
       };
     },
-    [startsMap, feastsMap, t, resolveSeason],
+    [startsMap, feastsMap, entriesOn, profile, t],
+  );
+
+  const getAgendaEntry = useCallback(
+    (dateKey: string): AgendaEntry | null => {
+      const starts = entriesOn(startsMap, dateKey);
+      const feasts = entriesOn(feastsMap, dateKey);
+      if (starts.length === 0 && feasts.length === 0) return null;
+
+      const season = getLiturgicalDay(dateKey, profile).season;
+      const outlineColor =
+        seasonOutlineColor(season) ?? AppTheme.outlineFallback;
+      const feastLine =
+        feasts.length > 0
+          ? `${t("badge_feast_prefix")}${feasts.map((f) => f.title).join(" · ")}`
+          : null;
+
+      if (starts.length > 0) {
+        return {
+          title: starts.map((n) => n.title).join(" · "),
+          subtitle: feastLine,
+          tone: "primary",
+          outlineColor,
+        };
+      }
+      return { title: feastLine!, tone: "secondary", outlineColor };
+    },
+    [startsMap, feastsMap, entriesOn, profile, t],
   );
 
   const onPressDate = useCallback(
     (dateKey: string) => {
+      const starts = entriesOn(startsMap, dateKey);
+      const feasts = entriesOn(feastsMap, dateKey);
+      const total =
+        (startsMap.get(dateKey)?.length ?? 0) +
+        (feastsMap.get(dateKey)?.length ?? 0);
       setSelected({
         dateKey,
-        starts: startsMap.get(dateKey) ?? [],
-        feasts: feastsMap.get(dateKey) ?? [],
+        starts,
+        feasts,
+        hidden: total - starts.length - feasts.length,
       });
     },
-    [startsMap, feastsMap],
+    [startsMap, feastsMap, entriesOn],
   );
 
   const starts = selected?.starts ?? [];
   const feasts = selected?.feasts ?? [];
+  const hidden = selected?.hidden ?? 0;
 
   return (
     <LinearGradient colors={[...AppTheme.gradients.main]} style={{ flex: 1 }}>
-      <MonthGrid
-        currentDate={currentDate}
-        onChangeDate={setCurrentDate}
-        onPressDate={onPressDate}
-        getDayMeta={getDayMeta}
-        headerTitle={t("novenas")}
+      {viewMode === "agenda" ? (
+        <AgendaList
+          year={year}
+          getEntry={getAgendaEntry}
+          onPressDate={onPressDate}
+          onTodayOutsideWindow={() => setCurrentDate(new Date())}
+          headerTitle={t("novenas")}
+          toolbar={<CalendarViewToggle tab="novenas" />}
+        />
+      ) : (
+        <MonthGrid
+          currentDate={currentDate}
+          onChangeDate={setCurrentDate}
+          onPressDate={onPressDate}
+          getDayMeta={getDayMeta}
+          headerTitle={t("novenas")}
+          toolbar={<CalendarViewToggle tab="novenas" />}
+          view={viewMode}
+          onChangeView={(v) => changeCalendarView("novenas", v)}
+        />
+      )}
+
+      <NovenaFilterBar
+        filters={filters}
+        tags={FILTER_TAGS}
+        onExport={() => router.push("/export")}
+        style={{ marginBottom: 8 }}
       />
 
-      <SeasonLegend style={{ marginBottom: 12 }} />
+      <SeasonLegend
+        seasons={
+          isTraditionalProfile(profile) ? TRADITIONAL_SEASONS : undefined
+        }
+        style={{ marginBottom: 12 }}
+      />
 
       <Portal>
         <Modal
@@ -286,7 +261,7 @@ export default function NovenasScreen() {
                               setSelected(null);
                               router.push({
                                 pathname: "/novena/[id]",
-                                params: { id: n.id, date },
+                                params: { id: n.id, date, run: n.instanceId },
                               });
                             }}
                           >
@@ -312,6 +287,24 @@ export default function NovenasScreen() {
                   </>
                 )}
 
+                {hidden > 0 ? (
+                  <Text style={{ marginTop: 12, opacity: 0.6 }}>
+                    {t("filter_hidden_count", { count: hidden })}
+                  </Text>
+                ) : null}
+
+                <Button
+                  mode="outlined"
+                  style={{ marginTop: 16 }}
+                  onPress={() => {
+                    const date = selected.dateKey;
+                    setSelected(null);
+                    router.push({ pathname: "/day/[date]", params: { date } });
+                  }}
+                >
+                  {t("day_open", { defaultValue: "Open full day" })}
+                </Button>
+
                 <Button
                   mode="text"
                   style={{ marginTop: 16 }}
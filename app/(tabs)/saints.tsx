@@ -3,118 +3,71 @@
 // Saints tab = saints-only.
 // - data/saints_index.json => "primary saint" per MM-DD (button to /saint/[id])
 // - data/saints_by_mmdd.json => saints[] list only (other saints)
+//   (both read through utils/saintsOfDay.ts, shared with /day/[date])
 // - DOES NOT use movable feasts rules for saints data,
 //   BUT we DO use movable feasts rules for SEASON coloring (outlines + legend).
+// - National proper celebrations of the user's calendar profile
+//   (e.g. Our Lady of Częstochowa in Poland) come from the liturgical engine.
+// - 1962 Missal profile: the engine's 1962 sanctoral (feasts and
+//   commemorations) takes that place, with the 1962 season legend.
 //
 // ✅ UI rules here:
 // - Uses Sanctuary gradient (AppTheme)
 // - Season-colored outline for EVERY day (so grid always looks alive)
 // - Stronger outline when there is at least one saint entry
 // - Shows SeasonLegend at bottom
+// - Month grid or agenda list (per-tab toggle, persisted)
 
-import React, { useMemo, useState, useCallback } from "react";
+import React, { useState, useCallback } from "react";
 import { LinearGradient } from "expo-linear-gradient";
 import { useRouter } from "expo-router";
 import { Portal, Modal, Card, Text, Divider, Button } from "react-native-paper";
 import { useTranslation } from "react-i18next";
 
 import { MonthGrid } from "@/components/MonthGrid";
-import { SeasonLegend } from "@/components/SeasonLegend";
-
-import saintsIndex from "../../data/saints_index.json";
-import saintsByMmdd from "../../data/saints_by_mmdd.json";
+import { AgendaList, type AgendaEntry } from "@/components/AgendaList";
+import {
+  CalendarViewToggle,
+  changeCalendarView,
+  useCalendarViewMode,
+} from "@/components/CalendarViewToggle";
+import { SeasonLegend, TRADITIONAL_SEASONS } from "@/components/SeasonLegend";
+import { usePersistedStore } from "@/hooks/use-persisted-store";
 
 import {
-  computeMovableFeastsForYear,
-  type MovableObservance,
-  type LiturgicalSeason,
-} from "../../utils/movableFeastsRules";
+  getLiturgicalDay,
+  type Celebration,
+} from "../../utils/liturgicalCalendar";
+import { calendarProfileStore } from "../../utils/calendarProfileStore";
+import { isTraditionalProfile } from "../../utils/calendarProfiles";
+import { getSaintsOfDay, type SaintIndexEntry } from "../../utils/saintsOfDay";
 
 import { AppTheme, seasonOutlineColor } from "../../utils/theme";
 
-type SaintIndexEntry = {
-  id: string;
-  name: string;
-  mmdd: string; // "01-08"
-  feast?: string | null;
-};
-
-type DaySaints = {
-  feast: string | null;
-  saints: string[];
-  featuredSaint?: string | null;
-};
-
 type SelectedDay = {
   dateKey: string; // YYYY-MM-DD
   mmdd: string; // MM-DD
   feast: string | null;
   primary: SaintIndexEntry | null;
   saintsList: string[];
+  proper: Celebration[];
 };
 
-function toMmdd(dateKey: string) {
-  const parts = dateKey.split("-");
-  return `${parts[1]}-${parts[2]}`;
-}
-
-function normKey(s: string) {
-  return (s ?? "").trim().toLowerCase();
-}
-
-function isJunkSaintName(s: string) {
-  const t = normKey(s);
-  if (!t) return true;
-  if (t === "all saints for today") return true;
-  if (t === "all saints") return true;
-  if (t === "saint") return true;
-  if (t === "saints") return true;
-  return false;
-}
-
-function buildPrimaryIndexMap() {
-  const map = new Map<string, SaintIndexEntry>();
-  for (const e of saintsIndex as unknown as SaintIndexEntry[]) {
-    map.set(e.mmdd, e);
-  }
-  return map;
-}
-
 /**
- * Build a "best-guess season" resolver.
- * Uses season markers (kind === "SeasonMarker") from movableFeastsRules.
- * For any dateKey, returns the last marker <= dateKey.
+ * National celebrations kept (or optional) on the day; in the 1962 Missal,
+ * its saints kept or commemorated on the day.
  */
-function buildSeasonResolver(calendarMap: Record<string, MovableObservance[]>) {
-  const markers: Array<{ dateKey: string; season: LiturgicalSeason }> = [];
-
-  for (const [dateKey, arr] of Object.entries(calendarMap)) {
-    for (const e of arr) {
-      if (e.kind === "SeasonMarker" && e.season) {
-        markers.push({ dateKey, season: e.season });
-      }
-    }
-  }
-
-  markers.sort((a, b) => a.dateKey.localeCompare(b.dateKey));
-
-  return (dateKey: string): LiturgicalSeason | undefined => {
-    let lo = 0;
-    let hi = markers.length - 1;
-    let best: LiturgicalSeason | undefined = undefined;
-
-    while (lo <= hi) {
-      const mid = (lo + hi) >> 1;
-      const m = markers[mid];
-      if (m.dateKey <= dateKey) {
-        best = m.season;
-        lo = mid + 1;
-      } else {
-        hi = mid - 1;
-      }
-    }
-    return best;
-  };
+function properCelebrations(
+  celebrations: Celebration[],
+  traditional: boolean,
+): Celebration[] {
+  return celebrations.filter((c) =>
+    traditional
+      ? c.source === "sanctoral" &&
+        (c.status === "celebrated" || c.status === "commemorated")
+      : c.source === "proper" &&
+        (c.status === "celebrated" || c.status === "optional"),
+  );
 }
 
 export default function SaintsScreen() {
@@ -123,61 +76,27 @@ export default function SaintsScreen() {
 
   const [currentDate, setCurrentDate] = useState(() => new Date());
   const [selected, setSelected] = useState<SelectedDay | null>(null);
-
-  const primaryIndexMap = useMemo(() => buildPrimaryIndexMap(), []);
-
-  const year = currentDate.getFullYear();
-
-  // Cross-year liturgical map ONLY for season resolution + colored outlines
-  const liturgicalMap = useMemo(() => {
-    const prev = computeMovableFeastsForYear(year - 1);
-    const cur = computeMovableFeastsForYear(year);
-    const next = computeMovableFeastsForYear(year + 1);
-
-    const out: Record<string, MovableObservance[]> = {};
-    const merge = (m: Record<string, MovableObservance[]>) => {
-      for (const [k, arr] of Object.entries(m)) {
-        if (!out[k]) out[k] = [];
-        out[k].push(...arr);
-      }
-    };
-
-    merge(prev);
-    merge(cur);
-    merge(next);
-    return out;
-  }, [year]);
-
-  const resolveSeason = useMemo(
-    () => buildSeasonResolver(liturgicalMap),
-    [liturgicalMap],
-  );
+  const profile = usePersistedStore(calendarProfileStore);
+  const traditional = isTraditionalProfile(profile);
+  const viewMode = useCalendarViewMode("saints");
 
   const getDayMeta = useCallback(
     (dateKey: string) => {
-      const md = toMmdd(dateKey);
-
-      const primary = primaryIndexMap.get(md) ?? null;
-      const dayInfo = (saintsByMmdd as unknown as Record<string, DaySaints>)[
-        md
-      ];
+      const { primary, others: saintsList } = getSaintsOfDay(dateKey);
 
-      let saintsList = (dayInfo?.saints ?? [])
-        .map((s) => (s ?? "").trim())
-        .filter((s) => !isJunkSaintName(s));
-
-      if (primary?.name) {
-        const pk = normKey(primary.name);
-        saintsList = saintsList.filter((s) => normKey(s) !== pk);
-      }
+      const day = getLiturgicalDay(dateKey, profile);
+      const proper = properCelebrations(day.celebrations, traditional);
 
       const label =
-        primary?.name ?? (saintsList.length > 0 ? saintsList[0] : null) ?? null;
+        proper[0]?.title ??
+        primary?.name ??
+        (saintsList.length > 0 ? saintsList[0] : null) ??
+        null;
 
-      const hasAny = !!primary || saintsList.length > 0;
+      const hasAny = !!primary || saintsList.length > 0 || proper.length > 0;
 
       // Season-colored outline for EVERY day
-      const season = resolveSeason(dateKey);
+      const season = day.season;
       const outlineColor =
         seasonOutlineColor(season) ?? AppTheme.outlineFallback;
 
@@ -188,60 +107,93 @@ export default function SaintsScreen() {
         hasEvent: true,
         tone: hasAny ? "secondary" : "none",
         badgeText: label ?? "·",
+        title: [label, ...saintsList.filter((n) => n !== label).slice(0, 2)]
+          .filter(Boolean)
+          .join(", "),
         outlineColor,
         outlineWidth,
       };
     },
-    [primaryIndexMap, resolveSeason],
+    [profile, traditional],
   );
 
-  const onPressDate = useCallback(
-    (dateKey: string) => {
-      const md = toMmdd(dateKey);
+  const getAgendaEntry = useCallback(
+    (dateKey: string): AgendaEntry | null => {
+      const { primary, others } = getSaintsOfDay(dateKey);
+      const day = getLiturgicalDay(dateKey, profile);
+      const proper = properCelebrations(day.celebrations, traditional);
 
-      const primary = primaryIndexMap.get(md) ?? null;
-      const dayInfo = (saintsByMmdd as unknown as Record<string, DaySaints>)[
-        md
+      const names = [
+        ...proper.map((c) => c.title),
+        ...(primary ? [primary.name] : []),
+        ...others,
       ];
+      if (names.length === 0) return null;
 
-      const feast = dayInfo?.feast ?? primary?.feast ?? null;
-
-      let saintsList = (dayInfo?.saints ?? [])
-        .map((s) => (s ?? "").trim())
-        .filter((s) => !isJunkSaintName(s));
+      return {
+        title: names[0],
+        subtitle: names.slice(1, 4).join(", ") || null,
+        tone: "secondary",
+        outlineColor:
+          seasonOutlineColor(day.season) ?? AppTheme.outlineFallback,
+      };
+    },
+    [profile, traditional],
+  );
 
-      if (primary?.name) {
-        const pk = normKey(primary.name);
-        saintsList = saintsList.filter((s) => normKey(s) !== pk);
-      }
+  const onPressDate = useCallback(
+    (dateKey: string) => {
+      const { mmdd, feast, primary, others } = getSaintsOfDay(dateKey);
 
       setSelected({
         dateKey,
-        mmdd: md,
+        mmdd,
         feast,
         primary,
-        saintsList,
+        saintsList: others,
+        proper: properCelebrations(
+          getLiturgicalDay(dateKey, profile).celebrations,
+          traditional,
+        ),
       });
     },
-    [primaryIndexMap],
+    [profile, traditional],
   );
 
   const primary = selected?.primary ?? null;
   const saintsList = selected?.saintsList ?? [];
+  const proper = selected?.proper ?? [];
   const feast = selected?.feast ?? primary?.feast ?? null;
 
   return (
     <LinearGradient colors={[...AppTheme.gradients.main]} style={{ flex: 1 }}>
-      <MonthGrid
-        currentDate={currentDate}
-        onChangeDate={setCurrentDate}
-        onPressDate={onPressDate}
-        getDayMeta={getDayMeta}
-        headerTitle={t("saints")}
+      {viewMode === "agenda" ? (
+        <AgendaList
+          year={currentDate.getFullYear()}
+          getEntry={getAgendaEntry}
+          onPressDate={onPressDate}
+          onTodayOutsideWindow={() => setCurrentDate(new Date())}
+          headerTitle={t("saints")}
+          toolbar={<CalendarViewToggle tab="saints" />}
+        />
+      ) : (
+        <MonthGrid
+          currentDate={currentDate}
+          onChangeDate={setCurrentDate}
+          onPressDate={onPressDate}
+          getDayMeta={getDayMeta}
+          headerTitle={t("saints")}
+          toolbar={<CalendarViewToggle tab="saints" />}
+          view={viewMode}
+          onChangeView={(v) => changeCalendarView("saints", v)}
+        />
+      )}
+
+      <SeasonLegend
+        seasons={traditional ? TRADITIONAL_SEASONS : undefined}
+        style={{ marginBottom: 12 }}
       />
 
-      <SeasonLegend style={{ marginBottom: 12 }} />
-
       <Portal>
         <Modal
           visible={!!selected}
@@ -266,6 +218,25 @@ export default function SaintsScreen() {
 
                 <Divider style={{ marginTop: 12 }} />
 
+                {proper.length > 0 ? (
+                  <>
+                    <Text style={{ marginTop: 16, fontWeight: "800" }}>
+                      {traditional
+                        ? t("traditional_calendar_today", {
+                            defaultValue: "In the 1962 calendar",
+                          })
+                        : t("national_calendar_today", {
+                            defaultValue: "In your national calendar",
+                          })}
+                    </Text>
+                    {proper.map((c) => (
+                      <Text key={c.id} style={{ marginTop: 8, opacity: 0.85 }}>
+                        • {c.rank}: {c.title}
+                      </Text>
+                    ))}
+                  </>
+                ) : null}
+
                 {primary ? (
                   <>
                     <Text style={{ marginTop: 16, fontWeight: "800" }}>
@@ -314,12 +285,24 @@ export default function SaintsScreen() {
                   </>
                 ) : null}
 
-                {!primary && saintsList.length === 0 ? (
+                {!primary && saintsList.length === 0 && proper.length === 0 ? (
                   <Text style={{ marginTop: 12, opacity: 0.7 }}>
                     {t("no_saint_entry_found")}
                   </Text>
                 ) : null}
 
+                <Button
+                  mode="outlined"
+                  style={{ marginTop: 16 }}
+                  onPress={() => {
+                    const date = selected.dateKey;
+                    setSelected(null);
+                    router.push({ pathname: "/day/[date]", params: { date } });
+                  }}
+                >
+                  {t("day_open", { defaultValue: "Open full day" })}
+                </Button>
+
                 <Button
                   mode="text"
                   style={{ marginTop: 16 }}
@@ -0,0 +1,21 @@
+// app/+native-intent.tsx
+//
+// Rewrites incoming app links (sanctuary://novena/..., sanctuary://saint/...,
+// sanctuary://day/...) before expo-router resolves them.
+// Validation + fallbacks live in utils/deepLinks.ts.
+
+import { resolveLinkPath } from "../utils/deepLinks";
+
+export function redirectSystemPath({
+  path,
+}: {
+  path: string;
+  initial: boolean;
+}) {
+  try {
+    return resolveLinkPath(path);
+  } catch (e) {
+    console.warn("[deepLinks] could not resolve link:", path, e);
+    return "/";
+  }
+}
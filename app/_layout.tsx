@@ -16,7 +16,10 @@ import {
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 
 import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useContentUpdates } from "@/hooks/use-content-updates";
+import { useNovenaReminders } from "@/hooks/use-novena-reminders";
 import { initI18n } from "../i18n";
+import { loadContentCache } from "../utils/contentStore";
 
 export const unstable_settings = {
   anchor: "(tabs)",
@@ -26,16 +29,23 @@ export default function RootLayout() {
   const colorScheme = useColorScheme();
   const [ready, setReady] = useState(false);
 
+  useNovenaReminders(ready);
+  useContentUpdates();
+
   useEffect(() => {
     let mounted = true;
 
-    initI18n()
-      .catch((e) => {
+    Promise.all([
+      initI18n().catch((e) => {
         console.warn("i18n init failed:", e);
-      })
-      .finally(() => {
-        if (mounted) setReady(true);
-      });
+      }),
+      // Downloaded content fixes must be in place before screens read docs.
+      loadContentCache().catch((e) => {
+        console.warn("[content] cache load failed:", e);
+      }),
+    ]).finally(() => {
+      if (mounted) setReady(true);
+    });
 
     return () => {
       mounted = false;
@@ -0,0 +1,185 @@
+// app/data-issues.tsx
+//
+// Data issues: what went wrong resolving novena dates.
+// Route: /data-issues
+//
+// - Covers the same years as the Novenas tab (last year .. next year) with
+//   the user's calendar profile
+// - Errors: novenas left out of the calendar for a year (bad anchor, rule,
+//   duration); tap one to open the novena
+// - Warnings: startRules that were ignored (start is computed from the feast);
+//   the common "one day early" ones are only counted until "Show all"
+//
+// Diagnostics come from data/calendar.ts (getNovenaDiagnostics); the CLI
+// equivalent is scripts/novena-report.ts.
+
+import React, { useMemo, useState } from "react";
+import { ScrollView } from "react-native";
+import { Stack, useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { LinearGradient } from "expo-linear-gradient";
+import { Button, Card, Divider, List, Text } from "react-native-paper";
+import { useTranslation } from "react-i18next";
+
+import { useGoBack } from "@/hooks/use-go-back";
+import { usePersistedStore } from "@/hooks/use-persisted-store";
+
+import { getNovenaDiagnostics } from "../data/calendar";
+import { AppTheme } from "../utils/theme";
+import { calendarProfileStore } from "../utils/calendarProfileStore";
+import { agendaWindow } from "../utils/calendarViewMode";
+import { yearOfKey } from "../utils/dateKeys";
+import {
+  groupNovenaDiagnostics,
+  type NovenaDiagnosticGroup,
+} from "../utils/novenasRules";
+
+export default function DataIssuesScreen() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const goBack = useGoBack();
+  const profile = usePersistedStore(calendarProfileStore);
+  const [showAllWarnings, setShowAllWarnings] = useState(false);
+
+  const { fromYear, toYear, errors, warnings, offByOne } = useMemo(() => {
+    const { start, end } = agendaWindow(new Date().getFullYear());
+    const from = yearOfKey(start);
+    const to = yearOfKey(end);
+    const groups = groupNovenaDiagnostics(
+      getNovenaDiagnostics(from, to, profile),
+    );
+    return {
+      fromYear: from,
+      toYear: to,
+      errors: groups.filter((g) => g.severity === "error"),
+      warnings: groups.filter(
+        (g) => g.severity === "warning" && g.code !== "start_rule_off_by_one",
+      ),
+      offByOne: groups.filter((g) => g.code === "start_rule_off_by_one"),
+    };
+  }, [profile]);
+
+  const warningCount = warnings.length + offByOne.length;
+
+  const row = (g: NovenaDiagnosticGroup) => (
+    <List.Item
+      key={`${g.severity}:${g.code}:${g.novenaId}`}
+      title={g.title}
+      titleStyle={{ fontWeight: "700" }}
+      description={`${g.message}\n${t("data_issues_years", {
+        defaultValue: "Years: {{years}}",
+        years: g.years.join(", "),
+      })}`}
+      descriptionNumberOfLines={6}
+      left={(props) => (
+        <List.Icon
+          {...props}
+          icon={g.severity === "error" ? "alert-circle" : "alert"}
+        />
+      )}
+      onPress={() =>
+        router.push({ pathname: "/novena/[id]", params: { id: g.novenaId } })
+      }
+      style={{ paddingHorizontal: 0 }}
+    />
+  );
+
+  return (
+    <LinearGradient colors={[...AppTheme.gradients.main]} style={{ flex: 1 }}>
+      <Stack.Screen
+        options={{
+          title: t("data_issues_title", { defaultValue: "Data issues" }),
+          headerTitleAlign: "center",
+          headerBackVisible: false,
+          headerLeft: () => (
+            <Button
+              compact
+              onPress={goBack}
+              contentStyle={{ paddingHorizontal: 0 }}
+            >
+              ←
+            </Button>
+          ),
+        }}
+      />
+
+      <SafeAreaView
+        style={{ flex: 1, padding: 16 }}
+        edges={["bottom", "left", "right"]}
+      >
+        <ScrollView showsVerticalScrollIndicator={false}>
+          <Card style={{ borderRadius: 20 }}>
+            <Card.Content>
+              <Text style={{ opacity: 0.75 }}>
+                {t("data_issues_hint", {
+                  defaultValue:
+                    "Problems found while working out novena dates for {{from}}–{{to}} with your calendar profile. Novenas listed under errors are missing from the calendar for those years.",
+                  from: fromYear,
+                  to: toYear,
+                })}
+              </Text>
+              {errors.length === 0 && warningCount === 0 ? (
+                <Text style={{ marginTop: 12, fontWeight: "700" }}>
+                  ✅{" "}
+                  {t("data_issues_none", {
+                    defaultValue: "No problems found.",
+                  })}
+                </Text>
+              ) : null}
+            </Card.Content>
+          </Card>
+
+          {errors.length > 0 ? (
+            <Card style={{ borderRadius: 20, marginTop: 14 }}>
+              <Card.Content>
+                <Text variant="titleMedium" style={{ fontWeight: "800" }}>
+                  {t("data_issues_errors", {
+                    defaultValue: "Errors ({{count}})",
+                    count: errors.length,
+                  })}
+                </Text>
+                <Divider style={{ marginTop: 10 }} />
+                {errors.map(row)}
+              </Card.Content>
+            </Card>
+          ) : null}
+
+          {warningCount > 0 ? (
+            <Card style={{ borderRadius: 20, marginTop: 14 }}>
+              <Card.Content>
+                <Text variant="titleMedium" style={{ fontWeight: "800" }}>
+                  {t("data_issues_warnings", {
+                    defaultValue: "Warnings ({{count}})",
+                    count: warningCount,
+                  })}
+                </Text>
+                <Divider style={{ marginTop: 10 }} />
+                {warnings.map(row)}
+                {showAllWarnings ? (
+                  offByOne.map(row)
+                ) : offByOne.length > 0 ? (
+                  <>
+                    <Text style={{ marginTop: 12, opacity: 0.75 }}>
+                      {t("data_issues_off_by_one", {
+                        defaultValue:
+                          "{{count}} novenas list a start date one day before the one worked out from the feast; the computed date is used.",
+                        count: offByOne.length,
+                      })}
+                    </Text>
+                    <Button
+                      mode="text"
+                      style={{ marginTop: 6 }}
+                      onPress={() => setShowAllWarnings(true)}
+                    >
+                      {t("data_issues_show_all", { defaultValue: "Show all" })}
+                    </Button>
+                  </>
+                ) : null}
+              </Card.Content>
+            </Card>
+          ) : null}
+        </ScrollView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
@@ -0,0 +1,507 @@
+// app/day/[date].tsx
+//
+// Everything about one date.
+// Route: /day/[date]
+// Params: date (required, YYYY-MM-DD)
+//
+// - Liturgical day (season, week, color, celebrations) from utils/liturgicalCalendar.ts
+// - Lectionary cycles + bundled reading citations (utils/lectionary.ts);
+//   no psalter week or readings for the 1962 Missal
+// - Saint of the day + other saints (utils/saintsOfDay.ts)
+// - Novenas starting / ending that day (data/calendar.ts)
+//
+// Swipe left/right (or the header arrows) to move one day; this replaces the
+// route params instead of stacking screens.
+// Every tab's day modal links here.
+
+import React, { useCallback, useMemo, useRef } from "react";
+import { Linking, ScrollView, View } from "react-native";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { LinearGradient } from "expo-linear-gradient";
+import { Text, Card, Divider, Button } from "react-native-paper";
+import { useTranslation } from "react-i18next";
+
+import { useGoBack } from "@/hooks/use-go-back";
+import { usePersistedStore } from "@/hooks/use-persisted-store";
+
+import { getNovenasOnDate } from "../../data/calendar";
+import { AppTheme } from "../../utils/theme";
+import { addDaysToKey, isDateKey, keyToUTCNoon } from "../../utils/dateKeys";
+import {
+  getLiturgicalDay,
+  type Celebration,
+} from "../../utils/liturgicalCalendar";
+import { getLectionaryDay, usccbReadingsUrl } from "../../utils/lectionary";
+import { getSaintsOfDay } from "../../utils/saintsOfDay";
+import { shareLink } from "../../utils/deepLinks";
+import { calendarProfileStore } from "../../utils/calendarProfileStore";
+
+const SWIPE_MIN_DX = 50;
+
+export default function DayDetailScreen() {
+  const { t, i18n } = useTranslation();
+  const router = useRouter();
+  const goBack = useGoBack();
+  const params = useLocalSearchParams<{ date?: string }>();
+
+  const date = isDateKey(params.date) ? params.date : null;
+  const profile = usePersistedStore(calendarProfileStore);
+
+  // The engine throws for a key it can't place; show "not available"
+  // rather than crashing the screen.
+  const day = useMemo(() => {
+    if (!date) return null;
+    try {
+      return getLiturgicalDay(date, profile);
+    } catch (e) {
+      console.warn("Liturgical day not available:", date, e);
+      return null;
+    }
+  }, [date, profile]);
+  const lectionary = useMemo(
+    () => (date && day ? getLectionaryDay(date, profile) : null),
+    [date, day, profile],
+  );
+  const saints = useMemo(
+    () => (date && day ? getSaintsOfDay(date) : null),
+    [date, day],
+  );
+  const novenas = useMemo(
+    () => (date && day ? getNovenasOnDate(date, profile) : null),
+    [date, day, profile],
+  );
+
+  const longDate = useMemo(() => {
+    if (!date) return "";
+    try {
+      return keyToUTCNoon(date).toLocaleDateString(i18n.language, {
+        timeZone: "UTC",
+        weekday: "long",
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      });
+    } catch {
+      return date;
+    }
+  }, [date, i18n.language]);
+
+  const goBy = useCallback(
+    (days: number) => {
+      if (!date) return;
+      router.setParams({ date: addDaysToKey(date, days) });
+    },
+    [date, router],
+  );
+
+  // Same swipe handling as MonthGrid: horizontal distance only, and only
+  // when the gesture was mostly horizontal (so scrolling still works).
+  const touchStart = useRef({ x: 0, y: 0 });
+  const handleTouchStart = (e: any) => {
+    touchStart.current = { x: e.nativeEvent.pageX, y: e.nativeEvent.pageY };
+  };
+  const handleTouchEnd = (e: any) => {
+    const dx = touchStart.current.x - e.nativeEvent.pageX;
+    const dy = touchStart.current.y - e.nativeEvent.pageY;
+    if (Math.abs(dx) < SWIPE_MIN_DX || Math.abs(dx) < Math.abs(dy) * 2) return;
+    goBy(dx > 0 ? 1 : -1);
+  };
+
+  const openReadings = useCallback(async () => {
+    if (!date) return;
+    const url = usccbReadingsUrl(date);
+    try {
+      const ok = await Linking.canOpenURL(url);
+      if (ok) await Linking.openURL(url);
+      else console.warn("Cannot open URL:", url);
+    } catch (e) {
+      console.warn("Failed to open readings URL:", url, e);
+    }
+  }, [date]);
+
+  const statusNote = (c: Celebration): string | null => {
+    if (c.transferredFrom) {
+      return t("liturgical_transferred_from", {
+        defaultValue: "transferred from {{date}}",
+        date: c.transferredFrom,
+      });
+    }
+    switch (c.status) {
+      case "optional":
+        return t("liturgical_status_optional", { defaultValue: "optional" });
+      case "commemorated":
+        return t("liturgical_status_commemorated", {
+          defaultValue: "commemoration",
+        });
+      case "transferred":
+        return t("liturgical_transferred_to", {
+          defaultValue: "transferred to {{date}}",
+          date: c.transferredTo,
+        });
+      default:
+        return null;
+    }
+  };
+
+  const readings = lectionary?.readings ?? null;
+  const starts = novenas?.starts ?? [];
+  const feasts = novenas?.feasts ?? [];
+  const celebrations = (day?.celebrations ?? []).filter(
+    (c) => c.status !== "suppressed",
+  );
+
+  return (
+    <LinearGradient colors={[...AppTheme.gradients.main]} style={{ flex: 1 }}>
+      <Stack.Screen
+        options={{
+          title: date ?? t("day_title", { defaultValue: "Day" }),
+          headerTitleAlign: "center",
+          headerBackVisible: false,
+          headerLeft: () => (
+            <Button
+              compact
+              onPress={goBack}
+              contentStyle={{ paddingHorizontal: 0 }}
+            >
+              ←
+            </Button>
+          ),
+          headerRight: () =>
+            date ? (
+              <View style={{ flexDirection: "row" }}>
+                <Button
+                  compact
+                  onPress={() => goBy(-1)}
+                  accessibilityLabel={t("day_previous", {
+                    defaultValue: "Previous day",
+                  })}
+                >
+                  ‹
+                </Button>
+                <Button
+                  compact
+                  onPress={() => goBy(1)}
+                  accessibilityLabel={t("day_next", {
+                    defaultValue: "Next day",
+                  })}
+                >
+                  ›
+                </Button>
+                <Button
+                  compact
+                  onPress={() => shareLink({ kind: "day", date }, longDate)}
+                  accessibilityLabel={t("share", { defaultValue: "Share" })}
+                >
+                  ⇪
+                </Button>
+              </View>
+            ) : null,
+        }}
+      />
+
+      <SafeAreaView
+        style={{ flex: 1, padding: 16 }}
+        edges={["bottom", "left", "right"]}
+      >
+        <ScrollView
+          showsVerticalScrollIndicator={false}
+          onTouchStart={handleTouchStart}
+          onTouchEnd={handleTouchEnd}
+        >
+          {!date || !day ? (
+            <Card style={{ borderRadius: 20 }}>
+              <Card.Content>
+                <Text variant="titleMedium" style={{ fontWeight: "800" }}>
+                  {date
+                    ? t("day_unavailable", {
+                        defaultValue: "This date is not available.",
+                      })
+                    : t("day_invalid", {
+                        defaultValue: "This date could not be opened.",
+                      })}
+                </Text>
+                <Text style={{ marginTop: 8, opacity: 0.6 }}>
+                  {t("date_label", { defaultValue: "Date" })}:{" "}
+                  {params.date ||
+                    t("missing_value", { defaultValue: "(missing)" })}
+                </Text>
+                <Button
+                  mode="contained"
+                  style={{ marginTop: 14 }}
+                  onPress={goBack}
+                >
+                  {t("go_back", { defaultValue: "Go back" })}
+                </Button>
+              </Card.Content>
+            </Card>
+          ) : (
+            <>
+              {/* Header */}
+              <Card style={{ borderRadius: 20 }}>
+                <Card.Content>
+                  <Text variant="headlineSmall" style={{ fontWeight: "800" }}>
+                    {longDate}
+                  </Text>
+                  <Text style={{ marginTop: 6, opacity: 0.8 }}>
+                    {t("liturgical_season_week", {
+                      defaultValue: "{{season}}, week {{week}}",
+                      season: day.season,
+                      week: day.seasonWeek,
+                    })}
+                  </Text>
+                  <Text style={{ marginTop: 2, opacity: 0.8 }}>
+                    {day.psalterWeek !== null ? (
+                      <>
+                        {t("liturgical_psalter_week", {
+                          defaultValue: "Psalter week {{week}}",
+                          week: day.psalterWeek,
+                        })}
+                        {" · "}
+                      </>
+                    ) : null}
+                    {t("liturgical_color", {
+                      defaultValue: "Color: {{color}}",
+                      color: day.color,
+                    })}
+                  </Text>
+                  {lectionary ? (
+                    <Text style={{ marginTop: 2, opacity: 0.8 }}>
+                      {t("lectionary_cycles", {
+                        defaultValue:
+                          "Sunday cycle {{sunday}} · Weekday cycle {{weekday}}",
+                        sunday: lectionary.sundayCycle,
+                        weekday: lectionary.weekdayCycle,
+                      })}
+                    </Text>
+                  ) : null}
+                </Card.Content>
+              </Card>
+
+              {/* Celebrations */}
+              <Card style={{ borderRadius: 20, marginTop: 14 }}>
+                <Card.Content>
+                  <Text variant="titleMedium" style={{ fontWeight: "800" }}>
+                    {t("liturgical")}
+                  </Text>
+                  <Divider style={{ marginTop: 10 }} />
+                  {celebrations.map((c, idx) => {
+                    const note = [
+                      c.source === "proper"
+                        ? t("liturgical_proper", {
+                            defaultValue: "national calendar",
+                          })
+                        : null,
+                      statusNote(c),
+                    ]
+                      .filter(Boolean)
+                      .join(", ");
+                    return (
+                      <Text
+                        key={`${c.id}:${c.status}`}
+                        style={{
+                          marginTop: 10,
+                          fontWeight: idx === 0 ? "700" : "400",
+                          opacity: idx === 0 ? 1 : 0.85,
+                        }}
+                      >
+                        • {c.rank}: {c.title}
+                        {note ? ` (${note})` : ""}
+                      </Text>
+                    );
+                  })}
+                </Card.Content>
+              </Card>
+
+              {/* Readings */}
+              {lectionary ? (
+                <Card style={{ borderRadius: 20, marginTop: 14 }}>
+                  <Card.Content>
+                    <Text variant="titleMedium" style={{ fontWeight: "800" }}>
+                      {t("readings_title", { defaultValue: "Readings" })}
+                    </Text>
+                    <Divider style={{ marginTop: 10 }} />
+                    {readings ? (
+                      [
+                        {
+                          label: t("reading_first", {
+                            defaultValue: "First Reading",
+                          }),
+                          cite: readings.first,
+                        },
+                        {
+                          label: t("reading_psalm", {
+                            defaultValue: "Responsorial Psalm",
+                          }),
+                          cite: readings.psalm,
+                        },
+                        {
+                          label: t("reading_second", {
+                            defaultValue: "Second Reading",
+                          }),
+                          cite: readings.second,
+                        },
+                        {
+                          label: t("reading_gospel", {
+                            defaultValue: "Gospel",
+                          }),
+                          cite: readings.gospel,
+                        },
+                      ]
+                        .filter((r) => !!r.cite)
+                        .map((r) => (
+                          <Text key={r.label} style={{ marginTop: 8 }}>
+                            <Text style={{ fontWeight: "700" }}>
+                              {r.label}:{" "}
+                            </Text>
+                            {r.cite}
+                          </Text>
+                        ))
+                    ) : (
+                      <Text style={{ marginTop: 10, opacity: 0.7 }}>
+                        {t("readings_not_bundled", {
+                          defaultValue:
+                            "Readings for this day are not included offline.",
+                        })}
+                      </Text>
+                    )}
+                    <Button
+                      mode="outlined"
+                      style={{ marginTop: 12 }}
+                      onPress={openReadings}
+                    >
+                      Open USCCB Readings
+                    </Button>
+                  </Card.Content>
+                </Card>
+              ) : null}
+
+              {/* Saints */}
+              <Card style={{ borderRadius: 20, marginTop: 14 }}>
+                <Card.Content>
+                  <Text variant="titleMedium" style={{ fontWeight: "800" }}>
+                    {t("saints")}
+                  </Text>
+                  <Divider style={{ marginTop: 10 }} />
+
+                  {saints?.feast ? (
+                    <Text style={{ marginTop: 10, opacity: 0.75 }}>
+                      {saints.feast}
+                    </Text>
+                  ) : null}
+
+                  {saints?.primary ? (
+                    <Button
+                      mode="contained"
+                      style={{ marginTop: 10 }}
+                      onPress={() =>
+                        router.push({
+                          pathname: "/saint/[id]",
+                          params: { id: saints.primary!.id, date },
+                        })
+                      }
+                    >
+                      {saints.primary.name}
+                    </Button>
+                  ) : null}
+
+                  {(saints?.others ?? []).slice(0, 10).map((name, idx) => (
+                    <Text
+                      key={`${idx}-${name}`}
+                      style={{ marginTop: 8, opacity: 0.85 }}
+                    >
+                      • {name}
+                    </Text>
+                  ))}
+
+                  {!saints?.primary && (saints?.others ?? []).length === 0 ? (
+                    <Text style={{ marginTop: 10, opacity: 0.7 }}>
+                      {t("no_saint_entry_found")}
+                    </Text>
+                  ) : null}
+                </Card.Content>
+              </Card>
+
+              {/* Novenas */}
+              <Card style={{ borderRadius: 20, marginTop: 14 }}>
+                <Card.Content>
+                  <Text variant="titleMedium" style={{ fontWeight: "800" }}>
+                    {t("novenas")}
+                  </Text>
+                  <Divider style={{ marginTop: 10 }} />
+
+                  {starts.length === 0 && feasts.length === 0 ? (
+                    <Text style={{ marginTop: 10, opacity: 0.7 }}>
+                      {t("no_novenas_or_feasts")}
+                    </Text>
+                  ) : null}
+
+                  {starts.length > 0 ? (
+                    <>
+                      <Text style={{ marginTop: 12, fontWeight: "700" }}>
+                        {t("starts_today")}
+                      </Text>
+                      {starts.map((n) => (
+                        <Button
+                          key={`start-${n.id}`}
+                          mode="contained"
+                          style={{ marginTop: 8 }}
+                          onPress={() =>
+                            router.push({
+                              pathname: "/novena/[id]",
+                              params: { id: n.id, date, run: n.instanceId },
+                            })
+                          }
+                        >
+                          {n.title}
+                        </Button>
+                      ))}
+                    </>
+                  ) : null}
+
+                  {feasts.length > 0 ? (
+                    <>
+                      <Text style={{ marginTop: 12, fontWeight: "700" }}>
+                        {t("feast_today")}
+                      </Text>
+                      {feasts.map((n) => (
+                        <Button
+                          key={`feast-${n.id}`}
+                          mode="text"
+                          style={{ marginTop: 4, alignItems: "flex-start" }}
+                          onPress={() =>
+                            router.push({
+                              pathname: "/novena/[id]",
+                              params: { id: n.id, date, run: n.instanceId },
+                            })
+                          }
+                        >
+                          {n.title}
+                        </Button>
+                      ))}
+                    </>
+                  ) : null}
+                </Card.Content>
+              </Card>
+
+              <Text
+                style={{
+                  marginTop: 12,
+                  marginBottom: 24,
+                  textAlign: "center",
+                  color: "rgba(255,255,255,0.75)",
+                  fontSize: 12,
+                }}
+              >
+                {t("day_swipe_hint", {
+                  defaultValue:
+                    "Swipe left or right for the next or previous day.",
+                })}
+              </Text>
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
@@ -0,0 +1,277 @@
+// app/export.tsx
+//
+// Export novena start dates (and movable feasts) as an .ics file.
+// Route: /export
+//
+// - Year range (up to MAX_EXPORT_YEARS), optional movable feasts
+// - Optionally limited to the Novenas tab filters (utils/novenaFilters.ts)
+// - Shared through the OS share sheet so it can go to Calendar, Mail, etc.
+//
+// The file itself is built by utils/icalendar.ts.
+
+import React, { useCallback, useMemo, useState } from "react";
+import { Platform, ScrollView, Share, View } from "react-native";
+import { Stack } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { LinearGradient } from "expo-linear-gradient";
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import {
+  Button,
+  Card,
+  Divider,
+  IconButton,
+  Switch,
+  Text,
+} from "react-native-paper";
+import { useTranslation } from "react-i18next";
+
+import { useGoBack } from "@/hooks/use-go-back";
+import { usePersistedStore } from "@/hooks/use-persisted-store";
+
+import { AppTheme } from "../utils/theme";
+import { calendarProfileStore } from "../utils/calendarProfileStore";
+import { hasActiveFilters, novenaFiltersStore } from "../utils/novenaFilters";
+import { MAX_EXPORT_YEARS, buildIcsExport } from "../utils/icalendar";
+
+async function shareIcs(filename: string, ics: string, title: string) {
+  if (Platform.OS !== "web" && (await Sharing.isAvailableAsync())) {
+    const file = new File(Paths.cache, filename);
+    file.create({ overwrite: true });
+    file.write(ics);
+    await Sharing.shareAsync(file.uri, {
+      mimeType: "text/calendar",
+      UTI: "public.calendar-event",
+      dialogTitle: title,
+    });
+    return;
+  }
+  // No file sharing (web): hand over the text itself.
+  await Share.share({ title, message: ics });
+}
+
+export default function ExportScreen() {
+  const { t } = useTranslation();
+  const goBack = useGoBack();
+
+  const profile = usePersistedStore(calendarProfileStore);
+  const filters = usePersistedStore(novenaFiltersStore);
+  const filtersActive = hasActiveFilters(filters);
+
+  const thisYear = new Date().getFullYear();
+  const [fromYear, setFromYear] = useState(thisYear);
+  const [toYear, setToYear] = useState(thisYear);
+  const [includeFeasts, setIncludeFeasts] = useState(true);
+  const [useFilters, setUseFilters] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const shiftFrom = (d: number) => {
+    const next = fromYear + d;
+    setFromYear(next);
+    if (toYear < next) setToYear(next);
+    if (toYear > next + MAX_EXPORT_YEARS - 1) {
+      setToYear(next + MAX_EXPORT_YEARS - 1);
+    }
+  };
+  const shiftTo = (d: number) => {
+    const next = toYear + d;
+    setToYear(next);
+    if (fromYear > next) setFromYear(next);
+    if (fromYear < next - MAX_EXPORT_YEARS + 1) {
+      setFromYear(next - MAX_EXPORT_YEARS + 1);
+    }
+  };
+
+  const result = useMemo(
+    () =>
+      buildIcsExport({
+        fromYear,
+        toYear,
+        profile,
+        filters: useFilters && filtersActive ? filters : null,
+        includeFeasts,
+        t,
+      }),
+    [
+      fromYear,
+      toYear,
+      profile,
+      filters,
+      filtersActive,
+      useFilters,
+      includeFeasts,
+      t,
+    ],
+  );
+
+  const onExport = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const name =
+        fromYear === toYear
+          ? `novenas-${fromYear}.ics`
+          : `novenas-${fromYear}-${toYear}.ics`;
+      await shareIcs(
+        name,
+        result.ics,
+        t("export_title", { defaultValue: "Export calendar" }),
+      );
+    } catch (e) {
+      console.warn("[export] failed to share .ics:", e);
+      setError(
+        t("export_failed", {
+          defaultValue: "Couldn't create the calendar file. Please try again.",
+        }),
+      );
+    } finally {
+      setBusy(false);
+    }
+  }, [fromYear, toYear, result, t]);
+
+  const yearStepper = (
+    label: string,
+    value: number,
+    shift: (d: number) => void,
+  ) => (
+    <View
+      style={{
+        flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "space-between",
+        marginTop: 6,
+      }}
+    >
+      <Text style={{ fontWeight: "700" }}>{label}</Text>
+      <View style={{ flexDirection: "row", alignItems: "center" }}>
+        <IconButton
+          icon="minus"
+          onPress={() => shift(-1)}
+          accessibilityLabel={t("monthgrid_year_decrease")}
+        />
+        <Text style={{ fontSize: 18, fontWeight: "800" }}>{value}</Text>
+        <IconButton
+          icon="plus"
+          onPress={() => shift(1)}
+          accessibilityLabel={t("monthgrid_year_increase")}
+        />
+      </View>
+    </View>
+  );
+
+  return (
+    <LinearGradient colors={[...AppTheme.gradients.main]} style={{ flex: 1 }}>
+      <Stack.Screen
+        options={{
+          title: t("export_title", { defaultValue: "Export calendar" }),
+          headerTitleAlign: "center",
+          headerBackVisible: false,
+          headerLeft: () => (
+            <Button
+              compact
+              onPress={goBack}
+              contentStyle={{ paddingHorizontal: 0 }}
+            >
+              ←
+            </Button>
+          ),
+        }}
+      />
+
+      <SafeAreaView
+        style={{ flex: 1, padding: 16 }}
+        edges={["bottom", "left", "right"]}
+      >
+        <ScrollView showsVerticalScrollIndicator={false}>
+          <Card style={{ borderRadius: 20 }}>
+            <Card.Content>
+              <Text style={{ opacity: 0.75 }}>
+                {t("export_hint", {
+                  defaultValue:
+                    "Creates an .ics file with every novena start date, for Google Calendar, Apple Calendar, Outlook and others. Importing it again updates the same events.",
+                })}
+              </Text>
+
+              <Divider style={{ marginVertical: 12 }} />
+
+              {yearStepper(
+                t("export_from_year", { defaultValue: "From" }),
+                fromYear,
+                shiftFrom,
+              )}
+              {yearStepper(
+                t("export_to_year", { defaultValue: "To" }),
+                toYear,
+                shiftTo,
+              )}
+
+              <View
+                style={{
+                  flexDirection: "row",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                  marginTop: 12,
+                }}
+              >
+                <Text style={{ flex: 1, paddingRight: 12 }}>
+                  {t("export_include_feasts", {
+                    defaultValue: "Include movable feasts (Easter, Pentecost…)",
+                  })}
+                </Text>
+                <Switch
+                  value={includeFeasts}
+                  onValueChange={setIncludeFeasts}
+                />
+              </View>
+
+              {filtersActive ? (
+                <View
+                  style={{
+                    flexDirection: "row",
+                    alignItems: "center",
+                    justifyContent: "space-between",
+                    marginTop: 12,
+                  }}
+                >
+                  <Text style={{ flex: 1, paddingRight: 12 }}>
+                    {t("export_use_filters", {
+                      defaultValue: "Only novenas matching my Novenas filters",
+                    })}
+                  </Text>
+                  <Switch value={useFilters} onValueChange={setUseFilters} />
+                </View>
+              ) : null}
+
+              <Divider style={{ marginVertical: 12 }} />
+
+              <Text style={{ opacity: 0.8 }}>
+                {t("export_summary", {
+                  defaultValue:
+                    "{{novenas}} novena start dates · {{feasts}} feasts",
+                  novenas: result.novenaCount,
+                  feasts: result.feastCount,
+                })}
+              </Text>
+
+              {error ? (
+                <Text style={{ marginTop: 8, color: "#B3261E" }}>{error}</Text>
+              ) : null}
+
+              <Button
+                mode="contained"
+                icon="calendar-export"
+                style={{ marginTop: 14 }}
+                loading={busy}
+                disabled={busy || result.novenaCount + result.feastCount === 0}
+                onPress={onExport}
+              >
+                {t("export_share", { defaultValue: "Share .ics file" })}
+              </Button>
+            </Card.Content>
+          </Card>
+        </ScrollView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
@@ -0,0 +1,165 @@
+// app/intentions.tsx
+//
+// Browse by intention ("find a saint or novena for my intention").
+// Route: /intentions
+// Params: id (optional intention id, e.g. "illness")
+//
+// Picking an intention lists its patron saints (-> /saint/[id]) and the
+// novenas prayed for it (-> /novena/[id]). Data: utils/intentions.ts.
+
+import React, { useMemo } from "react";
+import { ScrollView, View } from "react-native";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { LinearGradient } from "expo-linear-gradient";
+import { Button, Card, Chip, Divider, Text } from "react-native-paper";
+import { useTranslation } from "react-i18next";
+
+import { useGoBack } from "@/hooks/use-go-back";
+
+import { AppTheme } from "../utils/theme";
+import {
+  INTENTIONS,
+  getPatronsForIntention,
+  isIntentionId,
+} from "../utils/intentions";
+
+export default function IntentionsScreen() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const goBack = useGoBack();
+  const params = useLocalSearchParams<{ id?: string }>();
+
+  const selected = isIntentionId(params.id) ? params.id : null;
+  const patrons = useMemo(
+    () => (selected ? getPatronsForIntention(selected) : null),
+    [selected],
+  );
+
+  return (
+    <LinearGradient colors={[...AppTheme.gradients.main]} style={{ flex: 1 }}>
+      <Stack.Screen
+        options={{
+          title: t("intentions_title", { defaultValue: "Pray for…" }),
+          headerTitleAlign: "center",
+          headerBackVisible: false,
+          headerLeft: () => (
+            <Button
+              compact
+              onPress={goBack}
+              contentStyle={{ paddingHorizontal: 0 }}
+            >
+              ←
+            </Button>
+          ),
+        }}
+      />
+
+      <SafeAreaView
+        style={{ flex: 1, padding: 16 }}
+        edges={["bottom", "left", "right"]}
+      >
+        <ScrollView showsVerticalScrollIndicator={false}>
+          <Card style={{ borderRadius: 20 }}>
+            <Card.Content>
+              <Text style={{ opacity: 0.75 }}>
+                {t("intentions_hint", {
+                  defaultValue:
+                    "Choose an intention to see the saints and novenas traditionally prayed for it.",
+                })}
+              </Text>
+
+              <View
+                style={{ flexDirection: "row", flexWrap: "wrap", marginTop: 8 }}
+              >
+                {INTENTIONS.map((id) => (
+                  <Chip
+                    key={id}
+                    selected={selected === id}
+                    showSelectedOverlay
+                    onPress={() =>
+                      router.setParams({ id: selected === id ? "" : id })
+                    }
+                    style={{ marginRight: 6, marginTop: 6 }}
+                  >
+                    {t(`intention_${id}`)}
+                  </Chip>
+                ))}
+              </View>
+            </Card.Content>
+          </Card>
+
+          {selected && patrons ? (
+            <>
+              <Card style={{ borderRadius: 20, marginTop: 14 }}>
+                <Card.Content>
+                  <Text variant="titleMedium" style={{ fontWeight: "800" }}>
+                    {t("saints")}
+                  </Text>
+                  <Divider style={{ marginTop: 10 }} />
+
+                  {patrons.saints.length === 0 ? (
+                    <Text style={{ marginTop: 10, opacity: 0.7 }}>
+                      {t("intentions_no_saints", {
+                        defaultValue: "No patron saints listed yet.",
+                      })}
+                    </Text>
+                  ) : (
+                    patrons.saints.map((s) => (
+                      <Button
+                        key={s.id}
+                        mode="text"
+                        style={{ marginTop: 4, alignItems: "flex-start" }}
+                        onPress={() =>
+                          router.push({
+                            pathname: "/saint/[id]",
+                            params: { id: s.id },
+                          })
+                        }
+                      >
+                        {s.name} · {s.mmdd}
+                      </Button>
+                    ))
+                  )}
+                </Card.Content>
+              </Card>
+
+              <Card style={{ borderRadius: 20, marginTop: 14 }}>
+                <Card.Content>
+                  <Text variant="titleMedium" style={{ fontWeight: "800" }}>
+                    {t("novenas")}
+                  </Text>
+                  <Divider style={{ marginTop: 10 }} />
+
+                  {patrons.novenas.length === 0 ? (
+                    <Text style={{ marginTop: 10, opacity: 0.7 }}>
+                      {t("intentions_no_novenas", {
+                        defaultValue: "No novenas listed yet.",
+                      })}
+                    </Text>
+                  ) : (
+                    patrons.novenas.map((n) => (
+                      <Button
+                        key={n.id}
+                        mode="contained"
+                        style={{ marginTop: 10 }}
+                        onPress={() =>
+                          router.push({
+                            pathname: "/novena/[id]",
+                            params: { id: n.id },
+                          })
+                        }
+                      >
+                        {n.title}
+                      </Button>
+                    ))
+                  )}
+                </Card.Content>
+              </Card>
+            </>
+          ) : null}
+        </ScrollView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
@@ -2,30 +2,66 @@
 //
 // Novena detail page.
 // Route: /novena/[id]
-// Params: id (required), date (optional YYYY-MM-DD)
+// Params: id (required), date (optional YYYY-MM-DD), run (optional instance id)
+//
+// The run param (novena id + feast date, see novenaInstanceId) names the
+// concrete run (NovenaInstance); the date param picks the run around a date.
+// Without it we show the run the user is currently praying, else today's/next run.
+// Enrolled runs open on today's day and remember which days were prayed.
+// "Add to my calendar" writes that same run (Day 1..N) to the device calendar
+// (utils/deviceCalendar.ts); stopping the novena removes those events again.
+// "Why these dates?" explains how the run's feast and start were worked out
+// (NovenaInstance.trace, utils/novenaTrace.ts).
 //
 // ✅ NO language toggle here.
 // ✅ Uses global app language via i18n.
 // ✅ All user-visible labels translated via t(...), with defaultValue fallbacks.
 
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { ScrollView, View, TouchableOpacity } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { Text, Card, Button, Divider } from "react-native-paper";
+import { Text, Card, Button, Divider, Chip } from "react-native-paper";
 import { Stack, useLocalSearchParams, useRouter } from "expo-router";
 import { LinearGradient } from "expo-linear-gradient";
 import { useTranslation } from "react-i18next";
 
-import { getNovenaContent } from "../../data/novenasManifest";
+import { useGoBack } from "@/hooks/use-go-back";
+import { useLazyDoc } from "@/hooks/use-lazy-doc";
+import { usePersistedStore } from "@/hooks/use-persisted-store";
+import { useTodayKey } from "@/hooks/use-today-key";
+
+import {
+  NOVENAS,
+  findNovenaInstance,
+  getNovenaInstance,
+} from "../../data/calendar";
+import { novenaDocs } from "../../data/novenasManifest";
 import { AppTheme } from "../../utils/theme";
-
-type NovenaDay = {
-  day: number;
-  title?: string;
-  scripture?: string;
-  prayer?: string;
-  reflection?: string;
-};
+import { dateToKeyUTC, isDateKey } from "../../utils/dateKeys";
+import { shareLink } from "../../utils/deepLinks";
+import {
+  starredNovenasStore,
+  toggleStarredNovena,
+} from "../../utils/starredNovenas";
+import { calendarProfileStore } from "../../utils/calendarProfileStore";
+import {
+  activeEnrollmentsOn,
+  dayNumberOn,
+  enrollInNovena,
+  enrollmentKeyForInstance,
+  enrollmentsStore,
+  setDayPrayed,
+  unenrollFromNovena,
+} from "../../utils/novenaProgress";
+import {
+  addNovenaToDeviceCalendar,
+  deviceCalendarStore,
+  deviceCalendarSupported,
+  removeNovenaFromDeviceCalendar,
+  type NovenaRun,
+} from "../../utils/deviceCalendar";
+import { extractNovenaDays, stripLeakedCss } from "../../utils/novenaContent";
+import { describeNovenaTrace } from "../../utils/novenaTrace";
 
 function paramToString(v: unknown): string | undefined {
   if (typeof v === "string") return v;
@@ -33,71 +69,127 @@ function paramToString(v: unknown): string | undefined {
   return undefined;
 }
 
-function extractDays(doc: any): NovenaDay[] {
-  if (!doc) return [];
-  if (Array.isArray(doc.days)) return doc.days;
-  if (doc.content && Array.isArray(doc.content.days)) return doc.content.days;
-  return [];
-}
-
-/**
- * Strip leaked CSS that sometimes appears in scraped prayer content.
- */
-function stripLeakedCss(raw?: string): string | undefined {
-  if (!raw) return raw;
-
-  const lines = raw.split(/\r?\n/);
-  const kept: string[] = [];
-
-  for (const line of lines) {
-    const s = line.trim();
-    if (!s) {
-      kept.push("");
-      continue;
-    }
-
-    const looksLikeCss =
-      s.startsWith("@media") ||
-      s.startsWith("#") ||
-      s.startsWith(".") ||
-      (s.includes("{") && s.includes("}")) ||
-      (s.includes("{") && s.includes(":")) ||
-      s.includes("!important") ||
-      s.includes("font-size:") ||
-      s.includes("padding:") ||
-      s.includes("max-width:");
-
-    const justBraces = s === "{" || s === "}" || s === "}}";
-
-    if (looksLikeCss || justBraces) continue;
-
-    kept.push(line);
-  }
-
-  const out = kept
-    .join("\n")
-    .replace(/\n{3,}/g, "\n\n")
-    .trim();
-
-  return out.length ? out : undefined;
-}
-
 export default function NovenaDetailScreen() {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const router = useRouter();
+  const goBack = useGoBack();
   const params = useLocalSearchParams();
 
   const id = paramToString(params.id) ?? "";
-  const date = paramToString(params.date);
-
-  const novena = useMemo(() => (id ? getNovenaContent(id) : null), [id]);
-  const days = useMemo(() => extractDays(novena), [novena]);
+  const rawDate = paramToString(params.date);
+  const date = isDateKey(rawDate) ? rawDate : undefined;
+  const runId = paramToString(params.run);
+
+  const { doc: novena, loading } = useLazyDoc(novenaDocs, id);
+  const days = useMemo(() => extractNovenaDays(novena), [novena]);
+  const patronage = useMemo(
+    () => NOVENAS.find((n) => n.id === id)?.patronage ?? [],
+    [id],
+  );
 
-  const [selectedDay, setSelectedDay] = useState<number>(1);
+  const todayKey = useTodayKey();
+  const enrollments = usePersistedStore(enrollmentsStore);
+  const starred = usePersistedStore(starredNovenasStore).includes(id);
+  const profile = usePersistedStore(calendarProfileStore);
+
+  // Concrete run this screen is about (run param, then date param; else
+  // today/next run)
+  const instance = useMemo(() => {
+    if (!id) return null;
+    const named = runId ? getNovenaInstance(runId, profile) : null;
+    if (named && named.id === id) return named;
+    return findNovenaInstance(id, date ?? todayKey, profile);
+  }, [id, runId, date, todayKey, profile]);
+
+  // Without a run/date param, a run already in progress beats the resolved one
+  const enrollment = useMemo(() => {
+    if (runId && enrollments[runId]?.novenaId === id) return enrollments[runId];
+    if (!date && !runId) {
+      const active = activeEnrollmentsOn(enrollments, todayKey, id)[0];
+      if (active) return active;
+    }
+    return instance
+      ? (enrollments[enrollmentKeyForInstance(instance)] ?? null)
+      : null;
+  }, [runId, date, enrollments, todayKey, id, instance]);
+
+  // The run on screen, for calendar export (enrolled run, else the instance)
+  const run = useMemo<NovenaRun | null>(() => {
+    if (enrollment) return enrollment;
+    if (!instance) return null;
+    return {
+      key: enrollmentKeyForInstance(instance),
+      novenaId: instance.id,
+      title: instance.title,
+      startDate: dateToKeyUTC(instance.startDate),
+      durationDays: instance.durationDays,
+    };
+  }, [enrollment, instance]);
+
+  // Resolution trace of the run on screen (the enrolled run may not be
+  // `instance`, and may no longer resolve after a profile change)
+  const [showWhy, setShowWhy] = useState(false);
+  const why = useMemo(() => {
+    const traced = enrollment
+      ? getNovenaInstance(enrollment.key, profile)
+      : instance;
+    return traced
+      ? describeNovenaTrace(traced.trace, t, i18n.language || "en")
+      : null;
+  }, [enrollment, instance, profile, t, i18n.language]);
+
+  const calendarRuns = usePersistedStore(deviceCalendarStore).runs;
+  const inDeviceCalendar = !!run && !!calendarRuns[run.key];
+  const [calendarError, setCalendarError] = useState<string | null>(null);
+
+  const todayDay = enrollment ? dayNumberOn(enrollment, todayKey) : null;
+  const firstDay = days.length > 0 ? days[0].day : 1;
+  const initialDay =
+    todayDay !== null && days.some((d) => d.day === todayDay)
+      ? todayDay
+      : firstDay;
+
+  const [selectedDay, setSelectedDay] = useState<number>(initialDay);
 
   useEffect(() => {
-    setSelectedDay(days.length > 0 ? days[0].day : 1);
-  }, [id, days.length]);
+    setSelectedDay(initialDay);
+  }, [id, enrollment?.key, initialDay]);
+
+  const [busy, setBusy] = useState(false);
+  const runBusy = useCallback(async (fn: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await fn();
+    } catch (e) {
+      console.warn("[NovenaDetailScreen] progress update failed:", e);
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const toggleDeviceCalendar = useCallback(() => {
+    if (!run) return;
+    setCalendarError(null);
+    runBusy(async () => {
+      try {
+        if (inDeviceCalendar) await removeNovenaFromDeviceCalendar(run.key);
+        else await addNovenaToDeviceCalendar(run);
+      } catch (e) {
+        setCalendarError(
+          t("calendar_add_failed", {
+            defaultValue:
+              "Couldn't update your calendar. Check calendar access in Settings.",
+          }),
+        );
+        throw e;
+      }
+    });
+  }, [run, inDeviceCalendar, runBusy, t]);
+
+  const prayed = useMemo(
+    () => new Set(enrollment?.prayedDays ?? []),
+    [enrollment],
+  );
 
   const day = days.find((d) => d.day === selectedDay);
 
@@ -126,17 +218,55 @@ export default function NovenaDetailScreen() {
           headerLeft: () => (
             <Button
               compact
-              onPress={() => router.back()}
+              onPress={goBack}
               contentStyle={{ paddingHorizontal: 0 }}
             >
               ←
             </Button>
           ),
+          headerRight: () =>
+            novena ? (
+              <View style={{ flexDirection: "row" }}>
+                <Button
+                  compact
+                  onPress={() =>
+                    shareLink(
+                      {
+                        kind: "novena",
+                        id,
+                        date:
+                          date ??
+                          (instance
+                            ? dateToKeyUTC(instance.startDate)
+                            : undefined),
+                      },
+                      headerTitle,
+                    )
+                  }
+                  contentStyle={{ paddingHorizontal: 0 }}
+                  accessibilityLabel={t("share", { defaultValue: "Share" })}
+                >
+                  ⇪
+                </Button>
+                <Button
+                  compact
+                  onPress={() => toggleStarredNovena(id)}
+                  contentStyle={{ paddingHorizontal: 0 }}
+                  accessibilityLabel={
+                    starred
+                      ? t("novena_unstar", { defaultValue: "Remove star" })
+                      : t("novena_star", { defaultValue: "Star this novena" })
+                  }
+                >
+                  {starred ? "★" : "☆"}
+                </Button>
+              </View>
+            ) : null,
         }}
       />
 
       <LinearGradient colors={[...AppTheme.gradients.main]} style={{ flex: 1 }}>
-        {!novena ? (
+        {loading ? null : !novena ? (
           <SafeAreaView style={{ flex: 1, padding: 20 }}>
             <Text
               variant="headlineMedium"
@@ -155,11 +285,7 @@ export default function NovenaDetailScreen() {
               {id}
             </Text>
 
-            <Button
-              style={{ marginTop: 20 }}
-              mode="contained"
-              onPress={router.back}
-            >
+            <Button style={{ marginTop: 20 }} mode="contained" onPress={goBack}>
               {t("close", { defaultValue: "Close" })}
             </Button>
           </SafeAreaView>
@@ -189,6 +315,204 @@ export default function NovenaDetailScreen() {
                 </Text>
               ) : null}
 
+              {patronage.length ? (
+                <View
+                  style={{
+                    flexDirection: "row",
+                    flexWrap: "wrap",
+                    marginTop: 8,
+                  }}
+                >
+                  {patronage.map((p) => (
+                    <Chip
+                      key={p}
+                      compact
+                      style={{ marginRight: 6, marginTop: 4 }}
+                      onPress={() =>
+                        router.push({
+                          pathname: "/intentions",
+                          params: { id: p },
+                        })
+                      }
+                    >
+                      {t(`intention_${p}`, { defaultValue: p })}
+                    </Chip>
+                  ))}
+                </View>
+              ) : null}
+
+              {/* Progress */}
+              {instance || enrollment ? (
+                <Card
+                  style={{
+                    marginTop: 16,
+                    borderRadius: 18,
+                    backgroundColor: "rgba(255,255,255,0.96)",
+                  }}
+                >
+                  <Card.Content>
+                    <Text variant="titleMedium" style={{ fontWeight: "800" }}>
+                      {t("novena_your_progress", {
+                        defaultValue: "Your progress",
+                      })}
+                    </Text>
+
+                    <Text style={{ marginTop: 6, opacity: 0.7 }}>
+                      {t("novena_run_dates", {
+                        defaultValue: "{{start}} → {{end}}",
+                        start:
+                          enrollment?.startDate ??
+                          dateToKeyUTC(instance!.startDate),
+                        end:
+                          enrollment?.feastDate ??
+                          dateToKeyUTC(instance!.feastDate),
+                      })}
+                    </Text>
+
+                    {why ? (
+                      <>
+                        <Button
+                          mode="text"
+                          compact
+                          icon={showWhy ? "chevron-up" : "chevron-down"}
+                          style={{ alignSelf: "flex-start", marginTop: 2 }}
+                          onPress={() => setShowWhy((v) => !v)}
+                        >
+                          {t("novena_why_dates", {
+                            defaultValue: "Why these dates?",
+                          })}
+                        </Button>
+                        {showWhy ? (
+                          <View style={{ marginTop: 2, gap: 4 }}>
+                            <Text style={{ fontWeight: "700" }}>
+                              {t("trace_feast_title", {
+                                defaultValue: "Feast day",
+                              })}
+                            </Text>
+                            {why.feast.map((line, i) => (
+                              <Text key={`f${i}`} style={{ opacity: 0.75 }}>
+                                • {line}
+                              </Text>
+                            ))}
+                            <Text style={{ fontWeight: "700", marginTop: 6 }}>
+                              {t("trace_start_title", {
+                                defaultValue: "First day",
+                              })}
+                            </Text>
+                            {why.start.map((line, i) => (
+                              <Text key={`s${i}`} style={{ opacity: 0.75 }}>
+                                • {line}
+                              </Text>
+                            ))}
+                          </View>
+                        ) : null}
+                      </>
+                    ) : null}
+
+                    {enrollment ? (
+                      <>
+                        <Text style={{ marginTop: 10, fontWeight: "800" }}>
+                          {todayDay !== null
+                            ? t("novena_progress_day", {
+                                defaultValue: "Day {{day}} of {{total}}",
+                                day: todayDay,
+                                total: enrollment.durationDays,
+                              })
+                            : todayKey < enrollment.startDate
+                              ? t("novena_run_not_started", {
+                                  defaultValue: "Starts {{date}}",
+                                  date: enrollment.startDate,
+                                })
+                              : t("novena_run_finished", {
+                                  defaultValue: "Ended {{date}}",
+                                  date: enrollment.feastDate,
+                                })}
+                        </Text>
+
+                        <Text style={{ marginTop: 4, opacity: 0.7 }}>
+                          {t("novena_progress_prayed", {
+                            defaultValue: "{{count}} of {{total}} days prayed",
+                            count: enrollment.prayedDays.length,
+                            total: enrollment.durationDays,
+                          })}
+                        </Text>
+
+                        <Button
+                          mode="text"
+                          style={{ marginTop: 8 }}
+                          onPress={() => router.push("/reminders")}
+                        >
+                          {t("reminders_title", { defaultValue: "Reminders" })}
+                        </Button>
+
+                        <Button
+                          mode="text"
+                          disabled={busy}
+                          onPress={() =>
+                            runBusy(async () => {
+                              await unenrollFromNovena(enrollment.key);
+                              await removeNovenaFromDeviceCalendar(
+                                enrollment.key,
+                              );
+                            })
+                          }
+                        >
+                          {t("novena_stop_praying", {
+                            defaultValue: "Stop praying this novena",
+                          })}
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        mode="contained"
+                        style={{ marginTop: 12 }}
+                        disabled={busy}
+                        onPress={() => runBusy(() => enrollInNovena(instance!))}
+                      >
+                        {t("novena_im_praying_this", {
+                          defaultValue: "I'm praying this",
+                        })}
+                      </Button>
+                    )}
+
+                    {run && deviceCalendarSupported() ? (
+                      <>
+                        <Button
+                          mode="outlined"
+                          icon={
+                            inDeviceCalendar
+                              ? "calendar-remove"
+                              : "calendar-plus"
+                          }
+                          style={{ marginTop: 8 }}
+                          disabled={busy}
+                          onPress={toggleDeviceCalendar}
+                        >
+                          {inDeviceCalendar
+                            ? t("calendar_remove", {
+                                defaultValue: "Remove from my calendar",
+                              })
+                            : t("calendar_add", {
+                                defaultValue: "Add to my calendar",
+                              })}
+                        </Button>
+                        {calendarError ? (
+                          <Text
+                            style={{
+                              marginTop: 6,
+                              color: "#B3261E",
+                              fontSize: 12,
+                            }}
+                          >
+                            {calendarError}
+                          </Text>
+                        ) : null}
+                      </>
+                    ) : null}
+                  </Card.Content>
+                </Card>
+              ) : null}
+
               {/* Day picker */}
               {days.length > 0 ? (
                 <>
@@ -228,6 +552,7 @@ export default function NovenaDetailScreen() {
                         >
                           <Text style={{ fontWeight: "800", color: "white" }}>
                             {t("day_label", { defaultValue: "Day" })} {d.day}
+                            {prayed.has(d.day) ? " ✓" : ""}
                           </Text>
                         </TouchableOpacity>
                       );
@@ -298,6 +623,31 @@ export default function NovenaDetailScreen() {
                             })}
                           </Text>
                         ) : null}
+
+                        {enrollment && day.day <= enrollment.durationDays ? (
+                          <Button
+                            mode={
+                              prayed.has(day.day) ? "outlined" : "contained"
+                            }
+                            style={{ marginTop: 16 }}
+                            disabled={busy}
+                            onPress={() =>
+                              runBusy(() =>
+                                setDayPrayed(
+                                  enrollment.key,
+                                  day.day,
+                                  !prayed.has(day.day),
+                                ),
+                              )
+                            }
+                          >
+                            {prayed.has(day.day)
+                              ? t("novena_prayed", { defaultValue: "Prayed ✓" })
+                              : t("novena_mark_prayed", {
+                                  defaultValue: "Mark as prayed",
+                                })}
+                          </Button>
+                        ) : null}
                       </Card.Content>
                     </Card>
                   ) : (
@@ -322,7 +672,7 @@ export default function NovenaDetailScreen() {
                 style={{ marginTop: 24 }}
                 mode="outlined"
                 textColor="white"
-                onPress={router.back}
+                onPress={goBack}
               >
                 {t("back", { defaultValue: "Back" })}
               </Button>
@@ -0,0 +1,329 @@
+// app/reminders.tsx
+//
+// Novena reminder settings.
+// Route: /reminders
+//
+// - Daily reminder for every enrolled novena run, at a user-chosen time
+// - Optional "starts tomorrow" heads-up for starred novenas
+// - Preview of the next few scheduled reminders
+//
+// Scheduling itself happens in hooks/use-novena-reminders.ts (root layout),
+// which re-syncs whenever these settings change.
+
+import React, { useCallback, useMemo, useState } from "react";
+import { ScrollView, View } from "react-native";
+import { Stack, useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { LinearGradient } from "expo-linear-gradient";
+import {
+  Button,
+  Card,
+  Divider,
+  IconButton,
+  Switch,
+  Text,
+} from "react-native-paper";
+import { useTranslation } from "react-i18next";
+
+import { usePersistedStore } from "@/hooks/use-persisted-store";
+
+import { NOVENAS } from "../data/calendar";
+import { AppTheme } from "../utils/theme";
+import { enrollmentsStore } from "../utils/novenaProgress";
+import {
+  ensureReminderPermission,
+  planNovenaReminders,
+  reminderSettingsStore,
+  remindersSupported,
+} from "../utils/novenaReminders";
+import {
+  starredNovenasStore,
+  toggleStarredNovena,
+} from "../utils/starredNovenas";
+import { calendarProfileStore } from "../utils/calendarProfileStore";
+
+const MINUTE_STEP = 15;
+
+function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+export default function RemindersScreen() {
+  const { t } = useTranslation();
+  const router = useRouter();
+
+  const settings = usePersistedStore(reminderSettingsStore);
+  const enrollments = usePersistedStore(enrollmentsStore);
+  const starred = usePersistedStore(starredNovenasStore);
+  const profile = usePersistedStore(calendarProfileStore);
+
+  const [permissionDenied, setPermissionDenied] = useState(false);
+
+  const titleById = useMemo(() => {
+    const m = new Map<string, string>();
+    for (const n of NOVENAS) m.set(n.id, n.title);
+    return m;
+  }, []);
+
+  const upcoming = useMemo(
+    () =>
+      planNovenaReminders({ enrollments, starred, settings, profile }).slice(
+        0,
+        5,
+      ),
+    [enrollments, starred, settings, profile],
+  );
+
+  const onToggleEnabled = useCallback(async (next: boolean) => {
+    if (next) {
+      const ok = await ensureReminderPermission();
+      setPermissionDenied(!ok);
+      if (!ok) return;
+    }
+    await reminderSettingsStore.set((prev) => ({ ...prev, enabled: next }));
+  }, []);
+
+  const shiftTime = useCallback((deltaMinutes: number) => {
+    reminderSettingsStore.set((prev) => {
+      const total =
+        (((prev.hour * 60 + prev.minute + deltaMinutes) % 1440) + 1440) % 1440;
+      return { ...prev, hour: Math.floor(total / 60), minute: total % 60 };
+    });
+  }, []);
+
+  return (
+    <LinearGradient colors={[...AppTheme.gradients.main]} style={{ flex: 1 }}>
+      <Stack.Screen
+        options={{
+          title: t("reminders_title", { defaultValue: "Reminders" }),
+          headerTitleAlign: "center",
+          headerBackVisible: false,
+          headerLeft: () => (
+            <Button
+              compact
+              onPress={() => router.back()}
+              contentStyle={{ paddingHorizontal: 0 }}
+            >
+              ←
+            </Button>
+          ),
+        }}
+      />
+
+      <SafeAreaView style={{ flex: 1, padding: 16 }}>
+        <ScrollView showsVerticalScrollIndicator={false}>
+          {!remindersSupported() ? (
+            <Card style={{ borderRadius: 20, marginBottom: 14 }}>
+              <Card.Content>
+                <Text style={{ opacity: 0.8 }}>
+                  {t("reminders_unsupported", {
+                    defaultValue:
+                      "Reminders are only available in the iOS and Android apps.",
+                  })}
+                </Text>
+              </Card.Content>
+            </Card>
+          ) : null}
+
+          <Card style={{ borderRadius: 20 }}>
+            <Card.Content>
+              <View
+                style={{
+                  flexDirection: "row",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                }}
+              >
+                <View style={{ flex: 1, paddingRight: 12 }}>
+                  <Text variant="titleMedium" style={{ fontWeight: "800" }}>
+                    {t("reminders_daily", { defaultValue: "Daily reminders" })}
+                  </Text>
+                  <Text style={{ marginTop: 4, opacity: 0.7 }}>
+                    {t("reminders_daily_desc", {
+                      defaultValue:
+                        "A notification for each day of the novenas you're praying.",
+                    })}
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.enabled}
+                  disabled={!remindersSupported()}
+                  onValueChange={onToggleEnabled}
+                />
+              </View>
+
+              {permissionDenied ? (
+                <Text style={{ marginTop: 10, color: "#b00020" }}>
+                  {t("reminders_permission_denied", {
+                    defaultValue:
+                      "Notifications are turned off for this app. Enable them in system settings.",
+                  })}
+                </Text>
+              ) : null}
+
+              <Divider style={{ marginVertical: 12 }} />
+
+              <Text style={{ fontWeight: "800" }}>
+                {t("reminders_time", { defaultValue: "Reminder time" })}
+              </Text>
+
+              <View
+                style={{
+                  flexDirection: "row",
+                  alignItems: "center",
+                  justifyContent: "center",
+                }}
+              >
+                <IconButton
+                  icon="minus"
+                  onPress={() => shiftTime(-MINUTE_STEP)}
+                  accessibilityLabel={t("reminders_time_earlier", {
+                    defaultValue: "Earlier",
+                  })}
+                />
+                <Text style={{ fontSize: 22, fontWeight: "800" }}>
+                  {pad2(settings.hour)}:{pad2(settings.minute)}
+                </Text>
+                <IconButton
+                  icon="plus"
+                  onPress={() => shiftTime(MINUTE_STEP)}
+                  accessibilityLabel={t("reminders_time_later", {
+                    defaultValue: "Later",
+                  })}
+                />
+              </View>
+
+              <Divider style={{ marginVertical: 12 }} />
+
+              <View
+                style={{
+                  flexDirection: "row",
+                  alignItems: "center",
+                  justifyContent: "space-between",
+                }}
+              >
+                <View style={{ flex: 1, paddingRight: 12 }}>
+                  <Text style={{ fontWeight: "800" }}>
+                    {t("reminders_starts_tomorrow", {
+                      defaultValue: "Starred novenas: starts tomorrow",
+                    })}
+                  </Text>
+                  <Text style={{ marginTop: 4, opacity: 0.7 }}>
+                    {t("reminders_starts_tomorrow_desc", {
+                      defaultValue:
+                        "A heads-up the day before a starred novena begins.",
+                    })}
+                  </Text>
+                </View>
+                <Switch
+                  value={settings.startsTomorrow}
+                  disabled={!settings.enabled}
+                  onValueChange={(v) =>
+                    reminderSettingsStore.set((prev) => ({
+                      ...prev,
+                      startsTomorrow: v,
+                    }))
+                  }
+                />
+              </View>
+            </Card.Content>
+          </Card>
+
+          <Card style={{ borderRadius: 20, marginTop: 14 }}>
+            <Card.Content>
+              <Text variant="titleMedium" style={{ fontWeight: "800" }}>
+                {t("reminders_starred", { defaultValue: "Starred novenas" })}
+              </Text>
+              <Divider style={{ marginTop: 10 }} />
+
+              {starred.length === 0 ? (
+                <Text style={{ marginTop: 10, opacity: 0.7 }}>
+                  {t("reminders_no_starred", {
+                    defaultValue:
+                      "Star a novena from its page to get a heads-up before it starts.",
+                  })}
+                </Text>
+              ) : (
+                starred.map((id) => (
+                  <View
+                    key={id}
+                    style={{
+                      flexDirection: "row",
+                      alignItems: "center",
+                      marginTop: 6,
+                    }}
+                  >
+                    <Button
+                      mode="text"
+                      style={{ flex: 1, alignItems: "flex-start" }}
+                      onPress={() =>
+                        router.push({
+                          pathname: "/novena/[id]",
+                          params: { id },
+                        })
+                      }
+                    >
+                      {titleById.get(id) ?? id}
+                    </Button>
+                    <IconButton
+                      icon="star"
+                      onPress={() => toggleStarredNovena(id)}
+                      accessibilityLabel={t("novena_unstar", {
+                        defaultValue: "Remove star",
+                      })}
+                    />
+                  </View>
+                ))
+              )}
+            </Card.Content>
+          </Card>
+
+          {settings.enabled ? (
+            <Card style={{ borderRadius: 20, marginTop: 14 }}>
+              <Card.Content>
+                <Text variant="titleMedium" style={{ fontWeight: "800" }}>
+                  {t("reminders_upcoming", {
+                    defaultValue: "Upcoming reminders",
+                  })}
+                </Text>
+                <Divider style={{ marginTop: 10 }} />
+
+                {upcoming.length === 0 ? (
+                  <Text style={{ marginTop: 10, opacity: 0.7 }}>
+                    {t("reminders_none_upcoming", {
+                      defaultValue: "Nothing scheduled yet.",
+                    })}
+                  </Text>
+                ) : (
+                  upcoming.map((r) => (
+                    <Text key={r.identifier} style={{ marginTop: 8 }}>
+                      • {r.fireAt.toLocaleDateString()}{" "}
+                      {pad2(r.fireAt.getHours())}:{pad2(r.fireAt.getMinutes())}{" "}
+                      — {r.title}
+                      {r.day
+                        ? ` (${t("novena_progress_day", {
+                            defaultValue: "Day {{day}} of {{total}}",
+                            day: r.day,
+                            total: r.totalDays,
+                          })})`
+                        : ""}
+                    </Text>
+                  ))
+                )}
+              </Card.Content>
+            </Card>
+          ) : null}
+
+          <Button
+            mode="text"
+            textColor="white"
+            style={{ marginTop: 16 }}
+            onPress={() => router.back()}
+          >
+            {t("back", { defaultValue: "Back" })}
+          </Button>
+        </ScrollView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
@@ -8,9 +8,9 @@
 // ✅ Uses global app language via i18n.
 // ✅ All user-visible labels translated via t(...), with defaultValue fallbacks.
 //
-// Uses the auto-generated saintsManifest.ts to load the JSON doc for the saint.
+// Loads the saint's JSON doc on demand (saintsManifest.ts, utils/lazyDocs.ts).
 
-import React, { useMemo } from "react";
+import React from "react";
 import { View, ScrollView, Linking, Pressable } from "react-native";
 import { Stack, useLocalSearchParams, useRouter } from "expo-router";
 import { SafeAreaView } from "react-native-safe-area-context";
@@ -21,24 +21,28 @@ import {
   Divider,
   Button,
   ActivityIndicator,
+  Chip,
 } from "react-native-paper";
 import { useTranslation } from "react-i18next";
 
-import { getSaintDoc, type SaintDoc } from "../../data/saintsManifest";
+import { useGoBack } from "@/hooks/use-go-back";
+import { useLazyDoc } from "@/hooks/use-lazy-doc";
+
+import { saintDocs, type SaintDoc } from "../../data/saintsManifest";
 import { AppTheme } from "../../utils/theme";
+import { isDateKey } from "../../utils/dateKeys";
+import { shareLink } from "../../utils/deepLinks";
 
 export default function SaintDetailScreen() {
   const { t } = useTranslation();
   const router = useRouter();
+  const goBack = useGoBack();
   const params = useLocalSearchParams<{ id?: string; date?: string }>();
 
   const id = typeof params.id === "string" ? params.id : "";
-  const date = typeof params.date === "string" ? params.date : undefined;
+  const date = isDateKey(params.date) ? params.date : undefined;
 
-  const doc: SaintDoc | null = useMemo(() => {
-    if (!id) return null;
-    return getSaintDoc(id);
-  }, [id]);
+  const { doc, loading } = useLazyDoc<SaintDoc>(saintDocs, id);
 
   const title =
     doc?.name ?? t("saint_title_fallback", { defaultValue: "Saint" });
@@ -106,12 +110,23 @@ export default function SaintDetailScreen() {
           headerLeft: () => (
             <Button
               compact
-              onPress={() => router.back()}
+              onPress={goBack}
               contentStyle={{ paddingHorizontal: 0 }}
             >
               ←
             </Button>
           ),
+          headerRight: () =>
+            doc ? (
+              <Button
+                compact
+                onPress={() => shareLink({ kind: "saint", id, date }, title)}
+                contentStyle={{ paddingHorizontal: 0 }}
+                accessibilityLabel={t("share", { defaultValue: "Share" })}
+              >
+                ⇪
+              </Button>
+            ) : null,
         }}
       />
 
@@ -145,11 +160,37 @@ export default function SaintDetailScreen() {
                   {doc.mmdd}
                 </Text>
               ) : null}
+
+              {doc?.patronage?.length ? (
+                <View
+                  style={{
+                    flexDirection: "row",
+                    flexWrap: "wrap",
+                    marginTop: 8,
+                  }}
+                >
+                  {doc.patronage.map((p) => (
+                    <Chip
+                      key={p}
+                      compact
+                      style={{ marginRight: 6, marginTop: 4 }}
+                      onPress={() =>
+                        router.push({
+                          pathname: "/intentions",
+                          params: { id: p },
+                        })
+                      }
+                    >
+                      {t(`intention_${p}`, { defaultValue: p })}
+                    </Chip>
+                  ))}
+                </View>
+              ) : null}
             </Card.Content>
           </Card>
 
           {/* Not found */}
-          {!doc ? (
+          {loading ? null : !doc ? (
             <Card style={{ borderRadius: 20, marginTop: 14 }}>
               <Card.Content>
                 <Text style={{ opacity: 0.8 }}>
@@ -166,7 +207,7 @@ export default function SaintDetailScreen() {
                 <Button
                   mode="contained"
                   style={{ marginTop: 14 }}
-                  onPress={() => router.back()}
+                  onPress={goBack}
                 >
                   {t("go_back", { defaultValue: "Go back" })}
                 </Button>
@@ -292,11 +333,7 @@ export default function SaintDetailScreen() {
                 </Card>
               ) : null}
 
-              <Button
-                mode="text"
-                style={{ marginTop: 16 }}
-                onPress={() => router.back()}
-              >
+              <Button mode="text" style={{ marginTop: 16 }} onPress={goBack}>
                 {t("back", { defaultValue: "Back" })}
               </Button>
             </>
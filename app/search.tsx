@@ -0,0 +1,181 @@
+// app/search.tsx
+//
+// Global search.
+// Route: /search
+// Params: q (optional initial query)
+//
+// Saints (every name of every day), novenas (title / tags / patronage) and
+// feasts, matched accent-insensitively by utils/search.ts.
+// Results open the matching detail screen: /saint/[id], /novena/[id] or
+// /day/[date] for saints without their own page and for feasts.
+
+import React, { useCallback, useDeferredValue, useMemo, useState } from "react";
+import { FlatList, View } from "react-native";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { LinearGradient } from "expo-linear-gradient";
+import { Button, Card, List, Searchbar, Text } from "react-native-paper";
+import { useTranslation } from "react-i18next";
+
+import { useGoBack } from "@/hooks/use-go-back";
+import { usePersistedStore } from "@/hooks/use-persisted-store";
+import { useTodayKey } from "@/hooks/use-today-key";
+
+import { AppTheme } from "../utils/theme";
+import { calendarProfileStore } from "../utils/calendarProfileStore";
+import { searchAll, type SearchResult } from "../utils/search";
+
+const KIND_ICON: Record<SearchResult["kind"], string> = {
+  saint: "account",
+  novena: "book-open-variant",
+  feast: "calendar-star",
+};
+
+export default function SearchScreen() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const goBack = useGoBack();
+  const params = useLocalSearchParams<{ q?: string }>();
+
+  const [query, setQuery] = useState(
+    typeof params.q === "string" ? params.q : "",
+  );
+  const deferredQuery = useDeferredValue(query);
+
+  const todayKey = useTodayKey();
+  const profile = usePersistedStore(calendarProfileStore);
+
+  const results = useMemo(
+    () => searchAll(deferredQuery, { todayKey, profile }),
+    [deferredQuery, todayKey, profile],
+  );
+
+  const kindLabel = useCallback(
+    (kind: SearchResult["kind"]) => {
+      switch (kind) {
+        case "saint":
+          return t("search_kind_saint", { defaultValue: "Saint" });
+        case "novena":
+          return t("search_kind_novena", { defaultValue: "Novena" });
+        case "feast":
+          return t("search_kind_feast", { defaultValue: "Feast" });
+      }
+    },
+    [t],
+  );
+
+  const openResult = useCallback(
+    (r: SearchResult) => {
+      const target = r.target;
+      switch (target.kind) {
+        case "saint":
+          router.push({
+            pathname: "/saint/[id]",
+            params: { id: target.id, date: target.date },
+          });
+          return;
+        case "novena":
+          router.push({
+            pathname: "/novena/[id]",
+            params: { id: target.id },
+          });
+          return;
+        case "day":
+          router.push({
+            pathname: "/day/[date]",
+            params: { date: target.date },
+          });
+          return;
+      }
+    },
+    [router],
+  );
+
+  return (
+    <LinearGradient colors={[...AppTheme.gradients.main]} style={{ flex: 1 }}>
+      <Stack.Screen
+        options={{
+          title: t("search_title", { defaultValue: "Search" }),
+          headerTitleAlign: "center",
+          headerBackVisible: false,
+          headerLeft: () => (
+            <Button
+              compact
+              onPress={goBack}
+              contentStyle={{ paddingHorizontal: 0 }}
+            >
+              ←
+            </Button>
+          ),
+        }}
+      />
+
+      <SafeAreaView
+        style={{ flex: 1, padding: 16 }}
+        edges={["bottom", "left", "right"]}
+      >
+        <Searchbar
+          value={query}
+          onChangeText={setQuery}
+          autoFocus
+          autoCorrect={false}
+          autoCapitalize="none"
+          placeholder={t("search_placeholder", {
+            defaultValue: "Saints, novenas, feasts…",
+          })}
+          style={{ borderRadius: 16 }}
+        />
+
+        <FlatList
+          data={results}
+          keyExtractor={(r, idx) => `${r.kind}:${r.title}:${r.subtitle}:${idx}`}
+          keyboardShouldPersistTaps="handled"
+          style={{ marginTop: 12 }}
+          contentContainerStyle={{ paddingBottom: 24 }}
+          ListEmptyComponent={
+            deferredQuery.trim() ? (
+              <Card style={{ borderRadius: 20 }}>
+                <Card.Content>
+                  <Text style={{ opacity: 0.7 }}>
+                    {t("search_no_results", {
+                      defaultValue: "Nothing found for “{{query}}”.",
+                      query: deferredQuery.trim(),
+                    })}
+                  </Text>
+                </Card.Content>
+              </Card>
+            ) : (
+              <Text
+                style={{
+                  color: "rgba(255,255,255,0.8)",
+                  textAlign: "center",
+                  marginTop: 12,
+                }}
+              >
+                {t("search_hint", {
+                  defaultValue:
+                    "Type a name — accents and small typos are fine.",
+                })}
+              </Text>
+            )
+          }
+          ItemSeparatorComponent={() => <View style={{ height: 8 }} />}
+          renderItem={({ item }) => (
+            <Card style={{ borderRadius: 16 }} onPress={() => openResult(item)}>
+              <List.Item
+                title={item.title}
+                titleNumberOfLines={2}
+                description={[kindLabel(item.kind), item.subtitle]
+                  .filter(Boolean)
+                  .join(" · ")}
+                left={(props) => (
+                  <List.Icon {...props} icon={KIND_ICON[item.kind]} />
+                )}
+              />
+            </Card>
+          )}
+        />
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
@@ -0,0 +1,343 @@
+// components/AgendaList.tsx
+//
+// Chronological alternative to MonthGrid: one row per day that has
+// something to show, grouped under month and week headers.
+// - Virtualized over a three-year window (utils/calendarViewMode.ts)
+// - Opens at today; the "Today" button scrolls back to it
+// - A getEntry(dateKey) hook lets each tab supply the row (null = skip day)
+//
+// Rows have fixed heights so FlatList can jump straight to an index
+// without measuring three years of rows first.
+
+import React, { useCallback, useMemo, useRef } from "react";
+import { FlatList, TouchableOpacity, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Button, Text } from "react-native-paper";
+import { useTranslation } from "react-i18next";
+
+import { useTodayKey } from "@/hooks/use-today-key";
+import { addDaysToKey, keyToUTCNoon, toDateKey } from "@/utils/dateKeys";
+import { agendaWindow } from "@/utils/calendarViewMode";
+
+import type { DayMeta } from "./MonthGrid";
+
+const MONTH_HEIGHT = 52;
+const WEEK_HEIGHT = 30;
+const DAY_HEIGHT = 76;
+
+export type AgendaEntry = {
+  title: string;
+  subtitle?: string | null;
+  tone?: DayMeta["tone"];
+  outlineColor?: string;
+};
+
+type Row =
+  | { kind: "month"; key: string; label: string }
+  | { kind: "week"; key: string; label: string }
+  | {
+      kind: "day";
+      key: string;
+      weekday: string;
+      day: number;
+      entry: AgendaEntry | null;
+    };
+
+const ROW_HEIGHT: Record<Row["kind"], number> = {
+  month: MONTH_HEIGHT,
+  week: WEEK_HEIGHT,
+  day: DAY_HEIGHT,
+};
+
+function formatKey(
+  key: string,
+  lang: string,
+  opts: Intl.DateTimeFormatOptions,
+): string {
+  try {
+    return keyToUTCNoon(key).toLocaleDateString(lang, {
+      timeZone: "UTC",
+      ...opts,
+    });
+  } catch {
+    return key;
+  }
+}
+
+/** Sunday on or before `key` (weeks start on Sunday, like MonthGrid). */
+function weekStartOf(key: string): string {
+  return addDaysToKey(key, -keyToUTCNoon(key).getUTCDay());
+}
+
+function AgendaRow({
+  row,
+  isToday,
+  onPress,
+  onLongPress,
+  emptyLabel,
+}: {
+  row: Extract<Row, { kind: "day" }>;
+  isToday: boolean;
+  onPress: () => void;
+  onLongPress?: () => void;
+  emptyLabel: string;
+}) {
+  const entry = row.entry;
+  const tone = entry?.tone;
+
+  const bg =
+    tone === "primary"
+      ? "rgba(255,255,255,0.30)"
+      : tone === "secondary"
+        ? "rgba(255,255,255,0.22)"
+        : "rgba(255,255,255,0.14)";
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      onLongPress={onLongPress}
+      delayLongPress={350}
+      style={{
+        height: DAY_HEIGHT - 8,
+        marginVertical: 4,
+        flexDirection: "row",
+        alignItems: "center",
+        borderRadius: 12,
+        backgroundColor: bg,
+        borderWidth: isToday ? 2 : 0,
+        borderColor: "rgba(255,255,255,0.85)",
+        overflow: "hidden",
+      }}
+    >
+      <View
+        style={{
+          width: 5,
+          alignSelf: "stretch",
+          backgroundColor: entry?.outlineColor ?? "rgba(255,255,255,0.28)",
+        }}
+      />
+
+      <View style={{ width: 52, alignItems: "center" }}>
+        <Text style={{ color: "white", opacity: 0.8, fontSize: 11 }}>
+          {row.weekday}
+        </Text>
+        <Text style={{ color: "white", fontWeight: "bold", fontSize: 20 }}>
+          {row.day}
+        </Text>
+      </View>
+
+      <View style={{ flex: 1, paddingRight: 12 }}>
+        <Text
+          style={{
+            color: "white",
+            fontWeight: tone === "none" || !entry ? "400" : "700",
+            opacity: entry ? 1 : 0.7,
+          }}
+          numberOfLines={entry?.subtitle ? 1 : 2}
+        >
+          {entry?.title ?? emptyLabel}
+        </Text>
+        {entry?.subtitle ? (
+          <Text
+            style={{ color: "white", opacity: 0.75, fontSize: 12 }}
+            numberOfLines={1}
+          >
+            {entry.subtitle}
+          </Text>
+        ) : null}
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+export function AgendaList({
+  year,
+  getEntry,
+  onPressDate,
+  onLongPressDate,
+  onTodayOutsideWindow,
+  headerTitle,
+  toolbar,
+}: {
+  /** Center year of the window (the year shown in the month view). */
+  year: number;
+  getEntry: (dateKey: string) => AgendaEntry | null;
+  onPressDate: (dateKey: string) => void;
+  onLongPressDate?: (dateKey: string) => void;
+  /** Called by "Today" when today isn't in the window (e.g. reset the year). */
+  onTodayOutsideWindow?: () => void;
+  headerTitle?: string;
+  toolbar?: React.ReactNode;
+}) {
+  const { t, i18n } = useTranslation();
+  const lang = i18n.language || "en";
+  const todayKey = useTodayKey();
+  const listRef = useRef<FlatList<Row>>(null);
+
+  const { start, end } = agendaWindow(year);
+
+  const rows = useMemo(() => {
+    const out: Row[] = [];
+    let month = "";
+    let week = "";
+
+    for (let key = start; key <= end; key = addDaysToKey(key, 1)) {
+      const entry = getEntry(key);
+      // Today always gets a row so "Today" has somewhere to land.
+      if (!entry && key !== todayKey) continue;
+
+      const m = key.slice(0, 7);
+      if (m !== month) {
+        month = m;
+        week = "";
+        out.push({
+          kind: "month",
+          key: `m-${m}`,
+          label: formatKey(key, lang, { month: "long", year: "numeric" }),
+        });
+      }
+
+      const w = weekStartOf(key);
+      if (w !== week) {
+        week = w;
+        out.push({
+          kind: "week",
+          key: `w-${m}-${w}`,
+          label: t("agenda_week_of", {
+            defaultValue: "Week of {{date}}",
+            date: formatKey(w, lang, { month: "short", day: "numeric" }),
+          }),
+        });
+      }
+
+      out.push({
+        kind: "day",
+        key,
+        weekday: formatKey(key, lang, { weekday: "short" }),
+        day: Number(key.slice(8, 10)),
+        entry,
+      });
+    }
+    return out;
+  }, [start, end, getEntry, todayKey, lang, t]);
+
+  const offsets = useMemo(() => {
+    const arr: number[] = [];
+    let y = 0;
+    for (const r of rows) {
+      arr.push(y);
+      y += ROW_HEIGHT[r.kind];
+    }
+    return arr;
+  }, [rows]);
+
+  const todayIndex = useMemo(
+    () => rows.findIndex((r) => r.kind === "day" && r.key === todayKey),
+    [rows, todayKey],
+  );
+
+  // Outside the window: open at January of the center year instead.
+  const initialIndex = useMemo(() => {
+    if (todayIndex >= 0) return todayIndex;
+    const jan = toDateKey(year, 1, 1).slice(0, 7);
+    return Math.max(
+      0,
+      rows.findIndex((r) => r.kind === "month" && r.key === `m-${jan}`),
+    );
+  }, [rows, todayIndex, year]);
+
+  const getItemLayout = useCallback(
+    (_: ArrayLike<Row> | null | undefined, index: number) => ({
+      length: ROW_HEIGHT[rows[index].kind],
+      offset: offsets[index],
+      index,
+    }),
+    [rows, offsets],
+  );
+
+  const jumpToToday = () => {
+    if (todayIndex < 0) {
+      onTodayOutsideWindow?.();
+      return;
+    }
+    listRef.current?.scrollToIndex({ index: todayIndex, animated: true });
+  };
+
+  return (
+    <SafeAreaView style={{ flex: 1, padding: 16 }}>
+      {toolbar}
+
+      <View
+        style={{
+          flexDirection: "row",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: 6,
+        }}
+      >
+        <Text variant="headlineSmall" style={{ color: "white", flex: 1 }}>
+          {headerTitle}
+        </Text>
+        <Button
+          mode="contained-tonal"
+          compact
+          icon="calendar-today"
+          onPress={jumpToToday}
+        >
+          {t("agenda_today", { defaultValue: "Today" })}
+        </Button>
+      </View>
+
+      <FlatList
+        // Remount when the window moves so it opens at the new anchor.
+        key={start}
+        ref={listRef}
+        data={rows}
+        keyExtractor={(r) => r.key}
+        getItemLayout={getItemLayout}
+        initialScrollIndex={initialIndex}
+        initialNumToRender={16}
+        windowSize={7}
+        showsVerticalScrollIndicator={false}
+        renderItem={({ item }) => {
+          if (item.kind === "month") {
+            return (
+              <View
+                style={{ height: MONTH_HEIGHT, justifyContent: "flex-end" }}
+              >
+                <Text
+                  variant="titleLarge"
+                  style={{ color: "white", fontWeight: "800" }}
+                >
+                  {item.label}
+                </Text>
+              </View>
+            );
+          }
+          if (item.kind === "week") {
+            return (
+              <View style={{ height: WEEK_HEIGHT, justifyContent: "center" }}>
+                <Text style={{ color: "white", opacity: 0.7, fontSize: 12 }}>
+                  {item.label}
+                </Text>
+              </View>
+            );
+          }
+          return (
+            <AgendaRow
+              row={item}
+              isToday={item.key === todayKey}
+              onPress={() => onPressDate(item.key)}
+              onLongPress={
+                onLongPressDate ? () => onLongPressDate(item.key) : undefined
+              }
+              emptyLabel={t("agenda_nothing_listed", {
+                defaultValue: "Nothing listed",
+              })}
+            />
+          );
+        }}
+      />
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,56 @@
+// components/CalendarViewToggle.tsx
+//
+// Week / month / year / agenda switch shown at the top of each calendar tab.
+// The choice is persisted per tab (utils/calendarViewMode.ts).
+
+import React from "react";
+import { SegmentedButtons } from "react-native-paper";
+import { useTranslation } from "react-i18next";
+
+import {
+  CALENDAR_VIEW_MODES,
+  calendarViewModesStore,
+  setCalendarViewMode,
+  type CalendarTab,
+  type CalendarViewMode,
+} from "@/utils/calendarViewMode";
+import { usePersistedStore } from "@/hooks/use-persisted-store";
+
+const DEFAULT_LABELS: Record<CalendarViewMode, string> = {
+  week: "Week",
+  month: "Month",
+  year: "Year",
+  agenda: "Agenda",
+};
+
+export function useCalendarViewMode(tab: CalendarTab) {
+  return usePersistedStore(calendarViewModesStore)[tab];
+}
+
+export function changeCalendarView(tab: CalendarTab, mode: CalendarViewMode) {
+  setCalendarViewMode(tab, mode).catch((e) =>
+    console.warn("[CalendarViewToggle] failed to save view mode:", e),
+  );
+}
+
+export function CalendarViewToggle({ tab }: { tab: CalendarTab }) {
+  const { t } = useTranslation();
+  const mode = useCalendarViewMode(tab);
+
+  return (
+    <SegmentedButtons
+      value={mode}
+      onValueChange={(v) => {
+        const next = CALENDAR_VIEW_MODES.find((m) => m === v);
+        if (next) changeCalendarView(tab, next);
+      }}
+      density="small"
+      style={{ marginBottom: 8 }}
+      buttons={CALENDAR_VIEW_MODES.map((m) => ({
+        value: m,
+        uncheckedColor: "white",
+        label: t(`calendar_view_${m}`, { defaultValue: DEFAULT_LABELS[m] }),
+      }))}
+    />
+  );
+}
@@ -5,12 +5,23 @@
 // - Clickable Month/Year header with a professional "Jump to month" picker
 // - Swipe left/right to change months
 // - A getDayMeta(dateKey) hook to let each tab supply badges/meaning
+// - Two more layouts driven by the same getDayMeta:
+//   - "week": 7 rows with full titles (DayMeta.title, else badgeText)
+//   - "year": 12 mini-months colored by DayMeta.outlineColor (the season);
+//     tapping a month name opens it in the month layout
+// - Optional `toolbar` slot above the header (e.g. the layout toggle)
 //
 // Each tab owns its own "tap sheet" behavior; MonthGrid only reports which date was tapped.
 //
 
 import React, { useMemo, useRef, useState } from "react";
-import { View, TouchableOpacity, FlatList, Dimensions } from "react-native";
+import {
+  View,
+  TouchableOpacity,
+  FlatList,
+  Dimensions,
+  ScrollView,
+} from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import {
   Text,
@@ -38,6 +49,16 @@ const availableWidth = width - SCREEN_PADDING * 2 - CELL_MARGIN * 2 * NUM_COLS;
 const DAY_SIZE = availableWidth / NUM_COLS;
 const DAY_HEIGHT = 70;
 
+const WEEK_ROW_HEIGHT = 68;
+
+const YEAR_COLS = 3;
+const YEAR_MONTH_GAP = 10;
+const MINI_CELL = Math.floor(
+  (width - SCREEN_PADDING * 2 - YEAR_MONTH_GAP * (YEAR_COLS - 1)) /
+    YEAR_COLS /
+    NUM_COLS,
+);
+
 // Months / weekdays per language
 const MONTHS_EN = [
   "January",
@@ -114,11 +135,15 @@ const WEEKDAYS_TL = ["Lin", "Lun", "Mar", "Miy", "Huw", "Biy", "Sab"];
 export type DayMeta = {
   hasEvent?: boolean;
   badgeText?: string | null;
+  /** Untruncated label for the week layout (falls back to badgeText). */
+  title?: string | null;
   tone?: "primary" | "secondary" | "none" | string;
   outlineColor?: string;
   outlineWidth?: number;
 };
 
+export type MonthGridView = "month" | "week" | "year";
+
 type DayItem = {
   empty?: boolean;
   day?: number;
@@ -153,6 +178,35 @@ function normalizeTone(
   return "none";
 }
 
+/** Background + outline for a day, shared by the month and week layouts. */
+function cellColors(meta: DayMeta) {
+  const hasEvent = !!meta.hasEvent;
+
+  const tone = normalizeTone(meta.tone ?? (hasEvent ? "secondary" : "none"));
+
+  const bg =
+    tone === "primary"
+      ? "rgba(255,255,255,0.30)"
+      : tone === "secondary"
+        ? "rgba(255,255,255,0.22)"
+        : "rgba(255,255,255,0.14)";
+
+  const baseBorderWidth = tone === "primary" ? 2 : tone === "secondary" ? 2 : 1;
+
+  const borderWidth =
+    typeof meta.outlineWidth === "number" ? meta.outlineWidth : baseBorderWidth;
+
+  const borderColor =
+    meta.outlineColor ??
+    (tone === "primary"
+      ? "rgba(255,255,255,0.95)"
+      : tone === "secondary"
+        ? "rgba(255,255,255,0.65)"
+        : "rgba(255,255,255,0.28)");
+
+  return { tone, bg, borderWidth, borderColor };
+}
+
 function DayCell({
   item,
   onPress,
@@ -179,29 +233,7 @@ function DayCell({
   }
 
   const meta = item.meta ?? {};
-  const hasEvent = !!meta.hasEvent;
-
-  const tone = normalizeTone(meta.tone ?? (hasEvent ? "secondary" : "none"));
-
-  const bg =
-    tone === "primary"
-      ? "rgba(255,255,255,0.30)"
-      : tone === "secondary"
-        ? "rgba(255,255,255,0.22)"
-        : "rgba(255,255,255,0.14)";
-
-  const baseBorderWidth = tone === "primary" ? 2 : tone === "secondary" ? 2 : 1;
-
-  const borderWidth =
-    typeof meta.outlineWidth === "number" ? meta.outlineWidth : baseBorderWidth;
-
-  const borderColor =
-    meta.outlineColor ??
-    (tone === "primary"
-      ? "rgba(255,255,255,0.95)"
-      : tone === "secondary"
-        ? "rgba(255,255,255,0.65)"
-        : "rgba(255,255,255,0.28)");
+  const { bg, borderWidth, borderColor } = cellColors(meta);
 
   const label = meta.badgeText ? String(meta.badgeText) : null;
 
@@ -276,6 +308,167 @@ function DayCell({
   );
 }
 
+function WeekRow({
+  day,
+  weekday,
+  meta,
+  isToday,
+  onPress,
+  onLongPress,
+}: {
+  day: number;
+  weekday: string;
+  meta: DayMeta;
+  isToday: boolean;
+  onPress: () => void;
+  onLongPress?: () => void;
+}) {
+  const { tone, bg, borderWidth, borderColor } = cellColors(meta);
+  const label = meta.title ?? meta.badgeText ?? null;
+
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      onLongPress={onLongPress}
+      delayLongPress={350}
+      style={{
+        minHeight: WEEK_ROW_HEIGHT,
+        marginVertical: CELL_MARGIN,
+        flexDirection: "row",
+        alignItems: "center",
+        borderRadius: 12,
+        backgroundColor: bg,
+        borderWidth,
+        borderColor,
+        paddingVertical: 6,
+      }}
+    >
+      <View style={{ width: 56, alignItems: "center" }}>
+        <Text style={{ color: "white", opacity: 0.8, fontSize: 12 }}>
+          {weekday}
+        </Text>
+        <Text style={{ color: "white", fontWeight: "bold", fontSize: 20 }}>
+          {day}
+        </Text>
+        {isToday ? (
+          <View
+            style={{
+              marginTop: 2,
+              width: 6,
+              height: 6,
+              borderRadius: 3,
+              backgroundColor: "white",
+            }}
+          />
+        ) : null}
+      </View>
+
+      <Text
+        style={{
+          flex: 1,
+          color: "white",
+          paddingRight: 12,
+          fontWeight: tone === "none" ? "400" : "700",
+        }}
+        numberOfLines={3}
+      >
+        {label && label !== "·" ? label : ""}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+function MiniMonth({
+  year,
+  month0,
+  title,
+  weekdays,
+  getDayMeta,
+  todayKey,
+  onPressTitle,
+  onPressDate,
+}: {
+  year: number;
+  month0: number;
+  title: string;
+  weekdays: string[];
+  getDayMeta: (dateKey: string) => DayMeta;
+  todayKey: string;
+  onPressTitle: () => void;
+  onPressDate: (dateKey: string) => void;
+}) {
+  const firstDay = new Date(year, month0, 1).getDay();
+  const daysInMonth = new Date(year, month0 + 1, 0).getDate();
+
+  const cells: (string | null)[] = [];
+  for (let i = 0; i < firstDay; i++) cells.push(null);
+  for (let d = 1; d <= daysInMonth; d++) {
+    cells.push(toDateKey(year, month0 + 1, d));
+  }
+
+  return (
+    <View style={{ width: MINI_CELL * NUM_COLS, marginBottom: 14 }}>
+      <TouchableOpacity onPress={onPressTitle} accessibilityRole="button">
+        <Text style={{ color: "white", fontWeight: "800", marginBottom: 4 }}>
+          {title}
+        </Text>
+      </TouchableOpacity>
+
+      <View style={{ flexDirection: "row" }}>
+        {weekdays.map((d) => (
+          <Text
+            key={d}
+            style={{
+              width: MINI_CELL,
+              color: "white",
+              opacity: 0.6,
+              fontSize: 8,
+              textAlign: "center",
+            }}
+          >
+            {d.slice(0, 1)}
+          </Text>
+        ))}
+      </View>
+
+      <View style={{ flexDirection: "row", flexWrap: "wrap" }}>
+        {cells.map((key, i) => {
+          if (!key) {
+            return (
+              <View
+                key={`e-${i}`}
+                style={{ width: MINI_CELL, height: MINI_CELL }}
+              />
+            );
+          }
+          const meta = getDayMeta(key);
+          const tone = normalizeTone(meta.tone);
+          return (
+            <TouchableOpacity
+              key={key}
+              onPress={() => onPressDate(key)}
+              style={{ width: MINI_CELL, height: MINI_CELL, padding: 1 }}
+            >
+              <View
+                style={{
+                  flex: 1,
+                  borderRadius: 3,
+                  backgroundColor:
+                    meta.outlineColor ?? "rgba(255,255,255,0.28)",
+                  opacity:
+                    tone === "primary" ? 1 : tone === "secondary" ? 0.75 : 0.4,
+                  borderWidth: key === todayKey ? 1 : 0,
+                  borderColor: "white",
+                }}
+              />
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
 export function MonthGrid({
   currentDate,
   onChangeDate,
@@ -283,6 +476,9 @@ export function MonthGrid({
   onLongPressDate,
   getDayMeta,
   headerTitle,
+  toolbar,
+  view = "month",
+  onChangeView,
 }: {
   currentDate: Date;
   onChangeDate: (next: Date) => void;
@@ -290,6 +486,10 @@ export function MonthGrid({
   onLongPressDate?: (dateKey: string) => void;
   getDayMeta: (dateKey: string) => DayMeta;
   headerTitle?: string;
+  toolbar?: React.ReactNode;
+  view?: MonthGridView;
+  /** Lets the year layout drill into a month. */
+  onChangeView?: (next: MonthGridView) => void;
 }) {
   const { t, i18n } = useTranslation();
 
@@ -322,6 +522,7 @@ export function MonthGrid({
 
   const year = currentDate.getFullYear();
   const month0 = currentDate.getMonth();
+  const date = currentDate.getDate();
 
   const todayKey = useMemo(() => getTodayKeyLocal(), []);
 
@@ -331,8 +532,14 @@ export function MonthGrid({
     setJumpOpen(true);
   };
 
-  const goToNextMonth = () => onChangeDate(new Date(year, month0 + 1, 1));
-  const goToPrevMonth = () => onChangeDate(new Date(year, month0 - 1, 1));
+  // Arrows and swipes step by the unit of the current layout.
+  const step = (dir: 1 | -1) => {
+    if (view === "week") onChangeDate(new Date(year, month0, date + 7 * dir));
+    else if (view === "year") onChangeDate(new Date(year + dir, month0, 1));
+    else onChangeDate(new Date(year, month0 + dir, 1));
+  };
+  const goToNextMonth = () => step(1);
+  const goToPrevMonth = () => step(-1);
 
   const handleTouchStart = (e: any) => {
     touchStartX.current = e.nativeEvent.pageX;
@@ -364,12 +571,39 @@ export function MonthGrid({
     return arr;
   }, [year, month0, getDayMeta]);
 
+  // Sunday-first week containing currentDate.
+  const weekDays = useMemo(() => {
+    if (view !== "week") return [];
+    const first = date - new Date(year, month0, date).getDay();
+    return Array.from({ length: 7 }, (_, i) => {
+      const d = new Date(year, month0, first + i);
+      const key = toDateKey(d.getFullYear(), d.getMonth() + 1, d.getDate());
+      return {
+        key,
+        day: d.getDate(),
+        month0: d.getMonth(),
+        y: d.getFullYear(),
+      };
+    });
+  }, [view, year, month0, date]);
+
+  const headerLabel =
+    view === "year"
+      ? String(year)
+      : view === "week" && weekDays.length === 7
+        ? `${weekDays[0].day} ${MONTHS[weekDays[0].month0].slice(0, 3)} – ${
+            weekDays[6].day
+          } ${MONTHS[weekDays[6].month0].slice(0, 3)} ${weekDays[6].y}`
+        : `${MONTHS[month0]} ${year}`;
+
   return (
     <SafeAreaView
       style={{ flex: 1, padding: SCREEN_PADDING }}
       onTouchStart={handleTouchStart}
       onTouchEnd={handleTouchEnd}
     >
+      {toolbar}
+
       {/* Header */}
       <View
         style={{
@@ -410,7 +644,7 @@ export function MonthGrid({
               textAlign: "center",
             }}
           >
-            {MONTHS[month0]} {year} ▾
+            {headerLabel} ▾
           </Text>
 
           {headerTitle ? (
@@ -438,53 +672,104 @@ export function MonthGrid({
         </TouchableOpacity>
       </View>
 
-      {/* Weekday Labels */}
-      <View style={{ flexDirection: "row", marginBottom: 8 }}>
-        {WEEKDAYS.map((d) => (
+      {view === "week" ? (
+        <ScrollView showsVerticalScrollIndicator={false}>
+          {weekDays.map((d, i) => (
+            <WeekRow
+              key={d.key}
+              day={d.day}
+              weekday={WEEKDAYS[i]}
+              meta={getDayMeta(d.key)}
+              isToday={d.key === todayKey}
+              onPress={() => onPressDate(d.key)}
+              onLongPress={
+                onLongPressDate ? () => onLongPressDate(d.key) : undefined
+              }
+            />
+          ))}
+        </ScrollView>
+      ) : null}
+
+      {view === "year" ? (
+        <ScrollView showsVerticalScrollIndicator={false}>
           <View
-            key={d}
             style={{
-              width: DAY_SIZE,
-              marginHorizontal: CELL_MARGIN,
-              alignItems: "center",
+              flexDirection: "row",
+              flexWrap: "wrap",
+              justifyContent: "space-between",
             }}
           >
-            <Text
-              style={{
-                color: "white",
-                opacity: 0.8,
-                fontSize: 12,
-                textAlign: "center",
-              }}
-            >
-              {d}
-            </Text>
+            {MONTHS.map((m, i) => (
+              <MiniMonth
+                key={m}
+                year={year}
+                month0={i}
+                title={m}
+                weekdays={WEEKDAYS}
+                getDayMeta={getDayMeta}
+                todayKey={todayKey}
+                onPressTitle={() => {
+                  onChangeDate(new Date(year, i, 1));
+                  onChangeView?.("month");
+                }}
+                onPressDate={onPressDate}
+              />
+            ))}
+          </View>
+        </ScrollView>
+      ) : null}
+
+      {view === "month" ? (
+        <>
+          {/* Weekday Labels */}
+          <View style={{ flexDirection: "row", marginBottom: 8 }}>
+            {WEEKDAYS.map((d) => (
+              <View
+                key={d}
+                style={{
+                  width: DAY_SIZE,
+                  marginHorizontal: CELL_MARGIN,
+                  alignItems: "center",
+                }}
+              >
+                <Text
+                  style={{
+                    color: "white",
+                    opacity: 0.8,
+                    fontSize: 12,
+                    textAlign: "center",
+                  }}
+                >
+                  {d}
+                </Text>
+              </View>
+            ))}
           </View>
-        ))}
-      </View>
 
-      {/* Grid */}
-      <FlatList
-        data={daysArray}
-        numColumns={NUM_COLS}
-        keyExtractor={(_, i) => i.toString()}
-        renderItem={({ item }) => (
-          <DayCell
-            item={item}
-            isToday={!!item.dateKey && item.dateKey === todayKey}
-            onPress={() => {
-              if (!item.dateKey || item.empty) return;
-              onPressDate(item.dateKey);
-            }}
-            onLongPress={
-              item.dateKey && !item.empty && onLongPressDate
-                ? () => onLongPressDate(item.dateKey!)
-                : undefined
-            }
+          {/* Grid */}
+          <FlatList
+            data={daysArray}
+            numColumns={NUM_COLS}
+            keyExtractor={(_, i) => i.toString()}
+            renderItem={({ item }) => (
+              <DayCell
+                item={item}
+                isToday={!!item.dateKey && item.dateKey === todayKey}
+                onPress={() => {
+                  if (!item.dateKey || item.empty) return;
+                  onPressDate(item.dateKey);
+                }}
+                onLongPress={
+                  item.dateKey && !item.empty && onLongPressDate
+                    ? () => onLongPressDate(item.dateKey!)
+                    : undefined
+                }
+              />
+            )}
+            scrollEnabled={false}
           />
-        )}
-        scrollEnabled={false}
-      />
+        </>
+      ) : null}
 
       {/* Jump Picker */}
       <Portal>
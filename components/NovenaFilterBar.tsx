@@ -0,0 +1,111 @@
+// components/NovenaFilterBar.tsx
+//
+// One scrollable row of filter chips for the Novenas tab:
+// categories • tags • durations, plus "Clear" when anything is selected.
+// State lives in utils/novenaFilters.ts (persisted), so this is stateless.
+// An optional leading "Export" chip opens the .ics export (app/export.tsx).
+
+import React from "react";
+import { ScrollView, type StyleProp, type ViewStyle } from "react-native";
+import { Chip } from "react-native-paper";
+import { useTranslation } from "react-i18next";
+
+import {
+  DURATION_BUCKETS,
+  NOVENA_CATEGORIES,
+  clearNovenaFilters,
+  hasActiveFilters,
+  toggleCategoryFilter,
+  toggleDurationFilter,
+  toggleTagFilter,
+  type NovenaFilters,
+} from "@/utils/novenaFilters";
+
+type Props = {
+  filters: NovenaFilters;
+  tags: string[];
+  onExport?: () => void;
+  style?: StyleProp<ViewStyle>;
+};
+
+const chipStyle = { marginRight: 6 } as const;
+
+function warnOnFail(p: Promise<void>) {
+  p.catch((e) => console.warn("[NovenaFilterBar] failed to save filters:", e));
+}
+
+export function NovenaFilterBar({ filters, tags, onExport, style }: Props) {
+  const { t } = useTranslation();
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={[{ flexGrow: 0 }, style]}
+      contentContainerStyle={{ paddingHorizontal: 12 }}
+    >
+      {onExport ? (
+        <Chip
+          icon="calendar-export"
+          compact
+          style={chipStyle}
+          onPress={onExport}
+        >
+          {t("export_open", { defaultValue: "Export .ics" })}
+        </Chip>
+      ) : null}
+
+      {hasActiveFilters(filters) ? (
+        <Chip
+          icon="close"
+          compact
+          style={chipStyle}
+          onPress={() => warnOnFail(clearNovenaFilters())}
+        >
+          {t("filter_clear", { defaultValue: "Clear" })}
+        </Chip>
+      ) : null}
+
+      {NOVENA_CATEGORIES.map((c) => (
+        <Chip
+          key={`c-${c}`}
+          compact
+          selected={filters.categories.includes(c)}
+          showSelectedOverlay
+          style={chipStyle}
+          onPress={() => warnOnFail(toggleCategoryFilter(c))}
+        >
+          {t(`novena_category_${c.toLowerCase()}`, { defaultValue: c })}
+        </Chip>
+      ))}
+
+      {tags.map((tag) => (
+        <Chip
+          key={`t-${tag}`}
+          compact
+          icon="tag-outline"
+          selected={filters.tags.includes(tag)}
+          showSelectedOverlay
+          style={chipStyle}
+          onPress={() => warnOnFail(toggleTagFilter(tag))}
+        >
+          {tag}
+        </Chip>
+      ))}
+
+      {DURATION_BUCKETS.map((d) => (
+        <Chip
+          key={`d-${d}`}
+          compact
+          icon="timer-sand"
+          selected={filters.durations.includes(d)}
+          showSelectedOverlay
+          style={chipStyle}
+          onPress={() => warnOnFail(toggleDurationFilter(d))}
+        >
+          {t(`filter_duration_${d}`)}
+        </Chip>
+      ))}
+    </ScrollView>
+  );
+}
@@ -1,6 +1,7 @@
 // components/SeasonLegend.tsx
 //
 // Small legend row: "Advent • Christmas • Lent • Easter • Ordinary Time"
+// (TRADITIONAL_SEASONS for the 1962 Missal profile).
 // Uses AppTheme season outline colors.
 // Keep it subtle so it doesn't clutter the screen.
 
@@ -25,6 +26,17 @@ const DEFAULT: LiturgicalSeason[] = [
   "Ordinary Time",
 ];
 
+/** Seasons of the 1962 Missal, in calendar order. */
+export const TRADITIONAL_SEASONS: LiturgicalSeason[] = [
+  "Advent",
+  "Christmas",
+  "Time after Epiphany",
+  "Septuagesima",
+  "Lent",
+  "Easter",
+  "Time after Pentecost",
+];
+
 export function SeasonLegend({ seasons = DEFAULT, style }: Props) {
   return (
     <View
@@ -7,13 +7,46 @@
 //
 // Provides:
 //   - NOVENAS (raw defs)
-//   - getNovenasForYear(year)
-//   - buildCalendarMapsForYear(year)  ✅ used by app/(tabs)/novenas.tsx
+//   - getNovenasForYear(year, profile)
+//   - getNovenaInstancesInRange(fromKey, toKey, profile)  ✅ every run overlapping a range
+//   - getNovenaInstance(instanceId, profile)  ✅ one run by its stable id
+//   - buildCalendarMapsForYear(year, profile)
+//   - buildCalendarMapsForRange(fromKey, toKey, profile)  ✅ used by app/(tabs)/novenas.tsx
+//   - findNovenaInstance(id, dateKey, profile)  ✅ used by app/novena/[id].tsx
+//   - getNovenasOnDate(dateKey, profile)  ✅ used by app/day/[date].tsx
+//   - getNovenaDiagnostics(fromYear, toYear, profile)  ✅ used by app/data-issues.tsx
+//
+// Resolution is fault-tolerant: a novena whose rules don't resolve for a
+// year is left out of that year and reported by getNovenaDiagnostics,
+// instead of throwing out of a screen's useMemo.
+//
+// A run is identified by instanceId (novena id + feast date), not by the
+// calendar year it was resolved for: 54-day or one-year novenas straddle
+// New Year, and the range functions return each run once. Recurring
+// novenas (weekly / monthly rules, data/perpetualNovenas.ts) have one 1-day
+// run per occurrence, so a year can hold many runs of the same novena.
+//
+// `profile` is the user's calendar profile (utils/calendarProfiles.ts); it
+// moves feasts like Ascension or national solemnities, so pass the same one
+// the screen shows.
 
 import novenasIndex from "./novenas_index.json";
-import { resolveNovenasForYear } from "../utils/novenasRules";
-import type { NovenaDef, NovenaInstance } from "../utils/novenasRules";
+import {
+  parseNovenaInstanceId,
+  resolveNovenasForYearWithDiagnostics,
+} from "../utils/novenasRules";
+import type {
+  NovenaDef,
+  NovenaDiagnostic,
+  NovenaInstance,
+  NovenaResolution,
+} from "../utils/novenasRules";
 import { buildNovenaAnchorsForYear } from "../utils/liturgicalDates";
+import {
+  DEFAULT_CALENDAR_PROFILE,
+  type CalendarProfileId,
+} from "../utils/calendarProfiles";
+import { addDaysToKey, isDateKey, yearOfKey } from "../utils/dateKeys";
 
 // Raw novena definitions (rules + metadata)
 export const NOVENAS: NovenaDef[] = novenasIndex as unknown as NovenaDef[];
@@ -24,9 +57,126 @@ function toYmdUTC(d: Date): string {
   return d.toISOString().slice(0, 10);
 }
 
-export function getNovenasForYear(year: number): NovenaInstance[] {
-  const anchors = buildNovenaAnchorsForYear(year);
-  return resolveNovenasForYear(NOVENAS, year, anchors);
+// Longest novena, so a range lookup knows how far back a run can start.
+// (Invalid durations are skipped here; the resolver reports them.)
+const MAX_DURATION_DAYS = Math.max(
+  9,
+  ...NOVENAS.map((n) => n.durationDays ?? 9).filter(
+    (d) => Number.isInteger(d) && d <= 4000,
+  ),
+);
+
+// Resolved years, per profile (browsing the calendar asks for the same
+// few years over and over).
+const yearCache = new Map<string, NovenaResolution>();
+const YEAR_CACHE_SIZE = 12;
+
+function resolveYear(year: number, profile: CalendarProfileId) {
+  const key = `${profile}:${year}`;
+  const hit = yearCache.get(key);
+  if (hit) return hit;
+
+  const anchors = buildNovenaAnchorsForYear(year, profile);
+  const out = resolveNovenasForYearWithDiagnostics(NOVENAS, year, anchors);
+  const errors = out.diagnostics.filter((d) => d.severity === "error");
+  if (errors.length > 0) {
+    console.warn(
+      `[novenas] ${errors.length} novena(s) could not be resolved for ${year} (${profile}):`,
+      errors.map((d) => d.novenaId).join(", "),
+    );
+  }
+
+  yearCache.set(key, out);
+  if (yearCache.size > YEAR_CACHE_SIZE) {
+    yearCache.delete(yearCache.keys().next().value as string);
+  }
+  return out;
+}
+
+/** Every novena that resolves for `year`; broken ones are left out. */
+export function getNovenasForYear(
+  year: number,
+  profile: CalendarProfileId = DEFAULT_CALENDAR_PROFILE,
+): NovenaInstance[] {
+  return resolveYear(year, profile).instances;
+}
+
+/**
+ * What went wrong resolving fromYear..toYear (inclusive): novenas left out
+ * (errors) and ignored startRules (warnings). Errors first, then by year.
+ */
+export function getNovenaDiagnostics(
+  fromYear: number,
+  toYear: number,
+  profile: CalendarProfileId = DEFAULT_CALENDAR_PROFILE,
+): NovenaDiagnostic[] {
+  const out: NovenaDiagnostic[] = [];
+  for (let y = fromYear; y <= toYear; y++) {
+    out.push(...resolveYear(y, profile).diagnostics);
+  }
+  const rank = (d: NovenaDiagnostic) => (d.severity === "error" ? 0 : 1);
+  return out.sort(
+    (a, b) =>
+      rank(a) - rank(b) || a.year - b.year || a.title.localeCompare(b.title),
+  );
+}
+
+function byStartThenTitle(a: NovenaInstance, b: NovenaInstance) {
+  return (
+    a.startDate.getTime() - b.startDate.getTime() ||
+    a.title.localeCompare(b.title)
+  );
+}
+
+/**
+ * Every run (of every novena) whose start..feast window overlaps
+ * fromKey..toKey (inclusive), once each, sorted by start date then title.
+ */
+export function getNovenaInstancesInRange(
+  fromKey: string,
+  toKey: string,
+  profile: CalendarProfileId = DEFAULT_CALENDAR_PROFILE,
+): NovenaInstance[] {
+  // Runs are resolved per feast year; a feast can land up to a year off its
+  // rule year (relative rules), and a long run starts well before its feast.
+  const firstYear = yearOfKey(fromKey) - 1;
+  const lastYear = yearOfKey(addDaysToKey(toKey, MAX_DURATION_DAYS - 1)) + 1;
+
+  const seen = new Set<string>();
+  const out: NovenaInstance[] = [];
+  for (let y = firstYear; y <= lastYear; y++) {
+    for (const n of getNovenasForYear(y, profile)) {
+      if (seen.has(n.instanceId)) continue;
+      if (toYmdUTC(n.feastDate) < fromKey) continue;
+      if (toYmdUTC(n.startDate) > toKey) continue;
+      seen.add(n.instanceId);
+      out.push(n);
+    }
+  }
+  return out.sort(byStartThenTitle);
+}
+
+/**
+ * One run by its instanceId (novena id + feast date). Null if the novena
+ * is unknown or no run ends on that date in this profile (e.g. the profile
+ * moved the feast since the id was stored).
+ */
+export function getNovenaInstance(
+  instanceId: string,
+  profile: CalendarProfileId = DEFAULT_CALENDAR_PROFILE,
+): NovenaInstance | null {
+  const parsed = parseNovenaInstanceId(instanceId);
+  if (!parsed || !isDateKey(parsed.feastDate)) return null;
+  if (!NOVENAS.some((n) => n.id === parsed.novenaId)) return null;
+
+  const y = yearOfKey(parsed.feastDate);
+  for (const year of [y, y - 1, y + 1]) {
+    const hit = getNovenasForYear(year, profile).find(
+      (n) => n.instanceId === instanceId,
+    );
+    if (hit) return hit;
+  }
+  return null;
 }
 
 /**
@@ -37,12 +187,28 @@ export function getNovenasForYear(year: number): NovenaInstance[] {
  * IMPORTANT:
  * Your UI code (old novenas.tsx) calls src.entries() so these MUST be Maps.
  */
-export function buildCalendarMapsForYear(year: number): {
+export function buildCalendarMapsForYear(
+  year: number,
+  profile: CalendarProfileId = DEFAULT_CALENDAR_PROFILE,
+): CalendarMaps {
+  return buildCalendarMaps(getNovenasForYear(year, profile));
+}
+
+/** Same maps for every run overlapping fromKey..toKey (each run once). */
+export function buildCalendarMapsForRange(
+  fromKey: string,
+  toKey: string,
+  profile: CalendarProfileId = DEFAULT_CALENDAR_PROFILE,
+): CalendarMaps {
+  return buildCalendarMaps(getNovenaInstancesInRange(fromKey, toKey, profile));
+}
+
+export type CalendarMaps = {
   startsMap: Map<string, NovenaInstance[]>;
   feastsMap: Map<string, NovenaInstance[]>;
-} {
-  const instances = getNovenasForYear(year);
+};
 
+function buildCalendarMaps(instances: NovenaInstance[]): CalendarMaps {
   const startsMap = new Map<string, NovenaInstance[]>();
   const feastsMap = new Map<string, NovenaInstance[]>();
 
@@ -67,3 +233,52 @@ export function buildCalendarMapsForYear(year: number): {
 
   return { startsMap, feastsMap };
 }
+
+/** Novenas starting / ending (feast) on one date. */
+export function getNovenasOnDate(
+  dateKey: string,
+  profile: CalendarProfileId = DEFAULT_CALENDAR_PROFILE,
+): { starts: NovenaInstance[]; feasts: NovenaInstance[] } {
+  const runs = getNovenaInstancesInRange(dateKey, dateKey, profile);
+  const starts = runs.filter((n) => toYmdUTC(n.startDate) === dateKey);
+  const feasts = runs.filter((n) => toYmdUTC(n.feastDate) === dateKey);
+
+  starts.sort((a, b) => a.title.localeCompare(b.title));
+  feasts.sort((a, b) => a.title.localeCompare(b.title));
+  return { starts, feasts };
+}
+
+/**
+ * Finds the concrete run of one novena that a date refers to.
+ * - Prefers the run that STARTS on dateKey (what the Novenas tab links with)
+ * - Then a run whose start..feast window contains dateKey
+ * - Otherwise the next run after dateKey
+ */
+export function findNovenaInstance(
+  id: string,
+  dateKey: string,
+  profile: CalendarProfileId = DEFAULT_CALENDAR_PROFILE,
+): NovenaInstance | null {
+  if (!NOVENAS.some((n) => n.id === id)) return null;
+
+  const year = parseInt(dateKey.slice(0, 4), 10);
+  const runs: NovenaInstance[] = [];
+  for (const y of [year - 1, year, year + 1]) {
+    // Several per year for recurring (weekly / monthly) novenas
+    for (const run of getNovenasForYear(y, profile)) {
+      if (run.id !== id) continue;
+      if (!runs.some((r) => r.instanceId === run.instanceId)) runs.push(run);
+    }
+  }
+  runs.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+  const startsOn = runs.find((r) => toYmdUTC(r.startDate) === dateKey);
+  if (startsOn) return startsOn;
+
+  const covering = runs.find(
+    (r) => toYmdUTC(r.startDate) <= dateKey && dateKey <= toYmdUTC(r.feastDate),
+  );
+  if (covering) return covering;
+
+  return runs.find((r) => toYmdUTC(r.startDate) > dateKey) ?? null;
+}
@@ -0,0 +1,32 @@
+// data/contentOverrides.ts
+//
+// Newer copies of baked-in docs, downloaded by the content updater
+// (utils/contentBundle.ts). The generated manifests (saintsManifest.ts,
+// novenasManifest.ts) look here first (utils/lazyDocs.ts) and fall back
+// to their baked-in loaders, so an empty table means "the copy shipped
+// with the app".
+
+export type ContentKind = "saints" | "novenas";
+
+export const CONTENT_KINDS: ContentKind[] = ["saints", "novenas"];
+
+const overrides: Record<ContentKind, Map<string, any>> = {
+  saints: new Map(),
+  novenas: new Map(),
+};
+
+export function getContentOverride(kind: ContentKind, id: string): any {
+  return overrides[kind].get(id);
+}
+
+/** Replaces all overrides of a kind (docs not listed use the baked copy). */
+export function setContentOverrides(
+  kind: ContentKind,
+  docs: Record<string, any>,
+) {
+  overrides[kind] = new Map(Object.entries(docs));
+}
+
+export function clearContentOverrides() {
+  for (const kind of CONTENT_KINDS) overrides[kind] = new Map();
+}
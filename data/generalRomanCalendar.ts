@@ -0,0 +1,1563 @@
+// data/generalRomanCalendar.ts
+//
+// Fixed-date celebrations of the General Roman Calendar (the "sanctoral").
+// - Source: Roman Missal (3rd typical edition) + later additions by the Holy See
+//   (e.g. Mary Magdalene raised to a feast, Faustina, Gregory of Narek).
+// - Celebrations tied to Easter/Christmas live in utils/movableFeastsRules.ts.
+// - Precedence between temporal and sanctoral days is resolved by
+//   utils/liturgicalCalendar.ts; this table only says what is on the date.
+
+import type {
+  LiturgicalColor,
+  LiturgicalRank,
+} from "../utils/movableFeastsRules";
+
+export type SanctoralEntry = {
+  mmdd: string; // "03-19"
+  id: string;
+  title: string;
+  rank: LiturgicalRank;
+  color: LiturgicalColor;
+  // Feasts of the Lord outrank Sundays in Ordinary/Christmas Time.
+  ofTheLord?: boolean;
+};
+
+export const GENERAL_ROMAN_CALENDAR: SanctoralEntry[] = [
+  // January
+  {
+    mmdd: "01-02",
+    id: "basil_and_gregory_nazianzen",
+    title: "Saints Basil the Great and Gregory Nazianzen, Bishops and Doctors",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "01-03",
+    id: "holy_name_of_jesus",
+    title: "The Most Holy Name of Jesus",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "01-07",
+    id: "raymond_of_penyafort",
+    title: "Saint Raymond of Penyafort, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "01-13",
+    id: "hilary",
+    title: "Saint Hilary, Bishop and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "01-17",
+    id: "anthony_abbot",
+    title: "Saint Anthony, Abbot",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "01-20",
+    id: "fabian",
+    title: "Saint Fabian, Pope and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "01-20",
+    id: "sebastian",
+    title: "Saint Sebastian, Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "01-21",
+    id: "agnes",
+    title: "Saint Agnes, Virgin and Martyr",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "01-22",
+    id: "vincent_deacon",
+    title: "Saint Vincent, Deacon and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "01-24",
+    id: "francis_de_sales",
+    title: "Saint Francis de Sales, Bishop and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "01-25",
+    id: "conversion_of_paul",
+    title: "The Conversion of Saint Paul the Apostle",
+    rank: "Feast",
+    color: "White",
+  },
+  {
+    mmdd: "01-26",
+    id: "timothy_and_titus",
+    title: "Saints Timothy and Titus, Bishops",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "01-27",
+    id: "angela_merici",
+    title: "Saint Angela Merici, Virgin",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "01-28",
+    id: "thomas_aquinas",
+    title: "Saint Thomas Aquinas, Priest and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "01-31",
+    id: "john_bosco",
+    title: "Saint John Bosco, Priest",
+    rank: "Memorial",
+    color: "White",
+  },
+  // February
+  {
+    mmdd: "02-02",
+    id: "presentation_of_the_lord",
+    title: "The Presentation of the Lord",
+    rank: "Feast",
+    color: "White",
+    ofTheLord: true,
+  },
+  {
+    mmdd: "02-03",
+    id: "blaise",
+    title: "Saint Blaise, Bishop and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "02-03",
+    id: "ansgar",
+    title: "Saint Ansgar, Bishop",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "02-05",
+    id: "agatha",
+    title: "Saint Agatha, Virgin and Martyr",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "02-06",
+    id: "paul_miki_and_companions",
+    title: "Saints Paul Miki and Companions, Martyrs",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "02-08",
+    id: "jerome_emiliani",
+    title: "Saint Jerome Emiliani",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "02-08",
+    id: "josephine_bakhita",
+    title: "Saint Josephine Bakhita, Virgin",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "02-10",
+    id: "scholastica",
+    title: "Saint Scholastica, Virgin",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "02-11",
+    id: "our_lady_of_lourdes",
+    title: "Our Lady of Lourdes",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "02-14",
+    id: "cyril_and_methodius",
+    title: "Saints Cyril, Monk, and Methodius, Bishop",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "02-17",
+    id: "seven_holy_founders",
+    title: "The Seven Holy Founders of the Servite Order",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "02-21",
+    id: "peter_damian",
+    title: "Saint Peter Damian, Bishop and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "02-22",
+    id: "chair_of_peter",
+    title: "The Chair of Saint Peter the Apostle",
+    rank: "Feast",
+    color: "White",
+  },
+  {
+    mmdd: "02-23",
+    id: "polycarp",
+    title: "Saint Polycarp, Bishop and Martyr",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "02-27",
+    id: "gregory_of_narek",
+    title: "Saint Gregory of Narek, Abbot and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  // March
+  {
+    mmdd: "03-04",
+    id: "casimir",
+    title: "Saint Casimir",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "03-07",
+    id: "perpetua_and_felicity",
+    title: "Saints Perpetua and Felicity, Martyrs",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "03-08",
+    id: "john_of_god",
+    title: "Saint John of God, Religious",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "03-09",
+    id: "frances_of_rome",
+    title: "Saint Frances of Rome, Religious",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "03-17",
+    id: "patrick",
+    title: "Saint Patrick, Bishop",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "03-18",
+    id: "cyril_of_jerusalem",
+    title: "Saint Cyril of Jerusalem, Bishop and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "03-19",
+    id: "joseph_spouse_of_mary",
+    title: "Saint Joseph, Spouse of the Blessed Virgin Mary",
+    rank: "Solemnity",
+    color: "White",
+  },
+  {
+    mmdd: "03-23",
+    id: "turibius_of_mogrovejo",
+    title: "Saint Turibius of Mogrovejo, Bishop",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "03-25",
+    id: "annunciation",
+    title: "The Annunciation of the Lord",
+    rank: "Solemnity",
+    color: "White",
+  },
+  // April
+  {
+    mmdd: "04-02",
+    id: "francis_of_paola",
+    title: "Saint Francis of Paola, Hermit",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "04-04",
+    id: "isidore",
+    title: "Saint Isidore, Bishop and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "04-05",
+    id: "vincent_ferrer",
+    title: "Saint Vincent Ferrer, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "04-07",
+    id: "john_baptist_de_la_salle",
+    title: "Saint John Baptist de la Salle, Priest",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "04-11",
+    id: "stanislaus",
+    title: "Saint Stanislaus, Bishop and Martyr",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "04-13",
+    id: "martin_i",
+    title: "Saint Martin I, Pope and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "04-21",
+    id: "anselm",
+    title: "Saint Anselm, Bishop and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "04-23",
+    id: "george",
+    title: "Saint George, Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "04-23",
+    id: "adalbert",
+    title: "Saint Adalbert, Bishop and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "04-24",
+    id: "fidelis_of_sigmaringen",
+    title: "Saint Fidelis of Sigmaringen, Priest and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "04-25",
+    id: "mark",
+    title: "Saint Mark, Evangelist",
+    rank: "Feast",
+    color: "Red",
+  },
+  {
+    mmdd: "04-28",
+    id: "peter_chanel",
+    title: "Saint Peter Chanel, Priest and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "04-28",
+    id: "louis_grignion_de_montfort",
+    title: "Saint Louis Grignion de Montfort, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "04-29",
+    id: "catherine_of_siena",
+    title: "Saint Catherine of Siena, Virgin and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "04-30",
+    id: "pius_v",
+    title: "Saint Pius V, Pope",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  // May
+  {
+    mmdd: "05-01",
+    id: "joseph_the_worker",
+    title: "Saint Joseph the Worker",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "05-02",
+    id: "athanasius",
+    title: "Saint Athanasius, Bishop and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "05-03",
+    id: "philip_and_james",
+    title: "Saints Philip and James, Apostles",
+    rank: "Feast",
+    color: "Red",
+  },
+  {
+    mmdd: "05-10",
+    id: "john_of_avila",
+    title: "Saint John of Avila, Priest and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "05-12",
+    id: "nereus_and_achilleus",
+    title: "Saints Nereus and Achilleus, Martyrs",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "05-12",
+    id: "pancras",
+    title: "Saint Pancras, Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "05-13",
+    id: "our_lady_of_fatima",
+    title: "Our Lady of Fatima",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "05-14",
+    id: "matthias",
+    title: "Saint Matthias, Apostle",
+    rank: "Feast",
+    color: "Red",
+  },
+  {
+    mmdd: "05-18",
+    id: "john_i",
+    title: "Saint John I, Pope and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "05-20",
+    id: "bernardine_of_siena",
+    title: "Saint Bernardine of Siena, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "05-21",
+    id: "christopher_magallanes_and_companions",
+    title: "Saint Christopher Magallanes, Priest, and Companions, Martyrs",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "05-22",
+    id: "rita_of_cascia",
+    title: "Saint Rita of Cascia, Religious",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "05-25",
+    id: "bede_the_venerable",
+    title: "Saint Bede the Venerable, Priest and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "05-25",
+    id: "gregory_vii",
+    title: "Saint Gregory VII, Pope",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "05-25",
+    id: "mary_magdalene_de_pazzi",
+    title: "Saint Mary Magdalene de' Pazzi, Virgin",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "05-26",
+    id: "philip_neri",
+    title: "Saint Philip Neri, Priest",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "05-27",
+    id: "augustine_of_canterbury",
+    title: "Saint Augustine of Canterbury, Bishop",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "05-29",
+    id: "paul_vi",
+    title: "Saint Paul VI, Pope",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "05-31",
+    id: "visitation",
+    title: "The Visitation of the Blessed Virgin Mary",
+    rank: "Feast",
+    color: "White",
+  },
+  // June
+  {
+    mmdd: "06-01",
+    id: "justin",
+    title: "Saint Justin, Martyr",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "06-02",
+    id: "marcellinus_and_peter",
+    title: "Saints Marcellinus and Peter, Martyrs",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "06-03",
+    id: "charles_lwanga_and_companions",
+    title: "Saints Charles Lwanga and Companions, Martyrs",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "06-05",
+    id: "boniface",
+    title: "Saint Boniface, Bishop and Martyr",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "06-06",
+    id: "norbert",
+    title: "Saint Norbert, Bishop",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "06-09",
+    id: "ephrem",
+    title: "Saint Ephrem, Deacon and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "06-11",
+    id: "barnabas",
+    title: "Saint Barnabas, Apostle",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "06-13",
+    id: "anthony_of_padua",
+    title: "Saint Anthony of Padua, Priest and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "06-19",
+    id: "romuald",
+    title: "Saint Romuald, Abbot",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "06-21",
+    id: "aloysius_gonzaga",
+    title: "Saint Aloysius Gonzaga, Religious",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "06-22",
+    id: "paulinus_of_nola",
+    title: "Saint Paulinus of Nola, Bishop",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "06-22",
+    id: "john_fisher_and_thomas_more",
+    title: "Saints John Fisher, Bishop, and Thomas More, Martyrs",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "06-24",
+    id: "nativity_of_john_the_baptist",
+    title: "The Nativity of Saint John the Baptist",
+    rank: "Solemnity",
+    color: "White",
+  },
+  {
+    mmdd: "06-27",
+    id: "cyril_of_alexandria",
+    title: "Saint Cyril of Alexandria, Bishop and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "06-28",
+    id: "irenaeus",
+    title: "Saint Irenaeus, Bishop, Martyr and Doctor",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "06-29",
+    id: "peter_and_paul",
+    title: "Saints Peter and Paul, Apostles",
+    rank: "Solemnity",
+    color: "Red",
+  },
+  {
+    mmdd: "06-30",
+    id: "first_martyrs_of_rome",
+    title: "The First Martyrs of the Holy Roman Church",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  // July
+  {
+    mmdd: "07-03",
+    id: "thomas_apostle",
+    title: "Saint Thomas, Apostle",
+    rank: "Feast",
+    color: "Red",
+  },
+  {
+    mmdd: "07-04",
+    id: "elizabeth_of_portugal",
+    title: "Saint Elizabeth of Portugal",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-05",
+    id: "anthony_zaccaria",
+    title: "Saint Anthony Zaccaria, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-06",
+    id: "maria_goretti",
+    title: "Saint Maria Goretti, Virgin and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "07-09",
+    id: "augustine_zhao_rong_and_companions",
+    title: "Saint Augustine Zhao Rong, Priest, and Companions, Martyrs",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "07-11",
+    id: "benedict",
+    title: "Saint Benedict, Abbot",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-13",
+    id: "henry",
+    title: "Saint Henry",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-14",
+    id: "camillus_de_lellis",
+    title: "Saint Camillus de Lellis, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-15",
+    id: "bonaventure",
+    title: "Saint Bonaventure, Bishop and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-16",
+    id: "our_lady_of_mount_carmel",
+    title: "Our Lady of Mount Carmel",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-20",
+    id: "apollinaris",
+    title: "Saint Apollinaris, Bishop and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "07-21",
+    id: "lawrence_of_brindisi",
+    title: "Saint Lawrence of Brindisi, Priest and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-22",
+    id: "mary_magdalene",
+    title: "Saint Mary Magdalene",
+    rank: "Feast",
+    color: "White",
+  },
+  {
+    mmdd: "07-23",
+    id: "bridget",
+    title: "Saint Bridget, Religious",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-24",
+    id: "sharbel_makhluf",
+    title: "Saint Sharbel Makhluf, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-25",
+    id: "james_apostle",
+    title: "Saint James, Apostle",
+    rank: "Feast",
+    color: "Red",
+  },
+  {
+    mmdd: "07-26",
+    id: "joachim_and_anne",
+    title: "Saints Joachim and Anne, Parents of the Blessed Virgin Mary",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-29",
+    id: "martha_mary_and_lazarus",
+    title: "Saints Martha, Mary and Lazarus",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-30",
+    id: "peter_chrysologus",
+    title: "Saint Peter Chrysologus, Bishop and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-31",
+    id: "ignatius_of_loyola",
+    title: "Saint Ignatius of Loyola, Priest",
+    rank: "Memorial",
+    color: "White",
+  },
+  // August
+  {
+    mmdd: "08-01",
+    id: "alphonsus_liguori",
+    title: "Saint Alphonsus Liguori, Bishop and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-02",
+    id: "eusebius_of_vercelli",
+    title: "Saint Eusebius of Vercelli, Bishop",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-02",
+    id: "peter_julian_eymard",
+    title: "Saint Peter Julian Eymard, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-04",
+    id: "john_vianney",
+    title: "Saint John Vianney, Priest",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-05",
+    id: "dedication_of_st_mary_major",
+    title: "The Dedication of the Basilica of Saint Mary Major",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-06",
+    id: "transfiguration",
+    title: "The Transfiguration of the Lord",
+    rank: "Feast",
+    color: "White",
+    ofTheLord: true,
+  },
+  {
+    mmdd: "08-07",
+    id: "sixtus_ii_and_companions",
+    title: "Saint Sixtus II, Pope, and Companions, Martyrs",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "08-07",
+    id: "cajetan",
+    title: "Saint Cajetan, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-08",
+    id: "dominic",
+    title: "Saint Dominic, Priest",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-09",
+    id: "teresa_benedicta_of_the_cross",
+    title: "Saint Teresa Benedicta of the Cross, Virgin and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "08-10",
+    id: "lawrence",
+    title: "Saint Lawrence, Deacon and Martyr",
+    rank: "Feast",
+    color: "Red",
+  },
+  {
+    mmdd: "08-11",
+    id: "clare",
+    title: "Saint Clare, Virgin",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-12",
+    id: "jane_frances_de_chantal",
+    title: "Saint Jane Frances de Chantal, Religious",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-13",
+    id: "pontian_and_hippolytus",
+    title: "Saints Pontian, Pope, and Hippolytus, Priest, Martyrs",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "08-14",
+    id: "maximilian_kolbe",
+    title: "Saint Maximilian Kolbe, Priest and Martyr",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "08-15",
+    id: "assumption",
+    title: "The Assumption of the Blessed Virgin Mary",
+    rank: "Solemnity",
+    color: "White",
+  },
+  {
+    mmdd: "08-16",
+    id: "stephen_of_hungary",
+    title: "Saint Stephen of Hungary",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-19",
+    id: "john_eudes",
+    title: "Saint John Eudes, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-20",
+    id: "bernard",
+    title: "Saint Bernard, Abbot and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-21",
+    id: "pius_x",
+    title: "Saint Pius X, Pope",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-22",
+    id: "queenship_of_mary",
+    title: "The Queenship of the Blessed Virgin Mary",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-23",
+    id: "rose_of_lima",
+    title: "Saint Rose of Lima, Virgin",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-24",
+    id: "bartholomew",
+    title: "Saint Bartholomew, Apostle",
+    rank: "Feast",
+    color: "Red",
+  },
+  {
+    mmdd: "08-25",
+    id: "louis_of_france",
+    title: "Saint Louis",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-25",
+    id: "joseph_calasanz",
+    title: "Saint Joseph Calasanz, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-27",
+    id: "monica",
+    title: "Saint Monica",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-28",
+    id: "augustine",
+    title: "Saint Augustine, Bishop and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-29",
+    id: "passion_of_john_the_baptist",
+    title: "The Passion of Saint John the Baptist",
+    rank: "Memorial",
+    color: "Red",
+  },
+  // September
+  {
+    mmdd: "09-03",
+    id: "gregory_the_great",
+    title: "Saint Gregory the Great, Pope and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "09-08",
+    id: "nativity_of_mary",
+    title: "The Nativity of the Blessed Virgin Mary",
+    rank: "Feast",
+    color: "White",
+  },
+  {
+    mmdd: "09-09",
+    id: "peter_claver",
+    title: "Saint Peter Claver, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "09-12",
+    id: "holy_name_of_mary",
+    title: "The Most Holy Name of Mary",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "09-13",
+    id: "john_chrysostom",
+    title: "Saint John Chrysostom, Bishop and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "09-14",
+    id: "exaltation_of_the_cross",
+    title: "The Exaltation of the Holy Cross",
+    rank: "Feast",
+    color: "Red",
+    ofTheLord: true,
+  },
+  {
+    mmdd: "09-15",
+    id: "our_lady_of_sorrows",
+    title: "Our Lady of Sorrows",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "09-16",
+    id: "cornelius_and_cyprian",
+    title: "Saints Cornelius, Pope, and Cyprian, Bishop, Martyrs",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "09-17",
+    id: "robert_bellarmine",
+    title: "Saint Robert Bellarmine, Bishop and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "09-17",
+    id: "hildegard_of_bingen",
+    title: "Saint Hildegard of Bingen, Virgin and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "09-19",
+    id: "januarius",
+    title: "Saint Januarius, Bishop and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "09-20",
+    id: "andrew_kim_and_companions",
+    title:
+      "Saints Andrew Kim Tae-gon, Priest, Paul Chong Ha-sang, and Companions, Martyrs",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "09-21",
+    id: "matthew",
+    title: "Saint Matthew, Apostle and Evangelist",
+    rank: "Feast",
+    color: "Red",
+  },
+  {
+    mmdd: "09-23",
+    id: "pius_of_pietrelcina",
+    title: "Saint Pius of Pietrelcina, Priest",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "09-26",
+    id: "cosmas_and_damian",
+    title: "Saints Cosmas and Damian, Martyrs",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "09-27",
+    id: "vincent_de_paul",
+    title: "Saint Vincent de Paul, Priest",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "09-28",
+    id: "wenceslaus",
+    title: "Saint Wenceslaus, Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "09-28",
+    id: "lawrence_ruiz_and_companions",
+    title: "Saints Lawrence Ruiz and Companions, Martyrs",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "09-29",
+    id: "archangels",
+    title: "Saints Michael, Gabriel and Raphael, Archangels",
+    rank: "Feast",
+    color: "White",
+  },
+  {
+    mmdd: "09-30",
+    id: "jerome",
+    title: "Saint Jerome, Priest and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  // October
+  {
+    mmdd: "10-01",
+    id: "therese_of_the_child_jesus",
+    title: "Saint Thérèse of the Child Jesus, Virgin and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-02",
+    id: "guardian_angels",
+    title: "The Holy Guardian Angels",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-04",
+    id: "francis_of_assisi",
+    title: "Saint Francis of Assisi",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-05",
+    id: "faustina_kowalska",
+    title: "Saint Faustina Kowalska, Virgin",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-06",
+    id: "bruno",
+    title: "Saint Bruno, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-07",
+    id: "our_lady_of_the_rosary",
+    title: "Our Lady of the Rosary",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-09",
+    id: "denis_and_companions",
+    title: "Saint Denis, Bishop, and Companions, Martyrs",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "10-09",
+    id: "john_leonardi",
+    title: "Saint John Leonardi, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-11",
+    id: "john_xxiii",
+    title: "Saint John XXIII, Pope",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-14",
+    id: "callistus_i",
+    title: "Saint Callistus I, Pope and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "10-15",
+    id: "teresa_of_jesus",
+    title: "Saint Teresa of Jesus, Virgin and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-16",
+    id: "hedwig",
+    title: "Saint Hedwig, Religious",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-16",
+    id: "margaret_mary_alacoque",
+    title: "Saint Margaret Mary Alacoque, Virgin",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-17",
+    id: "ignatius_of_antioch",
+    title: "Saint Ignatius of Antioch, Bishop and Martyr",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "10-18",
+    id: "luke",
+    title: "Saint Luke, Evangelist",
+    rank: "Feast",
+    color: "Red",
+  },
+  {
+    mmdd: "10-19",
+    id: "john_de_brebeuf_isaac_jogues_and_companions",
+    title:
+      "Saints John de Brébeuf and Isaac Jogues, Priests, and Companions, Martyrs",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "10-19",
+    id: "paul_of_the_cross",
+    title: "Saint Paul of the Cross, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-22",
+    id: "john_paul_ii",
+    title: "Saint John Paul II, Pope",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-23",
+    id: "john_of_capistrano",
+    title: "Saint John of Capistrano, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-24",
+    id: "anthony_mary_claret",
+    title: "Saint Anthony Mary Claret, Bishop",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-28",
+    id: "simon_and_jude",
+    title: "Saints Simon and Jude, Apostles",
+    rank: "Feast",
+    color: "Red",
+  },
+  // November
+  {
+    mmdd: "11-01",
+    id: "all_saints",
+    title: "All Saints",
+    rank: "Solemnity",
+    color: "White",
+  },
+  {
+    mmdd: "11-02",
+    id: "all_souls",
+    title: "The Commemoration of All the Faithful Departed (All Souls)",
+    rank: "Solemnity",
+    color: "Purple",
+  },
+  {
+    mmdd: "11-03",
+    id: "martin_de_porres",
+    title: "Saint Martin de Porres, Religious",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "11-04",
+    id: "charles_borromeo",
+    title: "Saint Charles Borromeo, Bishop",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "11-09",
+    id: "dedication_of_the_lateran",
+    title: "The Dedication of the Lateran Basilica",
+    rank: "Feast",
+    color: "White",
+    ofTheLord: true,
+  },
+  {
+    mmdd: "11-10",
+    id: "leo_the_great",
+    title: "Saint Leo the Great, Pope and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "11-11",
+    id: "martin_of_tours",
+    title: "Saint Martin of Tours, Bishop",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "11-12",
+    id: "josaphat",
+    title: "Saint Josaphat, Bishop and Martyr",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "11-15",
+    id: "albert_the_great",
+    title: "Saint Albert the Great, Bishop and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "11-16",
+    id: "margaret_of_scotland",
+    title: "Saint Margaret of Scotland",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "11-16",
+    id: "gertrude",
+    title: "Saint Gertrude, Virgin",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "11-17",
+    id: "elizabeth_of_hungary",
+    title: "Saint Elizabeth of Hungary, Religious",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "11-18",
+    id: "dedication_of_peter_and_paul_basilicas",
+    title: "The Dedication of the Basilicas of Saints Peter and Paul, Apostles",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "11-21",
+    id: "presentation_of_mary",
+    title: "The Presentation of the Blessed Virgin Mary",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "11-22",
+    id: "cecilia",
+    title: "Saint Cecilia, Virgin and Martyr",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "11-23",
+    id: "clement_i",
+    title: "Saint Clement I, Pope and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "11-23",
+    id: "columban",
+    title: "Saint Columban, Abbot",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "11-24",
+    id: "andrew_dung_lac_and_companions",
+    title: "Saints Andrew Dung-Lac, Priest, and Companions, Martyrs",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "11-25",
+    id: "catherine_of_alexandria",
+    title: "Saint Catherine of Alexandria, Virgin and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "11-30",
+    id: "andrew",
+    title: "Saint Andrew, Apostle",
+    rank: "Feast",
+    color: "Red",
+  },
+  // December
+  {
+    mmdd: "12-03",
+    id: "francis_xavier",
+    title: "Saint Francis Xavier, Priest",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "12-04",
+    id: "john_damascene",
+    title: "Saint John Damascene, Priest and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "12-06",
+    id: "nicholas",
+    title: "Saint Nicholas, Bishop",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "12-07",
+    id: "ambrose",
+    title: "Saint Ambrose, Bishop and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "12-08",
+    id: "immaculate_conception",
+    title: "The Immaculate Conception of the Blessed Virgin Mary",
+    rank: "Solemnity",
+    color: "White",
+  },
+  {
+    mmdd: "12-09",
+    id: "juan_diego",
+    title: "Saint Juan Diego Cuauhtlatoatzin",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "12-10",
+    id: "our_lady_of_loreto",
+    title: "Our Lady of Loreto",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "12-11",
+    id: "damasus_i",
+    title: "Saint Damasus I, Pope",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "12-12",
+    id: "our_lady_of_guadalupe",
+    title: "Our Lady of Guadalupe",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "12-13",
+    id: "lucy",
+    title: "Saint Lucy, Virgin and Martyr",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "12-14",
+    id: "john_of_the_cross",
+    title: "Saint John of the Cross, Priest and Doctor",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "12-21",
+    id: "peter_canisius",
+    title: "Saint Peter Canisius, Priest and Doctor",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "12-23",
+    id: "john_of_kanty",
+    title: "Saint John of Kanty, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "12-26",
+    id: "stephen_first_martyr",
+    title: "Saint Stephen, the First Martyr",
+    rank: "Feast",
+    color: "Red",
+  },
+  {
+    mmdd: "12-27",
+    id: "john_apostle",
+    title: "Saint John, Apostle and Evangelist",
+    rank: "Feast",
+    color: "White",
+  },
+  {
+    mmdd: "12-28",
+    id: "holy_innocents",
+    title: "The Holy Innocents, Martyrs",
+    rank: "Feast",
+    color: "Red",
+  },
+  {
+    mmdd: "12-29",
+    id: "thomas_becket",
+    title: "Saint Thomas Becket, Bishop and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "12-31",
+    id: "sylvester_i",
+    title: "Saint Sylvester I, Pope",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+];
@@ -0,0 +1,300 @@
+// data/nationalCalendars.ts
+//
+// Proper (national) celebrations layered on top of the General Roman Calendar.
+// - An entry whose id matches a general entry REPLACES it (new date and/or
+//   rank), e.g. Guadalupe becomes a solemnity in Mexico.
+// - Other entries are added to the day.
+// - Which transfers (Epiphany, Ascension, Corpus Christi) apply is part of the
+//   profile itself, see utils/calendarProfiles.ts.
+//
+// Sources: the national liturgical calendars published by the USCCB, the
+// Polish, Philippine and Mexican bishops' conferences.
+
+import type { SanctoralEntry } from "./generalRomanCalendar";
+
+export type ProperEntry = Omit<SanctoralEntry, "mmdd"> &
+  (
+    | { mmdd: string }
+    // Movable proper days, e.g. Santo Niño on the 3rd Sunday of January.
+    | { nthSunday: { month: number; n: number } } // month 1–12
+  );
+
+export const USA_CALENDAR: ProperEntry[] = [
+  {
+    mmdd: "01-04",
+    id: "elizabeth_ann_seton",
+    title: "Saint Elizabeth Ann Seton, Religious",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "01-05",
+    id: "john_neumann",
+    title: "Saint John Neumann, Bishop",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "01-06",
+    id: "andre_bessette",
+    title: "Saint André Bessette, Religious",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "01-23",
+    id: "vincent_deacon",
+    title: "Saint Vincent, Deacon and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "01-23",
+    id: "marianne_cope",
+    title: "Saint Marianne Cope, Virgin",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "03-03",
+    id: "katharine_drexel",
+    title: "Saint Katharine Drexel, Virgin",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "05-10",
+    id: "damien_de_veuster",
+    title: "Saint Damien de Veuster, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "05-15",
+    id: "isidore_the_farmer",
+    title: "Saint Isidore",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-01",
+    id: "junipero_serra",
+    title: "Saint Junípero Serra, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-14",
+    id: "kateri_tekakwitha",
+    title: "Saint Kateri Tekakwitha, Virgin",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "07-18",
+    id: "camillus_de_lellis",
+    title: "Saint Camillus de Lellis, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-18",
+    id: "jane_frances_de_chantal",
+    title: "Saint Jane Frances de Chantal, Religious",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "09-09",
+    id: "peter_claver",
+    title: "Saint Peter Claver, Priest",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-06",
+    id: "marie_rose_durocher",
+    title: "Blessed Marie Rose Durocher, Virgin",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-19",
+    id: "john_de_brebeuf_isaac_jogues_and_companions",
+    title:
+      "Saints John de Brébeuf and Isaac Jogues, Priests, and Companions, Martyrs",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "10-20",
+    id: "paul_of_the_cross",
+    title: "Saint Paul of the Cross, Priest",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "11-13",
+    id: "frances_xavier_cabrini",
+    title: "Saint Frances Xavier Cabrini, Virgin",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "11-18",
+    id: "rose_philippine_duchesne",
+    title: "Saint Rose Philippine Duchesne, Virgin",
+    rank: "Optional Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "11-23",
+    id: "miguel_agustin_pro",
+    title: "Blessed Miguel Agustín Pro, Priest and Martyr",
+    rank: "Optional Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "12-12",
+    id: "our_lady_of_guadalupe",
+    title: "Our Lady of Guadalupe",
+    rank: "Feast",
+    color: "White",
+  },
+];
+
+export const POLAND_CALENDAR: ProperEntry[] = [
+  {
+    mmdd: "04-23",
+    id: "adalbert",
+    title: "Saint Adalbert, Bishop and Martyr, Principal Patron of Poland",
+    rank: "Solemnity",
+    color: "Red",
+  },
+  {
+    mmdd: "05-03",
+    id: "our_lady_queen_of_poland",
+    title: "The Blessed Virgin Mary, Queen of Poland",
+    rank: "Solemnity",
+    color: "White",
+  },
+  {
+    mmdd: "05-06",
+    id: "philip_and_james",
+    title: "Saints Philip and James, Apostles",
+    rank: "Feast",
+    color: "Red",
+  },
+  {
+    mmdd: "05-08",
+    id: "stanislaus",
+    title: "Saint Stanislaus, Bishop and Martyr, Principal Patron of Poland",
+    rank: "Solemnity",
+    color: "Red",
+  },
+  {
+    mmdd: "05-16",
+    id: "andrew_bobola",
+    title: "Saint Andrew Bobola, Priest and Martyr, Patron of Poland",
+    rank: "Feast",
+    color: "Red",
+  },
+  {
+    mmdd: "06-08",
+    id: "hedwig_queen",
+    title: "Saint Hedwig, Queen",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "08-26",
+    id: "our_lady_of_czestochowa",
+    title: "Our Lady of Częstochowa",
+    rank: "Solemnity",
+    color: "White",
+  },
+  {
+    mmdd: "09-18",
+    id: "stanislaus_kostka",
+    title: "Saint Stanislaus Kostka, Religious, Patron of Poland",
+    rank: "Feast",
+    color: "White",
+  },
+  {
+    mmdd: "10-05",
+    id: "faustina_kowalska",
+    title: "Saint Faustina Kowalska, Virgin",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-16",
+    id: "hedwig",
+    title: "Saint Hedwig, Religious",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "10-22",
+    id: "john_paul_ii",
+    title: "Saint John Paul II, Pope",
+    rank: "Memorial",
+    color: "White",
+  },
+];
+
+export const PHILIPPINES_CALENDAR: ProperEntry[] = [
+  {
+    nthSunday: { month: 1, n: 3 },
+    id: "santo_nino",
+    title: "The Holy Child Jesus (Santo Niño)",
+    rank: "Feast",
+    color: "White",
+    ofTheLord: true,
+  },
+  {
+    mmdd: "04-02",
+    id: "pedro_calungsod",
+    title: "Saint Pedro Calungsod, Martyr",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "09-28",
+    id: "lawrence_ruiz_and_companions",
+    title: "Saint Lorenzo Ruiz and Companions, Martyrs",
+    rank: "Feast",
+    color: "Red",
+  },
+];
+
+export const MEXICO_CALENDAR: ProperEntry[] = [
+  {
+    mmdd: "05-21",
+    id: "christopher_magallanes_and_companions",
+    title: "Saint Christopher Magallanes, Priest, and Companions, Martyrs",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "11-23",
+    id: "miguel_agustin_pro",
+    title: "Blessed Miguel Agustín Pro, Priest and Martyr",
+    rank: "Memorial",
+    color: "Red",
+  },
+  {
+    mmdd: "12-09",
+    id: "juan_diego",
+    title: "Saint Juan Diego Cuauhtlatoatzin",
+    rank: "Memorial",
+    color: "White",
+  },
+  {
+    mmdd: "12-12",
+    id: "our_lady_of_guadalupe",
+    title: "Our Lady of Guadalupe, Patroness of Mexico",
+    rank: "Solemnity",
+    color: "White",
+  },
+];
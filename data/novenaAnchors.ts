@@ -0,0 +1,33 @@
+// data/novenaAnchors.ts
+//
+// Hand-maintained feast anchors for novenas whose feast the source list
+// gives as a plain date ("March 25") but which should follow the
+// celebration wherever the calendar puts it: solemnities transferred out of
+// Holy Week or off a Sunday, and national proper feasts whose date depends
+// on the calendar profile (anchors resolve through utils/liturgicalDates.ts).
+// - Applied by scripts/build-novenas-index.ts after durationDays has been
+//   derived from the scraped dates
+// - feastRule becomes { type: "anchor", anchor }; with `daysBefore` the
+//   scraped start is replaced by { type: "before_feast", daysBefore },
+//   otherwise it stays a hint
+//
+// Edit here, then rebuild the index.
+
+import type { AnchorKey } from "../utils/novenasRules";
+
+export type NovenaFeastAnchor = {
+  anchor: AnchorKey;
+  daysBefore?: number;
+};
+
+export const NOVENA_FEAST_ANCHORS: Record<string, NovenaFeastAnchor> = {
+  "30_day_novena_to_st_joseph": { anchor: "st_joseph" },
+  annunciation: { anchor: "annunciation", daysBefore: 9 },
+  immaculate_conception: { anchor: "immaculate_conception", daysBefore: 9 },
+  our_lady_of_czestochowa: {
+    anchor: "our_lady_of_czestochowa",
+    daysBefore: 9,
+  },
+  our_lady_of_guadalupe: { anchor: "our_lady_of_guadalupe", daysBefore: 9 },
+  st_joseph: { anchor: "st_joseph", daysBefore: 9 },
+};
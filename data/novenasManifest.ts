@@ -1,247 +1,266 @@
 /* AUTO-GENERATED FILE. DO NOT EDIT BY HAND. */
 /* Generated by: scripts/build-novenas-manifest.ts */
 
-export const NOVENA_MANIFEST: Record<string, any> = {
-  "14_holy_helpers": require("./novenas/14_holy_helpers.json"),
-  "30_day_novena_to_st_joseph": require("./novenas/30_day_novena_to_st_joseph.json"),
-  "54_day_rosary": require("./novenas/54_day_rosary.json"),
-  "all_saints": require("./novenas/all_saints.json"),
-  "angelic_warfare_confraternity": require("./novenas/angelic_warfare_confraternity.json"),
-  "annunciation": require("./novenas/annunciation.json"),
-  "assumption": require("./novenas/assumption.json"),
-  "bl_fr_michael_mcgivney": require("./novenas/bl_fr_michael_mcgivney.json"),
-  "bl_miguel_agustin_pro": require("./novenas/bl_miguel_agustin_pro.json"),
-  "blessed_francis_xavier_seelos": require("./novenas/blessed_francis_xavier_seelos.json"),
-  "blessed_solanus_casey": require("./novenas/blessed_solanus_casey.json"),
-  "blessed_stanley_rother": require("./novenas/blessed_stanley_rother.json"),
-  "cardinal_burke_our_lady_of_guadalupe": require("./novenas/cardinal_burke_our_lady_of_guadalupe.json"),
-  "christ_the_king": require("./novenas/christ_the_king.json"),
-  "corpus_christi": require("./novenas/corpus_christi.json"),
-  "divine_mercy": require("./novenas/divine_mercy.json"),
-  "election_consecration_54_day": require("./novenas/election_consecration_54_day.json"),
-  "election": require("./novenas/election.json"),
-  "english_martyrs": require("./novenas/english_martyrs.json"),
-  "epiphany_magi": require("./novenas/epiphany_magi.json"),
-  "fulton_sheen": require("./novenas/fulton_sheen.json"),
-  "guardian_angel": require("./novenas/guardian_angel.json"),
-  "holy_cloak_of_st_joseph": require("./novenas/holy_cloak_of_st_joseph.json"),
-  "holy_cross": require("./novenas/holy_cross.json"),
-  "holy_face_of_jesus": require("./novenas/holy_face_of_jesus.json"),
-  "holy_family": require("./novenas/holy_family.json"),
-  "holy_innocents": require("./novenas/holy_innocents.json"),
-  "holy_name_of_jesus": require("./novenas/holy_name_of_jesus.json"),
-  "holy_souls_in_purgatory": require("./novenas/holy_souls_in_purgatory.json"),
-  "immaculate_conception": require("./novenas/immaculate_conception.json"),
-  "immaculate_heart_of_mary": require("./novenas/immaculate_heart_of_mary.json"),
-  "impossible_requests_annunciation": require("./novenas/impossible_requests_annunciation.json"),
-  "infant_of_prague": require("./novenas/infant_of_prague.json"),
-  "mary_help_of_christians": require("./novenas/mary_help_of_christians.json"),
-  "mary_queen_of_the_apostles": require("./novenas/mary_queen_of_the_apostles.json"),
-  "mary_undoer_of_knots": require("./novenas/mary_undoer_of_knots.json"),
-  "miraculous_medal": require("./novenas/miraculous_medal.json"),
-  "nativity_of_mary": require("./novenas/nativity_of_mary.json"),
-  "north_american_martyrs": require("./novenas/north_american_martyrs.json"),
-  "novena_for_fertility_to_conceive": require("./novenas/novena_for_fertility_to_conceive.json"),
-  "novena_for_popes_repose_and_new_pope": require("./novenas/novena_for_popes_repose_and_new_pope.json"),
-  "novena_to_the_divine_infant_king": require("./novenas/novena_to_the_divine_infant_king.json"),
-  "novena_to_the_holy_spirit": require("./novenas/novena_to_the_holy_spirit.json"),
-  "one_year_st_bridget_of_sweden": require("./novenas/one_year_st_bridget_of_sweden.json"),
-  "our_lady_of_champion": require("./novenas/our_lady_of_champion.json"),
-  "our_lady_of_charity": require("./novenas/our_lady_of_charity.json"),
-  "our_lady_of_czestochowa": require("./novenas/our_lady_of_czestochowa.json"),
-  "our_lady_of_fatima": require("./novenas/our_lady_of_fatima.json"),
-  "our_lady_of_good_counsel": require("./novenas/our_lady_of_good_counsel.json"),
-  "our_lady_of_good_health": require("./novenas/our_lady_of_good_health.json"),
-  "our_lady_of_good_success": require("./novenas/our_lady_of_good_success.json"),
-  "our_lady_of_graces": require("./novenas/our_lady_of_graces.json"),
-  "our_lady_of_guadalupe": require("./novenas/our_lady_of_guadalupe.json"),
-  "our_lady_of_hope": require("./novenas/our_lady_of_hope.json"),
-  "our_lady_of_knock": require("./novenas/our_lady_of_knock.json"),
-  "our_lady_of_la_leche": require("./novenas/our_lady_of_la_leche.json"),
-  "our_lady_of_la_salette": require("./novenas/our_lady_of_la_salette.json"),
-  "our_lady_of_lourdes": require("./novenas/our_lady_of_lourdes.json"),
-  "our_lady_of_monte_berico": require("./novenas/our_lady_of_monte_berico.json"),
-  "our_lady_of_mt_carmel": require("./novenas/our_lady_of_mt_carmel.json"),
-  "our_lady_of_peace": require("./novenas/our_lady_of_peace.json"),
-  "our_lady_of_perpetual_help": require("./novenas/our_lady_of_perpetual_help.json"),
-  "our_lady_of_sorrows": require("./novenas/our_lady_of_sorrows.json"),
-  "our_lady_of_the_rosary": require("./novenas/our_lady_of_the_rosary.json"),
-  "our_lady_of_the_snows": require("./novenas/our_lady_of_the_snows.json"),
-  "our_lady_of_walsingham": require("./novenas/our_lady_of_walsingham.json"),
-  "our_lady_star_of_the_sea": require("./novenas/our_lady_star_of_the_sea.json"),
-  "pope_st_john_paul_ii": require("./novenas/pope_st_john_paul_ii.json"),
-  "pope_st_leo_the_great": require("./novenas/pope_st_leo_the_great.json"),
-  "precious_blood": require("./novenas/precious_blood.json"),
-  "presentation_of_the_blessed_virgin_mary": require("./novenas/presentation_of_the_blessed_virgin_mary.json"),
-  "queenship_of_mary": require("./novenas/queenship_of_mary.json"),
-  "respect_life": require("./novenas/respect_life.json"),
-  "sacred_heart": require("./novenas/sacred_heart.json"),
-  "seven_sorrows_and_joys_of_st_joseph": require("./novenas/seven_sorrows_and_joys_of_st_joseph.json"),
-  "st_abigail": require("./novenas/st_abigail.json"),
-  "st_adelaide": require("./novenas/st_adelaide.json"),
-  "st_agatha": require("./novenas/st_agatha.json"),
-  "st_agnes": require("./novenas/st_agnes.json"),
-  "st_albert_the_great": require("./novenas/st_albert_the_great.json"),
-  "st_aloysius_gonzaga": require("./novenas/st_aloysius_gonzaga.json"),
-  "st_alphonsus_liguori": require("./novenas/st_alphonsus_liguori.json"),
-  "st_ambrose": require("./novenas/st_ambrose.json"),
-  "st_andre_bessette": require("./novenas/st_andre_bessette.json"),
-  "st_andrew_avellino": require("./novenas/st_andrew_avellino.json"),
-  "st_andrew_christmas": require("./novenas/st_andrew_christmas.json"),
-  "st_andrew_the_apostle": require("./novenas/st_andrew_the_apostle.json"),
-  "st_angela_merici": require("./novenas/st_angela_merici.json"),
-  "st_anne": require("./novenas/st_anne.json"),
-  "st_anthony_mary_claret": require("./novenas/st_anthony_mary_claret.json"),
-  "st_anthony": require("./novenas/st_anthony.json"),
-  "st_augustine": require("./novenas/st_augustine.json"),
-  "st_benedict_joseph_labre": require("./novenas/st_benedict_joseph_labre.json"),
-  "st_benedict": require("./novenas/st_benedict.json"),
-  "st_bernadette": require("./novenas/st_bernadette.json"),
-  "st_bernadine_of_siena": require("./novenas/st_bernadine_of_siena.json"),
-  "st_bernard_of_clairvaux": require("./novenas/st_bernard_of_clairvaux.json"),
-  "st_blaise": require("./novenas/st_blaise.json"),
-  "st_brendan": require("./novenas/st_brendan.json"),
-  "st_bridget_of_sweden": require("./novenas/st_bridget_of_sweden.json"),
-  "st_brigid_of_ireland": require("./novenas/st_brigid_of_ireland.json"),
-  "st_cajetan": require("./novenas/st_cajetan.json"),
-  "st_carlo_acutis": require("./novenas/st_carlo_acutis.json"),
-  "st_catherine_of_alexandria": require("./novenas/st_catherine_of_alexandria.json"),
-  "st_catherine_of_siena": require("./novenas/st_catherine_of_siena.json"),
-  "st_cecilia": require("./novenas/st_cecilia.json"),
-  "st_charbel": require("./novenas/st_charbel.json"),
-  "st_charles_borromeo": require("./novenas/st_charles_borromeo.json"),
-  "st_christopher": require("./novenas/st_christopher.json"),
-  "st_clare": require("./novenas/st_clare.json"),
-  "st_colette": require("./novenas/st_colette.json"),
-  "st_corona": require("./novenas/st_corona.json"),
-  "st_cyril_of_jerusalem": require("./novenas/st_cyril_of_jerusalem.json"),
-  "st_damien_of_molokai": require("./novenas/st_damien_of_molokai.json"),
-  "st_dominic_savio": require("./novenas/st_dominic_savio.json"),
-  "st_dominic": require("./novenas/st_dominic.json"),
-  "st_dymphna": require("./novenas/st_dymphna.json"),
-  "st_edith_stein": require("./novenas/st_edith_stein.json"),
-  "st_edmund_campion": require("./novenas/st_edmund_campion.json"),
-  "st_elizabeth_ann_seton": require("./novenas/st_elizabeth_ann_seton.json"),
-  "st_elizabeth_of_hungary": require("./novenas/st_elizabeth_of_hungary.json"),
-  "st_elizabeth_of_portugal": require("./novenas/st_elizabeth_of_portugal.json"),
-  "st_elizabeth_of_the_trinity": require("./novenas/st_elizabeth_of_the_trinity.json"),
-  "st_elizabeth": require("./novenas/st_elizabeth.json"),
-  "st_expeditus": require("./novenas/st_expeditus.json"),
-  "st_faustina": require("./novenas/st_faustina.json"),
-  "st_frances_of_rome": require("./novenas/st_frances_of_rome.json"),
-  "st_frances_xavier_cabrini": require("./novenas/st_frances_xavier_cabrini.json"),
-  "st_francis_de_sales": require("./novenas/st_francis_de_sales.json"),
-  "st_francis_of_assisi": require("./novenas/st_francis_of_assisi.json"),
-  "st_francis_xavier": require("./novenas/st_francis_xavier.json"),
-  "st_gabriel_of_our_lady_of_sorrows": require("./novenas/st_gabriel_of_our_lady_of_sorrows.json"),
-  "st_gabriel": require("./novenas/st_gabriel.json"),
-  "st_gemma_galgani": require("./novenas/st_gemma_galgani.json"),
-  "st_genevieve": require("./novenas/st_genevieve.json"),
-  "st_george": require("./novenas/st_george.json"),
-  "st_gerard_majella": require("./novenas/st_gerard_majella.json"),
-  "st_germaine_cousin": require("./novenas/st_germaine_cousin.json"),
-  "st_gertrude_prayer": require("./novenas/st_gertrude_prayer.json"),
-  "st_gianna_molla": require("./novenas/st_gianna_molla.json"),
-  "st_giuseppe_moscati": require("./novenas/st_giuseppe_moscati.json"),
-  "st_gregory_the_great": require("./novenas/st_gregory_the_great.json"),
-  "st_helena": require("./novenas/st_helena.json"),
-  "st_hildegard_of_bingen": require("./novenas/st_hildegard_of_bingen.json"),
-  "st_homobonus": require("./novenas/st_homobonus.json"),
-  "st_ignatius_loyola": require("./novenas/st_ignatius_loyola.json"),
-  "st_isidore_of_seville": require("./novenas/st_isidore_of_seville.json"),
-  "st_isidore_the_farmer": require("./novenas/st_isidore_the_farmer.json"),
-  "st_james_the_greater": require("./novenas/st_james_the_greater.json"),
-  "st_jane_frances_de_chantal": require("./novenas/st_jane_frances_de_chantal.json"),
-  "st_joan_of_arc": require("./novenas/st_joan_of_arc.json"),
-  "st_john_bosco": require("./novenas/st_john_bosco.json"),
-  "st_john_damascene": require("./novenas/st_john_damascene.json"),
-  "st_john_henry_newman": require("./novenas/st_john_henry_newman.json"),
-  "st_john_neumann": require("./novenas/st_john_neumann.json"),
-  "st_john_of_god": require("./novenas/st_john_of_god.json"),
-  "st_john_of_the_cross": require("./novenas/st_john_of_the_cross.json"),
-  "st_john_the_apostle": require("./novenas/st_john_the_apostle.json"),
-  "st_john_the_baptist": require("./novenas/st_john_the_baptist.json"),
-  "st_john_vianney": require("./novenas/st_john_vianney.json"),
-  "st_jose_luis_sanchez_del_rio": require("./novenas/st_jose_luis_sanchez_del_rio.json"),
-  "st_josemaria_escriva": require("./novenas/st_josemaria_escriva.json"),
-  "st_joseph_cupertino": require("./novenas/st_joseph_cupertino.json"),
-  "st_joseph_the_worker": require("./novenas/st_joseph_the_worker.json"),
-  "st_joseph": require("./novenas/st_joseph.json"),
-  "st_josephine_bakhita": require("./novenas/st_josephine_bakhita.json"),
-  "st_juan_diego": require("./novenas/st_juan_diego.json"),
-  "st_jude": require("./novenas/st_jude.json"),
-  "st_justin_martyr": require("./novenas/st_justin_martyr.json"),
-  "st_kateri": require("./novenas/st_kateri.json"),
-  "st_katharine_drexel": require("./novenas/st_katharine_drexel.json"),
-  "st_lawrence": require("./novenas/st_lawrence.json"),
-  "st_louis_de_montfort": require("./novenas/st_louis_de_montfort.json"),
-  "st_louis_king_of_france": require("./novenas/st_louis_king_of_france.json"),
-  "st_lucy": require("./novenas/st_lucy.json"),
-  "st_luke": require("./novenas/st_luke.json"),
-  "st_lydwine": require("./novenas/st_lydwine.json"),
-  "st_margaret_mary": require("./novenas/st_margaret_mary.json"),
-  "st_margaret_of_castello": require("./novenas/st_margaret_of_castello.json"),
-  "st_margaret_of_cortona": require("./novenas/st_margaret_of_cortona.json"),
-  "st_margaret_of_scotland": require("./novenas/st_margaret_of_scotland.json"),
-  "st_maria_goretti": require("./novenas/st_maria_goretti.json"),
-  "st_marianne_cope": require("./novenas/st_marianne_cope.json"),
-  "st_mark_ji_tianxiang": require("./novenas/st_mark_ji_tianxiang.json"),
-  "st_martin_de_porres": require("./novenas/st_martin_de_porres.json"),
-  "st_martin_of_tours": require("./novenas/st_martin_of_tours.json"),
-  "st_mary_mackillop": require("./novenas/st_mary_mackillop.json"),
-  "st_mary_magdalene_de_pazzi": require("./novenas/st_mary_magdalene_de_pazzi.json"),
-  "st_mary_magdalene": require("./novenas/st_mary_magdalene.json"),
-  "st_matthew": require("./novenas/st_matthew.json"),
-  "st_matthias_apostle": require("./novenas/st_matthias_apostle.json"),
-  "st_maximilian_kolbe": require("./novenas/st_maximilian_kolbe.json"),
-  "st_michael": require("./novenas/st_michael.json"),
-  "st_michaels_lent": require("./novenas/st_michaels_lent.json"),
-  "st_monica": require("./novenas/st_monica.json"),
-  "st_mother_teresa": require("./novenas/st_mother_teresa.json"),
-  "st_nicholas": require("./novenas/st_nicholas.json"),
-  "st_odilia": require("./novenas/st_odilia.json"),
-  "st_padre_pio": require("./novenas/st_padre_pio.json"),
-  "st_patrick": require("./novenas/st_patrick.json"),
-  "st_paul_of_the_cross": require("./novenas/st_paul_of_the_cross.json"),
-  "st_pedro_calungsod": require("./novenas/st_pedro_calungsod.json"),
-  "st_peregrine": require("./novenas/st_peregrine.json"),
-  "st_peter_and_paul": require("./novenas/st_peter_and_paul.json"),
-  "st_peter_chanel": require("./novenas/st_peter_chanel.json"),
-  "st_peter_julian_eymard": require("./novenas/st_peter_julian_eymard.json"),
-  "st_philip_neri": require("./novenas/st_philip_neri.json"),
-  "st_philomena": require("./novenas/st_philomena.json"),
-  "st_pier_giorgio_frassati": require("./novenas/st_pier_giorgio_frassati.json"),
-  "st_raphael": require("./novenas/st_raphael.json"),
-  "st_rita": require("./novenas/st_rita.json"),
-  "st_robert_bellarmine": require("./novenas/st_robert_bellarmine.json"),
-  "st_rocco_novena_against_plague": require("./novenas/st_rocco_novena_against_plague.json"),
-  "st_rose_of_lima": require("./novenas/st_rose_of_lima.json"),
-  "st_rose_philippine_duchesne": require("./novenas/st_rose_philippine_duchesne.json"),
-  "st_scholastica": require("./novenas/st_scholastica.json"),
-  "st_sebastian": require("./novenas/st_sebastian.json"),
-  "st_stephen": require("./novenas/st_stephen.json"),
-  "st_teresa_of_avila": require("./novenas/st_teresa_of_avila.json"),
-  "st_teresa_of_the_andes": require("./novenas/st_teresa_of_the_andes.json"),
-  "st_therese_of_lisieux_rose": require("./novenas/st_therese_of_lisieux_rose.json"),
-  "st_thomas_aquinas": require("./novenas/st_thomas_aquinas.json"),
-  "st_thomas_becket": require("./novenas/st_thomas_becket.json"),
-  "st_thomas_more": require("./novenas/st_thomas_more.json"),
-  "st_valentine": require("./novenas/st_valentine.json"),
-  "st_veronica_giuliani": require("./novenas/st_veronica_giuliani.json"),
-  "st_vincent_de_paul": require("./novenas/st_vincent_de_paul.json"),
-  "st_vincent_ferrer": require("./novenas/st_vincent_ferrer.json"),
-  "sts_cosmas_and_damian": require("./novenas/sts_cosmas_and_damian.json"),
-  "sts_jacinta_and_francisco_marto": require("./novenas/sts_jacinta_and_francisco_marto.json"),
-  "sts_joachim_and_anne": require("./novenas/sts_joachim_and_anne.json"),
-  "sts_louis_and_zelie_martin": require("./novenas/sts_louis_and_zelie_martin.json"),
-  "sts_perpetua_and_felicity": require("./novenas/sts_perpetua_and_felicity.json"),
-  "sts_philip_and_james": require("./novenas/sts_philip_and_james.json"),
-  "surrender": require("./novenas/surrender.json"),
-  "the_three_hail_marys": require("./novenas/the_three_hail_marys.json"),
-  "virgin_of_revelation": require("./novenas/virgin_of_revelation.json"),
-  "visitation": require("./novenas/visitation.json"),
+import { createLazyDocs, type DocLoaders } from "../utils/lazyDocs";
+
+/** Recently opened novenas kept in memory. */
+const NOVENA_CACHE_SIZE = 16;
+
+const loaders: DocLoaders = {
+  "14_holy_helpers": () => require("./novenas/14_holy_helpers.json"),
+  "30_day_novena_to_st_joseph": () => require("./novenas/30_day_novena_to_st_joseph.json"),
+  "54_day_rosary": () => require("./novenas/54_day_rosary.json"),
+  "all_saints": () => require("./novenas/all_saints.json"),
+  "angelic_warfare_confraternity": () => require("./novenas/angelic_warfare_confraternity.json"),
+  "annunciation": () => require("./novenas/annunciation.json"),
+  "assumption": () => require("./novenas/assumption.json"),
+  "bl_fr_michael_mcgivney": () => require("./novenas/bl_fr_michael_mcgivney.json"),
+  "bl_miguel_agustin_pro": () => require("./novenas/bl_miguel_agustin_pro.json"),
+  "blessed_francis_xavier_seelos": () => require("./novenas/blessed_francis_xavier_seelos.json"),
+  "blessed_solanus_casey": () => require("./novenas/blessed_solanus_casey.json"),
+  "blessed_stanley_rother": () => require("./novenas/blessed_stanley_rother.json"),
+  "cardinal_burke_our_lady_of_guadalupe": () => require("./novenas/cardinal_burke_our_lady_of_guadalupe.json"),
+  "christ_the_king": () => require("./novenas/christ_the_king.json"),
+  "corpus_christi": () => require("./novenas/corpus_christi.json"),
+  "divine_mercy": () => require("./novenas/divine_mercy.json"),
+  "election_consecration_54_day": () => require("./novenas/election_consecration_54_day.json"),
+  "election": () => require("./novenas/election.json"),
+  "english_martyrs": () => require("./novenas/english_martyrs.json"),
+  "epiphany_magi": () => require("./novenas/epiphany_magi.json"),
+  "first_fridays": () => require("./novenas/first_fridays.json"),
+  "first_saturdays": () => require("./novenas/first_saturdays.json"),
+  "fulton_sheen": () => require("./novenas/fulton_sheen.json"),
+  "guardian_angel": () => require("./novenas/guardian_angel.json"),
+  "holy_cloak_of_st_joseph": () => require("./novenas/holy_cloak_of_st_joseph.json"),
+  "holy_cross": () => require("./novenas/holy_cross.json"),
+  "holy_face_of_jesus": () => require("./novenas/holy_face_of_jesus.json"),
+  "holy_family": () => require("./novenas/holy_family.json"),
+  "holy_innocents": () => require("./novenas/holy_innocents.json"),
+  "holy_name_of_jesus": () => require("./novenas/holy_name_of_jesus.json"),
+  "holy_souls_in_purgatory": () => require("./novenas/holy_souls_in_purgatory.json"),
+  "immaculate_conception": () => require("./novenas/immaculate_conception.json"),
+  "immaculate_heart_of_mary": () => require("./novenas/immaculate_heart_of_mary.json"),
+  "impossible_requests_annunciation": () => require("./novenas/impossible_requests_annunciation.json"),
+  "infant_of_prague": () => require("./novenas/infant_of_prague.json"),
+  "mary_help_of_christians": () => require("./novenas/mary_help_of_christians.json"),
+  "mary_queen_of_the_apostles": () => require("./novenas/mary_queen_of_the_apostles.json"),
+  "mary_undoer_of_knots": () => require("./novenas/mary_undoer_of_knots.json"),
+  "miraculous_medal": () => require("./novenas/miraculous_medal.json"),
+  "nativity_of_mary": () => require("./novenas/nativity_of_mary.json"),
+  "north_american_martyrs": () => require("./novenas/north_american_martyrs.json"),
+  "novena_for_fertility_to_conceive": () => require("./novenas/novena_for_fertility_to_conceive.json"),
+  "novena_for_popes_repose_and_new_pope": () => require("./novenas/novena_for_popes_repose_and_new_pope.json"),
+  "novena_to_the_divine_infant_king": () => require("./novenas/novena_to_the_divine_infant_king.json"),
+  "novena_to_the_holy_spirit": () => require("./novenas/novena_to_the_holy_spirit.json"),
+  "one_year_st_bridget_of_sweden": () => require("./novenas/one_year_st_bridget_of_sweden.json"),
+  "our_lady_of_champion": () => require("./novenas/our_lady_of_champion.json"),
+  "our_lady_of_charity": () => require("./novenas/our_lady_of_charity.json"),
+  "our_lady_of_czestochowa": () => require("./novenas/our_lady_of_czestochowa.json"),
+  "our_lady_of_fatima": () => require("./novenas/our_lady_of_fatima.json"),
+  "our_lady_of_good_counsel": () => require("./novenas/our_lady_of_good_counsel.json"),
+  "our_lady_of_good_health": () => require("./novenas/our_lady_of_good_health.json"),
+  "our_lady_of_good_success": () => require("./novenas/our_lady_of_good_success.json"),
+  "our_lady_of_graces": () => require("./novenas/our_lady_of_graces.json"),
+  "our_lady_of_guadalupe": () => require("./novenas/our_lady_of_guadalupe.json"),
+  "our_lady_of_hope": () => require("./novenas/our_lady_of_hope.json"),
+  "our_lady_of_knock": () => require("./novenas/our_lady_of_knock.json"),
+  "our_lady_of_la_leche": () => require("./novenas/our_lady_of_la_leche.json"),
+  "our_lady_of_la_salette": () => require("./novenas/our_lady_of_la_salette.json"),
+  "our_lady_of_lourdes": () => require("./novenas/our_lady_of_lourdes.json"),
+  "our_lady_of_monte_berico": () => require("./novenas/our_lady_of_monte_berico.json"),
+  "our_lady_of_mt_carmel": () => require("./novenas/our_lady_of_mt_carmel.json"),
+  "our_lady_of_peace": () => require("./novenas/our_lady_of_peace.json"),
+  "our_lady_of_perpetual_help": () => require("./novenas/our_lady_of_perpetual_help.json"),
+  "our_lady_of_sorrows": () => require("./novenas/our_lady_of_sorrows.json"),
+  "our_lady_of_the_rosary": () => require("./novenas/our_lady_of_the_rosary.json"),
+  "our_lady_of_the_snows": () => require("./novenas/our_lady_of_the_snows.json"),
+  "our_lady_of_walsingham": () => require("./novenas/our_lady_of_walsingham.json"),
+  "our_lady_star_of_the_sea": () => require("./novenas/our_lady_star_of_the_sea.json"),
+  "perpetual_help_wednesdays": () => require("./novenas/perpetual_help_wednesdays.json"),
+  "pope_st_john_paul_ii": () => require("./novenas/pope_st_john_paul_ii.json"),
+  "pope_st_leo_the_great": () => require("./novenas/pope_st_leo_the_great.json"),
+  "precious_blood": () => require("./novenas/precious_blood.json"),
+  "presentation_of_the_blessed_virgin_mary": () => require("./novenas/presentation_of_the_blessed_virgin_mary.json"),
+  "queenship_of_mary": () => require("./novenas/queenship_of_mary.json"),
+  "respect_life": () => require("./novenas/respect_life.json"),
+  "sacred_heart": () => require("./novenas/sacred_heart.json"),
+  "seven_sorrows_and_joys_of_st_joseph": () => require("./novenas/seven_sorrows_and_joys_of_st_joseph.json"),
+  "st_abigail": () => require("./novenas/st_abigail.json"),
+  "st_adelaide": () => require("./novenas/st_adelaide.json"),
+  "st_agatha": () => require("./novenas/st_agatha.json"),
+  "st_agnes": () => require("./novenas/st_agnes.json"),
+  "st_albert_the_great": () => require("./novenas/st_albert_the_great.json"),
+  "st_aloysius_gonzaga": () => require("./novenas/st_aloysius_gonzaga.json"),
+  "st_alphonsus_liguori": () => require("./novenas/st_alphonsus_liguori.json"),
+  "st_ambrose": () => require("./novenas/st_ambrose.json"),
+  "st_andre_bessette": () => require("./novenas/st_andre_bessette.json"),
+  "st_andrew_avellino": () => require("./novenas/st_andrew_avellino.json"),
+  "st_andrew_christmas": () => require("./novenas/st_andrew_christmas.json"),
+  "st_andrew_the_apostle": () => require("./novenas/st_andrew_the_apostle.json"),
+  "st_angela_merici": () => require("./novenas/st_angela_merici.json"),
+  "st_anne": () => require("./novenas/st_anne.json"),
+  "st_anthony_mary_claret": () => require("./novenas/st_anthony_mary_claret.json"),
+  "st_anthony": () => require("./novenas/st_anthony.json"),
+  "st_augustine": () => require("./novenas/st_augustine.json"),
+  "st_benedict_joseph_labre": () => require("./novenas/st_benedict_joseph_labre.json"),
+  "st_benedict": () => require("./novenas/st_benedict.json"),
+  "st_bernadette": () => require("./novenas/st_bernadette.json"),
+  "st_bernadine_of_siena": () => require("./novenas/st_bernadine_of_siena.json"),
+  "st_bernard_of_clairvaux": () => require("./novenas/st_bernard_of_clairvaux.json"),
+  "st_blaise": () => require("./novenas/st_blaise.json"),
+  "st_brendan": () => require("./novenas/st_brendan.json"),
+  "st_bridget_of_sweden": () => require("./novenas/st_bridget_of_sweden.json"),
+  "st_brigid_of_ireland": () => require("./novenas/st_brigid_of_ireland.json"),
+  "st_cajetan": () => require("./novenas/st_cajetan.json"),
+  "st_carlo_acutis": () => require("./novenas/st_carlo_acutis.json"),
+  "st_catherine_of_alexandria": () => require("./novenas/st_catherine_of_alexandria.json"),
+  "st_catherine_of_siena": () => require("./novenas/st_catherine_of_siena.json"),
+  "st_cecilia": () => require("./novenas/st_cecilia.json"),
+  "st_charbel": () => require("./novenas/st_charbel.json"),
+  "st_charles_borromeo": () => require("./novenas/st_charles_borromeo.json"),
+  "st_christopher": () => require("./novenas/st_christopher.json"),
+  "st_clare": () => require("./novenas/st_clare.json"),
+  "st_colette": () => require("./novenas/st_colette.json"),
+  "st_corona": () => require("./novenas/st_corona.json"),
+  "st_cyril_of_jerusalem": () => require("./novenas/st_cyril_of_jerusalem.json"),
+  "st_damien_of_molokai": () => require("./novenas/st_damien_of_molokai.json"),
+  "st_dominic_savio": () => require("./novenas/st_dominic_savio.json"),
+  "st_dominic": () => require("./novenas/st_dominic.json"),
+  "st_dymphna": () => require("./novenas/st_dymphna.json"),
+  "st_edith_stein": () => require("./novenas/st_edith_stein.json"),
+  "st_edmund_campion": () => require("./novenas/st_edmund_campion.json"),
+  "st_elizabeth_ann_seton": () => require("./novenas/st_elizabeth_ann_seton.json"),
+  "st_elizabeth_of_hungary": () => require("./novenas/st_elizabeth_of_hungary.json"),
+  "st_elizabeth_of_portugal": () => require("./novenas/st_elizabeth_of_portugal.json"),
+  "st_elizabeth_of_the_trinity": () => require("./novenas/st_elizabeth_of_the_trinity.json"),
+  "st_elizabeth": () => require("./novenas/st_elizabeth.json"),
+  "st_expeditus": () => require("./novenas/st_expeditus.json"),
+  "st_faustina": () => require("./novenas/st_faustina.json"),
+  "st_frances_of_rome": () => require("./novenas/st_frances_of_rome.json"),
+  "st_frances_xavier_cabrini": () => require("./novenas/st_frances_xavier_cabrini.json"),
+  "st_francis_de_sales": () => require("./novenas/st_francis_de_sales.json"),
+  "st_francis_of_assisi": () => require("./novenas/st_francis_of_assisi.json"),
+  "st_francis_xavier": () => require("./novenas/st_francis_xavier.json"),
+  "st_gabriel_of_our_lady_of_sorrows": () => require("./novenas/st_gabriel_of_our_lady_of_sorrows.json"),
+  "st_gabriel": () => require("./novenas/st_gabriel.json"),
+  "st_gemma_galgani": () => require("./novenas/st_gemma_galgani.json"),
+  "st_genevieve": () => require("./novenas/st_genevieve.json"),
+  "st_george": () => require("./novenas/st_george.json"),
+  "st_gerard_majella": () => require("./novenas/st_gerard_majella.json"),
+  "st_germaine_cousin": () => require("./novenas/st_germaine_cousin.json"),
+  "st_gertrude_prayer": () => require("./novenas/st_gertrude_prayer.json"),
+  "st_gianna_molla": () => require("./novenas/st_gianna_molla.json"),
+  "st_giuseppe_moscati": () => require("./novenas/st_giuseppe_moscati.json"),
+  "st_gregory_the_great": () => require("./novenas/st_gregory_the_great.json"),
+  "st_helena": () => require("./novenas/st_helena.json"),
+  "st_hildegard_of_bingen": () => require("./novenas/st_hildegard_of_bingen.json"),
+  "st_homobonus": () => require("./novenas/st_homobonus.json"),
+  "st_ignatius_loyola": () => require("./novenas/st_ignatius_loyola.json"),
+  "st_isidore_of_seville": () => require("./novenas/st_isidore_of_seville.json"),
+  "st_isidore_the_farmer": () => require("./novenas/st_isidore_the_farmer.json"),
+  "st_james_the_greater": () => require("./novenas/st_james_the_greater.json"),
+  "st_jane_frances_de_chantal": () => require("./novenas/st_jane_frances_de_chantal.json"),
+  "st_joan_of_arc": () => require("./novenas/st_joan_of_arc.json"),
+  "st_john_bosco": () => require("./novenas/st_john_bosco.json"),
+  "st_john_damascene": () => require("./novenas/st_john_damascene.json"),
+  "st_john_henry_newman": () => require("./novenas/st_john_henry_newman.json"),
+  "st_john_neumann": () => require("./novenas/st_john_neumann.json"),
+  "st_john_of_god": () => require("./novenas/st_john_of_god.json"),
+  "st_john_of_the_cross": () => require("./novenas/st_john_of_the_cross.json"),
+  "st_john_the_apostle": () => require("./novenas/st_john_the_apostle.json"),
+  "st_john_the_baptist": () => require("./novenas/st_john_the_baptist.json"),
+  "st_john_vianney": () => require("./novenas/st_john_vianney.json"),
+  "st_jose_luis_sanchez_del_rio": () => require("./novenas/st_jose_luis_sanchez_del_rio.json"),
+  "st_josemaria_escriva": () => require("./novenas/st_josemaria_escriva.json"),
+  "st_joseph_cupertino": () => require("./novenas/st_joseph_cupertino.json"),
+  "st_joseph_first_wednesdays": () => require("./novenas/st_joseph_first_wednesdays.json"),
+  "st_joseph_the_worker": () => require("./novenas/st_joseph_the_worker.json"),
+  "st_joseph": () => require("./novenas/st_joseph.json"),
+  "st_josephine_bakhita": () => require("./novenas/st_josephine_bakhita.json"),
+  "st_juan_diego": () => require("./novenas/st_juan_diego.json"),
+  "st_jude": () => require("./novenas/st_jude.json"),
+  "st_justin_martyr": () => require("./novenas/st_justin_martyr.json"),
+  "st_kateri": () => require("./novenas/st_kateri.json"),
+  "st_katharine_drexel": () => require("./novenas/st_katharine_drexel.json"),
+  "st_lawrence": () => require("./novenas/st_lawrence.json"),
+  "st_louis_de_montfort": () => require("./novenas/st_louis_de_montfort.json"),
+  "st_louis_king_of_france": () => require("./novenas/st_louis_king_of_france.json"),
+  "st_lucy": () => require("./novenas/st_lucy.json"),
+  "st_luke": () => require("./novenas/st_luke.json"),
+  "st_lydwine": () => require("./novenas/st_lydwine.json"),
+  "st_margaret_mary": () => require("./novenas/st_margaret_mary.json"),
+  "st_margaret_of_castello": () => require("./novenas/st_margaret_of_castello.json"),
+  "st_margaret_of_cortona": () => require("./novenas/st_margaret_of_cortona.json"),
+  "st_margaret_of_scotland": () => require("./novenas/st_margaret_of_scotland.json"),
+  "st_maria_goretti": () => require("./novenas/st_maria_goretti.json"),
+  "st_marianne_cope": () => require("./novenas/st_marianne_cope.json"),
+  "st_mark_ji_tianxiang": () => require("./novenas/st_mark_ji_tianxiang.json"),
+  "st_martin_de_porres": () => require("./novenas/st_martin_de_porres.json"),
+  "st_martin_of_tours": () => require("./novenas/st_martin_of_tours.json"),
+  "st_mary_mackillop": () => require("./novenas/st_mary_mackillop.json"),
+  "st_mary_magdalene_de_pazzi": () => require("./novenas/st_mary_magdalene_de_pazzi.json"),
+  "st_mary_magdalene": () => require("./novenas/st_mary_magdalene.json"),
+  "st_matthew": () => require("./novenas/st_matthew.json"),
+  "st_matthias_apostle": () => require("./novenas/st_matthias_apostle.json"),
+  "st_maximilian_kolbe": () => require("./novenas/st_maximilian_kolbe.json"),
+  "st_michael": () => require("./novenas/st_michael.json"),
+  "st_michaels_lent": () => require("./novenas/st_michaels_lent.json"),
+  "st_monica": () => require("./novenas/st_monica.json"),
+  "st_mother_teresa": () => require("./novenas/st_mother_teresa.json"),
+  "st_nicholas": () => require("./novenas/st_nicholas.json"),
+  "st_odilia": () => require("./novenas/st_odilia.json"),
+  "st_padre_pio": () => require("./novenas/st_padre_pio.json"),
+  "st_patrick": () => require("./novenas/st_patrick.json"),
+  "st_paul_of_the_cross": () => require("./novenas/st_paul_of_the_cross.json"),
+  "st_pedro_calungsod": () => require("./novenas/st_pedro_calungsod.json"),
+  "st_peregrine": () => require("./novenas/st_peregrine.json"),
+  "st_peter_and_paul": () => require("./novenas/st_peter_and_paul.json"),
+  "st_peter_chanel": () => require("./novenas/st_peter_chanel.json"),
+  "st_peter_julian_eymard": () => require("./novenas/st_peter_julian_eymard.json"),
+  "st_philip_neri": () => require("./novenas/st_philip_neri.json"),
+  "st_philomena": () => require("./novenas/st_philomena.json"),
+  "st_pier_giorgio_frassati": () => require("./novenas/st_pier_giorgio_frassati.json"),
+  "st_raphael": () => require("./novenas/st_raphael.json"),
+  "st_rita": () => require("./novenas/st_rita.json"),
+  "st_robert_bellarmine": () => require("./novenas/st_robert_bellarmine.json"),
+  "st_rocco_novena_against_plague": () => require("./novenas/st_rocco_novena_against_plague.json"),
+  "st_rose_of_lima": () => require("./novenas/st_rose_of_lima.json"),
+  "st_rose_philippine_duchesne": () => require("./novenas/st_rose_philippine_duchesne.json"),
+  "st_scholastica": () => require("./novenas/st_scholastica.json"),
+  "st_sebastian": () => require("./novenas/st_sebastian.json"),
+  "st_stephen": () => require("./novenas/st_stephen.json"),
+  "st_teresa_of_avila": () => require("./novenas/st_teresa_of_avila.json"),
+  "st_teresa_of_the_andes": () => require("./novenas/st_teresa_of_the_andes.json"),
+  "st_therese_of_lisieux_rose": () => require("./novenas/st_therese_of_lisieux_rose.json"),
+  "st_thomas_aquinas": () => require("./novenas/st_thomas_aquinas.json"),
+  "st_thomas_becket": () => require("./novenas/st_thomas_becket.json"),
+  "st_thomas_more": () => require("./novenas/st_thomas_more.json"),
+  "st_valentine": () => require("./novenas/st_valentine.json"),
+  "st_veronica_giuliani": () => require("./novenas/st_veronica_giuliani.json"),
+  "st_vincent_de_paul": () => require("./novenas/st_vincent_de_paul.json"),
+  "st_vincent_ferrer": () => require("./novenas/st_vincent_ferrer.json"),
+  "sts_cosmas_and_damian": () => require("./novenas/sts_cosmas_and_damian.json"),
+  "sts_jacinta_and_francisco_marto": () => require("./novenas/sts_jacinta_and_francisco_marto.json"),
+  "sts_joachim_and_anne": () => require("./novenas/sts_joachim_and_anne.json"),
+  "sts_louis_and_zelie_martin": () => require("./novenas/sts_louis_and_zelie_martin.json"),
+  "sts_perpetua_and_felicity": () => require("./novenas/sts_perpetua_and_felicity.json"),
+  "sts_philip_and_james": () => require("./novenas/sts_philip_and_james.json"),
+  "surrender": () => require("./novenas/surrender.json"),
+  "the_three_hail_marys": () => require("./novenas/the_three_hail_marys.json"),
+  "virgin_of_revelation": () => require("./novenas/virgin_of_revelation.json"),
+  "visitation": () => require("./novenas/visitation.json"),
 };
 
+export const novenaDocs = createLazyDocs<any>(
+  "novenas",
+  loaders,
+  NOVENA_CACHE_SIZE,
+);
+
 export function getNovenaContent(id: string): any | null {
-  return NOVENA_MANIFEST[id] ?? null;
+  return novenaDocs.get(id);
+}
+
+export function loadNovenaContent(id: string): Promise<any | null> {
+  return novenaDocs.load(id);
 }
@@ -0,0 +1,141 @@
+// data/patronage.ts
+//
+// Hand-maintained patronage ("pray to X for Y").
+// - INTENTIONS is the fixed vocabulary used in `patronage` arrays, so the
+//   app can translate them (i18n key `intention_<id>`).
+// - NOVENA_PATRONAGE is written into data/novenas_index.json by
+//   scripts/build-novenas-index.ts.
+// - SAINT_PATRONAGE is written into data/saints/<id>.json by
+//   scripts/build-saints-index.ts (keys are saint doc ids).
+//
+// Only traditional, widely known patronages; edit here, then rebuild.
+
+export const INTENTIONS = [
+  "illness",
+  "cancer",
+  "mental_health",
+  "fertility",
+  "pregnancy",
+  "children",
+  "family",
+  "marriage",
+  "vocation",
+  "work",
+  "exams",
+  "travel",
+  "lost_items",
+  "impossible_causes",
+  "conversion",
+  "addiction",
+  "protection",
+  "death",
+] as const;
+
+export type IntentionId = (typeof INTENTIONS)[number];
+
+export const NOVENA_PATRONAGE: Record<string, IntentionId[]> = {
+  "14_holy_helpers": ["illness"],
+  blessed_solanus_casey: ["illness", "addiction"],
+  divine_mercy: ["conversion", "death"],
+  guardian_angel: ["protection", "travel", "children"],
+  holy_cross: ["protection"],
+  holy_family: ["family"],
+  holy_innocents: ["children"],
+  holy_souls_in_purgatory: ["death"],
+  impossible_requests_annunciation: ["impossible_causes"],
+  infant_of_prague: ["children"],
+  mary_queen_of_the_apostles: ["vocation"],
+  mary_undoer_of_knots: ["impossible_causes", "marriage", "addiction"],
+  miraculous_medal: ["conversion"],
+  novena_for_fertility_to_conceive: ["fertility"],
+  novena_to_the_holy_spirit: ["vocation", "exams"],
+  our_lady_of_good_counsel: ["vocation"],
+  our_lady_of_good_health: ["illness"],
+  our_lady_of_la_leche: ["fertility", "pregnancy"],
+  our_lady_of_lourdes: ["illness"],
+  our_lady_of_mt_carmel: ["death", "protection"],
+  our_lady_star_of_the_sea: ["travel"],
+  precious_blood: ["protection"],
+  st_agatha: ["cancer", "illness"],
+  st_andre_bessette: ["illness"],
+  st_andrew_avellino: ["death"],
+  st_anne: ["fertility", "pregnancy", "family"],
+  st_anthony: ["lost_items"],
+  st_augustine: ["conversion"],
+  st_benedict: ["protection"],
+  st_benedict_joseph_labre: ["mental_health"],
+  st_blaise: ["illness"],
+  st_brendan: ["travel"],
+  st_cajetan: ["work"],
+  st_charbel: ["illness"],
+  st_christopher: ["travel"],
+  st_corona: ["illness"],
+  st_damien_of_molokai: ["illness"],
+  st_dominic_savio: ["children"],
+  st_dymphna: ["mental_health"],
+  st_expeditus: ["impossible_causes"],
+  st_frances_xavier_cabrini: ["travel"],
+  st_gerard_majella: ["pregnancy", "fertility"],
+  st_gianna_molla: ["pregnancy", "fertility", "family"],
+  st_giuseppe_moscati: ["illness", "cancer"],
+  st_homobonus: ["work"],
+  st_ignatius_loyola: ["vocation"],
+  st_isidore_of_seville: ["exams"],
+  st_isidore_the_farmer: ["work"],
+  st_john_bosco: ["children"],
+  st_john_of_god: ["illness", "mental_health"],
+  st_john_vianney: ["vocation"],
+  st_joseph: ["family", "work", "death"],
+  st_joseph_cupertino: ["exams", "travel"],
+  st_joseph_the_worker: ["work"],
+  st_jude: ["impossible_causes"],
+  st_lucy: ["illness"],
+  st_lydwine: ["illness"],
+  st_margaret_of_castello: ["illness"],
+  st_maria_goretti: ["children"],
+  st_marianne_cope: ["illness"],
+  st_mary_magdalene: ["conversion"],
+  st_maximilian_kolbe: ["addiction"],
+  st_michael: ["protection"],
+  st_michaels_lent: ["protection"],
+  st_monica: ["conversion", "family", "marriage", "addiction"],
+  st_nicholas: ["children"],
+  st_padre_pio: ["illness"],
+  st_peregrine: ["cancer", "illness"],
+  st_philomena: ["impossible_causes"],
+  st_raphael: ["illness", "travel", "marriage"],
+  st_rita: ["impossible_causes", "marriage", "family"],
+  st_rocco_novena_against_plague: ["illness"],
+  st_sebastian: ["protection"],
+  st_thomas_aquinas: ["exams"],
+  st_valentine: ["marriage"],
+  sts_cosmas_and_damian: ["illness"],
+  sts_joachim_and_anne: ["fertility", "family"],
+  sts_louis_and_zelie_martin: ["marriage", "family"],
+};
+
+export const SAINT_PATRONAGE: Record<string, IntentionId[]> = {
+  "01-17_saint_anthony": ["illness"],
+  "02-03_saint_blasius": ["illness"],
+  "02-05_saint_agatha": ["cancer", "illness"],
+  "02-11_blessed_virgin_mary_immaculate": ["illness"],
+  "03-07_saint_thomas_of_aquin": ["exams"],
+  "03-08_saint_john_of_god": ["illness", "mental_health"],
+  "03-19_saint_joseph": ["family", "work", "death"],
+  "04-23_saint_george": ["protection"],
+  "04-30_saint_catherine_of_siena": ["illness"],
+  "05-04_saint_monica": ["conversion", "family", "addiction"],
+  "05-08_saint_michael": ["protection"],
+  "06-13_saint_anthony": ["lost_items"],
+  "07-18_saint_camillus_de_lellis": ["illness"],
+  "07-25_saint_christopher": ["travel"],
+  "07-26_saint_anne": ["fertility", "pregnancy", "family"],
+  "07-31_saint_ignatius": ["vocation"],
+  "08-07_saint_cajetan_of_tiene": ["work"],
+  "08-28_saint_augustine": ["conversion"],
+  "09-18_saint_joseph_of_cupertino": ["exams", "travel"],
+  "10-02_saint_guardian_angels": ["protection", "travel", "children"],
+  "12-04_saint_barbara": ["death", "protection"],
+  "12-06_saint_nicholas": ["children", "travel"],
+  "12-13_saint_lucy": ["illness"],
+};
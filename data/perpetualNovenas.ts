@@ -0,0 +1,69 @@
+// data/perpetualNovenas.ts
+//
+// Hand-maintained recurring ("perpetual") devotions: prayed every week or on
+// a set day each month rather than once a year before a feast. The source
+// list has none of these.
+// - Written into data/novenas_index.json by scripts/build-novenas-index.ts
+//   (after the scraped entries; patronage still comes from data/patronage.ts)
+// - feastRule is a recurring rule (weekly / monthly / nth_weekday_of_month);
+//   each occurrence is a 1-day run (see resolveNovenaRunsForYear)
+// - Content docs live in data/novenas/<id>.json like any other novena
+//
+// Edit here, then rebuild the index.
+
+import type { NovenaDef } from "../utils/novenasRules";
+
+export const PERPETUAL_NOVENAS: NovenaDef[] = [
+  {
+    id: "perpetual_help_wednesdays",
+    title: "Our Lady of Perpetual Help (Wednesdays)",
+    feastRule: { type: "weekly", weekday: 3 },
+    durationDays: 1,
+    category: "Marian",
+    tags: ["Novena", "Marian", "Perpetual", "Our Lady of Perpetual Help"],
+    description:
+      "The Perpetual Novena to Our Lady of Perpetual Help, prayed every Wednesday in parishes around the world.",
+    patronage: [],
+    image: null,
+    notes: null,
+  },
+  {
+    id: "first_fridays",
+    title: "First Fridays",
+    feastRule: { type: "nth_weekday_of_month", weekday: 5, n: 1 },
+    durationDays: 1,
+    category: "Devotion",
+    tags: ["Devotion", "Perpetual", "Sacred Heart"],
+    description:
+      "Devotion to the Sacred Heart of Jesus on the first Friday of each month, traditionally nine months in a row, with Mass and Holy Communion in reparation.",
+    patronage: [],
+    image: null,
+    notes: null,
+  },
+  {
+    id: "first_saturdays",
+    title: "First Saturdays",
+    feastRule: { type: "nth_weekday_of_month", weekday: 6, n: 1 },
+    durationDays: 1,
+    category: "Marian",
+    tags: ["Devotion", "Marian", "Perpetual", "Immaculate Heart", "Fatima"],
+    description:
+      "The Fatima devotion of reparation to the Immaculate Heart of Mary on the first Saturday of each month, traditionally five months in a row: Confession, Holy Communion, the Rosary and fifteen minutes with its mysteries.",
+    patronage: [],
+    image: null,
+    notes: null,
+  },
+  {
+    id: "st_joseph_first_wednesdays",
+    title: "St. Joseph (First Wednesdays)",
+    feastRule: { type: "nth_weekday_of_month", weekday: 3, n: 1 },
+    durationDays: 1,
+    category: "Saint",
+    tags: ["Devotion", "Saint", "Perpetual", "St. Joseph"],
+    description:
+      "Wednesday is dedicated to St. Joseph; the first Wednesday of each month honors him in particular.",
+    patronage: [],
+    image: null,
+    notes: null,
+  },
+];
@@ -1,6 +1,8 @@
 // AUTO-GENERATED. DO NOT EDIT.
 // Generated by: scripts/build-saints-index.ts
 
+import { createLazyDocs, type DocLoaders } from "../utils/lazyDocs";
+
 export type SaintDoc = {
   id: string;
   name: string;
@@ -10,377 +12,391 @@ export type SaintDoc = {
   biography?: string;
   prayers?: string[];
   sources?: string[];
+  patronage?: string[]; // intention ids, see data/patronage.ts
 };
 
-const docs: Record<string, any> = {
-  "01-01_saint_almachius": require("./saints/01-01_saint_almachius.json"),
-  "01-02_saint_stephen": require("./saints/01-02_saint_stephen.json"),
-  "01-03_saint_john": require("./saints/01-03_saint_john.json"),
-  "01-04_saint_titus": require("./saints/01-04_saint_titus.json"),
-  "01-05_saint_telesphorus": require("./saints/01-05_saint_telesphorus.json"),
-  "01-06_saint_macra": require("./saints/01-06_saint_macra.json"),
-  "01-07_saint_john_chrysostom": require("./saints/01-07_saint_john_chrysostom.json"),
-  "01-08_saint_denis": require("./saints/01-08_saint_denis.json"),
-  "01-09_saint_marciana": require("./saints/01-09_saint_marciana.json"),
-  "01-10_saint_agatho": require("./saints/01-10_saint_agatho.json"),
-  "01-11_saint_hyginus": require("./saints/01-11_saint_hyginus.json"),
-  "01-12_saint_tatiana": require("./saints/01-12_saint_tatiana.json"),
-  "01-13_saint_potitus": require("./saints/01-13_saint_potitus.json"),
-  "01-14_saint_felix": require("./saints/01-14_saint_felix.json"),
-  "01-15_saint_maur": require("./saints/01-15_saint_maur.json"),
-  "01-16_saint_john_the_baptist": require("./saints/01-16_saint_john_the_baptist.json"),
-  "01-17_saint_anthony": require("./saints/01-17_saint_anthony.json"),
-  "01-18_saint_peter": require("./saints/01-18_saint_peter.json"),
-  "01-19_saint_marius": require("./saints/01-19_saint_marius.json"),
-  "01-20_saint_fabian": require("./saints/01-20_saint_fabian.json"),
-  "01-21_saint_agnes": require("./saints/01-21_saint_agnes.json"),
-  "01-22_saint_vincent": require("./saints/01-22_saint_vincent.json"),
-  "01-23_saint_raymond_of_pennafort": require("./saints/01-23_saint_raymond_of_pennafort.json"),
-  "01-24_saint_timothy": require("./saints/01-24_saint_timothy.json"),
-  "01-25_saint_paul_the_apostle": require("./saints/01-25_saint_paul_the_apostle.json"),
-  "01-26_saint_polycarp": require("./saints/01-26_saint_polycarp.json"),
-  "01-27_saint_john": require("./saints/01-27_saint_john.json"),
-  "01-28_saint_agnes": require("./saints/01-28_saint_agnes.json"),
-  "01-29_saint_francis_of_sales": require("./saints/01-29_saint_francis_of_sales.json"),
-  "01-30_saint_martina": require("./saints/01-30_saint_martina.json"),
-  "01-31_saint_peter_nolasco": require("./saints/01-31_saint_peter_nolasco.json"),
-  "02-01_saint_ignatius": require("./saints/02-01_saint_ignatius.json"),
-  "02-02_blessed_virgin_mary": require("./saints/02-02_blessed_virgin_mary.json"),
-  "02-03_saint_blasius": require("./saints/02-03_saint_blasius.json"),
-  "02-04_saint_andrew_corsini": require("./saints/02-04_saint_andrew_corsini.json"),
-  "02-05_saint_agatha": require("./saints/02-05_saint_agatha.json"),
-  "02-06_saint_titus": require("./saints/02-06_saint_titus.json"),
-  "02-07_saint_adaucus": require("./saints/02-07_saint_adaucus.json"),
-  "02-08_saint_jerome_aemiliani": require("./saints/02-08_saint_jerome_aemiliani.json"),
-  "02-09_saint_cyril": require("./saints/02-09_saint_cyril.json"),
-  "02-10_saint_scholastica": require("./saints/02-10_saint_scholastica.json"),
-  "02-11_blessed_virgin_mary_immaculate": require("./saints/02-11_blessed_virgin_mary_immaculate.json"),
-  "02-12_blessed_virgin_mary": require("./saints/02-12_blessed_virgin_mary.json"),
-  "02-13_saint_luke": require("./saints/02-13_saint_luke.json"),
-  "02-14_saint_vitalis": require("./saints/02-14_saint_vitalis.json"),
-  "02-15_saint_faustinus": require("./saints/02-15_saint_faustinus.json"),
-  "02-16_saint_paul_wrote_to_philemon": require("./saints/02-16_saint_paul_wrote_to_philemon.json"),
-  "02-17_saint_faustinus": require("./saints/02-17_saint_faustinus.json"),
-  "02-18_saint_simeon": require("./saints/02-18_saint_simeon.json"),
-  "02-19_saint_pothamius": require("./saints/02-19_saint_pothamius.json"),
-  "02-20_saint_eleutherius": require("./saints/02-20_saint_eleutherius.json"),
-  "02-21_saint_verulus": require("./saints/02-21_saint_verulus.json"),
-  "02-22_saint_peter": require("./saints/02-22_saint_peter.json"),
-  "02-23_saint_matthias_is_not_announced_today": require("./saints/02-23_saint_matthias_is_not_announced_today.json"),
-  "02-24_saint_matthias": require("./saints/02-24_saint_matthias.json"),
-  "02-25_saint_victorinus": require("./saints/02-25_saint_victorinus.json"),
-  "02-26_saint_nestor_to_martyrdom": require("./saints/02-26_saint_nestor_to_martyrdom.json"),
-  "02-27_saint_alexander": require("./saints/02-27_saint_alexander.json"),
-  "02-28_saint_macarius": require("./saints/02-28_saint_macarius.json"),
-  "02-29_saint_confessor_david": require("./saints/02-29_saint_confessor_david.json"),
-  "03-01_saint_leo": require("./saints/03-01_saint_leo.json"),
-  "03-02_saint_jovinus": require("./saints/03-02_saint_jovinus.json"),
-  "03-03_saint_marinus": require("./saints/03-03_saint_marinus.json"),
-  "03-04_saint_lucius": require("./saints/03-04_saint_lucius.json"),
-  "03-05_saint_phocas": require("./saints/03-05_saint_phocas.json"),
-  "03-06_saint_perpetua": require("./saints/03-06_saint_perpetua.json"),
-  "03-07_saint_thomas_of_aquin": require("./saints/03-07_saint_thomas_of_aquin.json"),
-  "03-08_saint_john_of_god": require("./saints/03-08_saint_john_of_god.json"),
-  "03-09_saint_frances": require("./saints/03-09_saint_frances.json"),
-  "03-10_saint_caius": require("./saints/03-10_saint_caius.json"),
-  "03-11_saint_heraclius": require("./saints/03-11_saint_heraclius.json"),
-  "03-12_saint_gregory": require("./saints/03-12_saint_gregory.json"),
-  "03-13_saint_macedonius": require("./saints/03-13_saint_macedonius.json"),
-  "03-14_saint_peter": require("./saints/03-14_saint_peter.json"),
-  "03-15_saint_longinus": require("./saints/03-15_saint_longinus.json"),
-  "03-16_saint_cyriacus": require("./saints/03-16_saint_cyriacus.json"),
-  "03-17_saint_patrick": require("./saints/03-17_saint_patrick.json"),
-  "03-18_saint_cyril": require("./saints/03-18_saint_cyril.json"),
-  "03-19_saint_joseph": require("./saints/03-19_saint_joseph.json"),
-  "03-20_saint_joachim": require("./saints/03-20_saint_joachim.json"),
-  "03-21_saint_gregory": require("./saints/03-21_saint_gregory.json"),
-  "03-22_saint_paul": require("./saints/03-22_saint_paul.json"),
-  "03-23_saint_fidelis": require("./saints/03-23_saint_fidelis.json"),
-  "03-24_saint_epigmenius": require("./saints/03-24_saint_epigmenius.json"),
-  "03-25_blessed_virgin_mary": require("./saints/03-25_blessed_virgin_mary.json"),
-  "03-26_saint_castulus": require("./saints/03-26_saint_castulus.json"),
-  "03-27_saint_john_damascene": require("./saints/03-27_saint_john_damascene.json"),
-  "03-28_saint_priscus": require("./saints/03-28_saint_priscus.json"),
-  "03-29_saint_jonas": require("./saints/03-29_saint_jonas.json"),
-  "03-30_saint_alexander": require("./saints/03-30_saint_alexander.json"),
-  "03-31_saint_theodulus": require("./saints/03-31_saint_theodulus.json"),
-  "04-01_saint_theodora": require("./saints/04-01_saint_theodora.json"),
-  "04-02_saint_amphian": require("./saints/04-02_saint_amphian.json"),
-  "04-03_saint_pancratius": require("./saints/04-03_saint_pancratius.json"),
-  "04-04_saint_isidore": require("./saints/04-04_saint_isidore.json"),
-  "04-05_saint_vincent_ferrer": require("./saints/04-05_saint_vincent_ferrer.json"),
-  "04-06_saint_timothy": require("./saints/04-06_saint_timothy.json"),
-  "04-07_saint_epiphanius": require("./saints/04-07_saint_epiphanius.json"),
-  "04-08_saint_aedesius": require("./saints/04-08_saint_aedesius.json"),
-  "04-09_saint_prochorus": require("./saints/04-09_saint_prochorus.json"),
-  "04-10_saint_alexander_baptized_whilst_he_was_detained_in_prison": require("./saints/04-10_saint_alexander_baptized_whilst_he_was_detained_in_prison.json"),
-  "04-11_saint_leo": require("./saints/04-11_saint_leo.json"),
-  "04-12_saint_zeno": require("./saints/04-12_saint_zeno.json"),
-  "04-13_saint_hermenegild": require("./saints/04-13_saint_hermenegild.json"),
-  "04-14_saint_justin": require("./saints/04-14_saint_justin.json"),
-  "04-15_saint_maro": require("./saints/04-15_saint_maro.json"),
-  "04-16_saint_callistus": require("./saints/04-16_saint_callistus.json"),
-  "04-17_saint_anicetus": require("./saints/04-17_saint_anicetus.json"),
-  "04-18_saint_apollonius": require("./saints/04-18_saint_apollonius.json"),
-  "04-19_saint_sulpitius": require("./saints/04-19_saint_sulpitius.json"),
-  "04-20_saint_sulpicius": require("./saints/04-20_saint_sulpicius.json"),
-  "04-21_saint_anselm": require("./saints/04-21_saint_anselm.json"),
-  "04-22_saint_soter": require("./saints/04-22_saint_soter.json"),
-  "04-23_saint_george": require("./saints/04-23_saint_george.json"),
-  "04-24_saint_fidelis_of_sigmaringen": require("./saints/04-24_saint_fidelis_of_sigmaringen.json"),
-  "04-25_saint_peter": require("./saints/04-25_saint_peter.json"),
-  "04-26_saint_peter": require("./saints/04-26_saint_peter.json"),
-  "04-27_saint_anthimus": require("./saints/04-27_saint_anthimus.json"),
-  "04-28_saint_vitalis": require("./saints/04-28_saint_vitalis.json"),
-  "04-29_saint_peter": require("./saints/04-29_saint_peter.json"),
-  "04-30_saint_catherine_of_siena": require("./saints/04-30_saint_catherine_of_siena.json"),
-  "05-01_saint_jeremias": require("./saints/05-01_saint_jeremias.json"),
-  "05-02_saint_athallasius": require("./saints/05-02_saint_athallasius.json"),
-  "05-03_saint_alexander": require("./saints/05-03_saint_alexander.json"),
-  "05-04_saint_monica": require("./saints/05-04_saint_monica.json"),
-  "05-05_saint_pius_v": require("./saints/05-05_saint_pius_v.json"),
-  "05-06_saint_john_before_the_latin_gate": require("./saints/05-06_saint_john_before_the_latin_gate.json"),
-  "05-07_saint_stanislaus": require("./saints/05-07_saint_stanislaus.json"),
-  "05-08_saint_michael": require("./saints/05-08_saint_michael.json"),
-  "05-09_saint_gregory": require("./saints/05-09_saint_gregory.json"),
-  "05-10_saint_gordian": require("./saints/05-10_saint_gordian.json"),
-  "05-11_saint_evelius": require("./saints/05-11_saint_evelius.json"),
-  "05-12_saint_nereus": require("./saints/05-12_saint_nereus.json"),
-  "05-13_saint_mary_of_the_martyrs": require("./saints/05-13_saint_mary_of_the_martyrs.json"),
-  "05-14_saint_boniface": require("./saints/05-14_saint_boniface.json"),
-  "05-15_saint_john_baptist_de_la_salle": require("./saints/05-15_saint_john_baptist_de_la_salle.json"),
-  "05-16_saint_ubaldus": require("./saints/05-16_saint_ubaldus.json"),
-  "05-17_saint_pascal": require("./saints/05-17_saint_pascal.json"),
-  "05-18_saint_venantius": require("./saints/05-18_saint_venantius.json"),
-  "05-19_saint_peter_of_moroni": require("./saints/05-19_saint_peter_of_moroni.json"),
-  "05-20_saint_bernardine_of_siena": require("./saints/05-20_saint_bernardine_of_siena.json"),
-  "05-21_saint_timothy": require("./saints/05-21_saint_timothy.json"),
-  "05-22_saint_faustinus": require("./saints/05-22_saint_faustinus.json"),
-  "05-23_saint_epitacius": require("./saints/05-23_saint_epitacius.json"),
-  "05-24_saint_manahen": require("./saints/05-24_saint_manahen.json"),
-  "05-25_saint_diary_magdalen": require("./saints/05-25_saint_diary_magdalen.json"),
-  "05-26_saint_philip_neri": require("./saints/05-26_saint_philip_neri.json"),
-  "05-27_saint_john": require("./saints/05-27_saint_john.json"),
-  "05-28_saint_augustine": require("./saints/05-28_saint_augustine.json"),
-  "05-29_saint_mary_magdalen": require("./saints/05-29_saint_mary_magdalen.json"),
-  "05-30_saint_felix": require("./saints/05-30_saint_felix.json"),
-  "05-31_saint_angela_merici": require("./saints/05-31_saint_angela_merici.json"),
-  "06-01_saint_juventius": require("./saints/06-01_saint_juventius.json"),
-  "06-02_saint_tiburtius": require("./saints/06-02_saint_tiburtius.json"),
-  "06-03_saint_pergentinus": require("./saints/06-03_saint_pergentinus.json"),
-  "06-04_saint_francis": require("./saints/06-04_saint_francis.json"),
-  "06-05_saint_marcian": require("./saints/06-05_saint_marcian.json"),
-  "06-06_saint_artemius": require("./saints/06-06_saint_artemius.json"),
-  "06-07_saint_paul": require("./saints/06-07_saint_paul.json"),
-  "06-08_saint_maximin": require("./saints/06-08_saint_maximin.json"),
-  "06-09_saint_primus": require("./saints/06-09_saint_primus.json"),
-  "06-10_saint_margaret": require("./saints/06-10_saint_margaret.json"),
-  "06-11_saint_barnabas": require("./saints/06-11_saint_barnabas.json"),
-  "06-12_saint_john_of_st": require("./saints/06-12_saint_john_of_st.json"),
-  "06-13_saint_anthony": require("./saints/06-13_saint_anthony.json"),
-  "06-14_saint_basil": require("./saints/06-14_saint_basil.json"),
-  "06-15_saint_vitus": require("./saints/06-15_saint_vitus.json"),
-  "06-16_saint_ferreol": require("./saints/06-16_saint_ferreol.json"),
-  "06-17_saint_montanus": require("./saints/06-17_saint_montanus.json"),
-  "06-18_saint_cyriacus": require("./saints/06-18_saint_cyriacus.json"),
-  "06-19_saint_pastor": require("./saints/06-19_saint_pastor.json"),
-  "06-20_saint_silverius": require("./saints/06-20_saint_silverius.json"),
-  "06-21_saint_alban": require("./saints/06-21_saint_alban.json"),
-  "06-22_saint_alban": require("./saints/06-22_saint_alban.json"),
-  "06-23_saint_john_the_baptist": require("./saints/06-23_saint_john_the_baptist.json"),
-  "06-24_saint_john_the_baptist": require("./saints/06-24_saint_john_the_baptist.json"),
-  "06-25_saint_william": require("./saints/06-25_saint_william.json"),
-  "06-26_saint_john": require("./saints/06-26_saint_john.json"),
-  "06-27_saint_crescens": require("./saints/06-27_saint_crescens.json"),
-  "06-28_saint_leon": require("./saints/06-28_saint_leon.json"),
-  "06-29_saint_marcellus": require("./saints/06-29_saint_marcellus.json"),
-  "06-30_saint_martial": require("./saints/06-30_saint_martial.json"),
-  "07-01_saint_john_the_baptist": require("./saints/07-01_saint_john_the_baptist.json"),
-  "07-02_blessed_virgin_mary_to_elizabeth": require("./saints/07-02_blessed_virgin_mary_to_elizabeth.json"),
-  "07-03_saint_tryphon": require("./saints/07-03_saint_tryphon.json"),
-  "07-04_saint_jucundian": require("./saints/07-04_saint_jucundian.json"),
-  "07-05_saint_anthony_mary_zaccaria": require("./saints/07-05_saint_anthony_mary_zaccaria.json"),
-  "07-06_saint_tranquillinus": require("./saints/07-06_saint_tranquillinus.json"),
-  "07-07_saint_sebastian": require("./saints/07-07_saint_sebastian.json"),
-  "07-08_saint_bonosa": require("./saints/07-08_saint_bonosa.json"),
-  "07-09_saint_zeno": require("./saints/07-09_saint_zeno.json"),
-  "07-10_saint_januarius": require("./saints/07-10_saint_januarius.json"),
-  "07-11_saint_januarius": require("./saints/07-11_saint_januarius.json"),
-  "07-12_saint_john_gualbert": require("./saints/07-12_saint_john_gualbert.json"),
-  "07-13_saint_anacletus": require("./saints/07-13_saint_anacletus.json"),
-  "07-14_saint_bonaventure": require("./saints/07-14_saint_bonaventure.json"),
-  "07-15_saint_henry_i": require("./saints/07-15_saint_henry_i.json"),
-  "07-16_blessed_virgin_mary_of_mount_carmel": require("./saints/07-16_blessed_virgin_mary_of_mount_carmel.json"),
-  "07-17_saint_alexius": require("./saints/07-17_saint_alexius.json"),
-  "07-18_saint_camillus_de_lellis": require("./saints/07-18_saint_camillus_de_lellis.json"),
-  "07-19_saint_confessor_jerome_miani": require("./saints/07-19_saint_confessor_jerome_miani.json"),
-  "07-20_saint_jerome_aemiliani": require("./saints/07-20_saint_jerome_aemiliani.json"),
-  "07-21_saint_victor": require("./saints/07-21_saint_victor.json"),
-  "07-22_saint_mary_magdalen": require("./saints/07-22_saint_mary_magdalen.json"),
-  "07-23_saint_liborius": require("./saints/07-23_saint_liborius.json"),
-  "07-24_saint_james": require("./saints/07-24_saint_james.json"),
-  "07-25_saint_christopher": require("./saints/07-25_saint_christopher.json"),
-  "07-26_saint_anne": require("./saints/07-26_saint_anne.json"),
-  "07-27_saint_pantaleon": require("./saints/07-27_saint_pantaleon.json"),
-  "07-28_saint_victor": require("./saints/07-28_saint_victor.json"),
-  "07-29_saint_martha": require("./saints/07-29_saint_martha.json"),
-  "07-30_saint_persian_martyrs_abdon": require("./saints/07-30_saint_persian_martyrs_abdon.json"),
-  "07-31_saint_ignatius": require("./saints/07-31_saint_ignatius.json"),
-  "08-01_saint_peter_in_chains": require("./saints/08-01_saint_peter_in_chains.json"),
-  "08-02_saint_alphonsus_maria_de_liguori": require("./saints/08-02_saint_alphonsus_maria_de_liguori.json"),
-  "08-03_saint_aspren": require("./saints/08-03_saint_aspren.json"),
-  "08-04_saint_dominic": require("./saints/08-04_saint_dominic.json"),
-  "08-05_saint_mary_of_the_snows": require("./saints/08-05_saint_mary_of_the_snows.json"),
-  "08-06_saint_cyprian": require("./saints/08-06_saint_cyprian.json"),
-  "08-07_saint_cajetan_of_tiene": require("./saints/08-07_saint_cajetan_of_tiene.json"),
-  "08-08_saint_marcellus_to_the_estate_of_lucina": require("./saints/08-08_saint_marcellus_to_the_estate_of_lucina.json"),
-  "08-09_saint_lawrence": require("./saints/08-09_saint_lawrence.json"),
-  "08-10_saint_asteria": require("./saints/08-10_saint_asteria.json"),
-  "08-11_saint_tiburtius": require("./saints/08-11_saint_tiburtius.json"),
-  "08-12_saint_clare": require("./saints/08-12_saint_clare.json"),
-  "08-13_saint_cassian": require("./saints/08-13_saint_cassian.json"),
-  "08-14_saint_ursicius": require("./saints/08-14_saint_ursicius.json"),
-  "08-15_saint_virgin_mary": require("./saints/08-15_saint_virgin_mary.json"),
-  "08-16_saint_titus": require("./saints/08-16_saint_titus.json"),
-  "08-17_saint_lawrence": require("./saints/08-17_saint_lawrence.json"),
-  "08-18_saint_agapitus": require("./saints/08-18_saint_agapitus.json"),
-  "08-19_saint_bernard": require("./saints/08-19_saint_bernard.json"),
-  "08-20_saint_bernard": require("./saints/08-20_saint_bernard.json"),
-  "08-21_saint_jane_frances_fremiot_de_chantal": require("./saints/08-21_saint_jane_frances_fremiot_de_chantal.json"),
-  "08-22_saint_timothy": require("./saints/08-22_saint_timothy.json"),
-  "08-23_saint_bartholomew": require("./saints/08-23_saint_bartholomew.json"),
-  "08-24_saint_bartholomew": require("./saints/08-24_saint_bartholomew.json"),
-  "08-25_saint_louis": require("./saints/08-25_saint_louis.json"),
-  "08-26_saint_zephirinus": require("./saints/08-26_saint_zephirinus.json"),
-  "08-27_saint_joseph": require("./saints/08-27_saint_joseph.json"),
-  "08-28_saint_augustine": require("./saints/08-28_saint_augustine.json"),
-  "08-29_saint_john_the_baptist": require("./saints/08-29_saint_john_the_baptist.json"),
-  "08-30_saint_rose_of_st": require("./saints/08-30_saint_rose_of_st.json"),
-  "08-31_blessed_mary_of_ransom_for_the_redemption_of_prisoners": require("./saints/08-31_blessed_mary_of_ransom_for_the_redemption_of_prisoners.json"),
-  "09-01_saint_giles": require("./saints/09-01_saint_giles.json"),
-  "09-02_saint_stephen": require("./saints/09-02_saint_stephen.json"),
-  "09-03_saint_serapia": require("./saints/09-03_saint_serapia.json"),
-  "09-04_saint_marcellus": require("./saints/09-04_saint_marcellus.json"),
-  "09-05_saint_lawrence_justinian": require("./saints/09-05_saint_lawrence_justinian.json"),
-  "09-06_saint_onesiphorus": require("./saints/09-06_saint_onesiphorus.json"),
-  "09-07_saint_eupsychius": require("./saints/09-07_saint_eupsychius.json"),
-  "09-08_saint_adrian": require("./saints/09-08_saint_adrian.json"),
-  "09-09_saint_peter": require("./saints/09-09_saint_peter.json"),
-  "09-10_saint_nicholas": require("./saints/09-10_saint_nicholas.json"),
-  "09-11_saint_protus": require("./saints/09-11_saint_protus.json"),
-  "09-12_blessed_virgin_mary": require("./saints/09-12_blessed_virgin_mary.json"),
-  "09-13_saint_eugenia": require("./saints/09-13_saint_eugenia.json"),
-  "09-14_saint_cyprian": require("./saints/09-14_saint_cyprian.json"),
-  "09-15_blessed_virgin_mary": require("./saints/09-15_blessed_virgin_mary.json"),
-  "09-16_saint_euphemia": require("./saints/09-16_saint_euphemia.json"),
-  "09-17_saint_francis": require("./saints/09-17_saint_francis.json"),
-  "09-18_saint_joseph_of_cupertino": require("./saints/09-18_saint_joseph_of_cupertino.json"),
-  "09-19_saint_eustace": require("./saints/09-19_saint_eustace.json"),
-  "09-20_saint_matthew": require("./saints/09-20_saint_matthew.json"),
-  "09-21_saint_matthew": require("./saints/09-21_saint_matthew.json"),
-  "09-22_saint_thomas": require("./saints/09-22_saint_thomas.json"),
-  "09-23_saint_linus": require("./saints/09-23_saint_linus.json"),
-  "09-24_our_lady_of_ransom": require("./saints/09-24_our_lady_of_ransom.json"),
-  "09-25_saint_herculanus": require("./saints/09-25_saint_herculanus.json"),
-  "09-26_saint_epicharis": require("./saints/09-26_saint_epicharis.json"),
-  "09-27_saint_wenceslaus": require("./saints/09-27_saint_wenceslaus.json"),
-  "09-28_saint_eutychius": require("./saints/09-28_saint_eutychius.json"),
-  "09-29_saint_mary_the_greater": require("./saints/09-29_saint_mary_the_greater.json"),
-  "09-30_saint_jerome": require("./saints/09-30_saint_jerome.json"),
-  "10-01_saint_remigius": require("./saints/10-01_saint_remigius.json"),
-  "10-02_saint_guardian_angels": require("./saints/10-02_saint_guardian_angels.json"),
-  "10-03_saint_candidus": require("./saints/10-03_saint_candidus.json"),
-  "10-04_saint_francis": require("./saints/10-04_saint_francis.json"),
-  "10-05_saint_placidus": require("./saints/10-05_saint_placidus.json"),
-  "10-06_saint_bruno": require("./saints/10-06_saint_bruno.json"),
-  "10-07_saint_pius_v": require("./saints/10-07_saint_pius_v.json"),
-  "10-08_saint_reparata": require("./saints/10-08_saint_reparata.json"),
-  "10-09_saint_paul": require("./saints/10-09_saint_paul.json"),
-  "10-10_saint_francis_borgia": require("./saints/10-10_saint_francis_borgia.json"),
-  "10-11_saint_tharacus": require("./saints/10-11_saint_tharacus.json"),
-  "10-12_saint_evagrius": require("./saints/10-12_saint_evagrius.json"),
-  "10-13_saint_edward": require("./saints/10-13_saint_edward.json"),
-  "10-14_saint_fortunata": require("./saints/10-14_saint_fortunata.json"),
-  "10-15_saint_theresa": require("./saints/10-15_saint_theresa.json"),
-  "10-16_saint_eliphius": require("./saints/10-16_saint_eliphius.json"),
-  "10-17_saint_heron": require("./saints/10-17_saint_heron.json"),
-  "10-18_saint_asclepiades": require("./saints/10-18_saint_asclepiades.json"),
-  "10-19_saint_caprasius": require("./saints/10-19_saint_caprasius.json"),
-  "10-20_saint_john_cantius": require("./saints/10-20_saint_john_cantius.json"),
-  "10-21_saint_jerome": require("./saints/10-21_saint_jerome.json"),
-  "10-22_saint_philip": require("./saints/10-22_saint_philip.json"),
-  "10-23_saint_servandus": require("./saints/10-23_saint_servandus.json"),
-  "10-24_saint_felix": require("./saints/10-24_saint_felix.json"),
-  "10-25_saint_chrysanthus": require("./saints/10-25_saint_chrysanthus.json"),
-  "10-26_saint_evaristus": require("./saints/10-26_saint_evaristus.json"),
-  "10-27_saint_florentius": require("./saints/10-27_saint_florentius.json"),
-  "10-28_saint_cyrilla": require("./saints/10-28_saint_cyrilla.json"),
-  "10-29_saint_hyacinthus": require("./saints/10-29_saint_hyacinthus.json"),
-  "10-30_saint_marcellus": require("./saints/10-30_saint_marcellus.json"),
-  "10-31_saint_stephen": require("./saints/10-31_saint_stephen.json"),
-  "11-01_saint_caesarius": require("./saints/11-01_saint_caesarius.json"),
-  "11-02_saint_victorinus": require("./saints/11-02_saint_victorinus.json"),
-  "11-03_saint_quartus": require("./saints/11-03_saint_quartus.json"),
-  "11-04_saint_charles_borromeo": require("./saints/11-04_saint_charles_borromeo.json"),
-  "11-05_saint_elizabeth": require("./saints/11-05_saint_elizabeth.json"),
-  "11-06_saint_felix": require("./saints/11-06_saint_felix.json"),
-  "11-07_saint_prosdocimus": require("./saints/11-07_saint_prosdocimus.json"),
-  "11-08_saint_deusdedit": require("./saints/11-08_saint_deusdedit.json"),
-  "11-09_saint_theodore": require("./saints/11-09_saint_theodore.json"),
-  "11-10_saint_andrew_avellini": require("./saints/11-10_saint_andrew_avellini.json"),
-  "11-11_saint_mennas": require("./saints/11-11_saint_mennas.json"),
-  "11-12_saint_martin": require("./saints/11-12_saint_martin.json"),
-  "11-13_saint_valentine": require("./saints/11-13_saint_valentine.json"),
-  "11-14_saint_josaphat": require("./saints/11-14_saint_josaphat.json"),
-  "11-15_saint_eugenius": require("./saints/11-15_saint_eugenius.json"),
-  "11-16_saint_rufinus": require("./saints/11-16_saint_rufinus.json"),
-  "11-17_saint_gregory": require("./saints/11-17_saint_gregory.json"),
-  "11-18_saint_romanus": require("./saints/11-18_saint_romanus.json"),
-  "11-19_saint_edmund": require("./saints/11-19_saint_edmund.json"),
-  "11-20_saint_ampelus": require("./saints/11-20_saint_ampelus.json"),
-  "11-21_blessed_virgin_mary": require("./saints/11-21_blessed_virgin_mary.json"),
-  "11-22_saint_cecilia": require("./saints/11-22_saint_cecilia.json"),
-  "11-23_saint_clement": require("./saints/11-23_saint_clement.json"),
-  "11-24_saint_chrysogonus": require("./saints/11-24_saint_chrysogonus.json"),
-  "11-25_saint_catharine": require("./saints/11-25_saint_catharine.json"),
-  "11-26_saint_peter": require("./saints/11-26_saint_peter.json"),
-  "11-27_saint_basileus": require("./saints/11-27_saint_basileus.json"),
-  "11-28_saint_rufus": require("./saints/11-28_saint_rufus.json"),
-  "11-29_saint_andrew": require("./saints/11-29_saint_andrew.json"),
-  "11-30_saint_andrew": require("./saints/11-30_saint_andrew.json"),
-  "12-01_saint_diodorus": require("./saints/12-01_saint_diodorus.json"),
-  "12-02_saint_eusebius": require("./saints/12-02_saint_eusebius.json"),
-  "12-03_saint_claudius": require("./saints/12-03_saint_claudius.json"),
-  "12-04_saint_barbara": require("./saints/12-04_saint_barbara.json"),
-  "12-05_saint_sabas": require("./saints/12-05_saint_sabas.json"),
-  "12-06_saint_nicholas": require("./saints/12-06_saint_nicholas.json"),
-  "12-07_saint_ambrose": require("./saints/12-07_saint_ambrose.json"),
-  "12-08_saint_macarius": require("./saints/12-08_saint_macarius.json"),
-  "12-09_saint_peter_fourier": require("./saints/12-09_saint_peter_fourier.json"),
-  "12-10_saint_melchiades": require("./saints/12-10_saint_melchiades.json"),
-  "12-11_saint_damasus": require("./saints/12-11_saint_damasus.json"),
-  "12-12_saint_synesius": require("./saints/12-12_saint_synesius.json"),
-  "12-13_saint_lucy": require("./saints/12-13_saint_lucy.json"),
-  "12-14_saint_heron": require("./saints/12-14_saint_heron.json"),
-  "12-15_blessed_virgin_mary": require("./saints/12-15_blessed_virgin_mary.json"),
-  "12-16_saint_valentine": require("./saints/12-16_saint_valentine.json"),
-  "12-17_saint_florian": require("./saints/12-17_saint_florian.json"),
-  "12-18_saint_polycarp": require("./saints/12-18_saint_polycarp.json"),
-  "12-19_saint_cyriacus": require("./saints/12-19_saint_cyriacus.json"),
-  "12-20_saint_thomas": require("./saints/12-20_saint_thomas.json"),
-  "12-21_saint_john": require("./saints/12-21_saint_john.json"),
-  "12-22_saint_flavian": require("./saints/12-22_saint_flavian.json"),
-  "12-23_saint_anthimus": require("./saints/12-23_saint_anthimus.json"),
-  "12-24_saint_lucian": require("./saints/12-24_saint_lucian.json"),
-  "12-25_saint_anastasia": require("./saints/12-25_saint_anastasia.json"),
-  "12-26_saint_stephen": require("./saints/12-26_saint_stephen.json"),
-  "12-27_saint_john": require("./saints/12-27_saint_john.json"),
-  "12-28_saint_eutychius": require("./saints/12-28_saint_eutychius.json"),
-  "12-29_saint_thomas": require("./saints/12-29_saint_thomas.json"),
-  "12-30_saint_sabinus": require("./saints/12-30_saint_sabinus.json"),
-  "12-31_saint_silvester": require("./saints/12-31_saint_silvester.json"),
+/** Recently opened saints kept in memory. */
+const SAINT_DOC_CACHE_SIZE = 32;
+
+const loaders: DocLoaders = {
+  "01-01_saint_almachius": () => require("./saints/01-01_saint_almachius.json"),
+  "01-02_saint_stephen": () => require("./saints/01-02_saint_stephen.json"),
+  "01-03_saint_john": () => require("./saints/01-03_saint_john.json"),
+  "01-04_saint_titus": () => require("./saints/01-04_saint_titus.json"),
+  "01-05_saint_telesphorus": () => require("./saints/01-05_saint_telesphorus.json"),
+  "01-06_saint_macra": () => require("./saints/01-06_saint_macra.json"),
+  "01-07_saint_john_chrysostom": () => require("./saints/01-07_saint_john_chrysostom.json"),
+  "01-08_saint_denis": () => require("./saints/01-08_saint_denis.json"),
+  "01-09_saint_marciana": () => require("./saints/01-09_saint_marciana.json"),
+  "01-10_saint_agatho": () => require("./saints/01-10_saint_agatho.json"),
+  "01-11_saint_hyginus": () => require("./saints/01-11_saint_hyginus.json"),
+  "01-12_saint_tatiana": () => require("./saints/01-12_saint_tatiana.json"),
+  "01-13_saint_potitus": () => require("./saints/01-13_saint_potitus.json"),
+  "01-14_saint_felix": () => require("./saints/01-14_saint_felix.json"),
+  "01-15_saint_maur": () => require("./saints/01-15_saint_maur.json"),
+  "01-16_saint_john_the_baptist": () => require("./saints/01-16_saint_john_the_baptist.json"),
+  "01-17_saint_anthony": () => require("./saints/01-17_saint_anthony.json"),
+  "01-18_saint_peter": () => require("./saints/01-18_saint_peter.json"),
+  "01-19_saint_marius": () => require("./saints/01-19_saint_marius.json"),
+  "01-20_saint_fabian": () => require("./saints/01-20_saint_fabian.json"),
+  "01-21_saint_agnes": () => require("./saints/01-21_saint_agnes.json"),
+  "01-22_saint_vincent": () => require("./saints/01-22_saint_vincent.json"),
+  "01-23_saint_raymond_of_pennafort": () => require("./saints/01-23_saint_raymond_of_pennafort.json"),
+  "01-24_saint_timothy": () => require("./saints/01-24_saint_timothy.json"),
+  "01-25_saint_paul_the_apostle": () => require("./saints/01-25_saint_paul_the_apostle.json"),
+  "01-26_saint_polycarp": () => require("./saints/01-26_saint_polycarp.json"),
+  "01-27_saint_john": () => require("./saints/01-27_saint_john.json"),
+  "01-28_saint_agnes": () => require("./saints/01-28_saint_agnes.json"),
+  "01-29_saint_francis_of_sales": () => require("./saints/01-29_saint_francis_of_sales.json"),
+  "01-30_saint_martina": () => require("./saints/01-30_saint_martina.json"),
+  "01-31_saint_peter_nolasco": () => require("./saints/01-31_saint_peter_nolasco.json"),
+  "02-01_saint_ignatius": () => require("./saints/02-01_saint_ignatius.json"),
+  "02-02_blessed_virgin_mary": () => require("./saints/02-02_blessed_virgin_mary.json"),
+  "02-03_saint_blasius": () => require("./saints/02-03_saint_blasius.json"),
+  "02-04_saint_andrew_corsini": () => require("./saints/02-04_saint_andrew_corsini.json"),
+  "02-05_saint_agatha": () => require("./saints/02-05_saint_agatha.json"),
+  "02-06_saint_titus": () => require("./saints/02-06_saint_titus.json"),
+  "02-07_saint_adaucus": () => require("./saints/02-07_saint_adaucus.json"),
+  "02-08_saint_jerome_aemiliani": () => require("./saints/02-08_saint_jerome_aemiliani.json"),
+  "02-09_saint_cyril": () => require("./saints/02-09_saint_cyril.json"),
+  "02-10_saint_scholastica": () => require("./saints/02-10_saint_scholastica.json"),
+  "02-11_blessed_virgin_mary_immaculate": () => require("./saints/02-11_blessed_virgin_mary_immaculate.json"),
+  "02-12_blessed_virgin_mary": () => require("./saints/02-12_blessed_virgin_mary.json"),
+  "02-13_saint_luke": () => require("./saints/02-13_saint_luke.json"),
+  "02-14_saint_vitalis": () => require("./saints/02-14_saint_vitalis.json"),
+  "02-15_saint_faustinus": () => require("./saints/02-15_saint_faustinus.json"),
+  "02-16_saint_paul_wrote_to_philemon": () => require("./saints/02-16_saint_paul_wrote_to_philemon.json"),
+  "02-17_saint_faustinus": () => require("./saints/02-17_saint_faustinus.json"),
+  "02-18_saint_simeon": () => require("./saints/02-18_saint_simeon.json"),
+  "02-19_saint_pothamius": () => require("./saints/02-19_saint_pothamius.json"),
+  "02-20_saint_eleutherius": () => require("./saints/02-20_saint_eleutherius.json"),
+  "02-21_saint_verulus": () => require("./saints/02-21_saint_verulus.json"),
+  "02-22_saint_peter": () => require("./saints/02-22_saint_peter.json"),
+  "02-23_saint_matthias_is_not_announced_today": () => require("./saints/02-23_saint_matthias_is_not_announced_today.json"),
+  "02-24_saint_matthias": () => require("./saints/02-24_saint_matthias.json"),
+  "02-25_saint_victorinus": () => require("./saints/02-25_saint_victorinus.json"),
+  "02-26_saint_nestor_to_martyrdom": () => require("./saints/02-26_saint_nestor_to_martyrdom.json"),
+  "02-27_saint_alexander": () => require("./saints/02-27_saint_alexander.json"),
+  "02-28_saint_macarius": () => require("./saints/02-28_saint_macarius.json"),
+  "02-29_saint_confessor_david": () => require("./saints/02-29_saint_confessor_david.json"),
+  "03-01_saint_leo": () => require("./saints/03-01_saint_leo.json"),
+  "03-02_saint_jovinus": () => require("./saints/03-02_saint_jovinus.json"),
+  "03-03_saint_marinus": () => require("./saints/03-03_saint_marinus.json"),
+  "03-04_saint_lucius": () => require("./saints/03-04_saint_lucius.json"),
+  "03-05_saint_phocas": () => require("./saints/03-05_saint_phocas.json"),
+  "03-06_saint_perpetua": () => require("./saints/03-06_saint_perpetua.json"),
+  "03-07_saint_thomas_of_aquin": () => require("./saints/03-07_saint_thomas_of_aquin.json"),
+  "03-08_saint_john_of_god": () => require("./saints/03-08_saint_john_of_god.json"),
+  "03-09_saint_frances": () => require("./saints/03-09_saint_frances.json"),
+  "03-10_saint_caius": () => require("./saints/03-10_saint_caius.json"),
+  "03-11_saint_heraclius": () => require("./saints/03-11_saint_heraclius.json"),
+  "03-12_saint_gregory": () => require("./saints/03-12_saint_gregory.json"),
+  "03-13_saint_macedonius": () => require("./saints/03-13_saint_macedonius.json"),
+  "03-14_saint_peter": () => require("./saints/03-14_saint_peter.json"),
+  "03-15_saint_longinus": () => require("./saints/03-15_saint_longinus.json"),
+  "03-16_saint_cyriacus": () => require("./saints/03-16_saint_cyriacus.json"),
+  "03-17_saint_patrick": () => require("./saints/03-17_saint_patrick.json"),
+  "03-18_saint_cyril": () => require("./saints/03-18_saint_cyril.json"),
+  "03-19_saint_joseph": () => require("./saints/03-19_saint_joseph.json"),
+  "03-20_saint_joachim": () => require("./saints/03-20_saint_joachim.json"),
+  "03-21_saint_gregory": () => require("./saints/03-21_saint_gregory.json"),
+  "03-22_saint_paul": () => require("./saints/03-22_saint_paul.json"),
+  "03-23_saint_fidelis": () => require("./saints/03-23_saint_fidelis.json"),
+  "03-24_saint_epigmenius": () => require("./saints/03-24_saint_epigmenius.json"),
+  "03-25_blessed_virgin_mary": () => require("./saints/03-25_blessed_virgin_mary.json"),
+  "03-26_saint_castulus": () => require("./saints/03-26_saint_castulus.json"),
+  "03-27_saint_john_damascene": () => require("./saints/03-27_saint_john_damascene.json"),
+  "03-28_saint_priscus": () => require("./saints/03-28_saint_priscus.json"),
+  "03-29_saint_jonas": () => require("./saints/03-29_saint_jonas.json"),
+  "03-30_saint_alexander": () => require("./saints/03-30_saint_alexander.json"),
+  "03-31_saint_theodulus": () => require("./saints/03-31_saint_theodulus.json"),
+  "04-01_saint_theodora": () => require("./saints/04-01_saint_theodora.json"),
+  "04-02_saint_amphian": () => require("./saints/04-02_saint_amphian.json"),
+  "04-03_saint_pancratius": () => require("./saints/04-03_saint_pancratius.json"),
+  "04-04_saint_isidore": () => require("./saints/04-04_saint_isidore.json"),
+  "04-05_saint_vincent_ferrer": () => require("./saints/04-05_saint_vincent_ferrer.json"),
+  "04-06_saint_timothy": () => require("./saints/04-06_saint_timothy.json"),
+  "04-07_saint_epiphanius": () => require("./saints/04-07_saint_epiphanius.json"),
+  "04-08_saint_aedesius": () => require("./saints/04-08_saint_aedesius.json"),
+  "04-09_saint_prochorus": () => require("./saints/04-09_saint_prochorus.json"),
+  "04-10_saint_alexander_baptized_whilst_he_was_detained_in_prison": () => require("./saints/04-10_saint_alexander_baptized_whilst_he_was_detained_in_prison.json"),
+  "04-11_saint_leo": () => require("./saints/04-11_saint_leo.json"),
+  "04-12_saint_zeno": () => require("./saints/04-12_saint_zeno.json"),
+  "04-13_saint_hermenegild": () => require("./saints/04-13_saint_hermenegild.json"),
+  "04-14_saint_justin": () => require("./saints/04-14_saint_justin.json"),
+  "04-15_saint_maro": () => require("./saints/04-15_saint_maro.json"),
+  "04-16_saint_callistus": () => require("./saints/04-16_saint_callistus.json"),
+  "04-17_saint_anicetus": () => require("./saints/04-17_saint_anicetus.json"),
+  "04-18_saint_apollonius": () => require("./saints/04-18_saint_apollonius.json"),
+  "04-19_saint_sulpitius": () => require("./saints/04-19_saint_sulpitius.json"),
+  "04-20_saint_sulpicius": () => require("./saints/04-20_saint_sulpicius.json"),
+  "04-21_saint_anselm": () => require("./saints/04-21_saint_anselm.json"),
+  "04-22_saint_soter": () => require("./saints/04-22_saint_soter.json"),
+  "04-23_saint_george": () => require("./saints/04-23_saint_george.json"),
+  "04-24_saint_fidelis_of_sigmaringen": () => require("./saints/04-24_saint_fidelis_of_sigmaringen.json"),
+  "04-25_saint_peter": () => require("./saints/04-25_saint_peter.json"),
+  "04-26_saint_peter": () => require("./saints/04-26_saint_peter.json"),
+  "04-27_saint_anthimus": () => require("./saints/04-27_saint_anthimus.json"),
+  "04-28_saint_vitalis": () => require("./saints/04-28_saint_vitalis.json"),
+  "04-29_saint_peter": () => require("./saints/04-29_saint_peter.json"),
+  "04-30_saint_catherine_of_siena": () => require("./saints/04-30_saint_catherine_of_siena.json"),
+  "05-01_saint_jeremias": () => require("./saints/05-01_saint_jeremias.json"),
+  "05-02_saint_athallasius": () => require("./saints/05-02_saint_athallasius.json"),
+  "05-03_saint_alexander": () => require("./saints/05-03_saint_alexander.json"),
+  "05-04_saint_monica": () => require("./saints/05-04_saint_monica.json"),
+  "05-05_saint_pius_v": () => require("./saints/05-05_saint_pius_v.json"),
+  "05-06_saint_john_before_the_latin_gate": () => require("./saints/05-06_saint_john_before_the_latin_gate.json"),
+  "05-07_saint_stanislaus": () => require("./saints/05-07_saint_stanislaus.json"),
+  "05-08_saint_michael": () => require("./saints/05-08_saint_michael.json"),
+  "05-09_saint_gregory": () => require("./saints/05-09_saint_gregory.json"),
+  "05-10_saint_gordian": () => require("./saints/05-10_saint_gordian.json"),
+  "05-11_saint_evelius": () => require("./saints/05-11_saint_evelius.json"),
+  "05-12_saint_nereus": () => require("./saints/05-12_saint_nereus.json"),
+  "05-13_saint_mary_of_the_martyrs": () => require("./saints/05-13_saint_mary_of_the_martyrs.json"),
+  "05-14_saint_boniface": () => require("./saints/05-14_saint_boniface.json"),
+  "05-15_saint_john_baptist_de_la_salle": () => require("./saints/05-15_saint_john_baptist_de_la_salle.json"),
+  "05-16_saint_ubaldus": () => require("./saints/05-16_saint_ubaldus.json"),
+  "05-17_saint_pascal": () => require("./saints/05-17_saint_pascal.json"),
+  "05-18_saint_venantius": () => require("./saints/05-18_saint_venantius.json"),
+  "05-19_saint_peter_of_moroni": () => require("./saints/05-19_saint_peter_of_moroni.json"),
+  "05-20_saint_bernardine_of_siena": () => require("./saints/05-20_saint_bernardine_of_siena.json"),
+  "05-21_saint_timothy": () => require("./saints/05-21_saint_timothy.json"),
+  "05-22_saint_faustinus": () => require("./saints/05-22_saint_faustinus.json"),
+  "05-23_saint_epitacius": () => require("./saints/05-23_saint_epitacius.json"),
+  "05-24_saint_manahen": () => require("./saints/05-24_saint_manahen.json"),
+  "05-25_saint_diary_magdalen": () => require("./saints/05-25_saint_diary_magdalen.json"),
+  "05-26_saint_philip_neri": () => require("./saints/05-26_saint_philip_neri.json"),
+  "05-27_saint_john": () => require("./saints/05-27_saint_john.json"),
+  "05-28_saint_augustine": () => require("./saints/05-28_saint_augustine.json"),
+  "05-29_saint_mary_magdalen": () => require("./saints/05-29_saint_mary_magdalen.json"),
+  "05-30_saint_felix": () => require("./saints/05-30_saint_felix.json"),
+  "05-31_saint_angela_merici": () => require("./saints/05-31_saint_angela_merici.json"),
+  "06-01_saint_juventius": () => require("./saints/06-01_saint_juventius.json"),
+  "06-02_saint_tiburtius": () => require("./saints/06-02_saint_tiburtius.json"),
+  "06-03_saint_pergentinus": () => require("./saints/06-03_saint_pergentinus.json"),
+  "06-04_saint_francis": () => require("./saints/06-04_saint_francis.json"),
+  "06-05_saint_marcian": () => require("./saints/06-05_saint_marcian.json"),
+  "06-06_saint_artemius": () => require("./saints/06-06_saint_artemius.json"),
+  "06-07_saint_paul": () => require("./saints/06-07_saint_paul.json"),
+  "06-08_saint_maximin": () => require("./saints/06-08_saint_maximin.json"),
+  "06-09_saint_primus": () => require("./saints/06-09_saint_primus.json"),
+  "06-10_saint_margaret": () => require("./saints/06-10_saint_margaret.json"),
+  "06-11_saint_barnabas": () => require("./saints/06-11_saint_barnabas.json"),
+  "06-12_saint_john_of_st": () => require("./saints/06-12_saint_john_of_st.json"),
+  "06-13_saint_anthony": () => require("./saints/06-13_saint_anthony.json"),
+  "06-14_saint_basil": () => require("./saints/06-14_saint_basil.json"),
+  "06-15_saint_vitus": () => require("./saints/06-15_saint_vitus.json"),
+  "06-16_saint_ferreol": () => require("./saints/06-16_saint_ferreol.json"),
+  "06-17_saint_montanus": () => require("./saints/06-17_saint_montanus.json"),
+  "06-18_saint_cyriacus": () => require("./saints/06-18_saint_cyriacus.json"),
+  "06-19_saint_pastor": () => require("./saints/06-19_saint_pastor.json"),
+  "06-20_saint_silverius": () => require("./saints/06-20_saint_silverius.json"),
+  "06-21_saint_alban": () => require("./saints/06-21_saint_alban.json"),
+  "06-22_saint_alban": () => require("./saints/06-22_saint_alban.json"),
+  "06-23_saint_john_the_baptist": () => require("./saints/06-23_saint_john_the_baptist.json"),
+  "06-24_saint_john_the_baptist": () => require("./saints/06-24_saint_john_the_baptist.json"),
+  "06-25_saint_william": () => require("./saints/06-25_saint_william.json"),
+  "06-26_saint_john": () => require("./saints/06-26_saint_john.json"),
+  "06-27_saint_crescens": () => require("./saints/06-27_saint_crescens.json"),
+  "06-28_saint_leon": () => require("./saints/06-28_saint_leon.json"),
+  "06-29_saint_marcellus": () => require("./saints/06-29_saint_marcellus.json"),
+  "06-30_saint_martial": () => require("./saints/06-30_saint_martial.json"),
+  "07-01_saint_john_the_baptist": () => require("./saints/07-01_saint_john_the_baptist.json"),
+  "07-02_blessed_virgin_mary_to_elizabeth": () => require("./saints/07-02_blessed_virgin_mary_to_elizabeth.json"),
+  "07-03_saint_tryphon": () => require("./saints/07-03_saint_tryphon.json"),
+  "07-04_saint_jucundian": () => require("./saints/07-04_saint_jucundian.json"),
+  "07-05_saint_anthony_mary_zaccaria": () => require("./saints/07-05_saint_anthony_mary_zaccaria.json"),
+  "07-06_saint_tranquillinus": () => require("./saints/07-06_saint_tranquillinus.json"),
+  "07-07_saint_sebastian": () => require("./saints/07-07_saint_sebastian.json"),
+  "07-08_saint_bonosa": () => require("./saints/07-08_saint_bonosa.json"),
+  "07-09_saint_zeno": () => require("./saints/07-09_saint_zeno.json"),
+  "07-10_saint_januarius": () => require("./saints/07-10_saint_januarius.json"),
+  "07-11_saint_januarius": () => require("./saints/07-11_saint_januarius.json"),
+  "07-12_saint_john_gualbert": () => require("./saints/07-12_saint_john_gualbert.json"),
+  "07-13_saint_anacletus": () => require("./saints/07-13_saint_anacletus.json"),
+  "07-14_saint_bonaventure": () => require("./saints/07-14_saint_bonaventure.json"),
+  "07-15_saint_henry_i": () => require("./saints/07-15_saint_henry_i.json"),
+  "07-16_blessed_virgin_mary_of_mount_carmel": () => require("./saints/07-16_blessed_virgin_mary_of_mount_carmel.json"),
+  "07-17_saint_alexius": () => require("./saints/07-17_saint_alexius.json"),
+  "07-18_saint_camillus_de_lellis": () => require("./saints/07-18_saint_camillus_de_lellis.json"),
+  "07-19_saint_confessor_jerome_miani": () => require("./saints/07-19_saint_confessor_jerome_miani.json"),
+  "07-20_saint_jerome_aemiliani": () => require("./saints/07-20_saint_jerome_aemiliani.json"),
+  "07-21_saint_victor": () => require("./saints/07-21_saint_victor.json"),
+  "07-22_saint_mary_magdalen": () => require("./saints/07-22_saint_mary_magdalen.json"),
+  "07-23_saint_liborius": () => require("./saints/07-23_saint_liborius.json"),
+  "07-24_saint_james": () => require("./saints/07-24_saint_james.json"),
+  "07-25_saint_christopher": () => require("./saints/07-25_saint_christopher.json"),
+  "07-26_saint_anne": () => require("./saints/07-26_saint_anne.json"),
+  "07-27_saint_pantaleon": () => require("./saints/07-27_saint_pantaleon.json"),
+  "07-28_saint_victor": () => require("./saints/07-28_saint_victor.json"),
+  "07-29_saint_martha": () => require("./saints/07-29_saint_martha.json"),
+  "07-30_saint_persian_martyrs_abdon": () => require("./saints/07-30_saint_persian_martyrs_abdon.json"),
+  "07-31_saint_ignatius": () => require("./saints/07-31_saint_ignatius.json"),
+  "08-01_saint_peter_in_chains": () => require("./saints/08-01_saint_peter_in_chains.json"),
+  "08-02_saint_alphonsus_maria_de_liguori": () => require("./saints/08-02_saint_alphonsus_maria_de_liguori.json"),
+  "08-03_saint_aspren": () => require("./saints/08-03_saint_aspren.json"),
+  "08-04_saint_dominic": () => require("./saints/08-04_saint_dominic.json"),
+  "08-05_saint_mary_of_the_snows": () => require("./saints/08-05_saint_mary_of_the_snows.json"),
+  "08-06_saint_cyprian": () => require("./saints/08-06_saint_cyprian.json"),
+  "08-07_saint_cajetan_of_tiene": () => require("./saints/08-07_saint_cajetan_of_tiene.json"),
+  "08-08_saint_marcellus_to_the_estate_of_lucina": () => require("./saints/08-08_saint_marcellus_to_the_estate_of_lucina.json"),
+  "08-09_saint_lawrence": () => require("./saints/08-09_saint_lawrence.json"),
+  "08-10_saint_asteria": () => require("./saints/08-10_saint_asteria.json"),
+  "08-11_saint_tiburtius": () => require("./saints/08-11_saint_tiburtius.json"),
+  "08-12_saint_clare": () => require("./saints/08-12_saint_clare.json"),
+  "08-13_saint_cassian": () => require("./saints/08-13_saint_cassian.json"),
+  "08-14_saint_ursicius": () => require("./saints/08-14_saint_ursicius.json"),
+  "08-15_saint_virgin_mary": () => require("./saints/08-15_saint_virgin_mary.json"),
+  "08-16_saint_titus": () => require("./saints/08-16_saint_titus.json"),
+  "08-17_saint_lawrence": () => require("./saints/08-17_saint_lawrence.json"),
+  "08-18_saint_agapitus": () => require("./saints/08-18_saint_agapitus.json"),
+  "08-19_saint_bernard": () => require("./saints/08-19_saint_bernard.json"),
+  "08-20_saint_bernard": () => require("./saints/08-20_saint_bernard.json"),
+  "08-21_saint_jane_frances_fremiot_de_chantal": () => require("./saints/08-21_saint_jane_frances_fremiot_de_chantal.json"),
+  "08-22_saint_timothy": () => require("./saints/08-22_saint_timothy.json"),
+  "08-23_saint_bartholomew": () => require("./saints/08-23_saint_bartholomew.json"),
+  "08-24_saint_bartholomew": () => require("./saints/08-24_saint_bartholomew.json"),
+  "08-25_saint_louis": () => require("./saints/08-25_saint_louis.json"),
+  "08-26_saint_zephirinus": () => require("./saints/08-26_saint_zephirinus.json"),
+  "08-27_saint_joseph": () => require("./saints/08-27_saint_joseph.json"),
+  "08-28_saint_augustine": () => require("./saints/08-28_saint_augustine.json"),
+  "08-29_saint_john_the_baptist": () => require("./saints/08-29_saint_john_the_baptist.json"),
+  "08-30_saint_rose_of_st": () => require("./saints/08-30_saint_rose_of_st.json"),
+  "08-31_blessed_mary_of_ransom_for_the_redemption_of_prisoners": () => require("./saints/08-31_blessed_mary_of_ransom_for_the_redemption_of_prisoners.json"),
+  "09-01_saint_giles": () => require("./saints/09-01_saint_giles.json"),
+  "09-02_saint_stephen": () => require("./saints/09-02_saint_stephen.json"),
+  "09-03_saint_serapia": () => require("./saints/09-03_saint_serapia.json"),
+  "09-04_saint_marcellus": () => require("./saints/09-04_saint_marcellus.json"),
+  "09-05_saint_lawrence_justinian": () => require("./saints/09-05_saint_lawrence_justinian.json"),
+  "09-06_saint_onesiphorus": () => require("./saints/09-06_saint_onesiphorus.json"),
+  "09-07_saint_eupsychius": () => require("./saints/09-07_saint_eupsychius.json"),
+  "09-08_saint_adrian": () => require("./saints/09-08_saint_adrian.json"),
+  "09-09_saint_peter": () => require("./saints/09-09_saint_peter.json"),
+  "09-10_saint_nicholas": () => require("./saints/09-10_saint_nicholas.json"),
+  "09-11_saint_protus": () => require("./saints/09-11_saint_protus.json"),
+  "09-12_blessed_virgin_mary": () => require("./saints/09-12_blessed_virgin_mary.json"),
+  "09-13_saint_eugenia": () => require("./saints/09-13_saint_eugenia.json"),
+  "09-14_saint_cyprian": () => require("./saints/09-14_saint_cyprian.json"),
+  "09-15_blessed_virgin_mary": () => require("./saints/09-15_blessed_virgin_mary.json"),
+  "09-16_saint_euphemia": () => require("./saints/09-16_saint_euphemia.json"),
+  "09-17_saint_francis": () => require("./saints/09-17_saint_francis.json"),
+  "09-18_saint_joseph_of_cupertino": () => require("./saints/09-18_saint_joseph_of_cupertino.json"),
+  "09-19_saint_eustace": () => require("./saints/09-19_saint_eustace.json"),
+  "09-20_saint_matthew": () => require("./saints/09-20_saint_matthew.json"),
+  "09-21_saint_matthew": () => require("./saints/09-21_saint_matthew.json"),
+  "09-22_saint_thomas": () => require("./saints/09-22_saint_thomas.json"),
+  "09-23_saint_linus": () => require("./saints/09-23_saint_linus.json"),
+  "09-24_our_lady_of_ransom": () => require("./saints/09-24_our_lady_of_ransom.json"),
+  "09-25_saint_herculanus": () => require("./saints/09-25_saint_herculanus.json"),
+  "09-26_saint_epicharis": () => require("./saints/09-26_saint_epicharis.json"),
+  "09-27_saint_wenceslaus": () => require("./saints/09-27_saint_wenceslaus.json"),
+  "09-28_saint_eutychius": () => require("./saints/09-28_saint_eutychius.json"),
+  "09-29_saint_mary_the_greater": () => require("./saints/09-29_saint_mary_the_greater.json"),
+  "09-30_saint_jerome": () => require("./saints/09-30_saint_jerome.json"),
+  "10-01_saint_remigius": () => require("./saints/10-01_saint_remigius.json"),
+  "10-02_saint_guardian_angels": () => require("./saints/10-02_saint_guardian_angels.json"),
+  "10-03_saint_candidus": () => require("./saints/10-03_saint_candidus.json"),
+  "10-04_saint_francis": () => require("./saints/10-04_saint_francis.json"),
+  "10-05_saint_placidus": () => require("./saints/10-05_saint_placidus.json"),
+  "10-06_saint_bruno": () => require("./saints/10-06_saint_bruno.json"),
+  "10-07_saint_pius_v": () => require("./saints/10-07_saint_pius_v.json"),
+  "10-08_saint_reparata": () => require("./saints/10-08_saint_reparata.json"),
+  "10-09_saint_paul": () => require("./saints/10-09_saint_paul.json"),
+  "10-10_saint_francis_borgia": () => require("./saints/10-10_saint_francis_borgia.json"),
+  "10-11_saint_tharacus": () => require("./saints/10-11_saint_tharacus.json"),
+  "10-12_saint_evagrius": () => require("./saints/10-12_saint_evagrius.json"),
+  "10-13_saint_edward": () => require("./saints/10-13_saint_edward.json"),
+  "10-14_saint_fortunata": () => require("./saints/10-14_saint_fortunata.json"),
+  "10-15_saint_theresa": () => require("./saints/10-15_saint_theresa.json"),
+  "10-16_saint_eliphius": () => require("./saints/10-16_saint_eliphius.json"),
+  "10-17_saint_heron": () => require("./saints/10-17_saint_heron.json"),
+  "10-18_saint_asclepiades": () => require("./saints/10-18_saint_asclepiades.json"),
+  "10-19_saint_caprasius": () => require("./saints/10-19_saint_caprasius.json"),
+  "10-20_saint_john_cantius": () => require("./saints/10-20_saint_john_cantius.json"),
+  "10-21_saint_jerome": () => require("./saints/10-21_saint_jerome.json"),
+  "10-22_saint_philip": () => require("./saints/10-22_saint_philip.json"),
+  "10-23_saint_servandus": () => require("./saints/10-23_saint_servandus.json"),
+  "10-24_saint_felix": () => require("./saints/10-24_saint_felix.json"),
+  "10-25_saint_chrysanthus": () => require("./saints/10-25_saint_chrysanthus.json"),
+  "10-26_saint_evaristus": () => require("./saints/10-26_saint_evaristus.json"),
+  "10-27_saint_florentius": () => require("./saints/10-27_saint_florentius.json"),
+  "10-28_saint_cyrilla": () => require("./saints/10-28_saint_cyrilla.json"),
+  "10-29_saint_hyacinthus": () => require("./saints/10-29_saint_hyacinthus.json"),
+  "10-30_saint_marcellus": () => require("./saints/10-30_saint_marcellus.json"),
+  "10-31_saint_stephen": () => require("./saints/10-31_saint_stephen.json"),
+  "11-01_saint_caesarius": () => require("./saints/11-01_saint_caesarius.json"),
+  "11-02_saint_victorinus": () => require("./saints/11-02_saint_victorinus.json"),
+  "11-03_saint_quartus": () => require("./saints/11-03_saint_quartus.json"),
+  "11-04_saint_charles_borromeo": () => require("./saints/11-04_saint_charles_borromeo.json"),
+  "11-05_saint_elizabeth": () => require("./saints/11-05_saint_elizabeth.json"),
+  "11-06_saint_felix": () => require("./saints/11-06_saint_felix.json"),
+  "11-07_saint_prosdocimus": () => require("./saints/11-07_saint_prosdocimus.json"),
+  "11-08_saint_deusdedit": () => require("./saints/11-08_saint_deusdedit.json"),
+  "11-09_saint_theodore": () => require("./saints/11-09_saint_theodore.json"),
+  "11-10_saint_andrew_avellini": () => require("./saints/11-10_saint_andrew_avellini.json"),
+  "11-11_saint_mennas": () => require("./saints/11-11_saint_mennas.json"),
+  "11-12_saint_martin": () => require("./saints/11-12_saint_martin.json"),
+  "11-13_saint_valentine": () => require("./saints/11-13_saint_valentine.json"),
+  "11-14_saint_josaphat": () => require("./saints/11-14_saint_josaphat.json"),
+  "11-15_saint_eugenius": () => require("./saints/11-15_saint_eugenius.json"),
+  "11-16_saint_rufinus": () => require("./saints/11-16_saint_rufinus.json"),
+  "11-17_saint_gregory": () => require("./saints/11-17_saint_gregory.json"),
+  "11-18_saint_romanus": () => require("./saints/11-18_saint_romanus.json"),
+  "11-19_saint_edmund": () => require("./saints/11-19_saint_edmund.json"),
+  "11-20_saint_ampelus": () => require("./saints/11-20_saint_ampelus.json"),
+  "11-21_blessed_virgin_mary": () => require("./saints/11-21_blessed_virgin_mary.json"),
+  "11-22_saint_cecilia": () => require("./saints/11-22_saint_cecilia.json"),
+  "11-23_saint_clement": () => require("./saints/11-23_saint_clement.json"),
+  "11-24_saint_chrysogonus": () => require("./saints/11-24_saint_chrysogonus.json"),
+  "11-25_saint_catharine": () => require("./saints/11-25_saint_catharine.json"),
+  "11-26_saint_peter": () => require("./saints/11-26_saint_peter.json"),
+  "11-27_saint_basileus": () => require("./saints/11-27_saint_basileus.json"),
+  "11-28_saint_rufus": () => require("./saints/11-28_saint_rufus.json"),
+  "11-29_saint_andrew": () => require("./saints/11-29_saint_andrew.json"),
+  "11-30_saint_andrew": () => require("./saints/11-30_saint_andrew.json"),
+  "12-01_saint_diodorus": () => require("./saints/12-01_saint_diodorus.json"),
+  "12-02_saint_eusebius": () => require("./saints/12-02_saint_eusebius.json"),
+  "12-03_saint_claudius": () => require("./saints/12-03_saint_claudius.json"),
+  "12-04_saint_barbara": () => require("./saints/12-04_saint_barbara.json"),
+  "12-05_saint_sabas": () => require("./saints/12-05_saint_sabas.json"),
+  "12-06_saint_nicholas": () => require("./saints/12-06_saint_nicholas.json"),
+  "12-07_saint_ambrose": () => require("./saints/12-07_saint_ambrose.json"),
+  "12-08_saint_macarius": () => require("./saints/12-08_saint_macarius.json"),
+  "12-09_saint_peter_fourier": () => require("./saints/12-09_saint_peter_fourier.json"),
+  "12-10_saint_melchiades": () => require("./saints/12-10_saint_melchiades.json"),
+  "12-11_saint_damasus": () => require("./saints/12-11_saint_damasus.json"),
+  "12-12_saint_synesius": () => require("./saints/12-12_saint_synesius.json"),
+  "12-13_saint_lucy": () => require("./saints/12-13_saint_lucy.json"),
+  "12-14_saint_heron": () => require("./saints/12-14_saint_heron.json"),
+  "12-15_blessed_virgin_mary": () => require("./saints/12-15_blessed_virgin_mary.json"),
+  "12-16_saint_valentine": () => require("./saints/12-16_saint_valentine.json"),
+  "12-17_saint_florian": () => require("./saints/12-17_saint_florian.json"),
+  "12-18_saint_polycarp": () => require("./saints/12-18_saint_polycarp.json"),
+  "12-19_saint_cyriacus": () => require("./saints/12-19_saint_cyriacus.json"),
+  "12-20_saint_thomas": () => require("./saints/12-20_saint_thomas.json"),
+  "12-21_saint_john": () => require("./saints/12-21_saint_john.json"),
+  "12-22_saint_flavian": () => require("./saints/12-22_saint_flavian.json"),
+  "12-23_saint_anthimus": () => require("./saints/12-23_saint_anthimus.json"),
+  "12-24_saint_lucian": () => require("./saints/12-24_saint_lucian.json"),
+  "12-25_saint_anastasia": () => require("./saints/12-25_saint_anastasia.json"),
+  "12-26_saint_stephen": () => require("./saints/12-26_saint_stephen.json"),
+  "12-27_saint_john": () => require("./saints/12-27_saint_john.json"),
+  "12-28_saint_eutychius": () => require("./saints/12-28_saint_eutychius.json"),
+  "12-29_saint_thomas": () => require("./saints/12-29_saint_thomas.json"),
+  "12-30_saint_sabinus": () => require("./saints/12-30_saint_sabinus.json"),
+  "12-31_saint_silvester": () => require("./saints/12-31_saint_silvester.json"),
 };
 
+export const saintDocs = createLazyDocs<SaintDoc>(
+  "saints",
+  loaders,
+  SAINT_DOC_CACHE_SIZE,
+);
+
 export function getSaintDoc(id: string): SaintDoc | null {
-  return docs[id] ?? null;
-}
\ No newline at end of file
+  return saintDocs.get(id);
+}
+
+export function loadSaintDoc(id: string): Promise<SaintDoc | null> {
+  return saintDocs.load(id);
+}
@@ -0,0 +1,2144 @@
+// data/traditionalCalendar.ts
+//
+// Fixed-date celebrations of the 1962 Roman Missal (the "traditional" or
+// Extraordinary Form sanctoral, after the 1960 Code of Rubrics).
+// - Ranks are Class I–IV; Class IV days are commemorations only.
+// - Ids match data/generalRomanCalendar.ts where the celebration is the same,
+//   so lookups by id (novena anchors, findCelebrationDate) work in both forms.
+// - Vigils of saints (John the Baptist, Peter and Paul, the Assumption) are
+//   listed on their date; everything tied to Easter/Christmas, Ember and
+//   Rogation days lives in utils/traditionalCalendar.ts.
+// - In leap years the feasts of Feb 24–28 move one day later
+//   (utils/traditionalCalendar.ts).
+
+import type { SanctoralEntry } from "./generalRomanCalendar";
+
+export const TRADITIONAL_CALENDAR: SanctoralEntry[] = [
+  // January
+  {
+    mmdd: "01-13",
+    id: "baptism_of_the_lord",
+    title: "Commemoration of the Baptism of Our Lord Jesus Christ",
+    rank: "Class II",
+    color: "White",
+    ofTheLord: true,
+  },
+  {
+    mmdd: "01-14",
+    id: "hilary",
+    title: "Saint Hilary, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "01-14",
+    id: "felix_of_nola",
+    title: "Saint Felix of Nola, Priest and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "01-15",
+    id: "paul_the_first_hermit",
+    title: "Saint Paul the First Hermit, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "01-15",
+    id: "maurus",
+    title: "Saint Maurus, Abbot",
+    rank: "Class IV",
+    color: "White",
+  },
+  {
+    mmdd: "01-16",
+    id: "marcellus_i",
+    title: "Saint Marcellus I, Pope and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "01-17",
+    id: "anthony_abbot",
+    title: "Saint Anthony, Abbot",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "01-18",
+    id: "prisca",
+    title: "Saint Prisca, Virgin and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "01-19",
+    id: "marius_martha_audifax_and_abachum",
+    title: "Saints Marius, Martha, Audifax and Abachum, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "01-20",
+    id: "fabian_and_sebastian",
+    title: "Saints Fabian, Pope, and Sebastian, Martyrs",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "01-21",
+    id: "agnes",
+    title: "Saint Agnes, Virgin and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "01-22",
+    id: "vincent_and_anastasius",
+    title: "Saints Vincent and Anastasius, Martyrs",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "01-23",
+    id: "raymond_of_penyafort",
+    title: "Saint Raymond of Penyafort, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "01-23",
+    id: "emerentiana",
+    title: "Saint Emerentiana, Virgin and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "01-24",
+    id: "timothy",
+    title: "Saint Timothy, Bishop and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "01-25",
+    id: "conversion_of_paul",
+    title: "The Conversion of Saint Paul, Apostle",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "01-26",
+    id: "polycarp",
+    title: "Saint Polycarp, Bishop and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "01-27",
+    id: "john_chrysostom",
+    title: "Saint John Chrysostom, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "01-28",
+    id: "peter_nolasco",
+    title: "Saint Peter Nolasco, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "01-28",
+    id: "agnes_second_feast",
+    title: "Saint Agnes, Virgin and Martyr (second feast)",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "01-29",
+    id: "francis_de_sales",
+    title: "Saint Francis de Sales, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "01-30",
+    id: "martina",
+    title: "Saint Martina, Virgin and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "01-31",
+    id: "john_bosco",
+    title: "Saint John Bosco, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  // February
+  {
+    mmdd: "02-01",
+    id: "ignatius_of_antioch",
+    title: "Saint Ignatius, Bishop and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "02-02",
+    id: "presentation_of_the_lord",
+    title: "The Purification of the Blessed Virgin Mary (Candlemas)",
+    rank: "Class II",
+    color: "White",
+    ofTheLord: true,
+  },
+  {
+    mmdd: "02-03",
+    id: "blaise",
+    title: "Saint Blaise, Bishop and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "02-04",
+    id: "andrew_corsini",
+    title: "Saint Andrew Corsini, Bishop and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "02-05",
+    id: "agatha",
+    title: "Saint Agatha, Virgin and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "02-06",
+    id: "titus",
+    title: "Saint Titus, Bishop and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "02-06",
+    id: "dorothy",
+    title: "Saint Dorothy, Virgin and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "02-07",
+    id: "romuald",
+    title: "Saint Romuald, Abbot",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "02-08",
+    id: "john_of_matha",
+    title: "Saint John of Matha, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "02-09",
+    id: "cyril_of_alexandria",
+    title: "Saint Cyril of Alexandria, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "02-09",
+    id: "apollonia",
+    title: "Saint Apollonia, Virgin and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "02-10",
+    id: "scholastica",
+    title: "Saint Scholastica, Virgin",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "02-11",
+    id: "our_lady_of_lourdes",
+    title: "The Apparition of the Blessed Virgin Mary Immaculate at Lourdes",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "02-12",
+    id: "seven_holy_founders",
+    title: "The Seven Holy Founders of the Servite Order, Confessors",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "02-14",
+    id: "valentine",
+    title: "Saint Valentine, Priest and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "02-15",
+    id: "faustinus_and_jovita",
+    title: "Saints Faustinus and Jovita, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "02-18",
+    id: "simeon",
+    title: "Saint Simeon, Bishop and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "02-22",
+    id: "chair_of_peter",
+    title: "The Chair of Saint Peter, Apostle",
+    rank: "Class II",
+    color: "White",
+  },
+  {
+    mmdd: "02-23",
+    id: "peter_damian",
+    title: "Saint Peter Damian, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "02-24",
+    id: "matthias",
+    title: "Saint Matthias, Apostle",
+    rank: "Class II",
+    color: "Red",
+  },
+  {
+    mmdd: "02-27",
+    id: "gabriel_of_our_lady_of_sorrows",
+    title: "Saint Gabriel of Our Lady of Sorrows, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  // March
+  {
+    mmdd: "03-04",
+    id: "casimir",
+    title: "Saint Casimir, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "03-04",
+    id: "lucius_i",
+    title: "Saint Lucius I, Pope and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "03-06",
+    id: "perpetua_and_felicity",
+    title: "Saints Perpetua and Felicity, Martyrs",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "03-07",
+    id: "thomas_aquinas",
+    title: "Saint Thomas Aquinas, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "03-08",
+    id: "john_of_god",
+    title: "Saint John of God, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "03-09",
+    id: "frances_of_rome",
+    title: "Saint Frances of Rome, Widow",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "03-10",
+    id: "forty_martyrs",
+    title: "The Forty Holy Martyrs",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "03-12",
+    id: "gregory_the_great",
+    title: "Saint Gregory I the Great, Pope, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "03-17",
+    id: "patrick",
+    title: "Saint Patrick, Bishop and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "03-18",
+    id: "cyril_of_jerusalem",
+    title: "Saint Cyril of Jerusalem, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "03-19",
+    id: "joseph_spouse_of_mary",
+    title: "Saint Joseph, Spouse of the Blessed Virgin Mary, Confessor",
+    rank: "Class I",
+    color: "White",
+  },
+  {
+    mmdd: "03-21",
+    id: "benedict",
+    title: "Saint Benedict, Abbot",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "03-24",
+    id: "gabriel_archangel",
+    title: "Saint Gabriel the Archangel",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "03-25",
+    id: "annunciation",
+    title: "The Annunciation of the Blessed Virgin Mary",
+    rank: "Class I",
+    color: "White",
+  },
+  {
+    mmdd: "03-27",
+    id: "john_damascene",
+    title: "Saint John Damascene, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "03-28",
+    id: "john_of_capistrano",
+    title: "Saint John of Capistrano, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  // April
+  {
+    mmdd: "04-02",
+    id: "francis_of_paola",
+    title: "Saint Francis of Paola, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "04-04",
+    id: "isidore",
+    title: "Saint Isidore, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "04-05",
+    id: "vincent_ferrer",
+    title: "Saint Vincent Ferrer, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "04-11",
+    id: "leo_the_great",
+    title: "Saint Leo I the Great, Pope, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "04-13",
+    id: "hermenegild",
+    title: "Saint Hermenegild, Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "04-14",
+    id: "justin",
+    title: "Saint Justin, Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "04-14",
+    id: "tiburtius_valerian_and_maximus",
+    title: "Saints Tiburtius, Valerian and Maximus, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "04-17",
+    id: "anicetus",
+    title: "Saint Anicetus, Pope and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "04-21",
+    id: "anselm",
+    title: "Saint Anselm, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "04-22",
+    id: "soter_and_caius",
+    title: "Saints Soter and Caius, Popes and Martyrs",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "04-23",
+    id: "george",
+    title: "Saint George, Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "04-24",
+    id: "fidelis_of_sigmaringen",
+    title: "Saint Fidelis of Sigmaringen, Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "04-25",
+    id: "mark",
+    title: "Saint Mark, Evangelist (Greater Litanies)",
+    rank: "Class II",
+    color: "Red",
+  },
+  {
+    mmdd: "04-26",
+    id: "cletus_and_marcellinus",
+    title: "Saints Cletus and Marcellinus, Popes and Martyrs",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "04-27",
+    id: "peter_canisius",
+    title: "Saint Peter Canisius, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "04-28",
+    id: "paul_of_the_cross",
+    title: "Saint Paul of the Cross, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "04-29",
+    id: "peter_of_verona",
+    title: "Saint Peter of Verona, Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "04-30",
+    id: "catherine_of_siena",
+    title: "Saint Catherine of Siena, Virgin",
+    rank: "Class III",
+    color: "White",
+  },
+  // May
+  {
+    mmdd: "05-01",
+    id: "joseph_the_worker",
+    title:
+      "Saint Joseph the Worker, Spouse of the Blessed Virgin Mary, Confessor",
+    rank: "Class I",
+    color: "White",
+  },
+  {
+    mmdd: "05-02",
+    id: "athanasius",
+    title: "Saint Athanasius, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-04",
+    id: "monica",
+    title: "Saint Monica, Widow",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-05",
+    id: "pius_v",
+    title: "Saint Pius V, Pope and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-07",
+    id: "stanislaus",
+    title: "Saint Stanislaus, Bishop and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "05-09",
+    id: "gregory_nazianzen",
+    title: "Saint Gregory Nazianzen, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-10",
+    id: "antoninus",
+    title: "Saint Antoninus, Bishop and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-10",
+    id: "gordian_and_epimachus",
+    title: "Saints Gordian and Epimachus, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "05-11",
+    id: "philip_and_james",
+    title: "Saints Philip and James, Apostles",
+    rank: "Class II",
+    color: "Red",
+  },
+  {
+    mmdd: "05-12",
+    id: "nereus_achilleus_domitilla_and_pancras",
+    title: "Saints Nereus, Achilleus, Domitilla and Pancras, Martyrs",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "05-13",
+    id: "robert_bellarmine",
+    title: "Saint Robert Bellarmine, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-14",
+    id: "boniface_of_tarsus",
+    title: "Saint Boniface, Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "05-15",
+    id: "john_baptist_de_la_salle",
+    title: "Saint John Baptist de la Salle, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-16",
+    id: "ubaldus",
+    title: "Saint Ubaldus, Bishop and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-17",
+    id: "paschal_baylon",
+    title: "Saint Paschal Baylon, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-18",
+    id: "venantius",
+    title: "Saint Venantius, Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "05-19",
+    id: "peter_celestine",
+    title: "Saint Peter Celestine, Pope and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-19",
+    id: "pudentiana",
+    title: "Saint Pudentiana, Virgin",
+    rank: "Class IV",
+    color: "White",
+  },
+  {
+    mmdd: "05-20",
+    id: "bernardine_of_siena",
+    title: "Saint Bernardine of Siena, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-25",
+    id: "gregory_vii",
+    title: "Saint Gregory VII, Pope and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-25",
+    id: "urban_i",
+    title: "Saint Urban I, Pope and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "05-26",
+    id: "philip_neri",
+    title: "Saint Philip Neri, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-26",
+    id: "eleutherius",
+    title: "Saint Eleutherius, Pope and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "05-27",
+    id: "bede_the_venerable",
+    title: "Saint Bede the Venerable, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-27",
+    id: "john_i",
+    title: "Saint John I, Pope and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "05-28",
+    id: "augustine_of_canterbury",
+    title: "Saint Augustine of Canterbury, Bishop and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-29",
+    id: "mary_magdalene_de_pazzi",
+    title: "Saint Mary Magdalene de' Pazzi, Virgin",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "05-30",
+    id: "felix_i",
+    title: "Saint Felix I, Pope and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "05-31",
+    id: "queenship_of_mary",
+    title: "The Queenship of the Blessed Virgin Mary",
+    rank: "Class II",
+    color: "White",
+  },
+  {
+    mmdd: "05-31",
+    id: "petronilla",
+    title: "Saint Petronilla, Virgin",
+    rank: "Class IV",
+    color: "White",
+  },
+  // June
+  {
+    mmdd: "06-01",
+    id: "angela_merici",
+    title: "Saint Angela Merici, Virgin",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "06-02",
+    id: "marcellinus_peter_and_erasmus",
+    title: "Saints Marcellinus, Peter and Erasmus, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "06-04",
+    id: "francis_caracciolo",
+    title: "Saint Francis Caracciolo, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "06-05",
+    id: "boniface",
+    title: "Saint Boniface, Bishop and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "06-06",
+    id: "norbert",
+    title: "Saint Norbert, Bishop and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "06-09",
+    id: "primus_and_felician",
+    title: "Saints Primus and Felician, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "06-10",
+    id: "margaret_of_scotland",
+    title: "Saint Margaret, Queen and Widow",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "06-11",
+    id: "barnabas",
+    title: "Saint Barnabas, Apostle",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "06-12",
+    id: "john_of_san_facundo",
+    title: "Saint John of San Facundo, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "06-12",
+    id: "basilides_and_companions",
+    title: "Saints Basilides, Cyrinus, Nabor and Nazarius, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "06-13",
+    id: "anthony_of_padua",
+    title: "Saint Anthony of Padua, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "06-14",
+    id: "basil_the_great",
+    title: "Saint Basil the Great, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "06-15",
+    id: "vitus_modestus_and_crescentia",
+    title: "Saints Vitus, Modestus and Crescentia, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "06-17",
+    id: "gregory_barbarigo",
+    title: "Saint Gregory Barbarigo, Bishop and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "06-18",
+    id: "ephrem",
+    title: "Saint Ephrem the Syrian, Deacon, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "06-18",
+    id: "mark_and_marcellian",
+    title: "Saints Mark and Marcellian, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "06-19",
+    id: "juliana_falconieri",
+    title: "Saint Juliana Falconieri, Virgin",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "06-19",
+    id: "gervase_and_protase",
+    title: "Saints Gervase and Protase, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "06-20",
+    id: "silverius",
+    title: "Saint Silverius, Pope and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "06-21",
+    id: "aloysius_gonzaga",
+    title: "Saint Aloysius Gonzaga, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "06-22",
+    id: "paulinus_of_nola",
+    title: "Saint Paulinus, Bishop and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "06-23",
+    id: "vigil_of_john_the_baptist",
+    title: "Vigil of the Nativity of Saint John the Baptist",
+    rank: "Class II",
+    color: "Purple",
+  },
+  {
+    mmdd: "06-24",
+    id: "nativity_of_john_the_baptist",
+    title: "The Nativity of Saint John the Baptist",
+    rank: "Class I",
+    color: "White",
+  },
+  {
+    mmdd: "06-25",
+    id: "william_abbot",
+    title: "Saint William, Abbot",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "06-26",
+    id: "john_and_paul",
+    title: "Saints John and Paul, Martyrs",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "06-28",
+    id: "vigil_of_peter_and_paul",
+    title: "Vigil of Saints Peter and Paul, Apostles",
+    rank: "Class II",
+    color: "Purple",
+  },
+  {
+    mmdd: "06-29",
+    id: "peter_and_paul",
+    title: "Saints Peter and Paul, Apostles",
+    rank: "Class I",
+    color: "Red",
+  },
+  {
+    mmdd: "06-30",
+    id: "commemoration_of_paul",
+    title: "The Commemoration of Saint Paul, Apostle",
+    rank: "Class III",
+    color: "Red",
+  },
+  // July
+  {
+    mmdd: "07-01",
+    id: "precious_blood",
+    title: "The Most Precious Blood of Our Lord Jesus Christ",
+    rank: "Class I",
+    color: "Red",
+  },
+  {
+    mmdd: "07-02",
+    id: "visitation",
+    title: "The Visitation of the Blessed Virgin Mary",
+    rank: "Class II",
+    color: "White",
+  },
+  {
+    mmdd: "07-03",
+    id: "irenaeus",
+    title: "Saint Irenaeus, Bishop and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "07-05",
+    id: "anthony_zaccaria",
+    title: "Saint Anthony Mary Zaccaria, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "07-07",
+    id: "cyril_and_methodius",
+    title: "Saints Cyril and Methodius, Bishops and Confessors",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "07-08",
+    id: "elizabeth_of_portugal",
+    title: "Saint Elizabeth, Queen and Widow",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "07-10",
+    id: "seven_holy_brothers",
+    title:
+      "The Seven Holy Brothers, Martyrs, and Saints Rufina and Secunda, Virgins and Martyrs",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "07-11",
+    id: "pius_i",
+    title: "Saint Pius I, Pope and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "07-12",
+    id: "john_gualbert",
+    title: "Saint John Gualbert, Abbot",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "07-12",
+    id: "nabor_and_felix",
+    title: "Saints Nabor and Felix, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "07-14",
+    id: "bonaventure",
+    title: "Saint Bonaventure, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "07-15",
+    id: "henry",
+    title: "Saint Henry, Emperor and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "07-16",
+    id: "our_lady_of_mount_carmel",
+    title: "Our Lady of Mount Carmel",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "07-17",
+    id: "alexius",
+    title: "Saint Alexius, Confessor",
+    rank: "Class IV",
+    color: "White",
+  },
+  {
+    mmdd: "07-18",
+    id: "camillus_de_lellis",
+    title: "Saint Camillus de Lellis, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "07-18",
+    id: "symphorosa_and_sons",
+    title: "Saint Symphorosa and her Seven Sons, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "07-19",
+    id: "vincent_de_paul",
+    title: "Saint Vincent de Paul, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "07-20",
+    id: "jerome_emiliani",
+    title: "Saint Jerome Emiliani, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "07-20",
+    id: "margaret_of_antioch",
+    title: "Saint Margaret, Virgin and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "07-21",
+    id: "lawrence_of_brindisi",
+    title: "Saint Lawrence of Brindisi, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "07-21",
+    id: "praxedes",
+    title: "Saint Praxedes, Virgin",
+    rank: "Class IV",
+    color: "White",
+  },
+  {
+    mmdd: "07-22",
+    id: "mary_magdalene",
+    title: "Saint Mary Magdalene, Penitent",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "07-23",
+    id: "apollinaris",
+    title: "Saint Apollinaris, Bishop and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "07-23",
+    id: "liborius",
+    title: "Saint Liborius, Bishop and Confessor",
+    rank: "Class IV",
+    color: "White",
+  },
+  {
+    mmdd: "07-24",
+    id: "christina",
+    title: "Saint Christina, Virgin and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "07-25",
+    id: "james_apostle",
+    title: "Saint James, Apostle",
+    rank: "Class II",
+    color: "Red",
+  },
+  {
+    mmdd: "07-25",
+    id: "christopher",
+    title: "Saint Christopher, Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "07-26",
+    id: "anne",
+    title: "Saint Anne, Mother of the Blessed Virgin Mary",
+    rank: "Class II",
+    color: "White",
+  },
+  {
+    mmdd: "07-27",
+    id: "pantaleon",
+    title: "Saint Pantaleon, Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "07-28",
+    id: "nazarius_celsus_victor_and_innocent",
+    title:
+      "Saints Nazarius and Celsus, Martyrs, Victor I, Pope and Martyr, and Innocent I, Pope and Confessor",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "07-29",
+    id: "martha",
+    title: "Saint Martha, Virgin",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "07-29",
+    id: "felix_simplicius_faustinus_and_beatrice",
+    title: "Saints Felix, Simplicius, Faustinus and Beatrice, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "07-30",
+    id: "abdon_and_sennen",
+    title: "Saints Abdon and Sennen, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "07-31",
+    id: "ignatius_of_loyola",
+    title: "Saint Ignatius of Loyola, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  // August
+  {
+    mmdd: "08-01",
+    id: "holy_machabees",
+    title: "The Holy Machabees, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "08-02",
+    id: "alphonsus_liguori",
+    title: "Saint Alphonsus Mary de' Liguori, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "08-02",
+    id: "stephen_i",
+    title: "Saint Stephen I, Pope and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "08-04",
+    id: "dominic",
+    title: "Saint Dominic, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "08-05",
+    id: "dedication_of_st_mary_major",
+    title: "The Dedication of the Basilica of Saint Mary of the Snows",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "08-06",
+    id: "transfiguration",
+    title: "The Transfiguration of Our Lord Jesus Christ",
+    rank: "Class II",
+    color: "White",
+    ofTheLord: true,
+  },
+  {
+    mmdd: "08-07",
+    id: "cajetan",
+    title: "Saint Cajetan, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "08-08",
+    id: "cyriacus_largus_and_smaragdus",
+    title: "Saints Cyriacus, Largus and Smaragdus, Martyrs",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "08-09",
+    id: "john_vianney",
+    title: "Saint John Mary Vianney, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "08-10",
+    id: "lawrence",
+    title: "Saint Lawrence, Martyr",
+    rank: "Class II",
+    color: "Red",
+  },
+  {
+    mmdd: "08-11",
+    id: "tiburtius_and_susanna",
+    title: "Saints Tiburtius and Susanna, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "08-12",
+    id: "clare",
+    title: "Saint Clare, Virgin",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "08-13",
+    id: "hippolytus_and_cassian",
+    title: "Saints Hippolytus and Cassian, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "08-14",
+    id: "vigil_of_the_assumption",
+    title: "Vigil of the Assumption of the Blessed Virgin Mary",
+    rank: "Class II",
+    color: "Purple",
+  },
+  {
+    mmdd: "08-15",
+    id: "assumption",
+    title: "The Assumption of the Blessed Virgin Mary",
+    rank: "Class I",
+    color: "White",
+  },
+  {
+    mmdd: "08-16",
+    id: "joachim",
+    title: "Saint Joachim, Father of the Blessed Virgin Mary, Confessor",
+    rank: "Class II",
+    color: "White",
+  },
+  {
+    mmdd: "08-17",
+    id: "hyacinth",
+    title: "Saint Hyacinth, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "08-18",
+    id: "agapitus",
+    title: "Saint Agapitus, Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "08-19",
+    id: "john_eudes",
+    title: "Saint John Eudes, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "08-20",
+    id: "bernard",
+    title: "Saint Bernard, Abbot and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "08-21",
+    id: "jane_frances_de_chantal",
+    title: "Saint Jane Frances de Chantal, Widow",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "08-22",
+    id: "immaculate_heart_of_mary",
+    title: "The Immaculate Heart of the Blessed Virgin Mary",
+    rank: "Class II",
+    color: "White",
+  },
+  {
+    mmdd: "08-23",
+    id: "philip_benizi",
+    title: "Saint Philip Benizi, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "08-24",
+    id: "bartholomew",
+    title: "Saint Bartholomew, Apostle",
+    rank: "Class II",
+    color: "Red",
+  },
+  {
+    mmdd: "08-25",
+    id: "louis_of_france",
+    title: "Saint Louis, King and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "08-26",
+    id: "zephyrinus",
+    title: "Saint Zephyrinus, Pope and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "08-27",
+    id: "joseph_calasanz",
+    title: "Saint Joseph Calasanctius, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "08-28",
+    id: "augustine",
+    title: "Saint Augustine, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "08-28",
+    id: "hermes",
+    title: "Saint Hermes, Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "08-29",
+    id: "passion_of_john_the_baptist",
+    title: "The Beheading of Saint John the Baptist",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "08-30",
+    id: "rose_of_lima",
+    title: "Saint Rose of Lima, Virgin",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "08-31",
+    id: "raymond_nonnatus",
+    title: "Saint Raymond Nonnatus, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  // September
+  {
+    mmdd: "09-01",
+    id: "giles",
+    title: "Saint Giles, Abbot",
+    rank: "Class IV",
+    color: "White",
+  },
+  {
+    mmdd: "09-02",
+    id: "stephen_of_hungary",
+    title: "Saint Stephen, King and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "09-03",
+    id: "pius_x",
+    title: "Saint Pius X, Pope and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "09-05",
+    id: "lawrence_justinian",
+    title: "Saint Lawrence Justinian, Bishop and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "09-08",
+    id: "nativity_of_mary",
+    title: "The Nativity of the Blessed Virgin Mary",
+    rank: "Class II",
+    color: "White",
+  },
+  {
+    mmdd: "09-09",
+    id: "peter_claver",
+    title: "Saint Peter Claver, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "09-10",
+    id: "nicholas_of_tolentino",
+    title: "Saint Nicholas of Tolentino, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "09-11",
+    id: "protus_and_hyacinth",
+    title: "Saints Protus and Hyacinth, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "09-12",
+    id: "holy_name_of_mary",
+    title: "The Most Holy Name of Mary",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "09-14",
+    id: "exaltation_of_the_cross",
+    title: "The Exaltation of the Holy Cross",
+    rank: "Class II",
+    color: "Red",
+    ofTheLord: true,
+  },
+  {
+    mmdd: "09-15",
+    id: "our_lady_of_sorrows",
+    title: "The Seven Sorrows of the Blessed Virgin Mary",
+    rank: "Class II",
+    color: "White",
+  },
+  {
+    mmdd: "09-16",
+    id: "cornelius_and_cyprian",
+    title: "Saints Cornelius, Pope, and Cyprian, Bishop, Martyrs",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "09-17",
+    id: "stigmata_of_francis",
+    title: "The Impression of the Stigmata of Saint Francis",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "09-18",
+    id: "joseph_of_cupertino",
+    title: "Saint Joseph of Cupertino, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "09-19",
+    id: "januarius",
+    title: "Saint Januarius, Bishop, and Companions, Martyrs",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "09-20",
+    id: "eustace_and_companions",
+    title: "Saint Eustace and Companions, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "09-21",
+    id: "matthew",
+    title: "Saint Matthew, Apostle and Evangelist",
+    rank: "Class II",
+    color: "Red",
+  },
+  {
+    mmdd: "09-22",
+    id: "thomas_of_villanova",
+    title: "Saint Thomas of Villanova, Bishop and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "09-23",
+    id: "linus",
+    title: "Saint Linus, Pope and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "09-24",
+    id: "our_lady_of_ransom",
+    title: "Our Lady of Ransom",
+    rank: "Class IV",
+    color: "White",
+  },
+  {
+    mmdd: "09-26",
+    id: "cyprian_and_justina",
+    title: "Saints Cyprian and Justina, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "09-27",
+    id: "cosmas_and_damian",
+    title: "Saints Cosmas and Damian, Martyrs",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "09-28",
+    id: "wenceslaus",
+    title: "Saint Wenceslaus, Duke and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "09-29",
+    id: "dedication_of_michael",
+    title: "The Dedication of Saint Michael the Archangel",
+    rank: "Class I",
+    color: "White",
+  },
+  {
+    mmdd: "09-30",
+    id: "jerome",
+    title: "Saint Jerome, Priest, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  // October
+  {
+    mmdd: "10-01",
+    id: "remigius",
+    title: "Saint Remigius, Bishop and Confessor",
+    rank: "Class IV",
+    color: "White",
+  },
+  {
+    mmdd: "10-02",
+    id: "guardian_angels",
+    title: "The Holy Guardian Angels",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "10-03",
+    id: "therese_of_the_child_jesus",
+    title: "Saint Teresa of the Child Jesus, Virgin",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "10-04",
+    id: "francis_of_assisi",
+    title: "Saint Francis of Assisi, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "10-05",
+    id: "placid_and_companions",
+    title: "Saint Placid and Companions, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "10-06",
+    id: "bruno",
+    title: "Saint Bruno, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "10-07",
+    id: "our_lady_of_the_rosary",
+    title: "The Most Holy Rosary of the Blessed Virgin Mary",
+    rank: "Class II",
+    color: "White",
+  },
+  {
+    mmdd: "10-08",
+    id: "bridget",
+    title: "Saint Bridget, Widow",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "10-09",
+    id: "john_leonardi",
+    title: "Saint John Leonardi, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "10-09",
+    id: "denis_and_companions",
+    title: "Saints Denis, Bishop, Rusticus and Eleutherius, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "10-10",
+    id: "francis_borgia",
+    title: "Saint Francis Borgia, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "10-11",
+    id: "motherhood_of_mary",
+    title: "The Motherhood of the Blessed Virgin Mary",
+    rank: "Class II",
+    color: "White",
+  },
+  {
+    mmdd: "10-13",
+    id: "edward_the_confessor",
+    title: "Saint Edward, King and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "10-14",
+    id: "callistus_i",
+    title: "Saint Callistus I, Pope and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "10-15",
+    id: "teresa_of_jesus",
+    title: "Saint Teresa of Jesus, Virgin",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "10-16",
+    id: "hedwig",
+    title: "Saint Hedwig, Widow",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "10-17",
+    id: "margaret_mary_alacoque",
+    title: "Saint Margaret Mary Alacoque, Virgin",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "10-18",
+    id: "luke",
+    title: "Saint Luke, Evangelist",
+    rank: "Class II",
+    color: "Red",
+  },
+  {
+    mmdd: "10-19",
+    id: "peter_of_alcantara",
+    title: "Saint Peter of Alcantara, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "10-20",
+    id: "john_cantius",
+    title: "Saint John Cantius, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "10-21",
+    id: "hilarion",
+    title: "Saint Hilarion, Abbot",
+    rank: "Class IV",
+    color: "White",
+  },
+  {
+    mmdd: "10-21",
+    id: "ursula_and_companions",
+    title: "Saint Ursula and Companions, Virgins and Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "10-24",
+    id: "raphael_archangel",
+    title: "Saint Raphael the Archangel",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "10-25",
+    id: "chrysanthus_and_daria",
+    title: "Saints Chrysanthus and Daria, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "10-26",
+    id: "evaristus",
+    title: "Saint Evaristus, Pope and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "10-28",
+    id: "simon_and_jude",
+    title: "Saints Simon and Jude, Apostles",
+    rank: "Class II",
+    color: "Red",
+  },
+  // November
+  {
+    mmdd: "11-01",
+    id: "all_saints",
+    title: "All Saints",
+    rank: "Class I",
+    color: "White",
+  },
+  {
+    mmdd: "11-04",
+    id: "charles_borromeo",
+    title: "Saint Charles Borromeo, Bishop and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "11-04",
+    id: "vitalis_and_agricola",
+    title: "Saints Vitalis and Agricola, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "11-08",
+    id: "four_crowned_martyrs",
+    title: "The Four Holy Crowned Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "11-09",
+    id: "dedication_of_the_lateran",
+    title: "The Dedication of the Archbasilica of the Most Holy Saviour",
+    rank: "Class II",
+    color: "White",
+    ofTheLord: true,
+  },
+  {
+    mmdd: "11-10",
+    id: "andrew_avellino",
+    title: "Saint Andrew Avellino, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "11-10",
+    id: "tryphon_respicius_and_nympha",
+    title: "Saints Tryphon, Respicius and Nympha, Martyrs",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "11-11",
+    id: "martin_of_tours",
+    title: "Saint Martin, Bishop and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "11-11",
+    id: "mennas",
+    title: "Saint Mennas, Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "11-12",
+    id: "martin_i",
+    title: "Saint Martin I, Pope and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "11-13",
+    id: "didacus",
+    title: "Saint Didacus, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "11-14",
+    id: "josaphat",
+    title: "Saint Josaphat, Bishop and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "11-15",
+    id: "albert_the_great",
+    title: "Saint Albert the Great, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "11-16",
+    id: "gertrude",
+    title: "Saint Gertrude, Virgin",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "11-17",
+    id: "gregory_thaumaturgus",
+    title: "Saint Gregory the Wonderworker, Bishop and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "11-18",
+    id: "dedication_of_peter_and_paul_basilicas",
+    title: "The Dedication of the Basilicas of Saints Peter and Paul",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "11-19",
+    id: "elizabeth_of_hungary",
+    title: "Saint Elizabeth, Widow",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "11-19",
+    id: "pontian",
+    title: "Saint Pontian, Pope and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "11-20",
+    id: "felix_of_valois",
+    title: "Saint Felix of Valois, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "11-21",
+    id: "presentation_of_mary",
+    title: "The Presentation of the Blessed Virgin Mary",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "11-22",
+    id: "cecilia",
+    title: "Saint Cecilia, Virgin and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "11-23",
+    id: "clement_i",
+    title: "Saint Clement I, Pope and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "11-23",
+    id: "felicity",
+    title: "Saint Felicity, Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "11-24",
+    id: "john_of_the_cross",
+    title: "Saint John of the Cross, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "11-24",
+    id: "chrysogonus",
+    title: "Saint Chrysogonus, Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "11-25",
+    id: "catherine_of_alexandria",
+    title: "Saint Catherine, Virgin and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "11-26",
+    id: "sylvester_abbot",
+    title: "Saint Sylvester, Abbot",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "11-26",
+    id: "peter_of_alexandria",
+    title: "Saint Peter of Alexandria, Bishop and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "11-29",
+    id: "saturninus",
+    title: "Saint Saturninus, Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "11-30",
+    id: "andrew",
+    title: "Saint Andrew, Apostle",
+    rank: "Class II",
+    color: "Red",
+  },
+  // December
+  {
+    mmdd: "12-02",
+    id: "bibiana",
+    title: "Saint Bibiana, Virgin and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "12-03",
+    id: "francis_xavier",
+    title: "Saint Francis Xavier, Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "12-04",
+    id: "peter_chrysologus",
+    title: "Saint Peter Chrysologus, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "12-04",
+    id: "barbara",
+    title: "Saint Barbara, Virgin and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "12-05",
+    id: "sabbas",
+    title: "Saint Sabbas, Abbot",
+    rank: "Class IV",
+    color: "White",
+  },
+  {
+    mmdd: "12-06",
+    id: "nicholas",
+    title: "Saint Nicholas, Bishop and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "12-07",
+    id: "ambrose",
+    title: "Saint Ambrose, Bishop, Confessor and Doctor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "12-08",
+    id: "immaculate_conception",
+    title: "The Immaculate Conception of the Blessed Virgin Mary",
+    rank: "Class I",
+    color: "White",
+  },
+  {
+    mmdd: "12-10",
+    id: "melchiades",
+    title: "Saint Melchiades, Pope and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "12-11",
+    id: "damasus_i",
+    title: "Saint Damasus I, Pope and Confessor",
+    rank: "Class III",
+    color: "White",
+  },
+  {
+    mmdd: "12-13",
+    id: "lucy",
+    title: "Saint Lucy, Virgin and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "12-16",
+    id: "eusebius_of_vercelli",
+    title: "Saint Eusebius, Bishop and Martyr",
+    rank: "Class III",
+    color: "Red",
+  },
+  {
+    mmdd: "12-21",
+    id: "thomas_apostle",
+    title: "Saint Thomas, Apostle",
+    rank: "Class II",
+    color: "Red",
+  },
+  {
+    mmdd: "12-26",
+    id: "stephen_first_martyr",
+    title: "Saint Stephen, Protomartyr",
+    rank: "Class II",
+    color: "Red",
+  },
+  {
+    mmdd: "12-27",
+    id: "john_apostle",
+    title: "Saint John, Apostle and Evangelist",
+    rank: "Class II",
+    color: "White",
+  },
+  {
+    mmdd: "12-28",
+    id: "holy_innocents",
+    title: "The Holy Innocents, Martyrs",
+    rank: "Class II",
+    color: "Red",
+  },
+  {
+    mmdd: "12-29",
+    id: "thomas_becket",
+    title: "Saint Thomas Becket, Bishop and Martyr",
+    rank: "Class IV",
+    color: "Red",
+  },
+  {
+    mmdd: "12-31",
+    id: "sylvester_i",
+    title: "Saint Sylvester I, Pope and Confessor",
+    rank: "Class IV",
+    color: "White",
+  },
+];
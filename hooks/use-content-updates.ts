@@ -0,0 +1,38 @@
+import { useEffect } from "react";
+import { AppState } from "react-native";
+
+import { updateContent } from "@/utils/contentStore";
+
+/** Don't ask the bundle host more often than this. */
+const CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+let lastCheck = 0;
+
+async function check() {
+  const now = Date.now();
+  if (now - lastCheck < CHECK_INTERVAL_MS) return;
+  lastCheck = now;
+
+  const result = await updateContent();
+  if (result?.status === "failed") {
+    console.warn("[content] update failed:", result.error);
+  }
+  // "offline" is normal (no network, host down): keep the content we have.
+}
+
+/**
+ * Pulls newer saint / novena docs from the content bundle URL on launch
+ * and when the app comes back to the foreground (see utils/contentStore.ts).
+ * Mount once, in the root layout.
+ */
+export function useContentUpdates() {
+  useEffect(() => {
+    check().catch((e) => console.warn("[content] update failed:", e));
+
+    const sub = AppState.addEventListener("change", (state) => {
+      if (state !== "active") return;
+      check().catch((e) => console.warn("[content] update failed:", e));
+    });
+    return () => sub.remove();
+  }, []);
+}
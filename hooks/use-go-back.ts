@@ -0,0 +1,15 @@
+import { useCallback } from 'react';
+import { useRouter } from 'expo-router';
+
+/**
+ * Back navigation that also works when a screen was opened straight from a
+ * link (no history): falls back to Home instead of doing nothing.
+ */
+export function useGoBack() {
+  const router = useRouter();
+
+  return useCallback(() => {
+    if (router.canGoBack()) router.back();
+    else router.replace('/');
+  }, [router]);
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+
+import type { LazyDocs } from '@/utils/lazyDocs';
+
+/**
+ * A saint / novena doc by id, loaded on demand (see utils/lazyDocs.ts).
+ * `loading` is true until the first load for this id settles, so screens
+ * can tell "not loaded yet" from "not found".
+ */
+export function useLazyDoc<T>(docs: LazyDocs<T>, id: string) {
+  const [state, setState] = useState(() => initial(docs, id));
+
+  // New id: start over from whatever is already in memory.
+  let current = state;
+  if (state.id !== id) {
+    current = initial(docs, id);
+    setState(current);
+  }
+  const { loading } = current;
+
+  useEffect(() => {
+    if (!loading) return;
+    let alive = true;
+    docs
+      .load(id)
+      .catch((e) => {
+        console.warn('[docs] failed to load', id, e);
+        return null;
+      })
+      .then((doc) => {
+        if (alive) setState({ id, doc, loading: false });
+      });
+    return () => {
+      alive = false;
+    };
+  }, [docs, id, loading]);
+
+  return { doc: current.doc, loading };
+}
+
+function initial<T>(
+  docs: LazyDocs<T>,
+  id: string,
+): { id: string; doc: T | null; loading: boolean } {
+  const known = id ? docs.peek(id) : null;
+  return {
+    id,
+    doc: known === undefined ? null : known,
+    loading: known === undefined,
+  };
+}
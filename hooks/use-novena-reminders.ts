@@ -0,0 +1,99 @@
+import { useEffect, useRef } from "react";
+import { AppState } from "react-native";
+import * as Notifications from "expo-notifications";
+import { useRouter } from "expo-router";
+
+import { usePersistedStore } from "@/hooks/use-persisted-store";
+import { calendarProfileStore } from "@/utils/calendarProfileStore";
+import { enrollmentsStore } from "@/utils/novenaProgress";
+import {
+  reminderRouteFromData,
+  reminderSettingsStore,
+  remindersSupported,
+  syncNovenaReminders,
+} from "@/utils/novenaReminders";
+import { starredNovenasStore } from "@/utils/starredNovenas";
+
+if (remindersSupported()) {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+async function resync() {
+  // Sync only once all stores are loaded, then read their latest values.
+  await Promise.all([
+    enrollmentsStore.load(),
+    starredNovenasStore.load(),
+    reminderSettingsStore.load(),
+    calendarProfileStore.load(),
+  ]);
+  await syncNovenaReminders({
+    enrollments: enrollmentsStore.get(),
+    starred: starredNovenasStore.get(),
+    settings: reminderSettingsStore.get(),
+    profile: calendarProfileStore.get(),
+  });
+}
+
+/**
+ * Keeps scheduled novena reminders in sync with enrollments, stars,
+ * reminder settings and the calendar profile, and routes taps on a reminder to its novena.
+ * Mount once, in the root layout; `navigationReady` is false until the
+ * layout renders its navigator (taps are routed from then on).
+ */
+export function useNovenaReminders(navigationReady: boolean) {
+  const router = useRouter();
+  const handled = useRef(new Set<string>());
+
+  const enrollments = usePersistedStore(enrollmentsStore);
+  const starred = usePersistedStore(starredNovenasStore);
+  const settings = usePersistedStore(reminderSettingsStore);
+  const profile = usePersistedStore(calendarProfileStore);
+
+  useEffect(() => {
+    resync().catch((e) => console.warn("[reminders] sync failed:", e));
+  }, [enrollments, starred, settings, profile]);
+
+  // Returning to the app (maybe days later) tops up the rolling window.
+  useEffect(() => {
+    const sub = AppState.addEventListener("change", (state) => {
+      if (state !== "active") return;
+      resync().catch((e) => console.warn("[reminders] sync failed:", e));
+    });
+    return () => sub.remove();
+  }, []);
+
+  useEffect(() => {
+    if (!remindersSupported() || !navigationReady) return;
+
+    const open = (res: Notifications.NotificationResponse) => {
+      const { request, date } = res.notification;
+      const key = `${request.identifier}@${date}`;
+      if (handled.current.has(key)) return;
+      handled.current.add(key);
+
+      const route = reminderRouteFromData(request.content.data);
+      if (!route) return;
+      router.push({ pathname: "/novena/[id]", params: route });
+    };
+
+    // A tap that launched the app from a killed state came before this
+    // listener existed; it is only available as the last response.
+    Notifications.getLastNotificationResponseAsync()
+      .then((res) => {
+        if (!res) return;
+        open(res);
+        return Notifications.clearLastNotificationResponseAsync();
+      })
+      .catch((e) => console.warn("[reminders] last response failed:", e));
+
+    const sub = Notifications.addNotificationResponseReceivedListener(open);
+    return () => sub.remove();
+  }, [router, navigationReady]);
+}
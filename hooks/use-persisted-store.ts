@@ -0,0 +1,15 @@
+import { useEffect, useSyncExternalStore } from 'react';
+
+import type { PersistedStore } from '@/utils/persistedStore';
+
+/**
+ * Subscribe a component to a persisted store.
+ * Triggers the (one-time) AsyncStorage load on first use.
+ */
+export function usePersistedStore<T>(store: PersistedStore<T>): T {
+  useEffect(() => {
+    store.load();
+  }, [store]);
+
+  return useSyncExternalStore(store.subscribe, store.get, store.get);
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+
+import { todayKeyLocal } from '@/utils/dateKeys';
+
+function msUntilNextLocalMidnight(now: Date = new Date()) {
+  const next = new Date(now);
+  next.setHours(24, 0, 0, 0);
+  // A second of slack so the timer never fires just before midnight.
+  return next.getTime() - now.getTime() + 1000;
+}
+
+/**
+ * Local 'today' as a YYYY-MM-DD key that rolls over at local midnight.
+ * Timers don't run while the app is backgrounded, so the key is also
+ * re-checked whenever the app becomes active again.
+ */
+export function useTodayKey(): string {
+  const [todayKey, setTodayKey] = useState(() => todayKeyLocal());
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      timer = setTimeout(() => {
+        setTodayKey(todayKeyLocal());
+        schedule();
+      }, msUntilNextLocalMidnight());
+    };
+    schedule();
+    return () => clearTimeout(timer);
+  }, []);
+
+  useEffect(() => {
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') setTodayKey(todayKeyLocal());
+    });
+    return () => sub.remove();
+  }, []);
+
+  return todayKey;
+}
@@ -21,6 +21,9 @@ const resources = {
       // home
       home_subtitle:
         "The liturgical year, saints, and novenas of the Catholic Church — presented day by day for prayer and reflection.",
+      today_title: "Today",
+      today_praying: "Novenas you're praying",
+      starts_tomorrow: "Starts tomorrow",
 
       // tabs
       tabs_home: "Home",
@@ -31,6 +34,7 @@ const resources = {
 
       // common
       close: "Close",
+      share: "Share",
 
       // saints
       saints: "Saints",
@@ -44,11 +48,245 @@ const resources = {
       feast_today: "Feast today",
       no_novenas_or_feasts: "No novenas start or feast on this day.",
       start_novena: "Start Novena",
+      // novena progress
+      novena_your_progress: "Your progress",
+      novena_run_dates: "{{start}} → {{end}}",
+      novena_im_praying_this: "I'm praying this",
+      novena_stop_praying: "Stop praying this novena",
+      novena_progress_day: "Day {{day}} of {{total}}",
+      novena_progress_prayed: "{{count}} of {{total}} days prayed",
+      novena_run_not_started: "Starts {{date}}",
+      novena_run_finished: "Ended {{date}}",
+      novena_mark_prayed: "Mark as prayed",
+      // novena filters
+      filter_clear: "Clear",
+      filter_duration_nine: "9 days",
+      filter_duration_weeks: "Several weeks",
+      filter_duration_months: "Months",
+      filter_hidden_count: "Hidden by filters: {{count}}",
+      novena_category_devotion: "Devotion",
+      novena_category_marian: "Marian",
+      novena_category_feast: "Feast",
+      novena_category_saint: "Saint",
+      novena_category_intention: "Intention",
+
+      // calendar export
+      export_open: "Export .ics",
+      export_title: "Export calendar",
+      export_hint:
+        "Creates an .ics file with every novena start date, for Google Calendar, Apple Calendar, Outlook and others. Importing it again updates the same events.",
+      export_from_year: "From",
+      export_to_year: "To",
+      export_include_feasts: "Include movable feasts (Easter, Pentecost…)",
+      export_use_filters: "Only novenas matching my Novenas filters",
+      export_summary: "{{novenas}} novena start dates · {{feasts}} feasts",
+      export_share: "Share .ics file",
+      export_failed: "Couldn't create the calendar file. Please try again.",
+      ics_calendar_name: "Novenas {{years}}",
+      ics_novena_begins: "{{title}} begins ({{days}} days)",
+      ics_novena_days:
+        "Day 1 of {{days}}. Pray daily through {{feast}} (day {{days}}).",
+      ics_novena_prayers: "Prayers: {{url}}",
+      ics_feast_description: "{{rank}} · liturgical color: {{color}}",
+
+      // device calendar
+      calendar_add: "Add to my calendar",
+      calendar_remove: "Remove from my calendar",
+      calendar_add_failed:
+        "Couldn't update your calendar. Check calendar access in Settings.",
+      calendar_event_day: "Day {{day}} of {{total}}",
+      calendar_name: "Novenas",
+      novena_prayed: "Prayed ✓",
+
+      // data issues
+      about_data_issues: "Data issues",
+      data_issues_title: "Data issues",
+      data_issues_hint:
+        "Problems found while working out novena dates for {{from}}–{{to}} with your calendar profile. Novenas listed under errors are missing from the calendar for those years.",
+      data_issues_none: "No problems found.",
+      data_issues_errors: "Errors ({{count}})",
+      data_issues_warnings: "Warnings ({{count}})",
+      data_issues_years: "Years: {{years}}",
+      data_issues_show_all: "Show all",
+
+      // why these dates (utils/novenaTrace.ts)
+      novena_why_dates: "Why these dates?",
+      trace_feast_title: "Feast day",
+      trace_start_title: "First day",
+      trace_fixed: "Fixed date: {{date}}",
+      trace_anchor: "{{anchor}} falls on {{date}}",
+      trace_offset_after: "{{days}} days after that: {{date}}",
+      trace_offset_before: "{{days}} days before that: {{date}}",
+      trace_weekday_kept: "Already a {{weekday}}",
+      trace_weekday_after: "Moved to the following {{weekday}}: {{date}}",
+      trace_weekday_before: "Moved to the preceding {{weekday}}: {{date}}",
+      trace_next_weekday: "The next {{weekday}} after that: {{date}}",
+      trace_nth_weekday: "{{weekday}} number {{n}} after that: {{date}}",
+      trace_days_before:
+        "Counting {{days}} days back, that day included: {{date}}",
+      trace_year_rollover:
+        "That would be after the feast, so it's the previous year's: {{date}}",
+      trace_weekly: "Every {{weekday}}; this one is {{date}}",
+      trace_monthly: "Day {{day}} of every month; this one is {{date}}",
+      trace_first_weekday_of_month:
+        "The first {{weekday}} of every month; this one is {{date}}",
+      trace_last_weekday_of_month:
+        "The last {{weekday}} of every month; this one is {{date}}",
+      trace_nth_weekday_of_month:
+        "{{weekday}} number {{n}} of every month; this one is {{date}}",
+      trace_from_duration:
+        "A {{days}}-day novena ending on the feast starts on {{date}}",
+      trace_hint_intro: "The novena's source also lists a start date:",
+      trace_hint_accepted: "The listed start date agrees ✓",
+      trace_hint_overridden:
+        "The listed start date ({{hinted}}) doesn't fit the feast and length, so {{date}} is used",
+      trace_hint_unusable:
+        "The listed start date couldn't be worked out, so {{date}} is used",
+
+      // rule anchors (feasts novena dates are counted from)
+      anchor_easter: "Easter Sunday",
+      anchor_ash_wednesday: "Ash Wednesday",
+      anchor_shrove_tuesday: "Shrove Tuesday",
+      anchor_palm_sunday: "Palm Sunday",
+      anchor_holy_thursday: "Holy Thursday",
+      anchor_good_friday: "Good Friday",
+      anchor_holy_saturday: "Holy Saturday",
+      anchor_divine_mercy_sunday: "Divine Mercy Sunday",
+      anchor_ascension: "The Ascension",
+      anchor_ascension_thursday: "Ascension Thursday",
+      anchor_ascension_sunday: "Ascension (Sunday)",
+      anchor_pentecost: "Pentecost",
+      anchor_trinity_sunday: "Trinity Sunday",
+      anchor_corpus_christi: "Corpus Christi",
+      anchor_corpus_christi_thursday: "Corpus Christi (Thursday)",
+      anchor_corpus_christi_sunday: "Corpus Christi (Sunday)",
+      anchor_sacred_heart: "The Sacred Heart of Jesus",
+      anchor_immaculate_heart: "The Immaculate Heart of Mary",
+      anchor_christmas: "Christmas",
+      anchor_christmas_eve: "Christmas Eve",
+      anchor_mary_mother_of_god: "Mary, Mother of God",
+      anchor_new_years_eve: "New Year's Eve",
+      anchor_epiphany: "The Epiphany",
+      anchor_baptism_of_the_lord: "The Baptism of the Lord",
+      anchor_holy_family: "The Holy Family",
+      anchor_advent_1: "The First Sunday of Advent",
+      anchor_christ_king: "Christ the King",
+      anchor_st_joseph: "Saint Joseph",
+      anchor_annunciation: "The Annunciation",
+      anchor_assumption: "The Assumption",
+      anchor_all_saints: "All Saints",
+      anchor_immaculate_conception: "The Immaculate Conception",
+      anchor_our_lady_of_czestochowa: "Our Lady of Częstochowa",
+      anchor_our_lady_of_guadalupe: "Our Lady of Guadalupe",
+      data_issues_off_by_one:
+        "{{count}} novenas list a start date one day before the one worked out from the feast; the computed date is used.",
+
+      // reminders
+      novena_star: "Star this novena",
+      novena_unstar: "Remove star",
+      reminders_title: "Reminders",
+      reminders_unsupported:
+        "Reminders are only available in the iOS and Android apps.",
+      reminders_daily: "Daily reminders",
+      reminders_daily_desc:
+        "A notification for each day of the novenas you're praying.",
+      reminders_permission_denied:
+        "Notifications are turned off for this app. Enable them in system settings.",
+      reminders_time: "Reminder time",
+      reminders_time_earlier: "Earlier",
+      reminders_time_later: "Later",
+      reminders_starts_tomorrow: "Starred novenas: starts tomorrow",
+      reminders_starts_tomorrow_desc:
+        "A heads-up the day before a starred novena begins.",
+      reminders_starred: "Starred novenas",
+      reminders_no_starred:
+        "Star a novena from its page to get a heads-up before it starts.",
+      reminders_upcoming: "Upcoming reminders",
+      reminders_none_upcoming: "Nothing scheduled yet.",
+      reminder_day_body:
+        "Day {{day}} of {{total}} — tap to pray today's prayers.",
+      reminder_starts_tomorrow_body: "Starts tomorrow ({{date}}).",
+      reminder_channel_name: "Novena reminders",
 
       // liturgical
       liturgical: "Liturgical",
       no_liturgical_observance_found:
         "No liturgical observance found for this date.",
+      liturgical_season_week: "{{season}}, week {{week}}",
+      liturgical_psalter_week: "Psalter week {{week}}",
+      liturgical_color: "Color: {{color}}",
+      liturgical_status_optional: "optional",
+      liturgical_status_commemorated: "commemoration",
+      liturgical_status_suppressed: "not celebrated this year",
+      liturgical_transferred_to: "transferred to {{date}}",
+      liturgical_transferred_from: "transferred from {{date}}",
+      liturgical_proper: "national calendar",
+      national_calendar_today: "In your national calendar",
+      traditional_calendar_today: "In the 1962 calendar",
+
+      // lectionary
+      lectionary_cycles: "Sunday cycle {{sunday}} · Weekday cycle {{weekday}}",
+      readings_title: "Readings",
+      reading_first: "First Reading",
+      reading_psalm: "Responsorial Psalm",
+      reading_second: "Second Reading",
+      reading_gospel: "Gospel",
+      readings_not_bundled: "Readings for this day are not included offline.",
+
+      // day detail
+      day_title: "Day",
+      day_open: "Open full day",
+      day_invalid: "This date could not be opened.",
+      day_unavailable: "This date is not available.",
+      day_previous: "Previous day",
+      day_next: "Next day",
+      day_swipe_hint: "Swipe left or right for the next or previous day.",
+
+      // search
+      search_title: "Search",
+      search_placeholder: "Saints, novenas, feasts…",
+      search_hint: "Type a name — accents and small typos are fine.",
+      search_no_results: "Nothing found for “{{query}}”.",
+      search_kind_saint: "Saint",
+      search_kind_novena: "Novena",
+      search_kind_feast: "Feast",
+
+      // intentions
+      intentions_title: "Pray for…",
+      intentions_open: "Find a saint or novena for an intention",
+      intentions_hint:
+        "Choose an intention to see the saints and novenas traditionally prayed for it.",
+      intentions_no_saints: "No patron saints listed yet.",
+      intentions_no_novenas: "No novenas listed yet.",
+      intention_illness: "Illness",
+      intention_cancer: "Cancer",
+      intention_mental_health: "Mental health",
+      intention_fertility: "Fertility",
+      intention_pregnancy: "Pregnancy & childbirth",
+      intention_children: "Children",
+      intention_family: "Family",
+      intention_marriage: "Marriage",
+      intention_vocation: "Vocation",
+      intention_work: "Work & employment",
+      intention_exams: "Students & exams",
+      intention_travel: "Travel",
+      intention_lost_items: "Lost items",
+      intention_impossible_causes: "Impossible causes",
+      intention_conversion: "Conversion",
+      intention_addiction: "Addiction",
+      intention_protection: "Protection",
+      intention_death: "A holy death & the departed",
+
+      // calendar profile
+      calendar_profile: "Calendar",
+      calendar_profile_hint:
+        "Sets national feasts and whether Epiphany, Ascension and Corpus Christi move to Sunday, or switches to the 1962 Missal calendar.",
+      calendar_profile_general: "General Roman Calendar",
+      calendar_profile_usa: "United States",
+      calendar_profile_poland: "Poland",
+      calendar_profile_philippines: "Philippines",
+      calendar_profile_mexico: "Mexico",
+      calendar_profile_traditional: "1962 Missal (Extraordinary Form)",
 
       // about
       about_subtitle:
@@ -84,6 +322,15 @@ const resources = {
       monthgrid_cancel: "Cancel",
       monthgrid_year_increase: "Increase year",
       monthgrid_year_decrease: "Decrease year",
+
+      // agenda
+      calendar_view_month: "Month",
+      calendar_view_week: "Week",
+      calendar_view_year: "Year",
+      calendar_view_agenda: "Agenda",
+      agenda_today: "Today",
+      agenda_week_of: "Week of {{date}}",
+      agenda_nothing_listed: "Nothing listed",
     },
   },
 
@@ -97,6 +344,9 @@ const resources = {
 
       home_subtitle:
         "El año litúrgico, santos y novenas de la Iglesia Católica — presentados día a día para la oración y la reflexión.",
+      today_title: "Hoy",
+      today_praying: "Novenas que estás rezando",
+      starts_tomorrow: "Empieza mañana",
 
       tabs_home: "Inicio",
       tabs_novenas: "Novenas",
@@ -105,6 +355,7 @@ const resources = {
       tabs_about: "Acerca de",
 
       close: "Cerrar",
+      share: "Compartir",
 
       saints: "Santos",
       saint_of_the_day: "Santo del día",
@@ -116,10 +367,246 @@ const resources = {
       feast_today: "Fiesta hoy",
       no_novenas_or_feasts: "No hay novenas ni fiestas en este día.",
       start_novena: "Comenzar novena",
+      novena_your_progress: "Tu progreso",
+      novena_run_dates: "{{start}} → {{end}}",
+      novena_im_praying_this: "Estoy rezando esta novena",
+      novena_stop_praying: "Dejar de rezar esta novena",
+      novena_progress_day: "Día {{day}} de {{total}}",
+      novena_progress_prayed: "{{count}} de {{total}} días rezados",
+      novena_run_not_started: "Empieza el {{date}}",
+      novena_run_finished: "Terminó el {{date}}",
+      novena_mark_prayed: "Marcar como rezado",
+      // novena filters
+      filter_clear: "Borrar",
+      filter_duration_nine: "9 días",
+      filter_duration_weeks: "Varias semanas",
+      filter_duration_months: "Meses",
+      filter_hidden_count: "Ocultas por los filtros: {{count}}",
+      novena_category_devotion: "Devoción",
+      novena_category_marian: "Mariana",
+      novena_category_feast: "Fiesta",
+      novena_category_saint: "Santo",
+      novena_category_intention: "Intención",
+
+      // calendar export
+      export_open: "Exportar .ics",
+      export_title: "Exportar calendario",
+      export_hint:
+        "Crea un archivo .ics con cada fecha de inicio de novena, para Google Calendar, Apple Calendar, Outlook y otros. Si lo importas de nuevo, se actualizan los mismos eventos.",
+      export_from_year: "Desde",
+      export_to_year: "Hasta",
+      export_include_feasts: "Incluir fiestas móviles (Pascua, Pentecostés…)",
+      export_use_filters: "Solo las novenas que coinciden con mis filtros",
+      export_summary: "{{novenas}} inicios de novena · {{feasts}} fiestas",
+      export_share: "Compartir archivo .ics",
+      export_failed: "No se pudo crear el archivo. Inténtalo de nuevo.",
+      ics_calendar_name: "Novenas {{years}}",
+      ics_novena_begins: "Comienza: {{title}} ({{days}} días)",
+      ics_novena_days:
+        "Día 1 de {{days}}. Reza cada día hasta el {{feast}} (día {{days}}).",
+      ics_novena_prayers: "Oraciones: {{url}}",
+      ics_feast_description: "{{rank}} · color litúrgico: {{color}}",
+
+      // device calendar
+      calendar_add: "Añadir a mi calendario",
+      calendar_remove: "Quitar de mi calendario",
+      calendar_add_failed:
+        "No se pudo actualizar tu calendario. Revisa el acceso al calendario en Ajustes.",
+      calendar_event_day: "Día {{day}} de {{total}}",
+      calendar_name: "Novenas",
+      novena_prayed: "Rezado ✓",
+
+      // data issues
+      about_data_issues: "Problemas de datos",
+      data_issues_title: "Problemas de datos",
+      data_issues_hint:
+        "Problemas encontrados al calcular las fechas de las novenas para {{from}}–{{to}} con tu perfil de calendario. Las novenas con errores no aparecen en el calendario esos años.",
+      data_issues_none: "No se encontraron problemas.",
+      data_issues_errors: "Errores ({{count}})",
+      data_issues_warnings: "Avisos ({{count}})",
+      data_issues_years: "Años: {{years}}",
+      data_issues_show_all: "Ver todo",
+
+      // why these dates (utils/novenaTrace.ts)
+      novena_why_dates: "¿Por qué estas fechas?",
+      trace_feast_title: "Día de la fiesta",
+      trace_start_title: "Primer día",
+      trace_fixed: "Fecha fija: {{date}}",
+      trace_anchor: "{{anchor}} cae el {{date}}",
+      trace_offset_after: "{{days}} días después: {{date}}",
+      trace_offset_before: "{{days}} días antes: {{date}}",
+      trace_weekday_kept: "Ya es {{weekday}}",
+      trace_weekday_after: "Se pasa al {{weekday}} siguiente: {{date}}",
+      trace_weekday_before: "Se pasa al {{weekday}} anterior: {{date}}",
+      trace_next_weekday: "El {{weekday}} siguiente: {{date}}",
+      trace_nth_weekday: "{{weekday}} número {{n}} a partir de ahí: {{date}}",
+      trace_days_before:
+        "Contando {{days}} días hacia atrás, incluido ese día: {{date}}",
+      trace_year_rollover:
+        "Quedaría después de la fiesta, así que es la del año anterior: {{date}}",
+      trace_weekly: "Cada {{weekday}}; esta vez, el {{date}}",
+      trace_monthly: "El día {{day}} de cada mes; esta vez, el {{date}}",
+      trace_first_weekday_of_month:
+        "El primer {{weekday}} de cada mes; esta vez, el {{date}}",
+      trace_last_weekday_of_month:
+        "El último {{weekday}} de cada mes; esta vez, el {{date}}",
+      trace_nth_weekday_of_month:
+        "{{weekday}} número {{n}} de cada mes; esta vez, el {{date}}",
+      trace_from_duration:
+        "Una novena de {{days}} días que termina en la fiesta empieza el {{date}}",
+      trace_hint_intro:
+        "La fuente de la novena también indica una fecha de inicio:",
+      trace_hint_accepted: "La fecha de inicio indicada coincide ✓",
+      trace_hint_overridden:
+        "La fecha de inicio indicada ({{hinted}}) no encaja con la fiesta y la duración, así que se usa {{date}}",
+      trace_hint_unusable:
+        "No se pudo calcular la fecha de inicio indicada, así que se usa {{date}}",
+
+      // rule anchors (feasts novena dates are counted from)
+      anchor_easter: "Domingo de Pascua",
+      anchor_ash_wednesday: "Miércoles de Ceniza",
+      anchor_shrove_tuesday: "Martes de Carnaval",
+      anchor_palm_sunday: "Domingo de Ramos",
+      anchor_holy_thursday: "Jueves Santo",
+      anchor_good_friday: "Viernes Santo",
+      anchor_holy_saturday: "Sábado Santo",
+      anchor_divine_mercy_sunday: "Domingo de la Divina Misericordia",
+      anchor_ascension: "La Ascensión",
+      anchor_ascension_thursday: "Jueves de la Ascensión",
+      anchor_ascension_sunday: "Ascensión (domingo)",
+      anchor_pentecost: "Pentecostés",
+      anchor_trinity_sunday: "Domingo de la Santísima Trinidad",
+      anchor_corpus_christi: "Corpus Christi",
+      anchor_corpus_christi_thursday: "Corpus Christi (jueves)",
+      anchor_corpus_christi_sunday: "Corpus Christi (domingo)",
+      anchor_sacred_heart: "El Sagrado Corazón de Jesús",
+      anchor_immaculate_heart: "El Inmaculado Corazón de María",
+      anchor_christmas: "Navidad",
+      anchor_christmas_eve: "Nochebuena",
+      anchor_mary_mother_of_god: "Santa María, Madre de Dios",
+      anchor_new_years_eve: "Nochevieja",
+      anchor_epiphany: "La Epifanía",
+      anchor_baptism_of_the_lord: "El Bautismo del Señor",
+      anchor_holy_family: "La Sagrada Familia",
+      anchor_advent_1: "El primer domingo de Adviento",
+      anchor_christ_king: "Cristo Rey",
+      anchor_st_joseph: "San José",
+      anchor_annunciation: "La Anunciación",
+      anchor_assumption: "La Asunción",
+      anchor_all_saints: "Todos los Santos",
+      anchor_immaculate_conception: "La Inmaculada Concepción",
+      anchor_our_lady_of_czestochowa: "Nuestra Señora de Częstochowa",
+      anchor_our_lady_of_guadalupe: "Nuestra Señora de Guadalupe",
+      data_issues_off_by_one:
+        "{{count}} novenas indican una fecha de inicio un día antes de la calculada a partir de la fiesta; se usa la fecha calculada.",
+
+      novena_star: "Marcar esta novena",
+      novena_unstar: "Quitar marca",
+      reminders_title: "Recordatorios",
+      reminders_unsupported:
+        "Los recordatorios solo están disponibles en las apps de iOS y Android.",
+      reminders_daily: "Recordatorios diarios",
+      reminders_daily_desc:
+        "Una notificación para cada día de las novenas que estás rezando.",
+      reminders_permission_denied:
+        "Las notificaciones están desactivadas para esta app. Actívalas en los ajustes del sistema.",
+      reminders_time: "Hora del recordatorio",
+      reminders_time_earlier: "Más temprano",
+      reminders_time_later: "Más tarde",
+      reminders_starts_tomorrow: "Novenas marcadas: empieza mañana",
+      reminders_starts_tomorrow_desc:
+        "Un aviso el día antes de que comience una novena marcada.",
+      reminders_starred: "Novenas marcadas",
+      reminders_no_starred:
+        "Marca una novena desde su página para recibir un aviso antes de que empiece.",
+      reminders_upcoming: "Próximos recordatorios",
+      reminders_none_upcoming: "Aún no hay nada programado.",
+      reminder_day_body:
+        "Día {{day}} de {{total}} — toca para rezar las oraciones de hoy.",
+      reminder_starts_tomorrow_body: "Empieza mañana ({{date}}).",
+      reminder_channel_name: "Recordatorios de novenas",
 
       liturgical: "Litúrgico",
       no_liturgical_observance_found:
         "No se encontró una celebración litúrgica para esta fecha.",
+      liturgical_season_week: "{{season}}, semana {{week}}",
+      liturgical_psalter_week: "Semana del salterio {{week}}",
+      liturgical_color: "Color: {{color}}",
+      liturgical_status_optional: "opcional",
+      liturgical_status_commemorated: "conmemoración",
+      liturgical_status_suppressed: "no se celebra este año",
+      liturgical_transferred_to: "trasladada al {{date}}",
+      liturgical_transferred_from: "trasladada del {{date}}",
+      liturgical_proper: "calendario nacional",
+      national_calendar_today: "En tu calendario nacional",
+      traditional_calendar_today: "En el calendario de 1962",
+
+      // lectionary
+      lectionary_cycles:
+        "Ciclo dominical {{sunday}} · Ciclo ferial {{weekday}}",
+      readings_title: "Lecturas",
+      reading_first: "Primera lectura",
+      reading_psalm: "Salmo responsorial",
+      reading_second: "Segunda lectura",
+      reading_gospel: "Evangelio",
+      readings_not_bundled:
+        "Las lecturas de este día no están disponibles sin conexión.",
+
+      // day detail
+      day_title: "Día",
+      day_open: "Ver el día completo",
+      day_invalid: "No se pudo abrir esta fecha.",
+      day_unavailable: "Esta fecha no está disponible.",
+      day_previous: "Día anterior",
+      day_next: "Día siguiente",
+      day_swipe_hint: "Desliza a la izquierda o derecha para cambiar de día.",
+
+      // search
+      search_title: "Buscar",
+      search_placeholder: "Santos, novenas, fiestas…",
+      search_hint:
+        "Escribe un nombre; los acentos y pequeños errores no importan.",
+      search_no_results: "No se encontró nada para «{{query}}».",
+      search_kind_saint: "Santo",
+      search_kind_novena: "Novena",
+      search_kind_feast: "Fiesta",
+
+      // intentions
+      intentions_title: "Rezar por…",
+      intentions_open: "Busca un santo o una novena para tu intención",
+      intentions_hint:
+        "Elige una intención para ver los santos y novenas que tradicionalmente se rezan por ella.",
+      intentions_no_saints: "Aún no hay santos patronos en la lista.",
+      intentions_no_novenas: "Aún no hay novenas en la lista.",
+      intention_illness: "Enfermedad",
+      intention_cancer: "Cáncer",
+      intention_mental_health: "Salud mental",
+      intention_fertility: "Fertilidad",
+      intention_pregnancy: "Embarazo y parto",
+      intention_children: "Niños",
+      intention_family: "Familia",
+      intention_marriage: "Matrimonio",
+      intention_vocation: "Vocación",
+      intention_work: "Trabajo y empleo",
+      intention_exams: "Estudiantes y exámenes",
+      intention_travel: "Viajes",
+      intention_lost_items: "Objetos perdidos",
+      intention_impossible_causes: "Causas imposibles",
+      intention_conversion: "Conversión",
+      intention_addiction: "Adicciones",
+      intention_protection: "Protección",
+      intention_death: "Buena muerte y difuntos",
+
+      // calendar profile
+      calendar_profile: "Calendario",
+      calendar_profile_hint:
+        "Define las fiestas nacionales y si la Epifanía, la Ascensión y el Corpus Christi pasan al domingo, o cambia al calendario del Misal de 1962.",
+      calendar_profile_general: "Calendario Romano General",
+      calendar_profile_usa: "Estados Unidos",
+      calendar_profile_poland: "Polonia",
+      calendar_profile_philippines: "Filipinas",
+      calendar_profile_mexico: "México",
+      calendar_profile_traditional: "Misal de 1962 (forma extraordinaria)",
 
       // about
       about_subtitle:
@@ -153,6 +640,15 @@ const resources = {
       monthgrid_cancel: "Cancelar",
       monthgrid_year_increase: "Aumentar año",
       monthgrid_year_decrease: "Disminuir año",
+
+      // agenda
+      calendar_view_month: "Mes",
+      calendar_view_week: "Semana",
+      calendar_view_year: "Año",
+      calendar_view_agenda: "Agenda",
+      agenda_today: "Hoy",
+      agenda_week_of: "Semana del {{date}}",
+      agenda_nothing_listed: "Nada programado",
     },
   },
 
@@ -166,6 +662,9 @@ const resources = {
 
       home_subtitle:
         "Rok liturgiczny, święci i nowenny Kościoła katolickiego — dzień po dniu dla modlitwy i refleksji.",
+      today_title: "Dzisiaj",
+      today_praying: "Nowenny, które odmawiasz",
+      starts_tomorrow: "Zaczyna się jutro",
 
       tabs_home: "Start",
       tabs_novenas: "Nowenny",
@@ -174,6 +673,7 @@ const resources = {
       tabs_about: "O aplikacji",
 
       close: "Zamknij",
+      share: "Udostępnij",
 
       saints: "Święci",
       saint_of_the_day: "Święty dnia",
@@ -185,10 +685,247 @@ const resources = {
       feast_today: "Święto dziś",
       no_novenas_or_feasts: "Dziś nie zaczyna się żadna nowenna ani święto.",
       start_novena: "Rozpocznij nowennę",
+      novena_your_progress: "Twój postęp",
+      novena_run_dates: "{{start}} → {{end}}",
+      novena_im_praying_this: "Odmawiam tę nowennę",
+      novena_stop_praying: "Przestań odmawiać tę nowennę",
+      novena_progress_day: "Dzień {{day}} z {{total}}",
+      novena_progress_prayed: "Odmówione dni: {{count}} z {{total}}",
+      novena_run_not_started: "Zaczyna się {{date}}",
+      novena_run_finished: "Zakończona {{date}}",
+      novena_mark_prayed: "Oznacz jako odmówione",
+      // novena filters
+      filter_clear: "Wyczyść",
+      filter_duration_nine: "9 dni",
+      filter_duration_weeks: "Kilka tygodni",
+      filter_duration_months: "Miesiące",
+      filter_hidden_count: "Ukryte przez filtry: {{count}}",
+      novena_category_devotion: "Nabożeństwo",
+      novena_category_marian: "Maryjne",
+      novena_category_feast: "Święto",
+      novena_category_saint: "Święty",
+      novena_category_intention: "Intencja",
+
+      // calendar export
+      export_open: "Eksport .ics",
+      export_title: "Eksport kalendarza",
+      export_hint:
+        "Tworzy plik .ics z datami rozpoczęcia wszystkich nowenn dla Kalendarza Google, Apple, Outlooka i innych. Ponowny import aktualizuje te same wydarzenia.",
+      export_from_year: "Od",
+      export_to_year: "Do",
+      export_include_feasts:
+        "Dołącz święta ruchome (Wielkanoc, Zesłanie Ducha Świętego…)",
+      export_use_filters: "Tylko nowenny pasujące do moich filtrów",
+      export_summary: "Początki nowenn: {{novenas}} · święta: {{feasts}}",
+      export_share: "Udostępnij plik .ics",
+      export_failed: "Nie udało się utworzyć pliku. Spróbuj ponownie.",
+      ics_calendar_name: "Nowenny {{years}}",
+      ics_novena_begins: "Początek: {{title}} ({{days}} dni)",
+      ics_novena_days:
+        "Dzień 1 z {{days}}. Módl się codziennie do {{feast}} (dzień {{days}}).",
+      ics_novena_prayers: "Modlitwy: {{url}}",
+      ics_feast_description: "{{rank}} · kolor liturgiczny: {{color}}",
+
+      // device calendar
+      calendar_add: "Dodaj do mojego kalendarza",
+      calendar_remove: "Usuń z mojego kalendarza",
+      calendar_add_failed:
+        "Nie udało się zaktualizować kalendarza. Sprawdź dostęp do kalendarza w Ustawieniach.",
+      calendar_event_day: "Dzień {{day}} z {{total}}",
+      calendar_name: "Nowenny",
+      novena_prayed: "Odmówione ✓",
+
+      // data issues
+      about_data_issues: "Problemy z danymi",
+      data_issues_title: "Problemy z danymi",
+      data_issues_hint:
+        "Problemy wykryte przy wyznaczaniu dat nowenn na lata {{from}}–{{to}} według Twojego profilu kalendarza. Nowenny z błędami nie pojawiają się w kalendarzu w tych latach.",
+      data_issues_none: "Nie znaleziono problemów.",
+      data_issues_errors: "Błędy ({{count}})",
+      data_issues_warnings: "Ostrzeżenia ({{count}})",
+      data_issues_years: "Lata: {{years}}",
+      data_issues_show_all: "Pokaż wszystko",
+
+      // why these dates (utils/novenaTrace.ts)
+      novena_why_dates: "Skąd te daty?",
+      trace_feast_title: "Dzień święta",
+      trace_start_title: "Pierwszy dzień",
+      trace_fixed: "Stała data: {{date}}",
+      trace_anchor: "{{anchor}} przypada {{date}}",
+      trace_offset_after: "{{days}} dni później: {{date}}",
+      trace_offset_before: "{{days}} dni wcześniej: {{date}}",
+      trace_weekday_kept: "To już jest {{weekday}}",
+      trace_weekday_after:
+        "Przesunięte na następny dzień: {{weekday}}, {{date}}",
+      trace_weekday_before:
+        "Przesunięte na poprzedni dzień: {{weekday}}, {{date}}",
+      trace_next_weekday: "Najbliższy dzień {{weekday}} po nim: {{date}}",
+      trace_nth_weekday: "{{n}}. dzień {{weekday}} po nim: {{date}}",
+      trace_days_before:
+        "Licząc {{days}} dni wstecz, razem z tym dniem: {{date}}",
+      trace_year_rollover:
+        "Wypadłoby po święcie, więc to data z poprzedniego roku: {{date}}",
+      trace_weekly: "Co tydzień: {{weekday}}; tym razem {{date}}",
+      trace_monthly: "{{day}}. dzień każdego miesiąca; tym razem {{date}}",
+      trace_first_weekday_of_month:
+        "Pierwszy dzień „{{weekday}}” każdego miesiąca; tym razem {{date}}",
+      trace_last_weekday_of_month:
+        "Ostatni dzień „{{weekday}}” każdego miesiąca; tym razem {{date}}",
+      trace_nth_weekday_of_month:
+        "{{n}}. dzień „{{weekday}}” każdego miesiąca; tym razem {{date}}",
+      trace_from_duration:
+        "{{days}}-dniowa nowenna kończąca się w święto zaczyna się {{date}}",
+      trace_hint_intro: "Źródło nowenny podaje też datę rozpoczęcia:",
+      trace_hint_accepted: "Podana data rozpoczęcia się zgadza ✓",
+      trace_hint_overridden:
+        "Podana data rozpoczęcia ({{hinted}}) nie pasuje do święta i długości, więc używana jest {{date}}",
+      trace_hint_unusable:
+        "Nie udało się wyznaczyć podanej daty rozpoczęcia, więc używana jest {{date}}",
+
+      // rule anchors (feasts novena dates are counted from)
+      anchor_easter: "Niedziela Wielkanocna",
+      anchor_ash_wednesday: "Środa Popielcowa",
+      anchor_shrove_tuesday: "Ostatki",
+      anchor_palm_sunday: "Niedziela Palmowa",
+      anchor_holy_thursday: "Wielki Czwartek",
+      anchor_good_friday: "Wielki Piątek",
+      anchor_holy_saturday: "Wielka Sobota",
+      anchor_divine_mercy_sunday: "Niedziela Miłosierdzia Bożego",
+      anchor_ascension: "Wniebowstąpienie Pańskie",
+      anchor_ascension_thursday: "Wniebowstąpienie (czwartek)",
+      anchor_ascension_sunday: "Wniebowstąpienie (niedziela)",
+      anchor_pentecost: "Zesłanie Ducha Świętego",
+      anchor_trinity_sunday: "Niedziela Trójcy Przenajświętszej",
+      anchor_corpus_christi: "Boże Ciało",
+      anchor_corpus_christi_thursday: "Boże Ciało (czwartek)",
+      anchor_corpus_christi_sunday: "Boże Ciało (niedziela)",
+      anchor_sacred_heart: "Najświętsze Serce Pana Jezusa",
+      anchor_immaculate_heart: "Niepokalane Serce Najświętszej Maryi Panny",
+      anchor_christmas: "Boże Narodzenie",
+      anchor_christmas_eve: "Wigilia Bożego Narodzenia",
+      anchor_mary_mother_of_god: "Świętej Bożej Rodzicielki Maryi",
+      anchor_new_years_eve: "Sylwester",
+      anchor_epiphany: "Objawienie Pańskie",
+      anchor_baptism_of_the_lord: "Chrzest Pański",
+      anchor_holy_family: "Święta Rodzina",
+      anchor_advent_1: "Pierwsza Niedziela Adwentu",
+      anchor_christ_king: "Chrystus Król",
+      anchor_st_joseph: "Święty Józef",
+      anchor_annunciation: "Zwiastowanie Pańskie",
+      anchor_assumption: "Wniebowzięcie NMP",
+      anchor_all_saints: "Wszystkich Świętych",
+      anchor_immaculate_conception: "Niepokalane Poczęcie NMP",
+      anchor_our_lady_of_czestochowa: "Matka Boża Częstochowska",
+      anchor_our_lady_of_guadalupe: "Matka Boża z Guadalupe",
+      data_issues_off_by_one:
+        "{{count}} nowenn podaje datę rozpoczęcia o dzień wcześniejszą niż wyliczona od święta; używana jest data wyliczona.",
+
+      novena_star: "Oznacz tę nowennę gwiazdką",
+      novena_unstar: "Usuń gwiazdkę",
+      reminders_title: "Przypomnienia",
+      reminders_unsupported:
+        "Przypomnienia są dostępne tylko w aplikacjach na iOS i Androida.",
+      reminders_daily: "Codzienne przypomnienia",
+      reminders_daily_desc:
+        "Powiadomienie na każdy dzień odmawianych przez Ciebie nowenn.",
+      reminders_permission_denied:
+        "Powiadomienia są wyłączone dla tej aplikacji. Włącz je w ustawieniach systemu.",
+      reminders_time: "Godzina przypomnienia",
+      reminders_time_earlier: "Wcześniej",
+      reminders_time_later: "Później",
+      reminders_starts_tomorrow: "Nowenny z gwiazdką: zaczyna się jutro",
+      reminders_starts_tomorrow_desc:
+        "Powiadomienie dzień przed rozpoczęciem nowenny z gwiazdką.",
+      reminders_starred: "Nowenny z gwiazdką",
+      reminders_no_starred:
+        "Oznacz nowennę gwiazdką na jej stronie, aby otrzymać powiadomienie przed jej rozpoczęciem.",
+      reminders_upcoming: "Nadchodzące przypomnienia",
+      reminders_none_upcoming: "Nic jeszcze nie zaplanowano.",
+      reminder_day_body:
+        "Dzień {{day}} z {{total}} — dotknij, aby odmówić dzisiejsze modlitwy.",
+      reminder_starts_tomorrow_body: "Zaczyna się jutro ({{date}}).",
+      reminder_channel_name: "Przypomnienia o nowennach",
 
       liturgical: "Liturgia",
       no_liturgical_observance_found:
         "Brak wydarzenia liturgicznego dla tej daty.",
+      liturgical_season_week: "{{season}}, tydzień {{week}}",
+      liturgical_psalter_week: "Tydzień psałterza {{week}}",
+      liturgical_color: "Kolor: {{color}}",
+      liturgical_status_optional: "dowolne",
+      liturgical_status_commemorated: "wspomnienie (komemoracja)",
+      liturgical_status_suppressed: "w tym roku nie obchodzi się",
+      liturgical_transferred_to: "przeniesione na {{date}}",
+      liturgical_transferred_from: "przeniesione z {{date}}",
+      liturgical_proper: "kalendarz krajowy",
+      national_calendar_today: "W Twoim kalendarzu krajowym",
+      traditional_calendar_today: "W kalendarzu z 1962 r.",
+
+      // lectionary
+      lectionary_cycles:
+        "Cykl niedzielny {{sunday}} · Cykl powszedni {{weekday}}",
+      readings_title: "Czytania",
+      reading_first: "Pierwsze czytanie",
+      reading_psalm: "Psalm responsoryjny",
+      reading_second: "Drugie czytanie",
+      reading_gospel: "Ewangelia",
+      readings_not_bundled: "Czytania na ten dzień nie są dostępne offline.",
+
+      // day detail
+      day_title: "Dzień",
+      day_open: "Otwórz cały dzień",
+      day_invalid: "Nie można otworzyć tej daty.",
+      day_unavailable: "Ta data jest niedostępna.",
+      day_previous: "Poprzedni dzień",
+      day_next: "Następny dzień",
+      day_swipe_hint: "Przesuń w lewo lub w prawo, aby zmienić dzień.",
+
+      // search
+      search_title: "Szukaj",
+      search_placeholder: "Święci, nowenny, święta…",
+      search_hint:
+        "Wpisz nazwę — polskie znaki i drobne literówki nie przeszkadzają.",
+      search_no_results: "Nic nie znaleziono dla „{{query}}”.",
+      search_kind_saint: "Święty",
+      search_kind_novena: "Nowenna",
+      search_kind_feast: "Święto",
+
+      // intentions
+      intentions_title: "Módl się o…",
+      intentions_open: "Znajdź świętego lub nowennę w swojej intencji",
+      intentions_hint:
+        "Wybierz intencję, aby zobaczyć świętych i nowenny, do których tradycyjnie się w niej modlimy.",
+      intentions_no_saints: "Brak jeszcze świętych patronów.",
+      intentions_no_novenas: "Brak jeszcze nowenn.",
+      intention_illness: "Choroba",
+      intention_cancer: "Nowotwór",
+      intention_mental_health: "Zdrowie psychiczne",
+      intention_fertility: "Płodność",
+      intention_pregnancy: "Ciąża i poród",
+      intention_children: "Dzieci",
+      intention_family: "Rodzina",
+      intention_marriage: "Małżeństwo",
+      intention_vocation: "Powołanie",
+      intention_work: "Praca",
+      intention_exams: "Uczniowie i egzaminy",
+      intention_travel: "Podróże",
+      intention_lost_items: "Zgubione rzeczy",
+      intention_impossible_causes: "Sprawy beznadziejne",
+      intention_conversion: "Nawrócenie",
+      intention_addiction: "Uzależnienia",
+      intention_protection: "Ochrona",
+      intention_death: "Dobra śmierć i zmarli",
+
+      // calendar profile
+      calendar_profile: "Kalendarz",
+      calendar_profile_hint:
+        "Określa święta krajowe oraz to, czy Objawienie Pańskie, Wniebowstąpienie i Boże Ciało przenosi się na niedzielę, albo przełącza na kalendarz Mszału z 1962 r.",
+      calendar_profile_general: "Ogólny Kalendarz Rzymski",
+      calendar_profile_usa: "Stany Zjednoczone",
+      calendar_profile_poland: "Polska",
+      calendar_profile_philippines: "Filipiny",
+      calendar_profile_mexico: "Meksyk",
+      calendar_profile_traditional: "Mszał z 1962 r. (forma nadzwyczajna)",
 
       // about
       about_subtitle:
@@ -223,6 +960,15 @@ const resources = {
       monthgrid_cancel: "Anuluj",
       monthgrid_year_increase: "Zwiększ rok",
       monthgrid_year_decrease: "Zmniejsz rok",
+
+      // agenda
+      calendar_view_month: "Miesiąc",
+      calendar_view_week: "Tydzień",
+      calendar_view_year: "Rok",
+      calendar_view_agenda: "Lista",
+      agenda_today: "Dziś",
+      agenda_week_of: "Tydzień od {{date}}",
+      agenda_nothing_listed: "Brak wpisów",
     },
   },
 
@@ -236,6 +982,9 @@ const resources = {
 
       home_subtitle:
         "Ang taon ng liturhiya, mga santo, at mga nobena ng Simbahang Katolika — araw-araw para sa panalangin at pagninilay.",
+      today_title: "Ngayon",
+      today_praying: "Mga nobenang dinarasal mo",
+      starts_tomorrow: "Magsisimula bukas",
 
       tabs_home: "Home",
       tabs_novenas: "Nobena",
@@ -244,6 +993,7 @@ const resources = {
       tabs_about: "Tungkol",
 
       close: "Isara",
+      share: "Ibahagi",
 
       saints: "Mga Santo",
       saint_of_the_day: "Santo ng araw",
@@ -255,10 +1005,247 @@ const resources = {
       feast_today: "Kapistahan ngayon",
       no_novenas_or_feasts: "Walang nobena o kapistahan sa araw na ito.",
       start_novena: "Simulan ang Nobena",
+      novena_your_progress: "Iyong progreso",
+      novena_run_dates: "{{start}} → {{end}}",
+      novena_im_praying_this: "Dinarasal ko ito",
+      novena_stop_praying: "Itigil ang pagdarasal ng nobenang ito",
+      novena_progress_day: "Araw {{day}} ng {{total}}",
+      novena_progress_prayed: "{{count}} sa {{total}} araw ang nadasal",
+      novena_run_not_started: "Magsisimula sa {{date}}",
+      novena_run_finished: "Natapos noong {{date}}",
+      novena_mark_prayed: "Markahan bilang nadasal",
+      // novena filters
+      filter_clear: "I-clear",
+      filter_duration_nine: "9 araw",
+      filter_duration_weeks: "Ilang linggo",
+      filter_duration_months: "Ilang buwan",
+      filter_hidden_count: "Nakatago dahil sa filter: {{count}}",
+      novena_category_devotion: "Debosyon",
+      novena_category_marian: "Kay Maria",
+      novena_category_feast: "Kapistahan",
+      novena_category_saint: "Santo",
+      novena_category_intention: "Intensyon",
+
+      // calendar export
+      export_open: "I-export ang .ics",
+      export_title: "I-export ang kalendaryo",
+      export_hint:
+        "Gumagawa ng .ics file ng bawat petsa ng pagsisimula ng nobena para sa Google Calendar, Apple Calendar, Outlook at iba pa. Kapag in-import muli, ina-update ang parehong mga event.",
+      export_from_year: "Mula",
+      export_to_year: "Hanggang",
+      export_include_feasts:
+        "Isama ang mga nagagalaw na kapistahan (Pasko ng Pagkabuhay, Pentekostes…)",
+      export_use_filters: "Mga nobenang tugma lang sa aking filter",
+      export_summary: "{{novenas}} simula ng nobena · {{feasts}} kapistahan",
+      export_share: "Ibahagi ang .ics file",
+      export_failed: "Hindi nagawa ang file. Pakisubukang muli.",
+      ics_calendar_name: "Mga Nobena {{years}}",
+      ics_novena_begins: "Simula: {{title}} ({{days}} araw)",
+      ics_novena_days:
+        "Araw 1 ng {{days}}. Manalangin araw-araw hanggang {{feast}} (araw {{days}}).",
+      ics_novena_prayers: "Mga panalangin: {{url}}",
+      ics_feast_description: "{{rank}} · kulay liturhikal: {{color}}",
+
+      // device calendar
+      calendar_add: "Idagdag sa aking kalendaryo",
+      calendar_remove: "Alisin sa aking kalendaryo",
+      calendar_add_failed:
+        "Hindi na-update ang iyong kalendaryo. Tingnan ang access sa kalendaryo sa Settings.",
+      calendar_event_day: "Araw {{day}} ng {{total}}",
+      calendar_name: "Mga Nobena",
+      novena_prayed: "Nadasal ✓",
+
+      // data issues
+      about_data_issues: "Mga problema sa datos",
+      data_issues_title: "Mga problema sa datos",
+      data_issues_hint:
+        "Mga problemang nakita habang kinukuwenta ang mga petsa ng nobena para sa {{from}}–{{to}} gamit ang iyong calendar profile. Ang mga nobenang may error ay wala sa kalendaryo sa mga taong iyon.",
+      data_issues_none: "Walang nakitang problema.",
+      data_issues_errors: "Mga error ({{count}})",
+      data_issues_warnings: "Mga babala ({{count}})",
+      data_issues_years: "Mga taon: {{years}}",
+      data_issues_show_all: "Ipakita lahat",
+
+      // why these dates (utils/novenaTrace.ts)
+      novena_why_dates: "Bakit ang mga petsang ito?",
+      trace_feast_title: "Araw ng kapistahan",
+      trace_start_title: "Unang araw",
+      trace_fixed: "Takdang petsa: {{date}}",
+      trace_anchor: "Ang {{anchor}} ay sa {{date}}",
+      trace_offset_after: "{{days}} araw pagkatapos: {{date}}",
+      trace_offset_before: "{{days}} araw bago nito: {{date}}",
+      trace_weekday_kept: "{{weekday}} na ito",
+      trace_weekday_after: "Inilipat sa kasunod na {{weekday}}: {{date}}",
+      trace_weekday_before: "Inilipat sa naunang {{weekday}}: {{date}}",
+      trace_next_weekday: "Ang kasunod na {{weekday}}: {{date}}",
+      trace_nth_weekday: "Ika-{{n}} na {{weekday}} pagkatapos nito: {{date}}",
+      trace_days_before:
+        "Pagbilang ng {{days}} araw pabalik, kasama ang araw na iyon: {{date}}",
+      trace_year_rollover:
+        "Lalampas ito sa kapistahan, kaya ang sa nakaraang taon: {{date}}",
+      trace_weekly: "Tuwing {{weekday}}; ngayon ay {{date}}",
+      trace_monthly: "Ika-{{day}} na araw ng bawat buwan; ngayon ay {{date}}",
+      trace_first_weekday_of_month:
+        "Unang {{weekday}} ng bawat buwan; ngayon ay {{date}}",
+      trace_last_weekday_of_month:
+        "Huling {{weekday}} ng bawat buwan; ngayon ay {{date}}",
+      trace_nth_weekday_of_month:
+        "Ika-{{n}} na {{weekday}} ng bawat buwan; ngayon ay {{date}}",
+      trace_from_duration:
+        "Ang {{days}}-araw na nobenang nagtatapos sa kapistahan ay magsisimula sa {{date}}",
+      trace_hint_intro:
+        "May nakalista ring petsa ng simula ang pinagmulan ng nobena:",
+      trace_hint_accepted: "Tugma ang nakalistang petsa ng simula ✓",
+      trace_hint_overridden:
+        "Hindi tugma sa kapistahan at haba ang nakalistang petsa ({{hinted}}), kaya {{date}} ang ginagamit",
+      trace_hint_unusable:
+        "Hindi makuwenta ang nakalistang petsa ng simula, kaya {{date}} ang ginagamit",
+
+      // rule anchors (feasts novena dates are counted from)
+      anchor_easter: "Linggo ng Pagkabuhay",
+      anchor_ash_wednesday: "Miyerkules ng Abo",
+      anchor_shrove_tuesday: "Martes bago ang Kuwaresma",
+      anchor_palm_sunday: "Linggo ng Palaspas",
+      anchor_holy_thursday: "Huwebes Santo",
+      anchor_good_friday: "Biyernes Santo",
+      anchor_holy_saturday: "Sabado de Gloria",
+      anchor_divine_mercy_sunday: "Linggo ng Banal na Awa",
+      anchor_ascension: "Pag-akyat sa Langit",
+      anchor_ascension_thursday: "Pag-akyat sa Langit (Huwebes)",
+      anchor_ascension_sunday: "Pag-akyat sa Langit (Linggo)",
+      anchor_pentecost: "Pentekostes",
+      anchor_trinity_sunday: "Linggo ng Banal na Santatlo",
+      anchor_corpus_christi: "Corpus Christi",
+      anchor_corpus_christi_thursday: "Corpus Christi (Huwebes)",
+      anchor_corpus_christi_sunday: "Corpus Christi (Linggo)",
+      anchor_sacred_heart: "Kamahal-mahalang Puso ni Hesus",
+      anchor_immaculate_heart: "Kalinis-linisang Puso ni Maria",
+      anchor_christmas: "Pasko",
+      anchor_christmas_eve: "Bisperas ng Pasko",
+      anchor_mary_mother_of_god: "Santa Maria, Ina ng Diyos",
+      anchor_new_years_eve: "Bisperas ng Bagong Taon",
+      anchor_epiphany: "Epipanya",
+      anchor_baptism_of_the_lord: "Pagbibinyag sa Panginoon",
+      anchor_holy_family: "Banal na Mag-anak",
+      anchor_advent_1: "Unang Linggo ng Adbiyento",
+      anchor_christ_king: "Kristong Hari",
+      anchor_st_joseph: "San Jose",
+      anchor_annunciation: "Pagbati ng Anghel",
+      anchor_assumption: "Pag-akyat kay Maria sa Langit",
+      anchor_all_saints: "Todos los Santos",
+      anchor_immaculate_conception: "Kalinis-linisang Paglilihi",
+      anchor_our_lady_of_czestochowa: "Mahal na Birhen ng Częstochowa",
+      anchor_our_lady_of_guadalupe: "Mahal na Birhen ng Guadalupe",
+      data_issues_off_by_one:
+        "{{count}} nobena ang may petsa ng simula na isang araw bago ang nakuwenta mula sa kapistahan; ang nakuwentang petsa ang ginagamit.",
+
+      novena_star: "Lagyan ng bituin ang nobenang ito",
+      novena_unstar: "Alisin ang bituin",
+      reminders_title: "Mga Paalala",
+      reminders_unsupported:
+        "Ang mga paalala ay available lamang sa iOS at Android na app.",
+      reminders_daily: "Araw-araw na paalala",
+      reminders_daily_desc:
+        "Isang notification sa bawat araw ng mga nobenang dinarasal mo.",
+      reminders_permission_denied:
+        "Naka-off ang notifications para sa app na ito. I-on ito sa system settings.",
+      reminders_time: "Oras ng paalala",
+      reminders_time_earlier: "Mas maaga",
+      reminders_time_later: "Mas huli",
+      reminders_starts_tomorrow: "Mga nobenang may bituin: magsisimula bukas",
+      reminders_starts_tomorrow_desc:
+        "Paalala sa araw bago magsimula ang nobenang may bituin.",
+      reminders_starred: "Mga nobenang may bituin",
+      reminders_no_starred:
+        "Lagyan ng bituin ang isang nobena sa pahina nito para mapaalalahanan bago ito magsimula.",
+      reminders_upcoming: "Mga susunod na paalala",
+      reminders_none_upcoming: "Wala pang naka-iskedyul.",
+      reminder_day_body:
+        "Araw {{day}} ng {{total}} — i-tap para idasal ang mga panalangin ngayon.",
+      reminder_starts_tomorrow_body: "Magsisimula bukas ({{date}}).",
+      reminder_channel_name: "Mga paalala sa nobena",
 
       liturgical: "Liturhiya",
       no_liturgical_observance_found:
         "Walang liturgical na pagdiriwang para sa petsang ito.",
+      liturgical_season_week: "{{season}}, ika-{{week}} na linggo",
+      liturgical_psalter_week: "Linggo ng salterio {{week}}",
+      liturgical_color: "Kulay: {{color}}",
+      liturgical_status_optional: "opsyonal",
+      liturgical_status_commemorated: "paggunita",
+      liturgical_status_suppressed: "hindi ipagdiriwang ngayong taon",
+      liturgical_transferred_to: "inilipat sa {{date}}",
+      liturgical_transferred_from: "inilipat mula {{date}}",
+      liturgical_proper: "pambansang kalendaryo",
+      national_calendar_today: "Sa iyong pambansang kalendaryo",
+      traditional_calendar_today: "Sa kalendaryo ng 1962",
+
+      // lectionary
+      lectionary_cycles:
+        "Siklo ng Linggo {{sunday}} · Siklo ng karaniwang araw {{weekday}}",
+      readings_title: "Mga Pagbasa",
+      reading_first: "Unang Pagbasa",
+      reading_psalm: "Salmong Tugunan",
+      reading_second: "Ikalawang Pagbasa",
+      reading_gospel: "Ebanghelyo",
+      readings_not_bundled:
+        "Hindi kasama offline ang mga pagbasa para sa araw na ito.",
+
+      // day detail
+      day_title: "Araw",
+      day_open: "Buksan ang buong araw",
+      day_invalid: "Hindi mabuksan ang petsang ito.",
+      day_unavailable: "Hindi magagamit ang petsang ito.",
+      day_previous: "Nakaraang araw",
+      day_next: "Susunod na araw",
+      day_swipe_hint: "Mag-swipe pakaliwa o pakanan para lumipat ng araw.",
+
+      // search
+      search_title: "Maghanap",
+      search_placeholder: "Mga santo, nobena, kapistahan…",
+      search_hint:
+        "Mag-type ng pangalan — ayos lang ang accent at maliliit na mali.",
+      search_no_results: "Walang nahanap para sa “{{query}}”.",
+      search_kind_saint: "Santo",
+      search_kind_novena: "Nobena",
+      search_kind_feast: "Kapistahan",
+
+      // intentions
+      intentions_title: "Ipanalangin ang…",
+      intentions_open: "Maghanap ng santo o nobena para sa iyong intensyon",
+      intentions_hint:
+        "Pumili ng intensyon para makita ang mga santo at nobenang karaniwang dinarasal para dito.",
+      intentions_no_saints: "Wala pang nakalistang patron.",
+      intentions_no_novenas: "Wala pang nakalistang nobena.",
+      intention_illness: "Karamdaman",
+      intention_cancer: "Kanser",
+      intention_mental_health: "Kalusugang pangkaisipan",
+      intention_fertility: "Pagkakaroon ng anak",
+      intention_pregnancy: "Pagbubuntis at panganganak",
+      intention_children: "Mga bata",
+      intention_family: "Pamilya",
+      intention_marriage: "Pag-aasawa",
+      intention_vocation: "Bokasyon",
+      intention_work: "Trabaho",
+      intention_exams: "Mga estudyante at pagsusulit",
+      intention_travel: "Paglalakbay",
+      intention_lost_items: "Nawawalang bagay",
+      intention_impossible_causes: "Mga imposibleng kahilingan",
+      intention_conversion: "Pagbabalik-loob",
+      intention_addiction: "Pagkagumon",
+      intention_protection: "Proteksyon",
+      intention_death: "Mabuting kamatayan at mga yumao",
+
+      // calendar profile
+      calendar_profile: "Kalendaryo",
+      calendar_profile_hint:
+        "Itinatakda ang mga pambansang kapistahan at kung ililipat sa Linggo ang Epipanya, Pag-akyat sa Langit at Corpus Christi, o lumilipat sa kalendaryo ng Misal ng 1962.",
+      calendar_profile_general: "Pangkalahatang Kalendaryong Romano",
+      calendar_profile_usa: "Estados Unidos",
+      calendar_profile_poland: "Poland",
+      calendar_profile_philippines: "Pilipinas",
+      calendar_profile_mexico: "Mexico",
+      calendar_profile_traditional: "Misal ng 1962 (Extraordinary Form)",
 
       // about
       about_subtitle:
@@ -294,6 +1281,15 @@ const resources = {
       monthgrid_cancel: "Kanselahin",
       monthgrid_year_increase: "Dagdagan ang taon",
       monthgrid_year_decrease: "Bawasan ang taon",
+
+      // agenda
+      calendar_view_month: "Buwan",
+      calendar_view_week: "Linggo",
+      calendar_view_year: "Taon",
+      calendar_view_agenda: "Listahan",
+      agenda_today: "Ngayon",
+      agenda_week_of: "Linggo ng {{date}}",
+      agenda_nothing_listed: "Walang nakalista",
     },
   },
 } as const;
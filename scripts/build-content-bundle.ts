@@ -0,0 +1,124 @@
+// scripts/build-content-bundle.ts
+//
+// Builds the versioned content bundle (see utils/contentBundle.ts) from the
+// docs the app bakes in (the ids in data/saintsManifest.ts and
+// data/novenasManifest.ts).
+//
+// Writes:
+//   data/content_manifest.json     baked manifest, bundled with the app
+//   dist/content/manifest.json     the bundle to upload (same manifest)
+//   dist/content/saints/<id>.json
+//   dist/content/novenas/<id>.json
+//
+// The version goes up by one whenever any doc hash changed, so fix the
+// JSON, run this, upload dist/content, and installed apps pick it up.
+// Ship an app release after the same run and the fix becomes baked-in.
+//
+// Run:
+//   npx tsx scripts/build-content-bundle.ts [--out dist/content]
+//
+
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  CONTENT_BUNDLE_FORMAT,
+  contentDocPath,
+  contentHash,
+  parseContentManifest,
+  type ContentManifest,
+} from "../utils/contentBundle";
+import { CONTENT_KINDS, type ContentKind } from "../data/contentOverrides";
+
+const MANIFEST_SOURCES: Record<ContentKind, string> = {
+  saints: "saintsManifest.ts",
+  novenas: "novenasManifest.ts",
+};
+
+function argValue(name: string): string | null {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? (process.argv[i + 1] ?? null) : null;
+}
+
+/** Ids that the generated manifest require()s, in manifest order. */
+function bakedIds(dataDir: string, kind: ContentKind): string[] {
+  const src = fs.readFileSync(
+    path.join(dataDir, MANIFEST_SOURCES[kind]),
+    "utf8",
+  );
+  const re = new RegExp(`require\\("\\./${kind}/([^"]+)\\.json"\\)`, "g");
+  return [...src.matchAll(re)].map((m) => m[1]);
+}
+
+function readPrevious(file: string): ContentManifest | null {
+  if (!fs.existsSync(file)) return null;
+  return parseContentManifest(JSON.parse(fs.readFileSync(file, "utf8")));
+}
+
+function sameDocs(a: ContentManifest["docs"], b: ContentManifest["docs"]) {
+  return CONTENT_KINDS.every(
+    (kind) => JSON.stringify(a[kind]) === JSON.stringify(b[kind]),
+  );
+}
+
+function safeAtomicWrite(outPath: string, contents: string) {
+  const tmpPath = outPath + ".tmp";
+  fs.writeFileSync(tmpPath, contents, "utf8");
+  fs.renameSync(tmpPath, outPath);
+}
+
+function main() {
+  const root = process.cwd();
+  const dataDir = path.join(root, "data");
+  const bakedOut = path.join(dataDir, "content_manifest.json");
+  const outDir = path.resolve(root, argValue("--out") ?? "dist/content");
+
+  const docs = { saints: {}, novenas: {} } as ContentManifest["docs"];
+  const texts: { kind: ContentKind; id: string; text: string }[] = [];
+  for (const kind of CONTENT_KINDS) {
+    for (const id of bakedIds(dataDir, kind)) {
+      const text = fs.readFileSync(
+        path.join(dataDir, kind, `${id}.json`),
+        "utf8",
+      );
+      docs[kind][id] = contentHash(text);
+      texts.push({ kind, id, text });
+    }
+  }
+
+  const previous = readPrevious(bakedOut);
+  const version = !previous
+    ? 1
+    : sameDocs(previous.docs, docs)
+      ? previous.version
+      : previous.version + 1;
+  const manifest: ContentManifest = {
+    format: CONTENT_BUNDLE_FORMAT,
+    version,
+    docs,
+  };
+  const manifestText = JSON.stringify(manifest, null, 2) + "\n";
+
+  safeAtomicWrite(bakedOut, manifestText);
+
+  fs.rmSync(outDir, { recursive: true, force: true });
+  for (const kind of CONTENT_KINDS) {
+    fs.mkdirSync(path.join(outDir, kind), { recursive: true });
+  }
+  for (const t of texts) {
+    fs.writeFileSync(
+      path.join(outDir, contentDocPath(t.kind, t.id)),
+      t.text,
+      "utf8",
+    );
+  }
+  fs.writeFileSync(path.join(outDir, "manifest.json"), manifestText, "utf8");
+
+  console.log("Wrote:", bakedOut, `version=${version}`);
+  console.log("Wrote:", outDir);
+  console.log(
+    `Docs: saints=${Object.keys(docs.saints).length} novenas=${Object.keys(docs.novenas).length}`,
+  );
+}
+
+main();
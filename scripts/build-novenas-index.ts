@@ -3,39 +3,18 @@ import * as fs from "fs";
 import * as path from "path";
 import * as cheerio from "cheerio";
 
-const SOURCE_URL = "https://catholicnovenaapp.com/list-of-all-novenas/";
-
-type FixedRule = { type: "fixed"; month: number; day: number };
-type AnchorRule = { type: "anchor"; anchor: string };
-
-type RelativeRule = {
-  type: "relative";
-  anchor: string;
-  offsetDays: number;
-  weekday?: number; // 0=Sun .. 6=Sat
-};
+import { NOVENA_FEAST_ANCHORS } from "../data/novenaAnchors";
+import { NOVENA_PATRONAGE } from "../data/patronage";
+import { PERPETUAL_NOVENAS } from "../data/perpetualNovenas";
+import { parseNovenaRuleText } from "../utils/novenaRuleParser";
+import { isRecurringRule, type NovenaRule } from "../utils/novenasRules";
 
-type NthWeekdayAfterRule = {
-  type: "nth_weekday_after";
-  anchor: string;
-  weekday: number; // 0=Sun .. 6=Sat
-  n: number;
-};
-
-type BeforeFeastRule = {
-  type: "before_feast";
-  daysBefore: number;
-};
+const SOURCE_URL = "https://catholicnovenaapp.com/list-of-all-novenas/";
 
 type RawRule = { type: "raw"; text: string };
 
-type Rule =
-  | FixedRule
-  | AnchorRule
-  | RelativeRule
-  | NthWeekdayAfterRule
-  | BeforeFeastRule
-  | RawRule;
+// Phrases outside the grammar of utils/novenaRuleParser.ts stay raw
+type Rule = NovenaRule | RawRule;
 
 type NovenaIndexEntry = {
   id: string;
@@ -67,16 +46,6 @@ const MONTHS: Record<string, number> = {
   december: 12,
 };
 
-const WEEKDAYS: Record<string, number> = {
-  sunday: 0,
-  monday: 1,
-  tuesday: 2,
-  wednesday: 3,
-  thursday: 4,
-  friday: 5,
-  saturday: 6,
-};
-
 const MONTH_NAMES = new Set(Object.keys(MONTHS));
 
 function toSnakeCaseId(s: string) {
@@ -103,52 +72,22 @@ function isJunkTitle(title: string) {
   return false;
 }
 
-function parseMonthDay(s: string): FixedRule | null {
-  const m = s.match(/^([A-Za-z]+)\s+(\d{1,2})$/);
-  if (!m) return null;
-  const month = MONTHS[m[1].toLowerCase()];
-  const day = Number(m[2]);
-  if (!month || !day) return null;
-  return { type: "fixed", month, day };
-}
-
 function parseRule(text: string): Rule {
   const t = text.trim();
-
-  if (/nine\s+days\s+before\s+the\s+feastday/i.test(t)) {
-    return { type: "before_feast", daysBefore: 9 };
-  }
-
-  const fixed = parseMonthDay(t);
-  if (fixed) return fixed;
-
-  const m1 = t.match(/^(\d+)\s+days?\s+before\s+(.+)$/i);
-  if (m1) {
-    return {
-      type: "relative",
-      anchor: toSnakeCaseId(m1[2]),
-      offsetDays: -Number(m1[1]),
-    };
-  }
-
-  const m2 = t.match(/^(\d+)\s+days?\s+after\s+(.+)$/i);
-  if (m2) {
-    return {
-      type: "relative",
-      anchor: toSnakeCaseId(m2[2]),
-      offsetDays: Number(m2[1]),
-    };
-  }
-
-  return { type: "raw", text: t };
+  return parseNovenaRuleText(t) ?? { type: "raw", text: t };
 }
 
+// Day 1 is the day after the listed start and the feast is the last day
+// (utils/novenasRules.ts); a start on the feast's own date means a full year.
+// Nine days is the resolver's default and is left out.
 function deriveDurationDays(
   startRule: Rule | undefined,
   feastRule: Rule,
 ): number | undefined {
+  let days: number | undefined;
+
   if (startRule?.type === "before_feast") {
-    return startRule.daysBefore + 1;
+    days = startRule.daysBefore;
   }
 
   if (startRule?.type === "fixed" && feastRule.type === "fixed") {
@@ -156,16 +95,34 @@ function deriveDurationDays(
     const start = Date.UTC(y, startRule.month - 1, startRule.day);
     const feastYear =
       feastRule.month < startRule.month ||
-      (feastRule.month === startRule.month && feastRule.day < startRule.day)
+      (feastRule.month === startRule.month && feastRule.day <= startRule.day)
         ? y + 1
         : y;
 
     const feast = Date.UTC(feastYear, feastRule.month - 1, feastRule.day);
     const diff = Math.round((feast - start) / 86400000);
-    if (diff >= 0 && diff <= 4000) return diff + 1;
+    if (diff >= 1 && diff <= 4000) days = diff;
   }
 
-  return undefined;
+  return days === 9 ? undefined : days;
+}
+
+// Hand-maintained in data/novenaAnchors.ts: plain feast dates that should
+// follow a transferred or profile-dependent celebration
+function applyFeastAnchor(
+  id: string,
+  startRule: Rule | undefined,
+  feastRule: Rule,
+): { startRule: Rule | undefined; feastRule: Rule } {
+  const a = NOVENA_FEAST_ANCHORS[id];
+  if (!a) return { startRule, feastRule };
+  return {
+    startRule:
+      a.daysBefore !== undefined
+        ? { type: "before_feast", daysBefore: a.daysBefore }
+        : startRule,
+    feastRule: { type: "anchor", anchor: a.anchor },
+  };
 }
 
 function computeCategory(title: string): string {
@@ -231,16 +188,34 @@ async function main() {
     return true;
   });
 
+  const unparsed: string[] = [];
+
   const entries: NovenaIndexEntry[] = unique.map((r) => {
     const category = computeCategory(r.title);
     const tags = computeTags(r.title, category);
 
-    const startRule = parseRule(r.startText);
-    const feastRule = parseRule(r.feastText);
-    const durationDays = deriveDurationDays(startRule, feastRule);
+    const id = toSnakeCaseId(r.title);
+
+    const parsedStart = parseRule(r.startText);
+    const parsedFeast = parseRule(r.feastText);
+    // "First Sunday of October" is fine as a feast but can't be a start
+    // (recurring rules are feastRules only); the start comes from the feast.
+    const scrapedStart =
+      parsedStart.type !== "raw" && isRecurringRule(parsedStart)
+        ? undefined
+        : parsedStart;
+    const durationDays = deriveDurationDays(scrapedStart, parsedFeast);
+    const { startRule, feastRule } = applyFeastAnchor(
+      id,
+      scrapedStart,
+      parsedFeast,
+    );
+    for (const rule of [startRule, feastRule]) {
+      if (rule?.type === "raw") unparsed.push(`${r.title}: ${rule.text}`);
+    }
 
     return {
-      id: toSnakeCaseId(r.title),
+      id,
       title: r.title,
       startRule,
       feastRule,
@@ -248,22 +223,36 @@ async function main() {
       category,
       tags,
       description: null,
-      patronage: [],
+      // Hand-maintained in data/patronage.ts (the source list has none)
+      patronage: NOVENA_PATRONAGE[id] ?? [],
       image: null,
       notes: null,
       source: { url: SOURCE_URL },
     };
   });
 
-  entries.sort((a, b) => a.title.localeCompare(b.title));
+  // Recurring devotions aren't on the source list; see data/perpetualNovenas.ts
+  const all = [
+    ...entries,
+    ...PERPETUAL_NOVENAS.map((n) => ({
+      ...n,
+      patronage: NOVENA_PATRONAGE[n.id] ?? n.patronage ?? [],
+    })),
+  ];
+  all.sort((a, b) => a.title.localeCompare(b.title));
 
   const outDir = path.join(process.cwd(), "data");
   fs.mkdirSync(outDir, { recursive: true });
 
   const outPath = path.join(outDir, "novenas_index.json");
-  safeAtomicWrite(outPath, JSON.stringify(entries, null, 2));
+  safeAtomicWrite(outPath, JSON.stringify(all, null, 2));
 
   console.log("Wrote:", outPath);
+  if (unparsed.length) {
+    // Add these to scripts/novena-rule-corpus.ts and extend the grammar
+    console.log(`⚠️  ${unparsed.length} phrase(s) kept as raw rules:`);
+    for (const u of unparsed) console.log("  ", u);
+  }
 }
 
 main().catch((e) => {
@@ -5,9 +5,12 @@ import * as path from "path";
  * Generates: data/novenasManifest.ts
  *
  * Manifest maps:
- *   id -> require("./novenas/<id>.json")
+ *   id -> () => require("./novenas/<id>.json")
  *
- * This must be static require calls (Metro bundler needs them).
+ * This must be static require calls (Metro bundler needs them), wrapped
+ * in loaders so a doc is only parsed when it is first opened
+ * (utils/lazyDocs.ts). Files whose name isn't a plain id ("x 2.json"
+ * copies) are skipped.
  */
 
 function main() {
@@ -22,7 +25,7 @@ function main() {
 
   const files = fs
     .readdirSync(novenasDir)
-    .filter((f) => f.toLowerCase().endsWith(".json"))
+    .filter((f) => /^[A-Za-z0-9_-]+\.json$/i.test(f))
     .sort((a, b) => a.localeCompare(b));
 
   const entries = files.map((f) => {
@@ -35,16 +38,35 @@ function main() {
   lines.push("/* AUTO-GENERATED FILE. DO NOT EDIT BY HAND. */");
   lines.push("/* Generated by: scripts/build-novenas-manifest.ts */");
   lines.push("");
-  lines.push("export const NOVENA_MANIFEST: Record<string, any> = {");
+  lines.push(
+    'import { createLazyDocs, type DocLoaders } from "../utils/lazyDocs";',
+  );
+  lines.push("");
+  lines.push("/** Recently opened novenas kept in memory. */");
+  lines.push("const NOVENA_CACHE_SIZE = 16;");
+  lines.push("");
+  lines.push("const loaders: DocLoaders = {");
 
   for (const e of entries) {
-    lines.push(`  "${e.id}": require("${e.requirePath}"),`);
+    lines.push(`  "${e.id}": () => require("${e.requirePath}"),`);
   }
 
   lines.push("};");
   lines.push("");
+  lines.push("export const novenaDocs = createLazyDocs<any>(");
+  lines.push('  "novenas",');
+  lines.push("  loaders,");
+  lines.push("  NOVENA_CACHE_SIZE,");
+  lines.push(");");
+  lines.push("");
   lines.push("export function getNovenaContent(id: string): any | null {");
-  lines.push("  return NOVENA_MANIFEST[id] ?? null;");
+  lines.push("  return novenaDocs.get(id);");
+  lines.push("}");
+  lines.push("");
+  lines.push(
+    "export function loadNovenaContent(id: string): Promise<any | null> {",
+  );
+  lines.push("  return novenaDocs.load(id);");
   lines.push("}");
   lines.push("");
 
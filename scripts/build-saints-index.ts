@@ -1,10 +1,16 @@
 // scripts/build-saints-index.ts
 //
 // Reads:  data/saints_by_mmdd.json
+//         data/patronage.ts (SAINT_PATRONAGE)
 // Writes:
-//   data/saints_index.json
-//   data/saints/<id>.json   (stub content, safe to overwrite only if missing)
-//   data/saintsManifest.ts
+//   data/saints_index.json  (compact index: id, name, mmdd, feast, patronage;
+//                            enough for lists without opening any doc)
+//   data/saints/<id>.json   (stub content, safe to overwrite only if missing;
+//                            `patronage` is always refreshed)
+//   data/saintsManifest.ts  (lazy id -> doc loader, see utils/lazyDocs.ts)
+//
+// Only indexed ids get a loader, so stray files in data/saints
+// ("<id> 2.json" copies, retired ids) are never bundled.
 //
 // Run:
 //   npx tsx scripts/build-saints-index.ts
@@ -13,6 +19,8 @@
 import * as fs from "fs";
 import * as path from "path";
 
+import { SAINT_PATRONAGE } from "../data/patronage";
+
 type DaySaints = {
   feast: string | null;
   saints: string[];
@@ -29,6 +37,7 @@ type SaintIndexEntry = {
   name: string; // display
   mmdd: string; // "01-08"
   feast?: string | null;
+  patronage?: string[];
 };
 
 function safeReadJson(p: string) {
@@ -109,6 +118,7 @@ function main() {
   let skippedEmpty = 0;
   let skippedJunk = 0;
   let created = 0;
+  let patronageUpdated = 0;
 
   const keys = Object.keys(byMmdd).sort();
   for (const mmdd of keys) {
@@ -148,6 +158,8 @@ function main() {
     const entry: SaintIndexEntry = { id, name: primaryName, mmdd };
     // Only include feast if non-null (keeps JSON clean)
     if (feast) entry.feast = feast;
+    const patronage = SAINT_PATRONAGE[id];
+    if (patronage) entry.patronage = patronage;
 
     index.push(entry);
     created++;
@@ -164,20 +176,38 @@ function main() {
         biography: "",
         prayers: [],
         sources: [],
+        ...(patronage ? { patronage } : {}),
       };
       fs.writeFileSync(outPath, JSON.stringify(stub, null, 2), "utf8");
+    } else {
+      // Existing (possibly enriched) docs only get their patronage synced
+      const raw = fs.readFileSync(outPath, "utf8");
+      const doc = JSON.parse(raw);
+      const before = JSON.stringify(doc.patronage ?? null);
+      if (patronage) doc.patronage = patronage;
+      else delete doc.patronage;
+      if (JSON.stringify(doc.patronage ?? null) !== before) {
+        const eol = raw.endsWith("\n") ? "\n" : "";
+        safeAtomicWrite(outPath, JSON.stringify(doc, null, 2) + eol);
+        patronageUpdated++;
+      }
     }
   }
 
   const indexOut = path.join(dataDir, "saints_index.json");
   safeAtomicWrite(indexOut, JSON.stringify(index, null, 2));
 
-  // Manifest (fast static require map)
+  // Manifest (lazy loaders; Metro needs a static require per file, but
+  // each one only runs when that saint is opened)
   const manifestOut = path.join(dataDir, "saintsManifest.ts");
   const lines: string[] = [];
   lines.push("// AUTO-GENERATED. DO NOT EDIT.");
   lines.push("// Generated by: scripts/build-saints-index.ts");
   lines.push("");
+  lines.push(
+    'import { createLazyDocs, type DocLoaders } from "../utils/lazyDocs";',
+  );
+  lines.push("");
   lines.push("export type SaintDoc = {");
   lines.push("  id: string;");
   lines.push("  name: string;");
@@ -187,18 +217,35 @@ function main() {
   lines.push("  biography?: string;");
   lines.push("  prayers?: string[];");
   lines.push("  sources?: string[];");
+  lines.push("  patronage?: string[]; // intention ids, see data/patronage.ts");
   lines.push("};");
   lines.push("");
-  lines.push("const docs: Record<string, any> = {");
+  lines.push("/** Recently opened saints kept in memory. */");
+  lines.push("const SAINT_DOC_CACHE_SIZE = 32;");
+  lines.push("");
+  lines.push("const loaders: DocLoaders = {");
 
   for (const e of index) {
-    lines.push(`  "${e.id}": require("./saints/${e.id}.json"),`);
+    lines.push(`  "${e.id}": () => require("./saints/${e.id}.json"),`);
   }
   lines.push("};");
   lines.push("");
+  lines.push("export const saintDocs = createLazyDocs<SaintDoc>(");
+  lines.push('  "saints",');
+  lines.push("  loaders,");
+  lines.push("  SAINT_DOC_CACHE_SIZE,");
+  lines.push(");");
+  lines.push("");
   lines.push("export function getSaintDoc(id: string): SaintDoc | null {");
-  lines.push("  return docs[id] ?? null;");
+  lines.push("  return saintDocs.get(id);");
   lines.push("}");
+  lines.push("");
+  lines.push(
+    "export function loadSaintDoc(id: string): Promise<SaintDoc | null> {",
+  );
+  lines.push("  return saintDocs.load(id);");
+  lines.push("}");
+  lines.push("");
 
   safeAtomicWrite(manifestOut, lines.join("\n"));
 
@@ -206,7 +253,7 @@ function main() {
   console.log("Wrote:", manifestOut);
   console.log("Saint docs dir:", saintsDir);
   console.log(
-    `Stats: totalDays=${totalDays} created=${created} skippedEmpty=${skippedEmpty} skippedJunk=${skippedJunk}`,
+    `Stats: totalDays=${totalDays} created=${created} skippedEmpty=${skippedEmpty} skippedJunk=${skippedJunk} patronageUpdated=${patronageUpdated}`,
   );
 }
 
@@ -0,0 +1,257 @@
+// scripts/check-content-update.ts
+//
+// Runs the content updater (utils/contentBundle.ts) against a local HTTP
+// stand-in with a throwaway file cache, and checks that:
+//   - a newer bundle downloads only the changed doc
+//   - a second run is up to date and downloads nothing
+//   - restoring a doc to its baked text drops it from the cache
+//   - a doc that doesn't match its hash fails the update and keeps the cache
+//   - no server means "offline" and keeps the cache
+//   - a newer baked manifest (app update) makes the cache obsolete
+//
+// Needs data/content_manifest.json (scripts/build-content-bundle.ts).
+//
+// Run:
+//   npx tsx scripts/check-content-update.ts
+//
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  contentDocPath,
+  contentHash,
+  loadCachedContent,
+  parseContentManifest,
+  runContentUpdate,
+  type ContentManifest,
+  type ContentStore,
+  type FetchText,
+} from "../utils/contentBundle";
+import type { ContentKind } from "../data/contentOverrides";
+import { startBundleServer } from "./serve-content-bundle";
+
+function fsStore(dir: string): ContentStore {
+  const manifestPath = path.join(dir, "manifest.json");
+  const docPath = (kind: ContentKind, id: string) =>
+    path.join(dir, contentDocPath(kind, id));
+  return {
+    async readManifest() {
+      if (!fs.existsSync(manifestPath)) return null;
+      return parseContentManifest(
+        JSON.parse(fs.readFileSync(manifestPath, "utf8")),
+      );
+    },
+    async writeManifest(m) {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(manifestPath, JSON.stringify(m), "utf8");
+    },
+    async readDoc(kind, id) {
+      const p = docPath(kind, id);
+      return fs.existsSync(p) ? fs.readFileSync(p, "utf8") : null;
+    },
+    async writeDoc(kind, id, text) {
+      fs.mkdirSync(path.dirname(docPath(kind, id)), { recursive: true });
+      fs.writeFileSync(docPath(kind, id), text, "utf8");
+    },
+    async deleteDoc(kind, id) {
+      fs.rmSync(docPath(kind, id), { force: true });
+    },
+    async clear() {
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+let requests: string[] = [];
+const fetchText: FetchText = async (url) => {
+  requests.push(url);
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
+  return res.text();
+};
+
+let failures = 0;
+function check(label: string, ok: boolean, detail?: unknown) {
+  console.log(`${ok ? "✅" : "❌"} ${label}`);
+  if (!ok) {
+    failures++;
+    if (detail !== undefined) console.log("   ", detail);
+  }
+}
+
+/** Writes a bundle with the given manifest and (changed) docs only. */
+function publish(
+  dir: string,
+  manifest: ContentManifest,
+  docs: { kind: ContentKind; id: string; text: string }[],
+) {
+  fs.rmSync(dir, { recursive: true, force: true });
+  for (const d of docs) {
+    const p = path.join(dir, contentDocPath(d.kind, d.id));
+    fs.mkdirSync(path.dirname(p), { recursive: true });
+    fs.writeFileSync(p, d.text, "utf8");
+  }
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, "manifest.json"),
+    JSON.stringify(manifest),
+    "utf8",
+  );
+}
+
+function withDoc(
+  m: ContentManifest,
+  version: number,
+  kind: ContentKind,
+  id: string,
+  hash: string,
+): ContentManifest {
+  return {
+    ...m,
+    version,
+    docs: { ...m.docs, [kind]: { ...m.docs[kind], [id]: hash } },
+  };
+}
+
+async function main() {
+  const root = process.cwd();
+  const baked = parseContentManifest(
+    JSON.parse(
+      fs.readFileSync(path.join(root, "data", "content_manifest.json"), "utf8"),
+    ),
+  );
+  if (!baked)
+    throw new Error("data/content_manifest.json is missing or invalid");
+
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "content-bundle-"));
+  const bundleDir = path.join(tmp, "bundle");
+  const store = fsStore(path.join(tmp, "cache"));
+
+  const id = Object.keys(baked.docs.novenas)[0];
+  const bakedText = fs.readFileSync(
+    path.join(root, "data", "novenas", `${id}.json`),
+    "utf8",
+  );
+  const doc = JSON.parse(bakedText);
+  const fixedText = JSON.stringify(
+    { ...doc, title: `${doc.title} (fixed)` },
+    null,
+    2,
+  );
+
+  publish(bundleDir, baked, []);
+  const server = await startBundleServer(bundleDir, 0);
+  const update = () =>
+    runContentUpdate({ baseUrl: server.url, baked, store, fetchText });
+
+  try {
+    // Same version as the app: nothing to do.
+    requests = [];
+    let r = await update();
+    check(
+      "baked version is up to date",
+      r.status === "up-to-date" && requests.length === 1,
+      r,
+    );
+
+    // One fixed doc.
+    const v1 = withDoc(
+      baked,
+      baked.version + 1,
+      "novenas",
+      id,
+      contentHash(fixedText),
+    );
+    publish(bundleDir, v1, [{ kind: "novenas", id, text: fixedText }]);
+    requests = [];
+    r = await update();
+    check(
+      "newer bundle downloads only the changed doc",
+      r.status === "updated" && r.fetched === 1 && requests.length === 2,
+      { r, requests },
+    );
+    let loaded = await loadCachedContent(store, baked);
+    check(
+      "cached doc replaces the baked one",
+      loaded.version === v1.version &&
+        loaded.docs.novenas[id]?.title === `${doc.title} (fixed)`,
+      loaded.version,
+    );
+
+    requests = [];
+    r = await update();
+    check(
+      "second run is up to date",
+      r.status === "up-to-date" && requests.length === 1,
+      r,
+    );
+
+    // Doc restored to its baked text.
+    const v2 = { ...baked, version: baked.version + 2 };
+    publish(bundleDir, v2, []);
+    r = await update();
+    check(
+      "restored doc is dropped from the cache",
+      r.status === "updated" && r.fetched === 0 && r.removed === 1,
+      r,
+    );
+    loaded = await loadCachedContent(store, baked);
+    check(
+      "restored doc falls back to the baked copy",
+      loaded.version === v2.version &&
+        Object.keys(loaded.docs.novenas).length === 0,
+    );
+    check("cache file removed", (await store.readDoc("novenas", id)) == null);
+
+    // Corrupt download.
+    const v3 = withDoc(
+      baked,
+      baked.version + 3,
+      "novenas",
+      id,
+      contentHash(fixedText),
+    );
+    publish(bundleDir, v3, [
+      { kind: "novenas", id, text: fixedText.slice(0, -10) },
+    ]);
+    r = await update();
+    check("hash mismatch fails the update", r.status === "failed", r);
+    check(
+      "failed update keeps the cache",
+      (await store.readManifest())?.version === v2.version,
+    );
+
+    // Offline.
+    publish(bundleDir, v1, [{ kind: "novenas", id, text: fixedText }]);
+    await server.close();
+    r = await update();
+    check("no server is offline", r.status === "offline", r);
+    check(
+      "offline keeps the cache",
+      (await store.readManifest())?.version === v2.version,
+    );
+
+    // App update with newer baked content.
+    loaded = await loadCachedContent(store, { ...baked, version: v2.version });
+    check(
+      "newer baked manifest clears the cache",
+      loaded.version === v2.version && (await store.readManifest()) == null,
+    );
+  } finally {
+    await server.close().catch(() => {});
+    fs.rmSync(tmp, { recursive: true, force: true });
+  }
+
+  if (failures) {
+    console.error(`❌ ${failures} content update check(s) failed`);
+    process.exit(1);
+  }
+  console.log("✅ content updates OK");
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,107 @@
+// scripts/check-rule-parser.ts
+//
+// Checks utils/novenaRuleParser.ts against the phrase corpus
+// (scripts/novena-rule-corpus.ts): every phrase must parse to exactly its
+// expected rule (or not parse, where null is expected). Also checks that the
+// synonym table only names anchors buildNovenaAnchorsForYear provides, and
+// that every expected rule resolves (known anchors, valid values).
+//
+// Writes: nothing (stdout)
+//
+// Run:
+//   npx tsx scripts/check-rule-parser.ts [--verbose]
+//
+// Exit code is 1 on any mismatch.
+
+import { RULE_PHRASES } from "./novena-rule-corpus";
+import { buildNovenaAnchorsForYear } from "../utils/liturgicalDates";
+import {
+  ANCHOR_SYNONYMS,
+  parseNovenaRuleText,
+} from "../utils/novenaRuleParser";
+import {
+  isRecurringRule,
+  recurringDatesInYear,
+  resolveNovenaForYear,
+  type NovenaRule,
+} from "../utils/novenasRules";
+
+const YEARS = [2025, 2026, 2027];
+
+/** JSON with sorted keys, so rules compare regardless of key order. */
+function canonical(rule: NovenaRule | null): string {
+  return JSON.stringify(rule, (_k, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : v,
+  );
+}
+
+/** Why `rule` can't be resolved in YEARS, or null. */
+function resolveProblem(rule: NovenaRule): string | null {
+  try {
+    for (const year of YEARS) {
+      if (isRecurringRule(rule)) {
+        recurringDatesInYear(rule, year);
+      } else if (rule.type !== "before_feast") {
+        resolveNovenaForYear(
+          {
+            id: "corpus",
+            title: "corpus",
+            category: "Devotion",
+            feastRule: rule,
+          },
+          year,
+          buildNovenaAnchorsForYear(year),
+        );
+      }
+    }
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+function main() {
+  const verbose = process.argv.includes("--verbose");
+  const failures: string[] = [];
+
+  const anchors = Object.keys(buildNovenaAnchorsForYear(2026));
+  for (const key of Object.keys(ANCHOR_SYNONYMS)) {
+    if (!anchors.includes(key)) {
+      failures.push(`synonyms for unknown anchor ${key}`);
+    }
+  }
+  const unnamed = anchors.filter((a) => !ANCHOR_SYNONYMS[a]);
+  if (unnamed.length) {
+    console.log(`⚠️  anchors without synonyms: ${unnamed.join(", ")}`);
+  }
+
+  let parsed = 0;
+  for (const [text, expected] of RULE_PHRASES) {
+    const got = parseNovenaRuleText(text);
+    if (got) parsed++;
+    if (canonical(got) !== canonical(expected)) {
+      failures.push(
+        `"${text}"\n      expected ${canonical(expected)}\n      got      ${canonical(got)}`,
+      );
+      continue;
+    }
+    const problem = expected ? resolveProblem(expected) : null;
+    if (problem) failures.push(`"${text}" doesn't resolve: ${problem}`);
+    else if (verbose) console.log(`   ok ${text} → ${canonical(got)}`);
+  }
+
+  if (failures.length) {
+    console.log(`❌ ${failures.length} of ${RULE_PHRASES.length} failed:`);
+    for (const f of failures) console.log(`   ${f}`);
+    process.exit(1);
+  }
+  console.log(
+    `✅ ${RULE_PHRASES.length} phrases (${parsed} parsed, ${RULE_PHRASES.length - parsed} rejected as expected)`,
+  );
+}
+
+main();
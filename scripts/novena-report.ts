@@ -0,0 +1,183 @@
+// scripts/novena-report.ts
+//
+// Resolution report: runs the same fault-tolerant resolver as the app
+// (resolveNovenasForYearWithDiagnostics) and prints which novenas can't be
+// placed (errors) and which startRules are ignored (warnings), grouped by
+// novena with the years they affect. startRules that are just one day early
+// (the usual scraping slip) are counted, and only listed with --verbose.
+// The in-app version is /data-issues.
+//
+// Writes: nothing (stdout; --json for machine-readable output)
+//
+// Run:
+//   npx tsx scripts/novena-report.ts [--from 2025] [--to 2027]
+//     [--profile general|usa|…|all] [--index path/to/novenas_index.json]
+//     [--verbose] [--json]
+//
+// Defaults: last year .. next year, every calendar profile, data/novenas_index.json.
+// Exit code is 1 if any novena fails to resolve.
+
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  CALENDAR_PROFILES,
+  type CalendarProfileId,
+} from "../utils/calendarProfiles";
+import { buildNovenaAnchorsForYear } from "../utils/liturgicalDates";
+import {
+  groupNovenaDiagnostics,
+  resolveNovenasForYearWithDiagnostics,
+  type NovenaDef,
+  type NovenaDiagnostic,
+} from "../utils/novenasRules";
+
+/** Warnings printed per profile unless --verbose. */
+const PRINT_LIMIT = 15;
+
+function argValue(name: string): string | undefined {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+function yearArg(name: string, fallback: number): number {
+  const raw = argValue(name);
+  if (raw === undefined) return fallback;
+  const y = Number(raw);
+  if (!Number.isInteger(y) || y < 1583 || y > 4099) {
+    console.error(`❌ ${name} must be a year (1583–4099), got ${raw}`);
+    process.exit(2);
+  }
+  return y;
+}
+
+function profilesArg(): CalendarProfileId[] {
+  const raw = argValue("--profile") ?? "all";
+  const all = CALENDAR_PROFILES.map((p) => p.id);
+  if (raw === "all") return all;
+  if (!all.includes(raw as CalendarProfileId)) {
+    console.error(`❌ unknown profile ${raw} (one of: ${all.join(", ")}, all)`);
+    process.exit(2);
+  }
+  return [raw as CalendarProfileId];
+}
+
+function loadIndex(file: string): NovenaDef[] {
+  const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (!Array.isArray(raw)) {
+    console.error(`❌ ${file} is not an array of novenas`);
+    process.exit(2);
+  }
+  return raw as NovenaDef[];
+}
+
+function diagnose(
+  defs: NovenaDef[],
+  fromYear: number,
+  toYear: number,
+  profile: CalendarProfileId,
+): { diagnostics: NovenaDiagnostic[]; resolved: number } {
+  const diagnostics: NovenaDiagnostic[] = [];
+  let resolved = 0;
+  for (let y = fromYear; y <= toYear; y++) {
+    const anchors = buildNovenaAnchorsForYear(y, profile);
+    const out = resolveNovenasForYearWithDiagnostics(defs, y, anchors);
+    resolved += out.instances.length;
+    diagnostics.push(...out.diagnostics);
+  }
+  return { diagnostics, resolved };
+}
+
+function main() {
+  const thisYear = new Date().getFullYear();
+  const fromYear = yearArg("--from", thisYear - 1);
+  const toYear = yearArg("--to", Math.max(fromYear, thisYear + 1));
+  if (toYear < fromYear) {
+    console.error(`❌ --to (${toYear}) is before --from (${fromYear})`);
+    process.exit(2);
+  }
+  const profiles = profilesArg();
+  const verbose = process.argv.includes("--verbose");
+  const asJson = process.argv.includes("--json");
+  const indexFile = path.resolve(
+    argValue("--index") ?? path.join("data", "novenas_index.json"),
+  );
+
+  const defs = loadIndex(indexFile);
+  const perProfile = profiles.map((profile) => ({
+    profile,
+    ...diagnose(defs, fromYear, toYear, profile),
+  }));
+  const errorCount = perProfile.reduce(
+    (n, p) => n + p.diagnostics.filter((d) => d.severity === "error").length,
+    0,
+  );
+
+  if (asJson) {
+    console.log(
+      JSON.stringify(
+        {
+          index: indexFile,
+          fromYear,
+          toYear,
+          profiles: perProfile.map((p) => ({
+            profile: p.profile,
+            resolved: p.resolved,
+            diagnostics: p.diagnostics,
+          })),
+        },
+        null,
+        2,
+      ),
+    );
+    process.exit(errorCount ? 1 : 0);
+  }
+
+  console.log(
+    `Novena resolution ${fromYear}–${toYear} · ${defs.length} novenas · ${path.relative(process.cwd(), indexFile)}`,
+  );
+
+  for (const p of perProfile) {
+    const groups = groupNovenaDiagnostics(p.diagnostics);
+    const errors = groups.filter((g) => g.severity === "error");
+    const warnings = groups.filter(
+      (g) => g.severity === "warning" && g.code !== "start_rule_off_by_one",
+    );
+    const offByOne = groups.filter((g) => g.code === "start_rule_off_by_one");
+
+    if (!groups.length) {
+      console.log(`✅ ${p.profile}: ${p.resolved} runs`);
+      continue;
+    }
+    console.log(
+      `${errors.length ? "❌" : "⚠️ "} ${p.profile}: ${p.resolved} runs · ${errors.length} novena(s) failing · ${warnings.length} ignored startRule(s) · ${offByOne.length} one day early`,
+    );
+
+    const shownWarnings = verbose
+      ? [...warnings, ...offByOne]
+      : warnings.slice(0, PRINT_LIMIT);
+    for (const g of [...errors, ...shownWarnings]) {
+      const tag = g.severity === "error" ? "error" : "warn ";
+      const years =
+        g.years.length === toYear - fromYear + 1
+          ? "every year"
+          : g.years.join(", ");
+      console.log(`   ${tag} ${g.novenaId} [${g.code}] (${years})`);
+      console.log(`         ${g.message}`);
+    }
+    if (!verbose && warnings.length > shownWarnings.length) {
+      console.log(
+        `   … ${warnings.length - shownWarnings.length} more (--verbose)`,
+      );
+    }
+    if (!verbose && offByOne.length > 0) {
+      console.log(
+        `   ${offByOne.length} startRule(s) one day early, ignored (--verbose lists them)`,
+      );
+    }
+  }
+
+  if (errorCount) process.exit(1);
+}
+
+main();
@@ -0,0 +1,419 @@
+// scripts/novena-rule-corpus.ts
+//
+// Phrase corpus for utils/novenaRuleParser.ts: every "Starts:" / "Feast:"
+// phrase of the source list (catholicnovenaapp.com) with the rule it must
+// parse to, plus the other forms the grammar accepts.
+// - "Source list" phrases: the month/day dates are those of
+//   data/novenas_index.json; the movable ones are the texts the last scrape
+//   couldn't read (kept as raw rules in data/novenas/<id>.json)
+// - When scripts/build-novenas-index.ts reports a phrase it can't parse, add
+//   it here with the expected rule, then extend the grammar
+// - null means the phrase must NOT parse (it would otherwise give a wrong date)
+//
+// Checked by scripts/check-rule-parser.ts (npm run novenas:parse-check).
+
+import type { NovenaRule } from "../utils/novenasRules";
+
+export type RulePhrase = [text: string, expected: NovenaRule | null];
+
+const fixed = (month: number, day: number): NovenaRule => ({
+  type: "fixed",
+  month,
+  day,
+});
+const anchor = (a: string): NovenaRule => ({ type: "anchor", anchor: a });
+const offset = (a: string, offsetDays: number): NovenaRule => ({
+  type: "relative",
+  anchor: a,
+  offsetDays,
+});
+const nthAfter = (a: string, weekday: number, n: number): NovenaRule => ({
+  type: "nth_weekday_after",
+  anchor: a,
+  weekday,
+  n,
+});
+const weekdayBefore = (a: string, weekday: number, n = 1): NovenaRule => ({
+  type: "relative",
+  anchor: a,
+  offsetDays: -1 - 7 * (n - 1),
+  weekday,
+  weekdayPolicy: "onOrBefore",
+});
+
+/** Month/day phrases of the source list. */
+const SOURCE_DATES: RulePhrase[] = [
+  ["January 2", fixed(1, 2)],
+  ["January 3", fixed(1, 3)],
+  ["January 4", fixed(1, 4)],
+  ["January 5", fixed(1, 5)],
+  ["January 6", fixed(1, 6)],
+  ["January 8", fixed(1, 8)],
+  ["January 11", fixed(1, 11)],
+  ["January 12", fixed(1, 12)],
+  ["January 14", fixed(1, 14)],
+  ["January 15", fixed(1, 15)],
+  ["January 17", fixed(1, 17)],
+  ["January 18", fixed(1, 18)],
+  ["January 19", fixed(1, 19)],
+  ["January 20", fixed(1, 20)],
+  ["January 21", fixed(1, 21)],
+  ["January 22", fixed(1, 22)],
+  ["January 23", fixed(1, 23)],
+  ["January 24", fixed(1, 24)],
+  ["January 25", fixed(1, 25)],
+  ["January 27", fixed(1, 27)],
+  ["January 28", fixed(1, 28)],
+  ["January 29", fixed(1, 29)],
+  ["January 30", fixed(1, 30)],
+  ["January 31", fixed(1, 31)],
+  ["February 1", fixed(2, 1)],
+  ["February 2", fixed(2, 2)],
+  ["February 3", fixed(2, 3)],
+  ["February 5", fixed(2, 5)],
+  ["February 7", fixed(2, 7)],
+  ["February 8", fixed(2, 8)],
+  ["February 10", fixed(2, 10)],
+  ["February 11", fixed(2, 11)],
+  ["February 13", fixed(2, 13)],
+  ["February 14", fixed(2, 14)],
+  ["February 17", fixed(2, 17)],
+  ["February 18", fixed(2, 18)],
+  ["February 20", fixed(2, 20)],
+  ["February 22", fixed(2, 22)],
+  ["February 25", fixed(2, 25)],
+  ["February 26", fixed(2, 26)],
+  ["February 27", fixed(2, 27)],
+  ["February 28", fixed(2, 28)],
+  ["March 1", fixed(3, 1)],
+  ["March 3", fixed(3, 3)],
+  ["March 6", fixed(3, 6)],
+  ["March 7", fixed(3, 7)],
+  ["March 8", fixed(3, 8)],
+  ["March 9", fixed(3, 9)],
+  ["March 10", fixed(3, 10)],
+  ["March 12", fixed(3, 12)],
+  ["March 13", fixed(3, 13)],
+  ["March 15", fixed(3, 15)],
+  ["March 17", fixed(3, 17)],
+  ["March 19", fixed(3, 19)],
+  ["March 20", fixed(3, 20)],
+  ["March 22", fixed(3, 22)],
+  ["March 24", fixed(3, 24)],
+  ["March 25", fixed(3, 25)],
+  ["March 26", fixed(3, 26)],
+  ["March 27", fixed(3, 27)],
+  ["March 29", fixed(3, 29)],
+  ["April 1", fixed(4, 1)],
+  ["April 2", fixed(4, 2)],
+  ["April 3", fixed(4, 3)],
+  ["April 4", fixed(4, 4)],
+  ["April 5", fixed(4, 5)],
+  ["April 7", fixed(4, 7)],
+  ["April 10", fixed(4, 10)],
+  ["April 11", fixed(4, 11)],
+  ["April 12", fixed(4, 12)],
+  ["April 13", fixed(4, 13)],
+  ["April 14", fixed(4, 14)],
+  ["April 16", fixed(4, 16)],
+  ["April 17", fixed(4, 17)],
+  ["April 18", fixed(4, 18)],
+  ["April 19", fixed(4, 19)],
+  ["April 20", fixed(4, 20)],
+  ["April 22", fixed(4, 22)],
+  ["April 23", fixed(4, 23)],
+  ["April 24", fixed(4, 24)],
+  ["April 25", fixed(4, 25)],
+  ["April 26", fixed(4, 26)],
+  ["April 27", fixed(4, 27)],
+  ["April 28", fixed(4, 28)],
+  ["April 29", fixed(4, 29)],
+  ["May 1", fixed(5, 1)],
+  ["May 3", fixed(5, 3)],
+  ["May 4", fixed(5, 4)],
+  ["May 5", fixed(5, 5)],
+  ["May 6", fixed(5, 6)],
+  ["May 7", fixed(5, 7)],
+  ["May 10", fixed(5, 10)],
+  ["May 11", fixed(5, 11)],
+  ["May 13", fixed(5, 13)],
+  ["May 14", fixed(5, 14)],
+  ["May 15", fixed(5, 15)],
+  ["May 16", fixed(5, 16)],
+  ["May 17", fixed(5, 17)],
+  ["May 20", fixed(5, 20)],
+  ["May 21", fixed(5, 21)],
+  ["May 22", fixed(5, 22)],
+  ["May 23", fixed(5, 23)],
+  ["May 24", fixed(5, 24)],
+  ["May 25", fixed(5, 25)],
+  ["May 26", fixed(5, 26)],
+  ["May 30", fixed(5, 30)],
+  ["May 31", fixed(5, 31)],
+  ["June 1", fixed(6, 1)],
+  ["June 4", fixed(6, 4)],
+  ["June 6", fixed(6, 6)],
+  ["June 12", fixed(6, 12)],
+  ["June 13", fixed(6, 13)],
+  ["June 15", fixed(6, 15)],
+  ["June 17", fixed(6, 17)],
+  ["June 18", fixed(6, 18)],
+  ["June 20", fixed(6, 20)],
+  ["June 21", fixed(6, 21)],
+  ["June 22", fixed(6, 22)],
+  ["June 24", fixed(6, 24)],
+  ["June 25", fixed(6, 25)],
+  ["June 26", fixed(6, 26)],
+  ["June 27", fixed(6, 27)],
+  ["June 28", fixed(6, 28)],
+  ["June 29", fixed(6, 29)],
+  ["June 30", fixed(6, 30)],
+  ["July 1", fixed(7, 1)],
+  ["July 2", fixed(7, 2)],
+  ["July 3", fixed(7, 3)],
+  ["July 4", fixed(7, 4)],
+  ["July 5", fixed(7, 5)],
+  ["July 6", fixed(7, 6)],
+  ["July 7", fixed(7, 7)],
+  ["July 9", fixed(7, 9)],
+  ["July 11", fixed(7, 11)],
+  ["July 12", fixed(7, 12)],
+  ["July 13", fixed(7, 13)],
+  ["July 14", fixed(7, 14)],
+  ["July 15", fixed(7, 15)],
+  ["July 16", fixed(7, 16)],
+  ["July 17", fixed(7, 17)],
+  ["July 18", fixed(7, 18)],
+  ["July 19", fixed(7, 19)],
+  ["July 21", fixed(7, 21)],
+  ["July 22", fixed(7, 22)],
+  ["July 23", fixed(7, 23)],
+  ["July 24", fixed(7, 24)],
+  ["July 25", fixed(7, 25)],
+  ["July 26", fixed(7, 26)],
+  ["July 27", fixed(7, 27)],
+  ["July 28", fixed(7, 28)],
+  ["July 29", fixed(7, 29)],
+  ["July 30", fixed(7, 30)],
+  ["July 31", fixed(7, 31)],
+  ["August 1", fixed(8, 1)],
+  ["August 2", fixed(8, 2)],
+  ["August 3", fixed(8, 3)],
+  ["August 4", fixed(8, 4)],
+  ["August 5", fixed(8, 5)],
+  ["August 6", fixed(8, 6)],
+  ["August 7", fixed(8, 7)],
+  ["August 8", fixed(8, 8)],
+  ["August 9", fixed(8, 9)],
+  ["August 10", fixed(8, 10)],
+  ["August 11", fixed(8, 11)],
+  ["August 12", fixed(8, 12)],
+  ["August 13", fixed(8, 13)],
+  ["August 14", fixed(8, 14)],
+  ["August 15", fixed(8, 15)],
+  ["August 16", fixed(8, 16)],
+  ["August 17", fixed(8, 17)],
+  ["August 18", fixed(8, 18)],
+  ["August 19", fixed(8, 19)],
+  ["August 20", fixed(8, 20)],
+  ["August 22", fixed(8, 22)],
+  ["August 23", fixed(8, 23)],
+  ["August 25", fixed(8, 25)],
+  ["August 26", fixed(8, 26)],
+  ["August 27", fixed(8, 27)],
+  ["August 28", fixed(8, 28)],
+  ["August 30", fixed(8, 30)],
+  ["September 3", fixed(9, 3)],
+  ["September 4", fixed(9, 4)],
+  ["September 5", fixed(9, 5)],
+  ["September 6", fixed(9, 6)],
+  ["September 8", fixed(9, 8)],
+  ["September 9", fixed(9, 9)],
+  ["September 10", fixed(9, 10)],
+  ["September 12", fixed(9, 12)],
+  ["September 14", fixed(9, 14)],
+  ["September 15", fixed(9, 15)],
+  ["September 17", fixed(9, 17)],
+  ["September 18", fixed(9, 18)],
+  ["September 19", fixed(9, 19)],
+  ["September 20", fixed(9, 20)],
+  ["September 21", fixed(9, 21)],
+  ["September 22", fixed(9, 22)],
+  ["September 23", fixed(9, 23)],
+  ["September 24", fixed(9, 24)],
+  ["September 25", fixed(9, 25)],
+  ["September 26", fixed(9, 26)],
+  ["September 27", fixed(9, 27)],
+  ["September 28", fixed(9, 28)],
+  ["September 29", fixed(9, 29)],
+  ["September 30", fixed(9, 30)],
+  ["October 1", fixed(10, 1)],
+  ["October 2", fixed(10, 2)],
+  ["October 4", fixed(10, 4)],
+  ["October 5", fixed(10, 5)],
+  ["October 6", fixed(10, 6)],
+  ["October 7", fixed(10, 7)],
+  ["October 9", fixed(10, 9)],
+  ["October 10", fixed(10, 10)],
+  ["October 11", fixed(10, 11)],
+  ["October 13", fixed(10, 13)],
+  ["October 15", fixed(10, 15)],
+  ["October 16", fixed(10, 16)],
+  ["October 18", fixed(10, 18)],
+  ["October 19", fixed(10, 19)],
+  ["October 20", fixed(10, 20)],
+  ["October 22", fixed(10, 22)],
+  ["October 23", fixed(10, 23)],
+  ["October 24", fixed(10, 24)],
+  ["October 25", fixed(10, 25)],
+  ["October 26", fixed(10, 26)],
+  ["October 27", fixed(10, 27)],
+  ["October 30", fixed(10, 30)],
+  ["November 1", fixed(11, 1)],
+  ["November 2", fixed(11, 2)],
+  ["November 3", fixed(11, 3)],
+  ["November 4", fixed(11, 4)],
+  ["November 5", fixed(11, 5)],
+  ["November 6", fixed(11, 6)],
+  ["November 7", fixed(11, 7)],
+  ["November 8", fixed(11, 8)],
+  ["November 9", fixed(11, 9)],
+  ["November 10", fixed(11, 10)],
+  ["November 11", fixed(11, 11)],
+  ["November 12", fixed(11, 12)],
+  ["November 13", fixed(11, 13)],
+  ["November 14", fixed(11, 14)],
+  ["November 15", fixed(11, 15)],
+  ["November 16", fixed(11, 16)],
+  ["November 17", fixed(11, 17)],
+  ["November 18", fixed(11, 18)],
+  ["November 21", fixed(11, 21)],
+  ["November 22", fixed(11, 22)],
+  ["November 23", fixed(11, 23)],
+  ["November 25", fixed(11, 25)],
+  ["November 27", fixed(11, 27)],
+  ["November 28", fixed(11, 28)],
+  ["November 30", fixed(11, 30)],
+  ["December 1", fixed(12, 1)],
+  ["December 4", fixed(12, 4)],
+  ["December 5", fixed(12, 5)],
+  ["December 6", fixed(12, 6)],
+  ["December 7", fixed(12, 7)],
+  ["December 9", fixed(12, 9)],
+  ["December 12", fixed(12, 12)],
+  ["December 13", fixed(12, 13)],
+  ["December 14", fixed(12, 14)],
+  ["December 16", fixed(12, 16)],
+  ["December 17", fixed(12, 17)],
+  ["December 18", fixed(12, 18)],
+  ["December 19", fixed(12, 19)],
+  ["December 20", fixed(12, 20)],
+  ["December 25", fixed(12, 25)],
+  ["December 26", fixed(12, 26)],
+  ["December 27", fixed(12, 27)],
+  ["December 28", fixed(12, 28)],
+  ["December 29", fixed(12, 29)],
+];
+
+/** Movable phrases of the source list. */
+const SOURCE_MOVABLE: RulePhrase[] = [
+  ["Nine days before the Feastday", { type: "before_feast", daysBefore: 9 }],
+  ["Second Friday after Pentecost", nthAfter("pentecost", 5, 2)],
+  ["Third Saturday after Pentecost", nthAfter("pentecost", 6, 3)],
+  ["Thursday of the Fifth Week of Easter", offset("easter", 32)],
+  ["Saturday after Ascension Thursday", nthAfter("ascension_thursday", 6, 1)],
+  [
+    "The feast is celebrated on the Sunday within the Octave of Christmas, that is, the Sunday between Christmas Day and New Year's Day (both exclusive), or if both Christmas Day and the Solemnity of Mary, Mother of God are Sundays, on 30 December (always a Friday in such years).",
+    anchor("holy_family"),
+  ],
+];
+
+/** Other forms: anchor synonyms, nesting, seasons, recurring rules. */
+const EXAMPLES: RulePhrase[] = [
+  ["30 December", fixed(12, 30)],
+  ["8th of December", fixed(12, 8)],
+  ["Jan 6", fixed(1, 6)],
+  ["Feb 2", fixed(2, 2)],
+  ["Mar. 19", fixed(3, 19)],
+  ["Apr 25", fixed(4, 25)],
+  ["Jun 29", fixed(6, 29)],
+  ["Jul 16", fixed(7, 16)],
+  ["Aug. 15", fixed(8, 15)],
+  ["Sep 29", fixed(9, 29)],
+  ["Sept 8", fixed(9, 8)],
+  ["7 Oct", fixed(10, 7)],
+  ["Nov 1st", fixed(11, 1)],
+  ["8th of Dec", fixed(12, 8)],
+  ["Feb 30", null],
+  [
+    "Last Sunday of Oct",
+    { type: "nth_weekday_of_month", weekday: 0, n: -1, months: [10] },
+  ],
+  ["Good Friday", anchor("good_friday")],
+  ["Divine Mercy Sunday", anchor("divine_mercy_sunday")],
+  ["Second Sunday of Easter", anchor("divine_mercy_sunday")],
+  ["Whitsunday", anchor("pentecost")],
+  ["Feast of St. Joseph", anchor("st_joseph")],
+  ["Solemnity of Saint Joseph", anchor("st_joseph")],
+  ["The Solemnity of Mary, Mother of God", anchor("mary_mother_of_god")],
+  ["Feast of the Sacred Heart", anchor("sacred_heart")],
+  ["Christ the King", anchor("christ_king")],
+  ["Sunday after Pentecost", nthAfter("pentecost", 0, 1)],
+  ["Friday after the second Sunday after Pentecost", offset("pentecost", 19)],
+  ["Thursday before Ash Wednesday", weekdayBefore("ash_wednesday", 4)],
+  ["Second Sunday before Advent", weekdayBefore("advent_1", 0, 2)],
+  ["10 days before Pentecost", offset("pentecost", -10)],
+  ["Nine days after Easter", offset("easter", 9)],
+  ["Twenty one days before Christmas", offset("christmas", -21)],
+  ["Two weeks before the Assumption", offset("assumption", -14)],
+  ["The day after Christmas", offset("christmas", 1)],
+  ["Eve of Pentecost", offset("pentecost", -1)],
+  ["Third Sunday of Lent", offset("ash_wednesday", 18)],
+  ["Wednesday of the second week of Advent", offset("advent_1", 10)],
+  ["Day before December 8", fixed(12, 7)],
+  [
+    "First Sunday of October",
+    { type: "nth_weekday_of_month", weekday: 0, n: 1, months: [10] },
+  ],
+  [
+    "Last Sunday of October",
+    { type: "nth_weekday_of_month", weekday: 0, n: -1, months: [10] },
+  ],
+  [
+    "First Friday of every month",
+    { type: "nth_weekday_of_month", weekday: 5, n: 1 },
+  ],
+  ["Every Wednesday", { type: "weekly", weekday: 3 }],
+  ["13th of every month", { type: "monthly", day: 13 }],
+  // The Sunday after Christmas has no fixed weekday offset from it
+  ["Friday after the second Sunday after Christmas", null],
+  ["Seventh Sunday of Easter", offset("easter", 42)],
+  ["Fifth Sunday of Lent", offset("ash_wednesday", 32)],
+  ["Fourth Sunday of Advent", offset("advent_1", 21)],
+  // Seasons have no such Sunday or week
+  ["First Sunday of Easter", null],
+  ["Eighth Sunday of Easter", null],
+  ["Sixth Sunday of Lent", null],
+  ["Monday of the sixth week of Lent", null],
+  ["Fifth Sunday of Advent", null],
+  // Palm Sunday today, the Sunday before it in the 1962 Missal
+  ["Passion Sunday", null],
+  ["Palm Sunday of the Passion of the Lord", anchor("palm_sunday")],
+  // One day apart in leap years
+  ["2 days before March 1", null],
+  ["Novena to be prayed any time", null],
+  // No such day (would roll over into the next month)
+  ["February 29", fixed(2, 29)],
+  ["February 30", null],
+  ["31 April", null],
+  ["31st of June", null],
+  ["September 31", null],
+  ["November 31", null],
+  ["Day before February 30", null],
+];
+
+export const RULE_PHRASES: RulePhrase[] = [
+  ...SOURCE_DATES,
+  ...SOURCE_MOVABLE,
+  ...EXAMPLES,
+];
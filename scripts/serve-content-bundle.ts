@@ -0,0 +1,79 @@
+// scripts/serve-content-bundle.ts
+//
+// Local stand-in for the content bundle host: serves a bundle directory
+// (default dist/content, from scripts/build-content-bundle.ts) over HTTP.
+//
+// Point a dev build at it with
+//   EXPO_PUBLIC_CONTENT_BUNDLE_URL=http://<your-lan-ip>:8787 npx expo start
+//
+// Run:
+//   npx tsx scripts/serve-content-bundle.ts [--dir dist/content] [--port 8787]
+//
+
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+
+export type BundleServer = { url: string; close: () => Promise<void> };
+
+/** Serves GET /<path> from dir; port 0 picks a free one. */
+export function startBundleServer(
+  dir: string,
+  port: number,
+): Promise<BundleServer> {
+  const root = path.resolve(dir);
+  const server = http.createServer((req, res) => {
+    const rel = decodeURIComponent((req.url ?? "/").split("?")[0]);
+    const file = path.join(root, path.normalize(rel));
+    if (
+      req.method !== "GET" ||
+      !file.startsWith(root + path.sep) ||
+      !fs.existsSync(file) ||
+      !fs.statSync(file).isFile()
+    ) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, {
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": "no-cache",
+      "Access-Control-Allow-Origin": "*",
+    });
+    fs.createReadStream(file).pipe(res);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, () => {
+      const addr = server.address();
+      const actual = typeof addr === "object" && addr ? addr.port : port;
+      resolve({
+        url: `http://localhost:${actual}`,
+        close: () =>
+          new Promise<void>((done) => {
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+function argValue(name: string): string | null {
+  const i = process.argv.indexOf(name);
+  return i >= 0 ? (process.argv[i + 1] ?? null) : null;
+}
+
+async function main() {
+  const dir = argValue("--dir") ?? "dist/content";
+  const port = Number(argValue("--port") ?? 8787);
+  if (!fs.existsSync(path.join(dir, "manifest.json"))) {
+    console.error(
+      `No manifest.json in ${dir}; run scripts/build-content-bundle.ts first.`,
+    );
+    process.exit(1);
+  }
+  const server = await startBundleServer(dir, port);
+  console.log(`Serving ${path.resolve(dir)} at ${server.url}`);
+}
+
+if (require.main === module) main();
@@ -0,0 +1,581 @@
+// scripts/validate-data.ts
+//
+// Checks every data artifact the app ships:
+//   data/novenas_index.json   schema, known anchors, every rule resolves
+//                             for 1900–2100 in every calendar profile,
+//                             startRule agrees with durationDays
+//   data/novenas/<id>.json    one per index entry, id = file name,
+//                             day count = durationDays, no leaked CSS
+//                             (what the novena screen strips at runtime)
+//   data/saints_by_mmdd.json  every day has saints and a featuredSaint
+//   data/saints_index.json    366 entries, unique ids / days, files exist
+//   data/saints/<id>.json     id = file name, mmdd matches id and index
+//   data/content_manifest.json up to date with the docs
+// and reports orphans (files nothing points at) and stray copies
+// ("<id> 2.json").
+//
+// Errors break the app (missing docs, rules that don't resolve); warnings
+// are content to clean up. Exit code is 1 on errors (or on warnings with
+// --strict).
+//
+// Run:
+//   npx tsx scripts/validate-data.ts [--verbose] [--strict]
+//
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { INTENTIONS } from "../data/patronage";
+import { CALENDAR_PROFILES } from "../utils/calendarProfiles";
+import { buildNovenaAnchorsForYear } from "../utils/liturgicalDates";
+import {
+  isRecurringRule,
+  resolveNovenaRunsForYear,
+  resolveStartHint,
+  type NovenaDef,
+} from "../utils/novenasRules";
+import {
+  NOVENA_DAY_TEXT_FIELDS,
+  extractNovenaDays,
+  findLeakedCss,
+} from "../utils/novenaContent";
+import { contentHash, parseContentManifest } from "../utils/contentBundle";
+
+const FIRST_YEAR = 1900;
+const LAST_YEAR = 2100;
+/** Issues printed per section unless --verbose. */
+const PRINT_LIMIT = 15;
+
+const ID_RE = /^[A-Za-z0-9_-]+$/;
+const MMDD_RE = /^(\d{2})-(\d{2})$/;
+const CATEGORIES = ["Devotion", "Marian", "Feast", "Saint", "Intention"];
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+type Section = "novenas_index" | "novena_content" | "saints" | "content_bundle";
+
+type Issue = {
+  section: Section;
+  severity: "error" | "warning";
+  id?: string;
+  message: string;
+};
+
+const issues: Issue[] = [];
+
+function error(section: Section, id: string | undefined, message: string) {
+  issues.push({ section, severity: "error", id, message });
+}
+
+function warn(section: Section, id: string | undefined, message: string) {
+  issues.push({ section, severity: "warning", id, message });
+}
+
+function readJson(file: string): unknown {
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+function isInt(x: unknown, min: number, max = Infinity): x is number {
+  return Number.isInteger(x) && (x as number) >= min && (x as number) <= max;
+}
+
+/** JSON files in dir, split into plain "<id>.json" and anything else. */
+function listJson(dir: string) {
+  const plain = new Map<string, string>(); // id -> file name
+  const stray: string[] = [];
+  for (const f of fs.readdirSync(dir).sort()) {
+    if (!f.toLowerCase().endsWith(".json")) continue;
+    const id = f.slice(0, -5);
+    if (ID_RE.test(id)) plain.set(id, f);
+    else stray.push(f);
+  }
+  return { plain, stray };
+}
+
+/** "<id> 2.json" → "<id>" (Finder-style copies), else null. */
+function copyOf(file: string): string | null {
+  const m = /^(.+?) \d+\.json$/i.exec(file);
+  return m && ID_RE.test(m[1]) ? m[1] : null;
+}
+
+function reportStray(section: Section, dir: string, stray: string[]) {
+  for (const f of stray) {
+    const original = copyOf(f);
+    if (!original) {
+      warn(section, f, "file name isn't a plain id; never bundled");
+      continue;
+    }
+    const origPath = path.join(dir, `${original}.json`);
+    if (!fs.existsSync(origPath)) {
+      warn(section, f, `copy of missing ${original}.json`);
+      continue;
+    }
+    const same =
+      fs.readFileSync(path.join(dir, f), "utf8") ===
+      fs.readFileSync(origPath, "utf8");
+    warn(
+      section,
+      f,
+      same
+        ? `duplicate of ${original}.json (identical); safe to delete`
+        : `duplicate of ${original}.json (contents differ); merge or delete`,
+    );
+  }
+}
+
+// --- novenas_index.json ---
+
+const ANCHOR_RULES = ["anchor", "relative", "nth_weekday_after"];
+
+function ruleProblem(rule: any, feastRule?: any): string | null {
+  if (!rule || typeof rule !== "object") return "missing";
+  switch (rule.type) {
+    case "fixed":
+      if (!isInt(rule.month, 1, 12)) return `month ${rule.month}`;
+      if (!isInt(rule.day, 1, DAYS_IN_MONTH[rule.month - 1])) {
+        return `day ${rule.day} in month ${rule.month}`;
+      }
+      return null;
+    case "anchor":
+      return typeof rule.anchor === "string" ? null : "anchor missing";
+    case "relative":
+      if (typeof rule.anchor !== "string") return "anchor missing";
+      if (!Number.isInteger(rule.offsetDays)) return "offsetDays missing";
+      if (rule.weekday !== undefined && !isInt(rule.weekday, 0, 6)) {
+        return `weekday ${rule.weekday}`;
+      }
+      if (
+        rule.weekdayPolicy !== undefined &&
+        rule.weekdayPolicy !== "onOrAfter" &&
+        rule.weekdayPolicy !== "onOrBefore"
+      ) {
+        return `weekdayPolicy ${rule.weekdayPolicy}`;
+      }
+      return null;
+    case "nth_weekday_after":
+      if (typeof rule.anchor !== "string") return "anchor missing";
+      if (!isInt(rule.weekday, 0, 6)) return `weekday ${rule.weekday}`;
+      if (!isInt(rule.n, 1)) return `n ${rule.n}`;
+      return null;
+    case "before_feast":
+      if (!isInt(rule.daysBefore, 1)) return `daysBefore ${rule.daysBefore}`;
+      if (rule.anchor === undefined && feastRule?.type !== "anchor") {
+        return "needs an anchor (or an anchor feastRule)";
+      }
+      return null;
+    case "weekly":
+    case "monthly":
+    case "nth_weekday_of_month":
+      if (feastRule !== undefined)
+        return `${rule.type} can only be a feastRule`;
+      if (
+        rule.months !== undefined &&
+        (!Array.isArray(rule.months) ||
+          !rule.months.length ||
+          !rule.months.every((m: unknown) => isInt(m, 1, 12)))
+      ) {
+        return `months ${JSON.stringify(rule.months)}`;
+      }
+      if (rule.type === "monthly") {
+        return isInt(rule.day, 1, 31) ? null : `day ${rule.day}`;
+      }
+      if (!isInt(rule.weekday, 0, 6)) return `weekday ${rule.weekday}`;
+      if (
+        rule.type === "nth_weekday_of_month" &&
+        rule.n !== -1 &&
+        !isInt(rule.n, 1, 5)
+      ) {
+        return `n ${rule.n} (1..5 or -1)`;
+      }
+      return null;
+    default:
+      return `unknown type ${JSON.stringify(rule.type)}`;
+  }
+}
+
+function ruleAnchors(rule: any, feastRule?: any): string[] {
+  if (!rule) return [];
+  if (ANCHOR_RULES.includes(rule.type)) return [rule.anchor];
+  if (rule.type === "before_feast") {
+    const a = rule.anchor ?? feastRule?.anchor;
+    return typeof a === "string" ? [a] : [];
+  }
+  return [];
+}
+
+/** Valid defs (the ones worth resolving). */
+function checkNovenaIndex(raw: unknown): NovenaDef[] {
+  const S: Section = "novenas_index";
+  if (!Array.isArray(raw)) {
+    error(S, undefined, "not an array");
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const valid: NovenaDef[] = [];
+  for (const [i, n] of (raw as any[]).entries()) {
+    const id = typeof n?.id === "string" ? n.id : `#${i}`;
+    let ok = true;
+    const bad = (msg: string) => {
+      error(S, id, msg);
+      ok = false;
+    };
+
+    if (!ID_RE.test(n?.id ?? "")) bad("id must be a plain id");
+    if (seen.has(id)) bad("duplicate id");
+    seen.add(id);
+    if (typeof n.title !== "string" || !n.title.trim()) bad("title missing");
+    if (!CATEGORIES.includes(n.category)) bad(`category ${n.category}`);
+    if (n.tags !== undefined) {
+      if (
+        !Array.isArray(n.tags) ||
+        n.tags.some((t: any) => typeof t !== "string")
+      ) {
+        bad("tags must be strings");
+      }
+    }
+    for (const p of n.patronage ?? []) {
+      if (!(INTENTIONS as readonly string[]).includes(p)) {
+        warn(S, id, `unknown intention "${p}" in patronage`);
+      }
+    }
+    if (n.durationDays !== undefined && !isInt(n.durationDays, 1, 4000)) {
+      bad(`durationDays ${n.durationDays}`);
+    }
+
+    const feastProblem = ruleProblem(n.feastRule);
+    if (feastProblem) bad(`feastRule: ${feastProblem}`);
+    if (n.feastRule?.type === "before_feast") {
+      bad("feastRule can't be before_feast");
+    }
+    if (n.startRule !== undefined) {
+      const p = ruleProblem(n.startRule, n.feastRule);
+      if (p) bad(`startRule: ${p}`);
+    }
+
+    if (ok) valid.push(n as NovenaDef);
+  }
+  return valid;
+}
+
+function checkAnchorsAndResolution(defs: NovenaDef[], verbose: boolean) {
+  const S: Section = "novenas_index";
+
+  const known = new Set(
+    CALENDAR_PROFILES.flatMap((p) =>
+      Object.keys(buildNovenaAnchorsForYear(2000, p.id)),
+    ),
+  );
+  const resolvable = defs.filter((n) => {
+    const missing = [
+      ...ruleAnchors(n.feastRule),
+      ...ruleAnchors(n.startRule, n.feastRule),
+    ].filter((a) => !known.has(a));
+    for (const a of missing) {
+      error(S, n.id, `unknown anchor "${a}" (see buildNovenaAnchorsForYear)`);
+    }
+    return missing.length === 0;
+  });
+
+  // id -> first failure / startRule disagreements across years and profiles
+  const failures = new Map<string, { count: number; first: string }>();
+  const startMismatch = new Map<
+    string,
+    { count: number; spans: Set<number> }
+  >();
+  let checked = 0;
+
+  for (const profile of CALENDAR_PROFILES) {
+    for (let year = FIRST_YEAR; year <= LAST_YEAR; year++) {
+      const anchors = buildNovenaAnchorsForYear(year, profile.id);
+      for (const n of resolvable) {
+        checked++;
+        try {
+          const [inst] = resolveNovenaRunsForYear(n, year, anchors);
+          if (!inst || !n.startRule || isRecurringRule(n.feastRule)) continue;
+          const hinted = resolveStartHint(n, year, anchors, inst.feastDate);
+          if (hinted.getTime() !== inst.startDate.getTime()) {
+            const span =
+              Math.round(
+                (inst.feastDate.getTime() - hinted.getTime()) / 86400000,
+              ) + 1;
+            const m = startMismatch.get(n.id) ?? { count: 0, spans: new Set() };
+            m.count++;
+            m.spans.add(span);
+            startMismatch.set(n.id, m);
+          }
+        } catch (e) {
+          const f = failures.get(n.id);
+          if (f) f.count++;
+          else {
+            failures.set(n.id, {
+              count: 1,
+              first: `${profile.id} ${year}: ${(e as Error).message}`,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  for (const [id, f] of failures) {
+    error(S, id, `doesn't resolve in ${f.count} year(s), first: ${f.first}`);
+  }
+  // Scraped "Starts:" dates are usually one day early; the resolver ignores
+  // them by design, so those are summarized instead of listed one by one.
+  const offByOne: string[] = [];
+  for (const [id, m] of startMismatch) {
+    const duration = defs.find((n) => n.id === id)!.durationDays ?? 9;
+    if (m.spans.size === 1 && m.spans.has(duration + 1)) {
+      offByOne.push(id);
+      continue;
+    }
+    warn(
+      S,
+      id,
+      `startRule spans ${[...m.spans].sort((a, b) => a - b).join("/")} day(s) but durationDays is ${duration} (${m.count} profile-years); start is computed from the feast`,
+    );
+  }
+  if (offByOne.length) {
+    const shown = verbose ? offByOne : offByOne.slice(0, 5);
+    warn(
+      S,
+      undefined,
+      `${offByOne.length} startRule(s) start one day early (ignored, start is computed from the feast): ${shown.join(", ")}${shown.length < offByOne.length ? ", …" : ""}`,
+    );
+  }
+  return checked;
+}
+
+// --- novena content ---
+
+function checkNovenaContent(dataDir: string, defs: any[]) {
+  const S: Section = "novena_content";
+  const dir = path.join(dataDir, "novenas");
+  const { plain, stray } = listJson(dir);
+  reportStray(S, dir, stray);
+
+  const indexed = new Map<string, any>(
+    defs.filter((n) => typeof n?.id === "string").map((n) => [n.id, n]),
+  );
+  for (const id of indexed.keys()) {
+    if (!plain.has(id))
+      error(S, id, "no content file (novena screen shows not found)");
+  }
+
+  for (const [id, file] of plain) {
+    const def = indexed.get(id);
+    if (!def) {
+      warn(S, file, "orphan: not in novenas_index.json");
+      continue;
+    }
+
+    let doc: any;
+    try {
+      doc = readJson(path.join(dir, file));
+    } catch (e) {
+      error(S, id, `invalid JSON: ${(e as Error).message}`);
+      continue;
+    }
+    if (doc?.id !== id)
+      error(S, id, `doc id "${doc?.id}" doesn't match file name`);
+
+    const duration = def.durationDays ?? 9;
+    const days = extractNovenaDays(doc);
+    if (days.length === 0) {
+      warn(S, id, "no days");
+    } else if (days.length !== duration) {
+      warn(S, id, `${days.length} days but durationDays is ${duration}`);
+    }
+
+    const numbers = days.map((d) => d?.day);
+    const expected = numbers.every((d, i) => d === i + 1);
+    if (days.length && !expected) {
+      warn(S, id, `day numbers aren't 1..${days.length} in order`);
+    }
+
+    let cssDays = 0;
+    let sample = "";
+    for (const d of days) {
+      const leaked = NOVENA_DAY_TEXT_FIELDS.flatMap((f) =>
+        findLeakedCss(d?.[f]),
+      );
+      if (leaked.length) {
+        cssDays++;
+        sample ||= leaked[0].trim().slice(0, 60);
+      }
+    }
+    if (cssDays) {
+      warn(S, id, `leaked CSS in ${cssDays} day(s), e.g. "${sample}"`);
+    }
+  }
+}
+
+// --- saints ---
+
+function checkSaints(dataDir: string) {
+  const S: Section = "saints";
+
+  const byMmdd = readJson(path.join(dataDir, "saints_by_mmdd.json")) as Record<
+    string,
+    any
+  >;
+  const days = Object.keys(byMmdd);
+  if (days.length !== 366)
+    error(S, undefined, `saints_by_mmdd has ${days.length} days, expected 366`);
+  for (const [mmdd, v] of Object.entries(byMmdd)) {
+    if (!MMDD_RE.test(mmdd)) error(S, mmdd, "saints_by_mmdd key isn't MM-DD");
+    if (!v?.saints?.length) error(S, mmdd, "saints_by_mmdd day has no saints");
+    else if (!v.featuredSaint)
+      error(S, mmdd, "saints_by_mmdd day has no featuredSaint");
+  }
+
+  const index = readJson(path.join(dataDir, "saints_index.json")) as any[];
+  if (index.length !== 366)
+    error(
+      S,
+      undefined,
+      `saints_index has ${index.length} entries, expected 366`,
+    );
+
+  const dir = path.join(dataDir, "saints");
+  const { plain, stray } = listJson(dir);
+  reportStray(S, dir, stray);
+
+  const ids = new Set<string>();
+  const mmdds = new Set<string>();
+  for (const e of index) {
+    const id = String(e?.id);
+    if (ids.has(id)) error(S, id, "duplicate id in saints_index");
+    ids.add(id);
+    if (mmdds.has(e?.mmdd)) error(S, id, `second index entry for ${e?.mmdd}`);
+    mmdds.add(e?.mmdd);
+    if (!MMDD_RE.test(e?.mmdd ?? "") || !id.startsWith(`${e.mmdd}_`)) {
+      error(S, id, `index mmdd "${e?.mmdd}" doesn't match id`);
+    }
+    if (!plain.has(id))
+      error(S, id, "no saint file (saint screen shows not found)");
+  }
+
+  for (const [id, file] of plain) {
+    const indexed = ids.has(id);
+    const report = indexed ? error : warn;
+
+    let doc: any;
+    try {
+      doc = readJson(path.join(dir, file));
+    } catch (e) {
+      report(S, id, `invalid JSON: ${(e as Error).message}`);
+      continue;
+    }
+    if (doc?.id !== id)
+      report(S, id, `doc id "${doc?.id}" doesn't match file name`);
+    const m = MMDD_RE.exec(doc?.mmdd ?? "");
+    if (
+      !m ||
+      !isInt(+m[1], 1, 12) ||
+      !isInt(+m[2], 1, DAYS_IN_MONTH[+m[1] - 1])
+    ) {
+      report(S, id, `mmdd "${doc?.mmdd}" isn't a calendar day`);
+    } else if (!id.startsWith(`${doc.mmdd}_`)) {
+      report(S, id, `mmdd "${doc.mmdd}" doesn't match id`);
+    }
+    if (!indexed) warn(S, file, "orphan: not in saints_index.json");
+  }
+}
+
+// --- content bundle ---
+
+function checkContentManifest(dataDir: string) {
+  const S: Section = "content_bundle";
+  const file = path.join(dataDir, "content_manifest.json");
+  if (!fs.existsSync(file)) {
+    warn(
+      S,
+      undefined,
+      "data/content_manifest.json missing; run npm run content:build",
+    );
+    return;
+  }
+  const manifest = parseContentManifest(readJson(file));
+  if (!manifest) {
+    error(S, undefined, "data/content_manifest.json is invalid");
+    return;
+  }
+  let stale = 0;
+  for (const [kind, docs] of Object.entries(manifest.docs)) {
+    for (const [id, hash] of Object.entries(docs)) {
+      const p = path.join(dataDir, kind, `${id}.json`);
+      if (
+        !fs.existsSync(p) ||
+        contentHash(fs.readFileSync(p, "utf8")) !== hash
+      ) {
+        stale++;
+      }
+    }
+  }
+  if (stale) {
+    warn(
+      S,
+      undefined,
+      `${stale} doc(s) changed since the last bundle; run npm run content:build`,
+    );
+  }
+}
+
+// --- report ---
+
+function printReport(verbose: boolean) {
+  const sections: Section[] = [
+    "novenas_index",
+    "novena_content",
+    "saints",
+    "content_bundle",
+  ];
+  for (const section of sections) {
+    const list = issues
+      .filter((i) => i.section === section)
+      .sort((a, b) =>
+        a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1,
+      );
+    if (!list.length) {
+      console.log(`✅ ${section}`);
+      continue;
+    }
+    const errors = list.filter((i) => i.severity === "error").length;
+    console.log(
+      `${errors ? "❌" : "⚠️ "} ${section}: ${errors} error(s), ${list.length - errors} warning(s)`,
+    );
+    const shown = verbose ? list : list.slice(0, PRINT_LIMIT);
+    for (const i of shown) {
+      const tag = i.severity === "error" ? "error" : "warn ";
+      console.log(`   ${tag} ${i.id ? `${i.id}: ` : ""}${i.message}`);
+    }
+    if (shown.length < list.length) {
+      console.log(`   … ${list.length - shown.length} more (--verbose)`);
+    }
+  }
+}
+
+function main() {
+  const verbose = process.argv.includes("--verbose");
+  const strict = process.argv.includes("--strict");
+  const dataDir = path.join(process.cwd(), "data");
+
+  const rawIndex = readJson(path.join(dataDir, "novenas_index.json"));
+  const defs = checkNovenaIndex(rawIndex);
+  const resolved = checkAnchorsAndResolution(defs, verbose);
+  checkNovenaContent(dataDir, Array.isArray(rawIndex) ? rawIndex : []);
+  checkSaints(dataDir);
+  checkContentManifest(dataDir);
+
+  printReport(verbose);
+
+  const errors = issues.filter((i) => i.severity === "error").length;
+  const warnings = issues.length - errors;
+  console.log(
+    `\n${resolved} novena-years resolved (${FIRST_YEAR}–${LAST_YEAR}, ${CALENDAR_PROFILES.length} profiles) · ${errors} error(s) · ${warnings} warning(s)`,
+  );
+  if (errors || (strict && warnings)) process.exit(1);
+}
+
+main();
@@ -0,0 +1,20 @@
+// utils/calendarProfileStore.ts
+//
+// The calendar profile the user picked on the Home tab.
+// Every calendar screen reads it so seasons, celebrations and novena dates
+// agree with each other.
+
+import { createPersistedStore } from "./persistedStore";
+import {
+  DEFAULT_CALENDAR_PROFILE,
+  isCalendarProfileId,
+  type CalendarProfileId,
+} from "./calendarProfiles";
+
+const STORAGE_KEY = "calendar_profile";
+
+export const calendarProfileStore = createPersistedStore<CalendarProfileId>(
+  STORAGE_KEY,
+  DEFAULT_CALENDAR_PROFILE,
+  (raw) => (isCalendarProfileId(raw) ? raw : null),
+);
@@ -0,0 +1,104 @@
+// utils/calendarProfiles.ts
+//
+// Calendar profiles = which particular calendar the user follows.
+// A profile decides:
+// - the holy-day transfers allowed by the Universal Norms (no. 7):
+//   Epiphany to the Sunday between Jan 2 and 8, Ascension to the 7th Sunday
+//   of Easter, Corpus Christi to the Sunday after Trinity
+// - the national proper celebrations (data/nationalCalendars.ts)
+// - the form of the Roman Rite: "traditional" follows the 1962 Missal
+//   (utils/traditionalCalendar.ts) instead of the General Roman Calendar;
+//   its transfer flags are unused
+//
+// Pure data + lookups; the user's choice is persisted by
+// utils/calendarProfileStore.ts.
+
+import {
+  MEXICO_CALENDAR,
+  PHILIPPINES_CALENDAR,
+  POLAND_CALENDAR,
+  USA_CALENDAR,
+  type ProperEntry,
+} from "../data/nationalCalendars";
+
+export type CalendarProfileId =
+  "general" | "usa" | "poland" | "philippines" | "mexico" | "traditional";
+
+/** Ordinary Form (current Missal) or Extraordinary Form (1962 Missal). */
+export type CalendarForm = "ordinary" | "extraordinary";
+
+export type CalendarProfile = {
+  id: CalendarProfileId;
+  form: CalendarForm;
+  epiphanyOnSunday: boolean;
+  ascensionOnSunday: boolean;
+  corpusChristiOnSunday: boolean;
+  proper: ProperEntry[];
+};
+
+export const DEFAULT_CALENDAR_PROFILE: CalendarProfileId = "general";
+
+export const CALENDAR_PROFILES: CalendarProfile[] = [
+  {
+    id: "general",
+    form: "ordinary",
+    epiphanyOnSunday: false,
+    ascensionOnSunday: false,
+    corpusChristiOnSunday: false,
+    proper: [],
+  },
+  {
+    // Ascension follows the majority of US provinces (Sunday).
+    id: "usa",
+    form: "ordinary",
+    epiphanyOnSunday: true,
+    ascensionOnSunday: true,
+    corpusChristiOnSunday: true,
+    proper: USA_CALENDAR,
+  },
+  {
+    id: "poland",
+    form: "ordinary",
+    epiphanyOnSunday: false,
+    ascensionOnSunday: true,
+    corpusChristiOnSunday: false,
+    proper: POLAND_CALENDAR,
+  },
+  {
+    id: "philippines",
+    form: "ordinary",
+    epiphanyOnSunday: true,
+    ascensionOnSunday: true,
+    corpusChristiOnSunday: true,
+    proper: PHILIPPINES_CALENDAR,
+  },
+  {
+    id: "mexico",
+    form: "ordinary",
+    epiphanyOnSunday: true,
+    ascensionOnSunday: true,
+    corpusChristiOnSunday: true,
+    proper: MEXICO_CALENDAR,
+  },
+  {
+    id: "traditional",
+    form: "extraordinary",
+    epiphanyOnSunday: false,
+    ascensionOnSunday: false,
+    corpusChristiOnSunday: false,
+    proper: [],
+  },
+];
+
+export function isCalendarProfileId(x: unknown): x is CalendarProfileId {
+  return CALENDAR_PROFILES.some((p) => p.id === x);
+}
+
+export function getCalendarProfile(id: CalendarProfileId): CalendarProfile {
+  return CALENDAR_PROFILES.find((p) => p.id === id) ?? CALENDAR_PROFILES[0];
+}
+
+/** True for the 1962 Missal profile (no lectionary cycles, no psalter weeks). */
+export function isTraditionalProfile(id: CalendarProfileId): boolean {
+  return getCalendarProfile(id).form === "extraordinary";
+}
@@ -0,0 +1,61 @@
+// utils/calendarViewMode.ts
+//
+// Calendar layout (week / month / year grid, or agenda list), remembered
+// per calendar tab.
+// The agenda covers the same three-year window the Novenas tab already
+// resolves (year before .. year after the month on screen).
+
+import { createPersistedStore } from "./persistedStore";
+import { toDateKey } from "./dateKeys";
+
+const STORAGE_KEY = "calendar_view_modes";
+
+export type CalendarTab = "novenas" | "liturgical" | "saints";
+export type CalendarViewMode = "week" | "month" | "year" | "agenda";
+
+export const CALENDAR_VIEW_MODES: CalendarViewMode[] = [
+  "week",
+  "month",
+  "year",
+  "agenda",
+];
+
+export type CalendarViewModes = Record<CalendarTab, CalendarViewMode>;
+
+const DEFAULT_MODES: CalendarViewModes = {
+  novenas: "month",
+  liturgical: "month",
+  saints: "month",
+};
+
+function isMode(x: unknown): x is CalendarViewMode {
+  return CALENDAR_VIEW_MODES.includes(x as CalendarViewMode);
+}
+
+function parseModes(raw: unknown): CalendarViewModes | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const r = raw as Record<string, unknown>;
+  const out = { ...DEFAULT_MODES };
+  for (const tab of Object.keys(DEFAULT_MODES) as CalendarTab[]) {
+    if (isMode(r[tab])) out[tab] = r[tab];
+  }
+  return out;
+}
+
+export const calendarViewModesStore = createPersistedStore<CalendarViewModes>(
+  STORAGE_KEY,
+  DEFAULT_MODES,
+  parseModes,
+);
+
+export async function setCalendarViewMode(
+  tab: CalendarTab,
+  mode: CalendarViewMode,
+) {
+  await calendarViewModesStore.set((prev) => ({ ...prev, [tab]: mode }));
+}
+
+/** First and last day (inclusive) of the agenda around `year`. */
+export function agendaWindow(year: number): { start: string; end: string } {
+  return { start: toDateKey(year - 1, 1, 1), end: toDateKey(year + 1, 12, 31) };
+}
@@ -0,0 +1,226 @@
+// utils/contentBundle.ts
+//
+// Versioned content bundle: saint and novena docs that can be fixed
+// without an app release.
+//
+// Bundle layout (what scripts/build-content-bundle.ts writes and a
+// server hosts under one base URL):
+//   manifest.json            { format, version, docs: { saints: {id: hash}, novenas: {id: hash} } }
+//   saints/<id>.json
+//   novenas/<id>.json
+//
+// - The app ships the same manifest (data/content_manifest.json) next to
+//   its baked-in docs
+// - An update only downloads docs whose hash differs from what we have,
+//   checks every download against the manifest hash, and commits the new
+//   manifest last; any failure keeps the previous content
+// - Docs equal to the baked copy are never cached, so the cache only
+//   holds real fixes
+//
+// File access and HTTP are passed in (ContentStore, FetchText) so the same
+// logic runs in the app (utils/contentStore.ts) and in Node scripts.
+
+import { CONTENT_KINDS, type ContentKind } from "../data/contentOverrides";
+
+export const CONTENT_BUNDLE_FORMAT = 1;
+
+export type ContentManifest = {
+  format: number;
+  version: number;
+  docs: Record<ContentKind, Record<string, string>>;
+};
+
+export type ContentStore = {
+  readManifest(): Promise<ContentManifest | null>;
+  writeManifest(manifest: ContentManifest): Promise<void>;
+  readDoc(kind: ContentKind, id: string): Promise<string | null>;
+  writeDoc(kind: ContentKind, id: string, text: string): Promise<void>;
+  deleteDoc(kind: ContentKind, id: string): Promise<void>;
+  /** Drops the manifest and every cached doc. */
+  clear(): Promise<void>;
+};
+
+/** Resolves with the body of a 2xx response; rejects otherwise. */
+export type FetchText = (url: string) => Promise<string>;
+
+export type ContentUpdateResult =
+  | { status: "updated"; version: number; fetched: number; removed: number }
+  | { status: "up-to-date"; version: number }
+  | { status: "offline"; error: unknown }
+  | { status: "failed"; error: unknown };
+
+/**
+ * cyrb53 (53-bit, non-cryptographic) as 14 hex chars. Only used to tell
+ * docs apart and catch truncated downloads; the bundle host is trusted.
+ */
+export function contentHash(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const n = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return n.toString(16).padStart(14, "0");
+}
+
+const ID_RE = /^[A-Za-z0-9_-]+$/;
+
+/** Validates a manifest (from disk or the network); null if unusable. */
+export function parseContentManifest(raw: unknown): ContentManifest | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const r = raw as Record<string, any>;
+  if (r.format !== CONTENT_BUNDLE_FORMAT) return null;
+  if (!Number.isInteger(r.version) || r.version < 0) return null;
+  if (!r.docs || typeof r.docs !== "object") return null;
+
+  const docs = {} as ContentManifest["docs"];
+  for (const kind of CONTENT_KINDS) {
+    const src = r.docs[kind];
+    if (!src || typeof src !== "object" || Array.isArray(src)) return null;
+    docs[kind] = {};
+    for (const [id, hash] of Object.entries(src)) {
+      // Ids become file names and URL paths.
+      if (!ID_RE.test(id) || typeof hash !== "string" || !hash) return null;
+      docs[kind][id] = hash;
+    }
+  }
+  return { format: CONTENT_BUNDLE_FORMAT, version: r.version, docs };
+}
+
+export function contentDocPath(kind: ContentKind, id: string): string {
+  return `${kind}/${id}.json`;
+}
+
+function joinUrl(base: string, rel: string): string {
+  return `${base.replace(/\/+$/, "")}/${rel}`;
+}
+
+/**
+ * The cached manifest if it is newer than the baked one. An app update
+ * that ships newer content makes the old cache obsolete.
+ */
+async function readActiveManifest(
+  store: ContentStore,
+  baked: ContentManifest,
+): Promise<ContentManifest | null> {
+  const cached = await store.readManifest();
+  return cached && cached.version > baked.version ? cached : null;
+}
+
+/**
+ * Cached docs to use instead of the baked copy (parsed JSON per kind).
+ * Docs that are missing or don't match their hash are skipped, so an
+ * interrupted update falls back to the baked copy doc by doc.
+ */
+export async function loadCachedContent(
+  store: ContentStore,
+  baked: ContentManifest,
+): Promise<{
+  version: number;
+  docs: Record<ContentKind, Record<string, any>>;
+}> {
+  const docs = { saints: {}, novenas: {} } as Record<
+    ContentKind,
+    Record<string, any>
+  >;
+
+  const active = await readActiveManifest(store, baked);
+  if (!active) {
+    if (await store.readManifest()) await store.clear();
+    return { version: baked.version, docs };
+  }
+
+  for (const kind of CONTENT_KINDS) {
+    for (const [id, hash] of Object.entries(active.docs[kind])) {
+      if (baked.docs[kind][id] === hash) continue;
+      const text = await store.readDoc(kind, id);
+      if (text == null || contentHash(text) !== hash) continue;
+      try {
+        docs[kind][id] = JSON.parse(text);
+      } catch {
+        // Hash matched but not JSON: the bundle itself is broken; skip.
+      }
+    }
+  }
+  return { version: active.version, docs };
+}
+
+export type ContentUpdateOptions = {
+  baseUrl: string;
+  baked: ContentManifest;
+  store: ContentStore;
+  fetchText: FetchText;
+};
+
+/**
+ * Pulls a newer bundle from baseUrl, if there is one. Never throws:
+ * network errors come back as "offline", bad bundles as "failed", and in
+ * both cases the cache is left as it was.
+ */
+export async function runContentUpdate(
+  opts: ContentUpdateOptions,
+): Promise<ContentUpdateResult> {
+  const { baseUrl, baked, store, fetchText } = opts;
+
+  let remoteText: string;
+  try {
+    remoteText = await fetchText(joinUrl(baseUrl, "manifest.json"));
+  } catch (error) {
+    return { status: "offline", error };
+  }
+
+  try {
+    const remote = parseContentManifest(JSON.parse(remoteText));
+    if (!remote) throw new Error("Invalid content manifest");
+
+    const current = (await readActiveManifest(store, baked)) ?? baked;
+    if (remote.version <= current.version) {
+      return { status: "up-to-date", version: current.version };
+    }
+
+    // Download everything first; nothing is written until all docs check out.
+    const downloads: { kind: ContentKind; id: string; text: string }[] = [];
+    const stale: { kind: ContentKind; id: string }[] = [];
+    for (const kind of CONTENT_KINDS) {
+      for (const [id, hash] of Object.entries(remote.docs[kind])) {
+        if (hash === baked.docs[kind][id]) {
+          if (current.docs[kind][id] !== hash) stale.push({ kind, id });
+          continue;
+        }
+        if (hash === current.docs[kind][id]) continue;
+
+        const text = await fetchText(
+          joinUrl(baseUrl, contentDocPath(kind, id)),
+        );
+        if (contentHash(text) !== hash) {
+          throw new Error(`Hash mismatch for ${kind}/${id}`);
+        }
+        JSON.parse(text);
+        downloads.push({ kind, id, text });
+      }
+      // Dropped from the bundle: back to the baked copy (if any).
+      for (const id of Object.keys(current.docs[kind])) {
+        if (!(id in remote.docs[kind])) stale.push({ kind, id });
+      }
+    }
+
+    for (const d of downloads) await store.writeDoc(d.kind, d.id, d.text);
+    await store.writeManifest(remote);
+    for (const s of stale) await store.deleteDoc(s.kind, s.id);
+
+    return {
+      status: "updated",
+      version: remote.version,
+      fetched: downloads.length,
+      removed: stale.length,
+    };
+  } catch (error) {
+    return { status: "failed", error };
+  }
+}
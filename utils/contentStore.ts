@@ -0,0 +1,129 @@
+// utils/contentStore.ts
+//
+// App side of the content bundle (utils/contentBundle.ts):
+// - Cache under <documents>/content (same layout as the bundle)
+// - loadContentCache(): applies cached docs as overrides at startup
+// - updateContent(): pulls a newer bundle and applies it right away
+//   (open screens keep what they showed; the next open gets the new text)
+//
+// The bundle URL comes from EXPO_PUBLIC_CONTENT_BUNDLE_URL or
+// expo.extra.contentBundleUrl in app.json; empty means "baked copy only".
+// Web has no document directory and always uses the baked copy.
+
+import { Platform } from "react-native";
+import Constants from "expo-constants";
+import { Directory, File, Paths } from "expo-file-system";
+
+import bakedManifestJson from "../data/content_manifest.json";
+import {
+  CONTENT_KINDS,
+  setContentOverrides,
+  type ContentKind,
+} from "../data/contentOverrides";
+import {
+  CONTENT_BUNDLE_FORMAT,
+  contentDocPath,
+  loadCachedContent,
+  parseContentManifest,
+  runContentUpdate,
+  type ContentManifest,
+  type ContentStore,
+  type ContentUpdateResult,
+} from "./contentBundle";
+
+const BAKED_MANIFEST: ContentManifest = parseContentManifest(
+  bakedManifestJson,
+) ?? {
+  format: CONTENT_BUNDLE_FORMAT,
+  version: 0,
+  docs: { saints: {}, novenas: {} },
+};
+
+export function contentBundleUrl(): string | null {
+  const url =
+    process.env.EXPO_PUBLIC_CONTENT_BUNDLE_URL ||
+    Constants.expoConfig?.extra?.contentBundleUrl;
+  return typeof url === "string" && url.trim() ? url.trim() : null;
+}
+
+export function contentCacheSupported() {
+  return Platform.OS !== "web";
+}
+
+function cacheDir() {
+  return new Directory(Paths.document, "content");
+}
+
+const fileStore: ContentStore = {
+  async readManifest() {
+    const file = new File(cacheDir(), "manifest.json");
+    if (!file.exists) return null;
+    try {
+      return parseContentManifest(JSON.parse(await file.text()));
+    } catch {
+      return null;
+    }
+  },
+  async writeManifest(manifest) {
+    const file = new File(cacheDir(), "manifest.json");
+    file.create({ intermediates: true, overwrite: true });
+    file.write(JSON.stringify(manifest));
+  },
+  async readDoc(kind, id) {
+    const file = new File(cacheDir(), contentDocPath(kind, id));
+    return file.exists ? file.text() : null;
+  },
+  async writeDoc(kind, id, text) {
+    const file = new File(cacheDir(), contentDocPath(kind, id));
+    file.create({ intermediates: true, overwrite: true });
+    file.write(text);
+  },
+  async deleteDoc(kind, id) {
+    const file = new File(cacheDir(), contentDocPath(kind, id));
+    if (file.exists) file.delete();
+  },
+  async clear() {
+    const dir = cacheDir();
+    if (dir.exists) dir.delete();
+  },
+};
+
+async function fetchText(url: string): Promise<string> {
+  const res = await fetch(url, { headers: { "Cache-Control": "no-cache" } });
+  if (!res.ok) throw new Error(`HTTP ${res.status} for ${url}`);
+  return res.text();
+}
+
+let contentVersion = BAKED_MANIFEST.version;
+
+/** Version of the content in use (baked or downloaded). */
+export function getContentVersion() {
+  return contentVersion;
+}
+
+function applyOverrides(docs: Record<ContentKind, Record<string, any>>) {
+  for (const kind of CONTENT_KINDS) setContentOverrides(kind, docs[kind]);
+}
+
+/** Applies previously downloaded docs. Call before the first screen renders. */
+export async function loadContentCache() {
+  if (!contentCacheSupported()) return;
+  const cached = await loadCachedContent(fileStore, BAKED_MANIFEST);
+  applyOverrides(cached.docs);
+  contentVersion = cached.version;
+}
+
+/** Checks the bundle URL for newer content; null if not configured. */
+export async function updateContent(): Promise<ContentUpdateResult | null> {
+  const baseUrl = contentBundleUrl();
+  if (!baseUrl || !contentCacheSupported()) return null;
+
+  const result = await runContentUpdate({
+    baseUrl,
+    baked: BAKED_MANIFEST,
+    store: fileStore,
+    fetchText,
+  });
+  if (result.status === "updated") await loadContentCache();
+  return result;
+}
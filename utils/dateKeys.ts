@@ -0,0 +1,62 @@
+// utils/dateKeys.ts
+//
+// "YYYY-MM-DD" date keys shared by calendars, progress tracking and routes.
+// - Keys are plain calendar dates (no time, no timezone).
+// - "Today" is always the user's LOCAL date (same as MonthGrid's today ring).
+// - Arithmetic goes through UTC so DST never shifts a day.
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Gregorian years only: the liturgical engine (Easter computus) starts at
+// 1583, and Date.UTC would read years 0–99 as 1900–1999.
+const MIN_KEY_YEAR = 1583;
+const MAX_KEY_YEAR = 9999;
+
+function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+export function toDateKey(y: number, m1: number, d: number): string {
+  return `${y}-${pad2(m1)}-${pad2(d)}`;
+}
+
+export function isDateKey(s: unknown): s is string {
+  if (typeof s !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(s)) return false;
+  const [y, m, d] = s.split("-").map((x) => parseInt(x, 10));
+  if (y < MIN_KEY_YEAR || y > MAX_KEY_YEAR) return false;
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  return dt.getUTCMonth() === m - 1 && dt.getUTCDate() === d;
+}
+
+/** Local "today" (what the user sees on their wall calendar). */
+export function todayKeyLocal(now: Date = new Date()): string {
+  return toDateKey(now.getFullYear(), now.getMonth() + 1, now.getDate());
+}
+
+/** Date -> key using the UTC calendar date (engine dates live at UTC midnight/noon). */
+export function dateToKeyUTC(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/** Key -> Date at UTC noon (the liturgical engine's convention). */
+export function keyToUTCNoon(key: string): Date {
+  const [y, m, d] = key.split("-").map((x) => parseInt(x, 10));
+  return new Date(Date.UTC(y, m - 1, d, 12, 0, 0, 0));
+}
+
+/** Whole days from `a` to `b` (b - a). */
+export function diffDateKeys(a: string, b: string): number {
+  return Math.round(
+    (keyToUTCNoon(b).getTime() - keyToUTCNoon(a).getTime()) / MS_PER_DAY,
+  );
+}
+
+export function addDaysToKey(key: string, days: number): string {
+  return dateToKeyUTC(
+    new Date(keyToUTCNoon(key).getTime() + days * MS_PER_DAY),
+  );
+}
+
+export function yearOfKey(key: string): number {
+  return parseInt(key.slice(0, 4), 10);
+}
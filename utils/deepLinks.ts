@@ -0,0 +1,120 @@
+// utils/deepLinks.ts
+//
+// Links to the detail routes (app scheme + web paths).
+// - App:  sanctuary://novena/divine_mercy?date=2026-04-03
+//         sanctuary://saint/01-21_saint_agnes
+//         sanctuary://day/2026-04-03
+// - Web:  the same path + query on the web build (/novena/divine_mercy?date=...)
+//
+// Incoming links are checked by resolveLinkPath (app/+native-intent.tsx):
+// an unknown novena / saint id or a malformed date falls back to the matching
+// tab (or drops the bad ?date=) instead of opening a "not found" screen.
+
+import { Share } from "react-native";
+
+import { novenaDocs } from "../data/novenasManifest";
+import { saintDocs } from "../data/saintsManifest";
+import { isDateKey } from "./dateKeys";
+
+export const LINK_SCHEME = "sanctuary";
+
+export type LinkTarget =
+  | { kind: "novena"; id: string; date?: string }
+  | { kind: "saint"; id: string; date?: string }
+  | { kind: "day"; date: string };
+
+function withDate(path: string, date?: string) {
+  return date && isDateKey(date) ? `${path}?date=${date}` : path;
+}
+
+/** Router / web path, e.g. "/novena/divine_mercy?date=2026-04-03". */
+export function linkPath(target: LinkTarget): string {
+  switch (target.kind) {
+    case "novena":
+      return withDate(`/novena/${encodeURIComponent(target.id)}`, target.date);
+    case "saint":
+      return withDate(`/saint/${encodeURIComponent(target.id)}`, target.date);
+    case "day":
+      return `/day/${target.date}`;
+  }
+}
+
+/** App link, e.g. "sanctuary://saint/01-21_saint_agnes". */
+export function deepLink(target: LinkTarget): string {
+  return `${LINK_SCHEME}://${linkPath(target).slice(1)}`;
+}
+
+function safeDecode(s: string) {
+  try {
+    return decodeURIComponent(s);
+  } catch {
+    return s;
+  }
+}
+
+/**
+ * Splits "scheme://host/a/b?x=1", "https://site/a/b" or "/a/b" into
+ * path segments + query. For custom schemes the "host" is the first segment
+ * (sanctuary://novena/x => ["novena", "x"]).
+ */
+function parseLink(url: string) {
+  const [beforeHash] = url.split("#");
+  const qIdx = beforeHash.indexOf("?");
+  const rawPath = qIdx >= 0 ? beforeHash.slice(0, qIdx) : beforeHash;
+  const rawQuery = qIdx >= 0 ? beforeHash.slice(qIdx + 1) : "";
+
+  let path = rawPath;
+  const m = /^([a-z][a-z0-9+.-]*):\/\/([^/]*)(.*)$/i.exec(rawPath);
+  if (m) {
+    const isWeb = /^https?$/i.test(m[1]);
+    path = isWeb ? m[3] : `/${m[2]}${m[3]}`;
+  }
+
+  const segments = path.split("/").filter(Boolean).map(safeDecode);
+
+  const query: Record<string, string> = {};
+  for (const pair of rawQuery.split("&")) {
+    if (!pair) continue;
+    const [k, v = ""] = pair.split("=");
+    query[safeDecode(k)] = safeDecode(v);
+  }
+
+  return { segments, query };
+}
+
+/**
+ * Validated router path for an incoming link.
+ * Links that aren't ours (other routes, dev-client URLs) come back unchanged.
+ */
+export function resolveLinkPath(url: string): string {
+  const { segments, query } = parseLink(url);
+  const [kind, id] = segments;
+  const date = query.date;
+
+  if (kind === "novena" && segments.length === 2) {
+    if (!novenaDocs.has(id)) return "/novenas";
+    return linkPath({ kind, id, date });
+  }
+
+  if (kind === "saint" && segments.length === 2) {
+    if (!saintDocs.has(id)) return "/saints";
+    return linkPath({ kind, id, date });
+  }
+
+  if (kind === "day" && segments.length === 2) {
+    if (!isDateKey(id)) return "/";
+    return linkPath({ kind, date: id });
+  }
+
+  return url;
+}
+
+/** System share sheet with the app link for a detail screen. */
+export async function shareLink(target: LinkTarget, title: string) {
+  const url = deepLink(target);
+  try {
+    await Share.share({ title, message: `${title}\n${url}` });
+  } catch (e) {
+    console.warn("[deepLinks] share failed:", url, e);
+  }
+}
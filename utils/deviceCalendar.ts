@@ -0,0 +1,262 @@
+// utils/deviceCalendar.ts
+//
+// "Add to my calendar": one all-day event per novena day in the device
+// calendar (expo-calendar), removable again.
+// - Events go into a dedicated "Novenas" calendar we create on first use,
+//   so they are easy to spot and never mixed into the user's own events
+// - Each added run is remembered (event ids, keyed like enrollments:
+//   novena id + feast date) so it can be removed later
+// - Day titles come from the novena content JSON ("Day 3 — Trust")
+//
+// Dates are the run's own start/feast keys, so a run opened through a
+// ?date= link is the one that gets written.
+
+import { Platform } from "react-native";
+import * as Calendar from "expo-calendar";
+
+import i18n from "../i18n";
+import { getNovenaContent } from "../data/novenasManifest";
+import { createPersistedStore } from "./persistedStore";
+import { addDaysToKey, isDateKey } from "./dateKeys";
+import { extractNovenaDays } from "./novenaContent";
+import { deepLink } from "./deepLinks";
+
+const STORAGE_KEY = "novena_device_calendar";
+const CALENDAR_NAME = "sanctuary-novenas";
+
+/** The run being written (a NovenaEnrollment has exactly these fields). */
+export type NovenaRun = {
+  key: string; // novena id + feast date (enrollmentKey)
+  novenaId: string;
+  title: string;
+  startDate: string; // YYYY-MM-DD (day 1)
+  durationDays: number;
+};
+
+export type AddedRun = {
+  key: string;
+  novenaId: string;
+  startDate: string;
+  eventIds: string[];
+};
+
+type DeviceCalendarState = {
+  calendarId: string | null;
+  runs: Record<string, AddedRun>;
+};
+
+function parseState(raw: unknown): DeviceCalendarState | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const r = raw as Record<string, any>;
+  const runs: Record<string, AddedRun> = {};
+  for (const v of Object.values(r.runs ?? {}) as any[]) {
+    if (
+      v &&
+      typeof v.key === "string" &&
+      typeof v.novenaId === "string" &&
+      isDateKey(v.startDate) &&
+      Array.isArray(v.eventIds)
+    ) {
+      runs[v.key] = {
+        key: v.key,
+        novenaId: v.novenaId,
+        startDate: v.startDate,
+        eventIds: v.eventIds.filter((x: unknown) => typeof x === "string"),
+      };
+    }
+  }
+  return {
+    calendarId: typeof r.calendarId === "string" ? r.calendarId : null,
+    runs,
+  };
+}
+
+export const deviceCalendarStore = createPersistedStore<DeviceCalendarState>(
+  STORAGE_KEY,
+  { calendarId: null, runs: {} },
+  parseState,
+);
+
+export type PlannedCalendarEvent = {
+  day: number;
+  date: string; // YYYY-MM-DD
+  title: string;
+};
+
+/** Pure: Day 1..N of the run, titled with each day's content title. */
+export function planNovenaCalendarEvents(
+  run: NovenaRun,
+): PlannedCalendarEvent[] {
+  const doc = getNovenaContent(run.novenaId);
+  const docDays = extractNovenaDays(doc);
+  const name =
+    typeof doc?.title === "string" && doc.title ? doc.title : run.title;
+
+  const out: PlannedCalendarEvent[] = [];
+  for (let day = 1; day <= run.durationDays; day++) {
+    const dayTitle = docDays.find((d) => d?.day === day)?.title;
+    const label = i18n.t("calendar_event_day", {
+      defaultValue: "Day {{day}} of {{total}}",
+      day,
+      total: run.durationDays,
+    });
+    out.push({
+      day,
+      date: addDaysToKey(run.startDate, day - 1),
+      title:
+        typeof dayTitle === "string" && dayTitle.trim()
+          ? `${name} — ${label}: ${dayTitle.trim()}`
+          : `${name} — ${label}`,
+    });
+  }
+  return out;
+}
+
+export function deviceCalendarSupported() {
+  return Platform.OS === "ios" || Platform.OS === "android";
+}
+
+/**
+ * Asks for calendar permission if we don't have it yet.
+ * Returns whether events can be written.
+ */
+export async function ensureCalendarPermission(): Promise<boolean> {
+  if (!deviceCalendarSupported()) return false;
+
+  const current = await Calendar.getCalendarPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+
+  const asked = await Calendar.requestCalendarPermissionsAsync();
+  return asked.granted;
+}
+
+async function ensureNovenasCalendar(): Promise<string> {
+  await deviceCalendarStore.load();
+  const calendars = await Calendar.getCalendarsAsync(
+    Calendar.EntityTypes.EVENT,
+  );
+
+  const saved = deviceCalendarStore.get().calendarId;
+  if (saved && calendars.some((c) => c.id === saved)) return saved;
+
+  // Reinstalled app / cleared storage: reuse the calendar we made before.
+  const existing = calendars.find((c) => c.name === CALENDAR_NAME);
+  if (existing) {
+    await deviceCalendarStore.set((s) => ({ ...s, calendarId: existing.id }));
+    return existing.id;
+  }
+
+  const title = i18n.t("calendar_name", { defaultValue: "Novenas" });
+  // iOS needs an existing source; Android takes a local (unsynced) account.
+  const source: Calendar.Source =
+    Platform.OS === "ios"
+      ? (await Calendar.getDefaultCalendarAsync()).source
+      : { isLocalAccount: true, name: title, type: "LOCAL" };
+
+  const id = await Calendar.createCalendarAsync({
+    title,
+    name: CALENDAR_NAME,
+    color: "#6B4FA0",
+    entityType: Calendar.EntityTypes.EVENT,
+    sourceId: source.id,
+    source,
+    ownerAccount: "personal",
+    accessLevel: Calendar.CalendarAccessLevel.OWNER,
+  });
+  await deviceCalendarStore.set((s) => ({ ...s, calendarId: id }));
+  return id;
+}
+
+function localMidnight(dateKey: string): Date {
+  const [y, m, d] = dateKey.split("-").map((x) => parseInt(x, 10));
+  return new Date(y, m - 1, d);
+}
+
+async function deleteEvents(ids: string[]) {
+  for (const id of ids) {
+    try {
+      await Calendar.deleteEventAsync(id);
+    } catch {
+      // Already deleted by the user in their calendar app.
+    }
+  }
+}
+
+/**
+ * Writes Day 1..N of the run into the device calendar (replacing any
+ * events we wrote for it before). Throws if permission is missing.
+ */
+export async function addNovenaToDeviceCalendar(run: NovenaRun) {
+  if (!(await ensureCalendarPermission())) {
+    throw new Error("Calendar permission not granted");
+  }
+  // Cold start: read what we wrote last session before replacing it
+  await deviceCalendarStore.load();
+  const calendarId = await ensureNovenasCalendar();
+
+  const previous = deviceCalendarStore.get().runs[run.key];
+  if (previous) await deleteEvents(previous.eventIds);
+
+  const url = deepLink({
+    kind: "novena",
+    id: run.novenaId,
+    date: run.startDate,
+  });
+  const eventIds: string[] = [];
+  try {
+    for (const e of planNovenaCalendarEvents(run)) {
+      const start = localMidnight(e.date);
+      eventIds.push(
+        await Calendar.createEventAsync(calendarId, {
+          title: e.title,
+          startDate: start,
+          endDate: localMidnight(addDaysToKey(e.date, 1)),
+          allDay: true,
+          notes: url,
+          url,
+        }),
+      );
+    }
+  } catch (err) {
+    // Don't leave half a novena behind.
+    await deleteEvents(eventIds);
+    throw err;
+  }
+
+  await deviceCalendarStore.set((s) => ({
+    ...s,
+    runs: {
+      ...s.runs,
+      [run.key]: {
+        key: run.key,
+        novenaId: run.novenaId,
+        startDate: run.startDate,
+        eventIds,
+      },
+    },
+  }));
+}
+
+/**
+ * Deletes the events we wrote for a run; a no-op if there are none.
+ * Throws (and keeps the record) if calendar permission was revoked.
+ */
+export async function removeNovenaFromDeviceCalendar(key: string) {
+  await deviceCalendarStore.load();
+  const added = deviceCalendarStore.get().runs[key];
+  if (!added) return;
+
+  if (deviceCalendarSupported()) {
+    if (!(await ensureCalendarPermission())) {
+      throw new Error("Calendar permission not granted");
+    }
+    await deleteEvents(added.eventIds);
+  }
+
+  await deviceCalendarStore.set((s) => {
+    const runs = { ...s.runs };
+    delete runs[key];
+    return { ...s, runs };
+  });
+}
@@ -0,0 +1,260 @@
+// utils/icalendar.ts
+//
+// iCalendar (RFC 5545) export of novena start dates and movable feasts,
+// so a parish can import / subscribe in an ordinary calendar app.
+// - All-day VEVENTs (DTSTART;VALUE=DATE, DTEND = next day)
+// - UIDs are stable across exports: novena id + year (and feast id + year),
+//   so re-importing updates events instead of duplicating them. The year is
+//   the one the novena was resolved for (its feast's year), so a novena
+//   starting Dec 26 for Jan 3 belongs to the following year. Recurring
+//   (weekly / monthly) novenas have several runs a year and use the run's
+//   feast date instead.
+// - Summaries and descriptions come from i18n.ts (ics_* keys) in the
+//   caller's language; novena and feast titles are data and stay as they are
+// - Text is escaped and lines folded at 75 octets; lines end in CRLF
+
+import type { TFunction } from "i18next";
+
+import { NOVENAS, getNovenasForYear } from "../data/calendar";
+import { isRecurringRule } from "./novenasRules";
+import { computeMovableFeastsForYear } from "./movableFeastsRules";
+import {
+  DEFAULT_CALENDAR_PROFILE,
+  getCalendarProfile,
+  type CalendarProfileId,
+} from "./calendarProfiles";
+import { addDaysToKey, dateToKeyUTC } from "./dateKeys";
+import { matchesNovenaFilters, type NovenaFilters } from "./novenaFilters";
+
+const PRODID = "-//Sanctuary//Novenas Calendar//EN";
+const UID_DOMAIN = "novenas.sanctuary.app";
+
+/** Keep exports to a sensible size (each year is ~150 novenas). */
+export const MAX_EXPORT_YEARS = 5;
+
+export type IcsExportOptions = {
+  fromYear: number;
+  toYear: number;
+  profile?: CalendarProfileId;
+  /** Only novenas matching these (feasts are never filtered). */
+  filters?: NovenaFilters | null;
+  includeFeasts?: boolean;
+  /** DTSTAMP; defaults to now. */
+  now?: Date;
+  /** Translates the event text (useTranslation's t). */
+  t: TFunction;
+};
+
+export type IcsExport = {
+  ics: string;
+  novenaCount: number;
+  feastCount: number;
+};
+
+type IcsEvent = {
+  uid: string;
+  date: string; // YYYY-MM-DD
+  summary: string;
+  description: string;
+  categories: string[];
+  url?: string;
+};
+
+/** RFC 5545 §3.3.11 TEXT escaping. */
+export function escapeText(s: string): string {
+  return s
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF + space.
+ * Counts UTF-8 bytes and never splits a character.
+ */
+export function foldLine(line: string): string {
+  const out: string[] = [];
+  let cur = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const n = utf8Length(ch);
+    // Continuation lines start with a space, which counts toward the limit.
+    const limit = out.length === 0 ? 75 : 74;
+    if (bytes + n > limit) {
+      out.push(cur);
+      cur = "";
+      bytes = 0;
+    }
+    cur += ch;
+    bytes += n;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+function utf8Length(ch: string): number {
+  const c = ch.codePointAt(0) ?? 0;
+  if (c < 0x80) return 1;
+  if (c < 0x800) return 2;
+  if (c < 0x10000) return 3;
+  return 4;
+}
+
+function icsDate(dateKey: string): string {
+  return dateKey.replace(/-/g, "");
+}
+
+function icsTimestamp(d: Date): string {
+  return d
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function uidPart(id: string): string {
+  return id.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+function novenaEvents(
+  year: number,
+  profile: CalendarProfileId,
+  filters: NovenaFilters | null | undefined,
+  t: TFunction,
+): IcsEvent[] {
+  const defs = new Map(NOVENAS.map((n) => [n.id, n]));
+  const recurring = new Set(
+    NOVENAS.filter((n) => isRecurringRule(n.feastRule)).map((n) => n.id),
+  );
+
+  return getNovenasForYear(year, profile)
+    .filter((n) => !filters || matchesNovenaFilters(n, filters))
+    .map((n) => {
+      const start = dateToKeyUTC(n.startDate);
+      const feast = dateToKeyUTC(n.feastDate);
+      const about = defs.get(n.id)?.description?.trim();
+
+      const description = [
+        n.durationDays > 1
+          ? t("ics_novena_days", {
+              defaultValue:
+                "Day 1 of {{days}}. Pray daily through {{feast}} (day {{days}}).",
+              days: n.durationDays,
+              feast,
+            })
+          : null,
+        about || null,
+        n.sourceUrl
+          ? t("ics_novena_prayers", {
+              defaultValue: "Prayers: {{url}}",
+              url: n.sourceUrl,
+            })
+          : null,
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+
+      return {
+        uid: recurring.has(n.id)
+          ? `novena-${uidPart(n.id)}-${feast}@${UID_DOMAIN}`
+          : `novena-${uidPart(n.id)}-${year}@${UID_DOMAIN}`,
+        date: start,
+        summary:
+          n.durationDays > 1
+            ? t("ics_novena_begins", {
+                defaultValue: "{{title}} begins ({{days}} days)",
+                title: n.title,
+                days: n.durationDays,
+              })
+            : n.title,
+        description,
+        categories: ["Novena", n.category],
+        url: n.sourceUrl,
+      };
+    });
+}
+
+function feastEvents(
+  year: number,
+  profile: CalendarProfileId,
+  t: TFunction,
+): IcsEvent[] {
+  const byDate = computeMovableFeastsForYear(year, getCalendarProfile(profile));
+  const out: IcsEvent[] = [];
+  for (const [date, list] of Object.entries(byDate)) {
+    for (const o of list) {
+      out.push({
+        uid: `feast-${uidPart(o.id)}-${year}@${UID_DOMAIN}`,
+        date,
+        summary: o.title,
+        description: t("ics_feast_description", {
+          defaultValue: "{{rank}} · liturgical color: {{color}}",
+          rank: o.rank,
+          color: o.color,
+        }),
+        categories: ["Liturgical", o.rank],
+      });
+    }
+  }
+  return out;
+}
+
+function eventLines(e: IcsEvent, stamp: string): string[] {
+  return [
+    "BEGIN:VEVENT",
+    `UID:${e.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${icsDate(e.date)}`,
+    `DTEND;VALUE=DATE:${icsDate(addDaysToKey(e.date, 1))}`,
+    `SUMMARY:${escapeText(e.summary)}`,
+    `DESCRIPTION:${escapeText(e.description)}`,
+    `CATEGORIES:${e.categories.map(escapeText).join(",")}`,
+    ...(e.url ? [`URL:${e.url}`] : []),
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ];
+}
+
+/** Builds the .ics text for whole years fromYear..toYear (inclusive). */
+export function buildIcsExport(opts: IcsExportOptions): IcsExport {
+  const profile = opts.profile ?? DEFAULT_CALENDAR_PROFILE;
+  const from = Math.min(opts.fromYear, opts.toYear);
+  const to = Math.min(
+    Math.max(opts.fromYear, opts.toYear),
+    from + MAX_EXPORT_YEARS - 1,
+  );
+  const stamp = icsTimestamp(opts.now ?? new Date());
+
+  const novenas: IcsEvent[] = [];
+  const feasts: IcsEvent[] = [];
+  for (let y = from; y <= to; y++) {
+    novenas.push(...novenaEvents(y, profile, opts.filters, opts.t));
+    if (opts.includeFeasts) feasts.push(...feastEvents(y, profile, opts.t));
+  }
+
+  const events = [...novenas, ...feasts].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.uid.localeCompare(b.uid),
+  );
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(
+      opts.t("ics_calendar_name", {
+        defaultValue: "Novenas {{years}}",
+        years: from === to ? `${from}` : `${from}–${to}`,
+      }),
+    )}`,
+    ...events.flatMap((e) => eventLines(e, stamp)),
+    "END:VCALENDAR",
+  ];
+
+  return {
+    ics: lines.map(foldLine).join("\r\n") + "\r\n",
+    novenaCount: novenas.length,
+    feastCount: feasts.length,
+  };
+}
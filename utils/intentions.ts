@@ -0,0 +1,60 @@
+// utils/intentions.ts
+//
+// Browse by intention: which saints and novenas are invoked for a need.
+// Patronage lives in the generated data (saints_index.json entries and
+// NovenaDef.patronage), both filled from data/patronage.ts, so no saint
+// doc has to be loaded to build the lists.
+
+import saintsIndex from "../data/saints_index.json";
+import { NOVENAS } from "../data/calendar";
+import { INTENTIONS, type IntentionId } from "../data/patronage";
+import type { NovenaDef } from "./novenasRules";
+
+export { INTENTIONS, type IntentionId };
+
+export type PatronSaint = {
+  id: string;
+  name: string;
+  mmdd: string;
+  patronage?: string[];
+};
+
+export type IntentionPatrons = {
+  saints: PatronSaint[];
+  novenas: NovenaDef[];
+};
+
+export function isIntentionId(x: unknown): x is IntentionId {
+  return (INTENTIONS as readonly unknown[]).includes(x);
+}
+
+let byIntention: Map<IntentionId, IntentionPatrons> | null = null;
+
+function buildIndex() {
+  const map = new Map<IntentionId, IntentionPatrons>();
+  for (const id of INTENTIONS) map.set(id, { saints: [], novenas: [] });
+
+  for (const e of saintsIndex as unknown as PatronSaint[]) {
+    for (const p of e.patronage ?? []) {
+      if (isIntentionId(p)) map.get(p)!.saints.push(e);
+    }
+  }
+
+  for (const n of NOVENAS) {
+    for (const p of n.patronage ?? []) {
+      if (isIntentionId(p)) map.get(p)!.novenas.push(n);
+    }
+  }
+
+  for (const v of map.values()) {
+    v.saints.sort((a, b) => a.mmdd.localeCompare(b.mmdd));
+    v.novenas.sort((a, b) => a.title.localeCompare(b.title));
+  }
+  return map;
+}
+
+/** Saints (calendar order) and novenas (by title) for one intention. */
+export function getPatronsForIntention(id: IntentionId): IntentionPatrons {
+  if (!byIntention) byIntention = buildIndex();
+  return byIntention.get(id) ?? { saints: [], novenas: [] };
+}
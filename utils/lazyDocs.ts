@@ -0,0 +1,75 @@
+// utils/lazyDocs.ts
+//
+// Lazy, id-keyed access to the baked-in saint / novena docs.
+// - The generated manifests hand us one loader per id
+//   (() => require("./saints/<id>.json")); Metro only runs a JSON module
+//   when its require() is first called, so nothing is parsed at startup
+// - Loaded docs sit in a small LRU, so browsing hundreds of saints keeps
+//   only the recent ones referenced from here
+// - Downloaded fixes (data/contentOverrides.ts) always win over the
+//   baked copy and are never cached, so a content update shows up on the
+//   next open
+//
+// get() is synchronous (what a require allows); load() is the async form
+// screens use, so a loader can later become a file read or fetch without
+// touching the callers.
+
+import { getContentOverride, type ContentKind } from "../data/contentOverrides";
+
+export type DocLoaders = Record<string, () => any>;
+
+export type LazyDocs<T> = {
+  /** Whether a doc exists for id (doesn't load it). */
+  has(id: string): boolean;
+  ids(): string[];
+  /** Already-loaded doc; undefined if it would have to be loaded. */
+  peek(id: string): T | null | undefined;
+  get(id: string): T | null;
+  load(id: string): Promise<T | null>;
+};
+
+export function createLazyDocs<T>(
+  kind: ContentKind,
+  loaders: DocLoaders,
+  capacity: number,
+): LazyDocs<T> {
+  const cache = new Map<string, T>();
+
+  const has = (id: string) =>
+    Object.prototype.hasOwnProperty.call(loaders, id) ||
+    getContentOverride(kind, id) != null;
+
+  function peek(id: string): T | null | undefined {
+    const override = getContentOverride(kind, id);
+    if (override != null) return override as T;
+    if (!has(id)) return null;
+
+    const hit = cache.get(id);
+    if (hit === undefined) return undefined;
+    // Re-insert to mark as most recently used.
+    cache.delete(id);
+    cache.set(id, hit);
+    return hit;
+  }
+
+  function get(id: string): T | null {
+    const known = peek(id);
+    if (known !== undefined) return known;
+
+    const doc = (loaders[id]() ?? null) as T | null;
+    if (doc == null) return null;
+    cache.set(id, doc);
+    if (cache.size > capacity) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    return doc;
+  }
+
+  return {
+    has,
+    ids: () => Object.keys(loaders),
+    peek,
+    get,
+    load: async (id) => get(id),
+  };
+}
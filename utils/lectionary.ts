@@ -0,0 +1,116 @@
+// utils/lectionary.ts
+//
+// Lectionary cycles + bundled reading citations.
+// - Sunday cycle A/B/C and weekday cycle I/II follow the liturgical year,
+//   which starts on the First Sunday of Advent and is named after the civil
+//   year it ends in (Advent 2025 opens Year A, weekday cycle II).
+// - Citations for Sundays, solemnities and feasts of the Lord come from
+//   data/lectionary_index.json, keyed by the celebration id of
+//   utils/liturgicalCalendar.ts. Other days (weekdays, memorials) are not
+//   bundled; the Liturgical tab still links out for those.
+//
+// Only the principal Mass of the day is listed (e.g. Christmas "during the
+// Day", the Easter Vigil Gospel on Holy Saturday).
+//
+// The 1962 Missal has its own one-year cycle of readings, which is not
+// bundled: getLectionaryDay returns null for the traditional profile.
+
+import lectionaryIndex from "../data/lectionary_index.json";
+import { firstSundayOfAdvent } from "./movableFeastsRules";
+import { getLiturgicalDay } from "./liturgicalCalendar";
+import { toYmd } from "./liturgicalEngine";
+import { yearOfKey } from "./dateKeys";
+import {
+  DEFAULT_CALENDAR_PROFILE,
+  isTraditionalProfile,
+  type CalendarProfileId,
+} from "./calendarProfiles";
+
+export type SundayCycle = "A" | "B" | "C";
+export type WeekdayCycle = "I" | "II";
+
+export type Readings = {
+  first: string;
+  psalm: string;
+  second?: string;
+  gospel: string;
+};
+
+type LectionaryEntry = Partial<Record<SundayCycle | "ABC", Readings>>;
+
+const INDEX = lectionaryIndex as unknown as Record<string, LectionaryEntry>;
+
+export type LectionaryDay = {
+  date: string; // YYYY-MM-DD
+  liturgicalYear: number; // civil year the liturgical year ends in
+  sundayCycle: SundayCycle;
+  weekdayCycle: WeekdayCycle;
+  celebrationId: string; // the day's winning celebration
+  readings: Readings | null; // null when not bundled
+};
+
+/** Civil year in which the liturgical year containing `dateKey` ends. */
+export function liturgicalYearOf(dateKey: string): number {
+  const year = yearOfKey(dateKey);
+  return dateKey >= toYmd(firstSundayOfAdvent(year)) ? year + 1 : year;
+}
+
+export function sundayCycleOf(dateKey: string): SundayCycle {
+  const cycles: SundayCycle[] = ["C", "A", "B"];
+  return cycles[liturgicalYearOf(dateKey) % 3];
+}
+
+export function weekdayCycleOf(dateKey: string): WeekdayCycle {
+  return liturgicalYearOf(dateKey) % 2 === 1 ? "I" : "II";
+}
+
+/** Bundled citations for a celebration in a given Sunday cycle. */
+export function findReadings(
+  celebrationId: string,
+  cycle: SundayCycle,
+): Readings | null {
+  const entry = INDEX[celebrationId];
+  return entry?.[cycle] ?? entry?.ABC ?? null;
+}
+
+function pad2(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+/**
+ * USCCB Readings URL builder (full texts, weekdays included).
+ * Typical format: https://bible.usccb.org/bible/readings/MMDDYY.cfm
+ * Christmas Day often has a "-Day" page; we special-case it.
+ */
+export function usccbReadingsUrl(dateKey: string): string {
+  const [y, m, d] = dateKey.split("-").map((x) => parseInt(x, 10));
+  const yy = String(y).slice(-2);
+  const mm = pad2(m);
+  const dd = pad2(d);
+
+  if (m === 12 && d === 25) {
+    return `https://bible.usccb.org/bible/readings/${mm}${dd}${yy}-Day.cfm`;
+  }
+  return `https://bible.usccb.org/bible/readings/${mm}${dd}${yy}.cfm`;
+}
+
+/** Cycles + bundled citations, or null for the 1962 Missal. */
+export function getLectionaryDay(
+  dateKey: string,
+  profileId: CalendarProfileId = DEFAULT_CALENDAR_PROFILE,
+): LectionaryDay | null {
+  if (isTraditionalProfile(profileId)) return null;
+
+  const day = getLiturgicalDay(dateKey, profileId);
+  const winner = day.celebrations[0];
+  const sundayCycle = sundayCycleOf(dateKey);
+
+  return {
+    date: dateKey,
+    liturgicalYear: liturgicalYearOf(dateKey),
+    sundayCycle,
+    weekdayCycle: weekdayCycleOf(dateKey),
+    celebrationId: winner.id,
+    readings: findReadings(winner.id, sundayCycle),
+  };
+}
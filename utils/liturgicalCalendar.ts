@@ -0,0 +1,690 @@
+// utils/liturgicalCalendar.ts
+//
+// Per-day liturgical resolver for the General Roman Calendar.
+// For every date: season, week of season, psalter week, rank, color and the
+// celebrations of the day (temporal + sanctoral), winner first.
+//
+// Precedence follows the Table of Liturgical Days (Universal Norms, no. 59):
+// - one winning celebration per day; the others are optional, commemorated,
+//   transferred or suppressed
+// - impeded solemnities move to the next free day (St Joseph in Holy Week
+//   is anticipated to the Saturday before Palm Sunday)
+//
+// Sources:
+// - Named movable celebrations: utils/movableFeastsRules.ts
+// - Fixed-date saints:           data/generalRomanCalendar.ts
+// - National propers/transfers:  utils/calendarProfiles.ts
+// - Ordinary Sundays/weekdays are generated here from the season + week.
+//
+// Years are built once per calendar profile and cached; all dates use UTC
+// noon like the rest of the engine.
+
+import {
+  GENERAL_ROMAN_CALENDAR,
+  type SanctoralEntry,
+} from "../data/generalRomanCalendar";
+import type { ProperEntry } from "../data/nationalCalendars";
+import {
+  addDaysUTC,
+  computeEasterSunday,
+  nextWeekday,
+  prevWeekday,
+  toYmd,
+  utcNoonDate,
+} from "./liturgicalEngine";
+import {
+  baptismOfTheLord,
+  christTheKing,
+  computeMovableFeastsForYear,
+  epiphanyOfTheLord,
+  firstSundayOfAdvent,
+  ordinal,
+  type LiturgicalColor,
+  type LiturgicalRank,
+  type LiturgicalSeason,
+} from "./movableFeastsRules";
+import { keyToUTCNoon, yearOfKey } from "./dateKeys";
+import {
+  DEFAULT_CALENDAR_PROFILE,
+  getCalendarProfile,
+  type CalendarProfile,
+  type CalendarProfileId,
+} from "./calendarProfiles";
+import { buildTraditionalYear } from "./traditionalCalendar";
+
+export type CelebrationStatus =
+  | "celebrated" // the day's celebration (exactly one per day)
+  | "optional" // optional memorial that may replace the weekday
+  | "commemorated" // memorial reduced to a commemoration (Lent, Dec 17–24, ...)
+  | "transferred" // impeded solemnity, celebrated on `transferredTo`
+  | "suppressed"; // impeded and not celebrated this year
+
+type CelebrationBase = {
+  id: string;
+  title: string;
+  rank: LiturgicalRank;
+  color: LiturgicalColor;
+  source: "temporal" | "sanctoral" | "proper";
+};
+
+export type Celebration = CelebrationBase & {
+  precedence: number; // Table of Liturgical Days, 1 = highest
+  status: CelebrationStatus;
+  transferredFrom?: string; // YYYY-MM-DD, on the new date
+  transferredTo?: string; // YYYY-MM-DD, on the original date
+};
+
+type Candidate = CelebrationBase & {
+  precedence: number;
+  transferredFrom?: string;
+};
+
+export type LiturgicalDay = {
+  date: string; // YYYY-MM-DD
+  season: LiturgicalSeason;
+  // Advent 1–4, Christmas 1–4 (1 = the week of Christmas Day), Lent 0
+  // (Ash Wed–Sat) to 6 (Holy Week), Easter 0 (Triduum) to 7, Ordinary Time
+  // 1–34 (1962 Missal: see utils/traditionalCalendar.ts).
+  seasonWeek: number;
+  psalterWeek: 1 | 2 | 3 | 4 | null; // null in the 1962 Missal
+  weekday: number; // 0=Sun..6=Sat
+  rank: LiturgicalRank; // of the winning celebration
+  color: LiturgicalColor; // of the winning celebration
+  celebrations: Celebration[]; // winner first, then by status
+};
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const SEASON_COLOR: Record<LiturgicalSeason, LiturgicalColor> = {
+  Advent: "Purple",
+  Christmas: "White",
+  Lent: "Purple",
+  Easter: "White",
+  "Ordinary Time": "Green",
+  // 1962 Missal only (utils/traditionalCalendar.ts)
+  "Time after Epiphany": "Green",
+  Septuagesima: "Purple",
+  "Time after Pentecost": "Green",
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function daysBetween(a: Date, b: Date): number {
+  return Math.round((b.getTime() - a.getTime()) / MS_PER_DAY);
+}
+
+function sundayOnOrBefore(d: Date): Date {
+  return prevWeekday(d, 0, true);
+}
+
+function weeksBetweenSundays(from: Date, d: Date): number {
+  return Math.floor(
+    daysBetween(sundayOnOrBefore(from), sundayOnOrBefore(d)) / 7,
+  );
+}
+
+// Temporal celebrations in the first rank after the Triduum (no. 2).
+const PRINCIPAL_TEMPORAL = new Set([
+  "christmas",
+  "epiphany",
+  "ascension",
+  "pentecost",
+  "easter_sunday",
+  "ash_wednesday",
+  "palm_sunday",
+  "divine_mercy_sunday",
+]);
+
+function temporalPrecedence(
+  c: CelebrationBase,
+  d: Date,
+  pos: SeasonPosition,
+): number {
+  switch (c.rank) {
+    case "Triduum":
+      return 1;
+    case "Solemnity":
+      return PRINCIPAL_TEMPORAL.has(c.id) || c.id.startsWith("easter_octave_")
+        ? 2
+        : 3;
+    case "Sunday":
+      return pos.season === "Christmas" || pos.season === "Ordinary Time"
+        ? 6
+        : 2;
+    case "Feast":
+      return 5; // Holy Family, Baptism: feasts of the Lord
+    case "Memorial":
+      return 10;
+    case "Optional Memorial":
+      return 12;
+    case "Weekday":
+    default: {
+      if (PRINCIPAL_TEMPORAL.has(c.id)) return 2;
+      if (pos.season === "Lent") return pos.seasonWeek === 6 ? 2 : 9;
+      if (pos.season === "Advent" && d.getUTCDate() >= 17) return 9;
+      if (pos.season === "Christmas" && d.getUTCMonth() === 11) return 9;
+      return 13;
+    }
+  }
+}
+
+function sanctoralPrecedence(e: SanctoralEntry): number {
+  switch (e.rank) {
+    case "Solemnity":
+      return 3;
+    case "Feast":
+      return e.ofTheLord ? 5 : 7;
+    case "Memorial":
+      return 10;
+    default:
+      return 12;
+  }
+}
+
+// Proper celebrations rank just below their general counterparts (nos. 4, 8, 11).
+function properPrecedence(e: ProperEntry): number {
+  switch (e.rank) {
+    case "Solemnity":
+      return 4;
+    case "Feast":
+      return e.ofTheLord ? 5 : 8;
+    case "Memorial":
+      return 11;
+    default:
+      return 12;
+  }
+}
+
+const SOURCE_ORDER: Record<CelebrationBase["source"], number> = {
+  temporal: 0,
+  proper: 1,
+  sanctoral: 2,
+};
+
+function byPrecedence(x: Candidate, y: Candidate): number {
+  const dp = x.precedence - y.precedence;
+  if (dp !== 0) return dp;
+  // Same rank: the temporal cycle comes first, then the proper calendar.
+  const ds = SOURCE_ORDER[x.source] - SOURCE_ORDER[y.source];
+  if (ds !== 0) return ds;
+  return x.title.localeCompare(y.title);
+}
+
+const STATUS_ORDER: Record<CelebrationStatus, number> = {
+  celebrated: 0,
+  optional: 1,
+  commemorated: 2,
+  transferred: 3,
+  suppressed: 4,
+};
+
+type YearAnchors = {
+  easter: Date;
+  ashWednesday: Date;
+  lent1: Date;
+  holyThursday: Date;
+  pentecost: Date;
+  baptism: Date;
+  epiphany: Date;
+  christKing: Date;
+  advent1: Date;
+  prevAdvent1: Date;
+  prevChristmas: Date;
+  christmas: Date;
+};
+
+function anchorsForYear(year: number, profile: CalendarProfile): YearAnchors {
+  const easter = computeEasterSunday(year);
+  const ashWednesday = addDaysUTC(easter, -46);
+  return {
+    easter,
+    ashWednesday,
+    lent1: addDaysUTC(ashWednesday, 4),
+    holyThursday: addDaysUTC(easter, -3),
+    pentecost: addDaysUTC(easter, 49),
+    baptism: baptismOfTheLord(year, profile.epiphanyOnSunday),
+    epiphany: epiphanyOfTheLord(year, profile.epiphanyOnSunday),
+    christKing: christTheKing(year),
+    advent1: firstSundayOfAdvent(year),
+    prevAdvent1: firstSundayOfAdvent(year - 1),
+    prevChristmas: utcNoonDate(year - 1, 11, 25),
+    christmas: utcNoonDate(year, 11, 25),
+  };
+}
+
+type SeasonPosition = {
+  season: LiturgicalSeason;
+  seasonWeek: number;
+  psalterWeek: 1 | 2 | 3 | 4;
+};
+
+function cycle4(week: number): 1 | 2 | 3 | 4 {
+  return (((((week - 1) % 4) + 4) % 4) + 1) as 1 | 2 | 3 | 4;
+}
+
+function seasonPosition(d: Date, a: YearAnchors): SeasonPosition {
+  const t = d.getTime();
+
+  // Advent and Christmas share one running psalter cycle from Advent 1.
+  const adventPsalter = (advent1: Date) =>
+    cycle4(weeksBetweenSundays(advent1, d) + 1);
+
+  if (t <= a.baptism.getTime()) {
+    return {
+      season: "Christmas",
+      seasonWeek: 1 + weeksBetweenSundays(a.prevChristmas, d),
+      psalterWeek: adventPsalter(a.prevAdvent1),
+    };
+  }
+
+  if (t < a.ashWednesday.getTime()) {
+    const week = 1 + weeksBetweenSundays(a.baptism, d);
+    return {
+      season: "Ordinary Time",
+      seasonWeek: week,
+      psalterWeek: cycle4(week),
+    };
+  }
+
+  if (t < a.lent1.getTime()) {
+    // Ash Wednesday to Saturday: "week 0", psalter week IV.
+    return { season: "Lent", seasonWeek: 0, psalterWeek: 4 };
+  }
+
+  if (t < a.holyThursday.getTime()) {
+    const week = 1 + weeksBetweenSundays(a.lent1, d);
+    return { season: "Lent", seasonWeek: week, psalterWeek: cycle4(week) };
+  }
+
+  if (t < a.easter.getTime()) {
+    // Paschal Triduum: opens the Easter cycle, psalter continues Holy Week.
+    return { season: "Easter", seasonWeek: 0, psalterWeek: 2 };
+  }
+
+  if (t <= a.pentecost.getTime()) {
+    const week = 1 + Math.floor(daysBetween(a.easter, d) / 7);
+    return { season: "Easter", seasonWeek: week, psalterWeek: cycle4(week) };
+  }
+
+  if (t < a.advent1.getTime()) {
+    // Counted backwards: Christ the King is always week 34.
+    const week = 34 - daysBetween(sundayOnOrBefore(d), a.christKing) / 7;
+    return {
+      season: "Ordinary Time",
+      seasonWeek: week,
+      psalterWeek: cycle4(week),
+    };
+  }
+
+  if (t < a.christmas.getTime()) {
+    const week = 1 + weeksBetweenSundays(a.advent1, d);
+    return { season: "Advent", seasonWeek: week, psalterWeek: cycle4(week) };
+  }
+
+  return {
+    season: "Christmas",
+    seasonWeek: 1 + weeksBetweenSundays(a.christmas, d),
+    psalterWeek: adventPsalter(a.advent1),
+  };
+}
+
+/** Generic Sunday or weekday of the season, when no named celebration applies. */
+function temporalDay(
+  d: Date,
+  pos: SeasonPosition,
+  a: YearAnchors,
+): CelebrationBase {
+  const weekday = d.getUTCDay();
+  const dayName = WEEKDAYS[weekday];
+  const { season, seasonWeek: week } = pos;
+  const color = SEASON_COLOR[season];
+
+  if (weekday === 0) {
+    switch (season) {
+      case "Advent":
+        return {
+          id: `advent_${week}`,
+          title:
+            week === 3
+              ? "Third Sunday of Advent (Gaudete Sunday)"
+              : `${ordinal(week)} Sunday of Advent`,
+          rank: "Sunday",
+          color: week === 3 ? "Rose" : color,
+          source: "temporal",
+        };
+      case "Lent":
+        return {
+          id: `lent_${week}`,
+          title:
+            week === 4
+              ? "Fourth Sunday of Lent (Laetare Sunday)"
+              : `${ordinal(week)} Sunday of Lent`,
+          rank: "Sunday",
+          color: week === 4 ? "Rose" : color,
+          source: "temporal",
+        };
+      case "Easter":
+        return {
+          id: `easter_${week}`,
+          title: `${ordinal(week)} Sunday of Easter`,
+          rank: "Sunday",
+          color,
+          source: "temporal",
+        };
+      case "Christmas":
+        return {
+          id: "christmas_2_sunday",
+          title: "Second Sunday after the Nativity",
+          rank: "Sunday",
+          color,
+          source: "temporal",
+        };
+      case "Ordinary Time":
+      default:
+        return {
+          id: `ordinary_time_${week}`,
+          title: `${ordinal(week)} Sunday in Ordinary Time`,
+          rank: "Sunday",
+          color,
+          source: "temporal",
+        };
+    }
+  }
+
+  const slug = dayName.toLowerCase();
+  let id: string;
+  let title: string;
+
+  switch (season) {
+    case "Advent":
+      id = `advent_${week}_${slug}`;
+      title = `${dayName} of the ${ordinal(week)} Week of Advent`;
+      break;
+    case "Christmas": {
+      const month = d.getUTCMonth();
+      const day = d.getUTCDate();
+      if (month === 11) {
+        id = `christmas_octave_day_${day - 24}`;
+        title = `${ordinal(day - 24)} Day within the Octave of Christmas`;
+      } else if (d.getTime() < a.epiphany.getTime()) {
+        id = `christmas_weekday_jan_${day}`;
+        title = `${dayName} of Christmas Time`;
+      } else {
+        id = `${slug}_after_epiphany`;
+        title = `${dayName} after Epiphany`;
+      }
+      break;
+    }
+    case "Lent":
+      if (week === 0) {
+        id = `${slug}_after_ash_wednesday`;
+        title = `${dayName} after Ash Wednesday`;
+      } else if (week === 6) {
+        id = `holy_week_${slug}`;
+        title = `${dayName} of Holy Week`;
+      } else {
+        id = `lent_${week}_${slug}`;
+        title = `${dayName} of the ${ordinal(week)} Week of Lent`;
+      }
+      break;
+    case "Easter":
+      id = `easter_${week}_${slug}`;
+      title = `${dayName} of the ${ordinal(week)} Week of Easter`;
+      break;
+    case "Ordinary Time":
+    default:
+      id = `ordinary_time_${week}_${slug}`;
+      title = `${dayName} of the ${ordinal(week)} Week in Ordinary Time`;
+      break;
+  }
+
+  return { id, title, rank: "Weekday", color, source: "temporal" };
+}
+
+function properDateKey(year: number, e: ProperEntry): string {
+  if ("mmdd" in e) return `${year}-${e.mmdd}`;
+  const { month, n } = e.nthSunday;
+  const first = nextWeekday(utcNoonDate(year, month - 1, 1), 0, true);
+  return toYmd(addDaysUTC(first, 7 * (n - 1)));
+}
+
+/** Sanctoral candidates for the year, keyed by YYYY-MM-DD. */
+function sanctoralForYear(
+  year: number,
+  profile: CalendarProfile,
+): Map<string, Candidate[]> {
+  const m = new Map<string, Candidate[]>();
+  const add = (key: string, c: Candidate) => {
+    const arr = m.get(key) ?? [];
+    arr.push(c);
+    m.set(key, arr);
+  };
+
+  // A proper entry with the same id replaces the general one.
+  const replaced = new Set(profile.proper.map((e) => e.id));
+
+  for (const e of GENERAL_ROMAN_CALENDAR) {
+    if (replaced.has(e.id)) continue;
+    add(`${year}-${e.mmdd}`, {
+      id: e.id,
+      title: e.title,
+      rank: e.rank,
+      color: e.color,
+      source: "sanctoral",
+      precedence: sanctoralPrecedence(e),
+    });
+  }
+  for (const e of profile.proper) {
+    add(properDateKey(year, e), {
+      id: e.id,
+      title: e.title,
+      rank: e.rank,
+      color: e.color,
+      source: "proper",
+      precedence: properPrecedence(e),
+    });
+  }
+  return m;
+}
+
+/** Nearest day after `fromKey` that is not a day of rank 1–8 (no. 60). */
+function findTransferTarget(
+  fromKey: string,
+  keys: string[],
+  candidates: Map<string, Candidate[]>,
+): string | null {
+  for (let i = keys.indexOf(fromKey) + 1; i < keys.length; i++) {
+    const list = candidates.get(keys[i]) ?? [];
+    if (list.every((c) => c.precedence > 8)) return keys[i];
+  }
+  return null;
+}
+
+function resolveDay(
+  list: Candidate[],
+  transferredTo: Map<Candidate, string>,
+): Celebration[] {
+  const sorted = [...list].sort(byPrecedence);
+
+  // Two obligatory memorials on one day: both become optional
+  // (Mary, Mother of the Church prevails instead; CDW 2018).
+  const obligatory = sorted.filter(
+    (c) =>
+      (c.precedence === 10 || c.precedence === 11) &&
+      c.id !== "mary_mother_of_the_church",
+  );
+  const effective = (c: Candidate) =>
+    obligatory.length > 1 && obligatory.includes(c) ? 12 : c.precedence;
+
+  // Optional memorials never displace the day itself.
+  const winner = sorted.find((c) => effective(c) !== 12) ?? sorted[0];
+
+  return sorted
+    .filter(
+      // A weekday that loses is simply not a celebration of the day.
+      (c) => c === winner || !(c.source === "temporal" && c.rank === "Weekday"),
+    )
+    .map((c): Celebration => {
+      if (c === winner) return { ...c, status: "celebrated" };
+
+      const to = transferredTo.get(c);
+      if (to) return { ...c, status: "transferred", transferredTo: to };
+
+      const p = effective(c);
+      if (p === 12 && winner.precedence === 13) {
+        return { ...c, status: "optional" };
+      }
+      if (p >= 10 && winner.precedence === 9) {
+        return { ...c, status: "commemorated" };
+      }
+      return { ...c, status: "suppressed" };
+    })
+    .sort((x, y) => STATUS_ORDER[x.status] - STATUS_ORDER[y.status]);
+}
+
+const yearCache = new Map<string, Map<string, LiturgicalDay>>();
+
+/** Every day of the civil year, keyed by YYYY-MM-DD (cached per profile). */
+export function buildLiturgicalYear(
+  year: number,
+  profileId: CalendarProfileId = DEFAULT_CALENDAR_PROFILE,
+): Map<string, LiturgicalDay> {
+  const cacheKey = `${profileId}:${year}`;
+  const cached = yearCache.get(cacheKey);
+  if (cached) return cached;
+
+  const profile = getCalendarProfile(profileId);
+  if (profile.form === "extraordinary") {
+    const days = buildTraditionalYear(year);
+    yearCache.set(cacheKey, days);
+    return days;
+  }
+
+  const anchors = anchorsForYear(year, profile);
+  const movable = computeMovableFeastsForYear(year, profile);
+  const sanctoral = sanctoralForYear(year, profile);
+
+  // Pass 1: what falls on each date.
+  const keys: string[] = [];
+  const positions = new Map<string, SeasonPosition>();
+  const candidates = new Map<string, Candidate[]>();
+
+  for (
+    let d = utcNoonDate(year, 0, 1);
+    d.getUTCFullYear() === year;
+    d = addDaysUTC(d, 1)
+  ) {
+    const key = toYmd(d);
+    const pos = seasonPosition(d, anchors);
+
+    // Named memorials (e.g. Immaculate Heart) sit on top of the weekday;
+    // anything higher replaces it.
+    const named = (movable[key] ?? []).map((m) => ({
+      ...m,
+      source: "temporal" as const,
+    }));
+    const replacesDay = named.some(
+      (m) => m.rank !== "Memorial" && m.rank !== "Optional Memorial",
+    );
+    const temporal: CelebrationBase[] = replacesDay
+      ? named
+      : [...named, temporalDay(d, pos, anchors)];
+
+    keys.push(key);
+    positions.set(key, pos);
+    candidates.set(key, [
+      ...temporal.map((c) => ({
+        ...c,
+        precedence: temporalPrecedence(c, d, pos),
+      })),
+      ...(sanctoral.get(key) ?? []),
+    ]);
+  }
+
+  // Pass 2: move impeded solemnities.
+  const transferredTo = new Map<Candidate, string>();
+  const holyWeekStart = toYmd(addDaysUTC(anchors.easter, -7));
+  const holyWeekEnd = toYmd(addDaysUTC(anchors.easter, -1));
+
+  for (const key of keys) {
+    const list = candidates.get(key) ?? [];
+    const top = [...list].sort(byPrecedence)[0];
+
+    for (const c of list) {
+      if (c === top || c.precedence > 4 || c.transferredFrom) continue;
+
+      const target =
+        c.id === "joseph_spouse_of_mary" &&
+        key >= holyWeekStart &&
+        key <= holyWeekEnd
+          ? toYmd(addDaysUTC(anchors.easter, -8))
+          : findTransferTarget(key, keys, candidates);
+      if (!target) continue;
+
+      transferredTo.set(c, target);
+      candidates.get(target)?.push({ ...c, transferredFrom: key });
+    }
+  }
+
+  // Pass 3: one winner per day.
+  const out = new Map<string, LiturgicalDay>();
+
+  for (const key of keys) {
+    const pos = positions.get(key)!;
+    const celebrations = resolveDay(candidates.get(key) ?? [], transferredTo);
+    const winner = celebrations[0];
+
+    out.set(key, {
+      date: key,
+      season: pos.season,
+      seasonWeek: pos.seasonWeek,
+      psalterWeek: pos.psalterWeek,
+      weekday: keyToUTCNoon(key).getUTCDay(),
+      rank: winner.rank,
+      color: winner.color,
+      celebrations,
+    });
+  }
+
+  yearCache.set(cacheKey, out);
+  return out;
+}
+
+/** The liturgical day for a YYYY-MM-DD key. */
+export function getLiturgicalDay(
+  dateKey: string,
+  profileId: CalendarProfileId = DEFAULT_CALENDAR_PROFILE,
+): LiturgicalDay {
+  const day = buildLiturgicalYear(yearOfKey(dateKey), profileId).get(dateKey);
+  if (!day) {
+    throw new Error(`getLiturgicalDay: invalid date key "${dateKey}"`);
+  }
+  return day;
+}
+
+/**
+ * Where a celebration is actually kept in `year` (after transfers),
+ * or null if it is suppressed or unknown.
+ */
+export function findCelebrationDate(
+  year: number,
+  id: string,
+  profileId: CalendarProfileId = DEFAULT_CALENDAR_PROFILE,
+): string | null {
+  for (const [key, day] of buildLiturgicalYear(year, profileId)) {
+    if (
+      day.celebrations.some((c) => c.id === id && c.status === "celebrated")
+    ) {
+      return key;
+    }
+  }
+  return null;
+}
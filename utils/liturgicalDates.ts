@@ -8,6 +8,13 @@
 // - If a rule references an anchor that is missing here, novenasRules.ts will throw
 //   `Missing/invalid anchor: <key>`.
 // - So we keep this file generous with common Roman-calendar anchors.
+// - Fixed solemnities that can be transferred (Annunciation, St Joseph,
+//   Immaculate Conception) come from the calendar engine, so novenas ending
+//   on them follow the transfer.
+// - Anchors depend on the calendar profile: `epiphany`, `ascension` and
+//   `corpus_christi` follow the profile's transfers; the explicit
+//   `_thursday` / `_sunday` forms never move. The 1962 Missal profile keeps
+//   Holy Family, the Baptism and Christ the King on its own dates.
 
 import {
   utcNoonDate,
@@ -17,6 +24,19 @@ import {
   prevWeekday,
 } from "./liturgicalEngine";
 import type { Anchors } from "./novenasRules";
+import { findCelebrationDate } from "./liturgicalCalendar";
+import { keyToUTCNoon } from "./dateKeys";
+import {
+  ascensionOfTheLord,
+  baptismOfTheLord,
+  corpusChristi,
+  epiphanyOfTheLord,
+} from "./movableFeastsRules";
+import {
+  DEFAULT_CALENDAR_PROFILE,
+  getCalendarProfile,
+  type CalendarProfileId,
+} from "./calendarProfiles";
 
 /**
  * Holy Family (Roman Rite, simplified but correct enough for app logic):
@@ -49,7 +69,27 @@ function christTheKing(year: number): Date {
   return addDaysUTC(firstSundayOfAdvent(year), -7);
 }
 
-export function buildNovenaAnchorsForYear(year: number): Anchors {
+/**
+ * Date a fixed celebration is actually kept on in `year`
+ * (after precedence/transfer rules), falling back to its calendar date.
+ */
+function keptOn(
+  year: number,
+  profileId: CalendarProfileId,
+  id: string,
+  m0: number,
+  d: number,
+): Date {
+  const key = findCelebrationDate(year, id, profileId);
+  return key ? keyToUTCNoon(key) : utcNoonDate(year, m0, d);
+}
+
+export function buildNovenaAnchorsForYear(
+  year: number,
+  profileId: CalendarProfileId = DEFAULT_CALENDAR_PROFILE,
+): Anchors {
+  const profile = getCalendarProfile(profileId);
+
   // Core movable cycle
   const easter = computeEasterSunday(year);
 
@@ -63,17 +103,18 @@ export function buildNovenaAnchorsForYear(year: number): Anchors {
 
   const divine_mercy_sunday = addDaysUTC(easter, 7);
 
-  // Ascension (both forms)
-  const ascension_thursday = addDaysUTC(easter, 39);
-  const ascension_sunday = addDaysUTC(easter, 42);
+  // Ascension (as kept by the profile + both explicit forms)
+  const ascension = ascensionOfTheLord(easter, profile.ascensionOnSunday);
+  const ascension_thursday = ascensionOfTheLord(easter, false);
+  const ascension_sunday = ascensionOfTheLord(easter, true);
 
   const pentecost = addDaysUTC(easter, 49);
 
-  // Trinity + Corpus Christi (both forms)
+  // Trinity + Corpus Christi (as kept by the profile + both explicit forms)
   const trinity_sunday = addDaysUTC(easter, 56);
-  // Corpus Christi Thursday = Easter + 60; transferred Sunday = +63
-  const corpus_christi = addDaysUTC(easter, 60);
-  const corpus_christi_sunday = addDaysUTC(easter, 63);
+  const corpus_christi = corpusChristi(easter, profile.corpusChristiOnSunday);
+  const corpus_christi_thursday = corpusChristi(easter, false);
+  const corpus_christi_sunday = corpusChristi(easter, true);
 
   // Sacred Heart / Immaculate Heart
   const sacred_heart = addDaysUTC(easter, 68);
@@ -82,22 +123,50 @@ export function buildNovenaAnchorsForYear(year: number): Anchors {
   // Fixed anchors commonly referenced
   const christmas = utcNoonDate(year, 11, 25);
   const mary_mother_of_god = utcNoonDate(year, 0, 1);
-  const epiphany = utcNoonDate(year, 0, 6);
-
-  // Baptism of the Lord (simplified: Sunday after Jan 6)
-  const baptism_of_the_lord = nextWeekday(epiphany, 0, false);
+  const epiphany = epiphanyOfTheLord(year, profile.epiphanyOnSunday);
+  const traditional = profile.form === "extraordinary";
+  const baptism_of_the_lord = traditional
+    ? keptOn(year, profileId, "baptism_of_the_lord", 0, 13)
+    : baptismOfTheLord(year, profile.epiphanyOnSunday);
 
-  const holy_family = holyFamily(year);
+  const holy_family = traditional
+    ? keptOn(year, profileId, "holy_family", 0, 7)
+    : holyFamily(year);
 
   // “Season-ish” anchors that often show up in devotion rules / future parsing
   const advent_1 = firstSundayOfAdvent(year);
-  const christ_king = christTheKing(year);
+  const christ_king = traditional
+    ? keptOn(year, profileId, "christ_king", 9, 31)
+    : christTheKing(year);
 
   // A few very common fixed feast anchors (harmless to include)
-  const annunciation = utcNoonDate(year, 2, 25); // Mar 25
+  const st_joseph = keptOn(year, profileId, "joseph_spouse_of_mary", 2, 19); // Mar 19
+  const annunciation = keptOn(year, profileId, "annunciation", 2, 25); // Mar 25
   const assumption = utcNoonDate(year, 7, 15); // Aug 15
   const all_saints = utcNoonDate(year, 10, 1); // Nov 1
-  const immaculate_conception = utcNoonDate(year, 11, 8); // Dec 8
+  const immaculate_conception = keptOn(
+    year,
+    profileId,
+    "immaculate_conception",
+    11,
+    8,
+  ); // Dec 8
+
+  // National solemnities (moved like any solemnity where they are one)
+  const our_lady_of_czestochowa = keptOn(
+    year,
+    profileId,
+    "our_lady_of_czestochowa",
+    7,
+    26,
+  ); // Aug 26
+  const our_lady_of_guadalupe = keptOn(
+    year,
+    profileId,
+    "our_lady_of_guadalupe",
+    11,
+    12,
+  ); // Dec 12
 
   // Useful helpers if a future rule says "Sunday before X" etc.
   // (These are not used directly today, but are safe anchors.)
@@ -114,11 +183,13 @@ export function buildNovenaAnchorsForYear(year: number): Anchors {
     good_friday,
     holy_saturday,
     divine_mercy_sunday,
+    ascension,
     ascension_thursday,
     ascension_sunday,
     pentecost,
     trinity_sunday,
     corpus_christi,
+    corpus_christi_thursday,
     corpus_christi_sunday,
     sacred_heart,
     immaculate_heart,
@@ -137,9 +208,12 @@ export function buildNovenaAnchorsForYear(year: number): Anchors {
     christ_king,
 
     // common fixed feasts
+    st_joseph,
     annunciation,
     assumption,
     all_saints,
     immaculate_conception,
+    our_lady_of_czestochowa,
+    our_lady_of_guadalupe,
   };
 }
@@ -105,13 +105,3 @@ export function buildMoveableMapForYear(year: number) {
   };
 }
 
-/**
- * Optional: a simple helper if you already use this elsewhere.
- * If you already had a richer implementation, keep your original logic;
- * this is just a safe placeholder that won't crash.
- */
-export function getLiturgicalDay(date: Date) {
-  return {
-    date: toYmd(date),
-  };
-}
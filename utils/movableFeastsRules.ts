@@ -1,7 +1,10 @@
 // utils/movableFeastsRules.ts
 //
-// YEAR-AWARE liturgical observances + season framework + colors.
-// This file intentionally returns MANY entries so the Liturgical tab is not empty.
+// YEAR-AWARE temporal cycle: the NAMED celebrations that move with Easter
+// and Christmas (Ash Wednesday, Triduum, Ascension, Holy Family, ...).
+// - Ordinary Sundays and weekdays are generated per day by
+//   utils/liturgicalCalendar.ts from the season/week; they are not listed here.
+// - Fixed-date saints live in data/generalRomanCalendar.ts.
 //
 // All dates use UTC noon to avoid DST issues.
 
@@ -11,7 +14,6 @@ import {
   addDaysUTC,
   utcNoonDate,
   nextWeekday,
-  prevWeekday,
 } from "./liturgicalEngine";
 
 export type LiturgicalRank =
@@ -21,28 +23,48 @@ export type LiturgicalRank =
   | "Feast"
   | "Memorial"
   | "Optional Memorial"
-  | "Weekday";
+  | "Weekday"
+  // 1962 Missal (utils/traditionalCalendar.ts)
+  | "Class I"
+  | "Class II"
+  | "Class III"
+  | "Class IV";
 
-export type LiturgicalColor = "Purple" | "White" | "Red" | "Green" | "Rose";
+export type LiturgicalColor =
+  "Purple" | "White" | "Red" | "Green" | "Rose" | "Black";
 
 export type LiturgicalSeason =
   | "Advent"
   | "Christmas"
   | "Lent"
   | "Easter"
-  | "Ordinary Time";
+  | "Ordinary Time"
+  // 1962 Missal (utils/traditionalCalendar.ts)
+  | "Time after Epiphany"
+  | "Septuagesima"
+  | "Time after Pentecost";
 
 export type MovableObservance = {
   id: string;
   title: string;
   rank: LiturgicalRank;
+  color: LiturgicalColor;
+};
 
-  // gives the UI what a liturgical calendar must show
-  color?: LiturgicalColor;
-  season?: LiturgicalSeason;
+/**
+ * Holy-day transfers a conference may adopt (Universal Norms, no. 7).
+ * All false = the universal calendar.
+ */
+export type TransferOptions = {
+  epiphanyOnSunday: boolean;
+  ascensionOnSunday: boolean;
+  corpusChristiOnSunday: boolean;
+};
 
-  // optional: season boundary markers that help the tab feel complete
-  kind?: "Celebration" | "SeasonMarker";
+const UNIVERSAL: TransferOptions = {
+  epiphanyOnSunday: false,
+  ascensionOnSunday: false,
+  corpusChristiOnSunday: false,
 };
 
 /** Helper: add an observance into map */
@@ -56,62 +78,13 @@ function push(
   out[key].push(obs);
 }
 
-/** Sort / dedupe by id per day, with rank priority */
-function normalize(out: Record<string, MovableObservance[]>) {
-  const weight = (r: LiturgicalRank) => {
-    switch (r) {
-      case "Triduum":
-        return 6;
-      case "Solemnity":
-        return 5;
-      case "Sunday":
-        return 4;
-      case "Feast":
-        return 3;
-      case "Memorial":
-        return 2;
-      case "Optional Memorial":
-        return 1;
-      case "Weekday":
-      default:
-        return 0;
-    }
-  };
-
-  for (const k of Object.keys(out)) {
-    const seen = new Set<string>();
-    out[k] = out[k]
-      .filter((x) => {
-        if (seen.has(x.id)) return false;
-        seen.add(x.id);
-        return true;
-      })
-      .sort((a, b) => {
-        const dw = weight(b.rank) - weight(a.rank);
-        if (dw !== 0) return dw;
-        return a.title.localeCompare(b.title);
-      });
-  }
-}
-
 /** Find the Sunday on/after a date */
 function sundayOnOrAfter(d: Date): Date {
   return nextWeekday(d, 0, true);
 }
 
-/** Find the Sunday on/before a date */
-function sundayOnOrBefore(d: Date): Date {
-  return prevWeekday(d, 0, true);
-}
-
-function diffDaysUTC(a: Date, b: Date): number {
-  // Dates are UTC noon; this is stable.
-  const MS_PER_DAY = 24 * 60 * 60 * 1000;
-  return Math.round((a.getTime() - b.getTime()) / MS_PER_DAY);
-}
-
-function ordinal(n: number): string {
-  // 1..34 is all we need for Ordinary Time Sundays
+export function ordinal(n: number): string {
+  // 1..34 is all we need (Ordinary Time weeks)
   const words = [
     "",
     "First",
@@ -153,55 +126,58 @@ function ordinal(n: number): string {
 }
 
 /** Advent Sunday #1: Sunday on or after Nov 27 */
-function firstSundayOfAdvent(year: number): Date {
+export function firstSundayOfAdvent(year: number): Date {
   const nov27 = utcNoonDate(year, 10, 27);
   return sundayOnOrAfter(nov27);
 }
 
 /** Christ the King: Sunday before Advent 1 */
-function christTheKing(year: number): Date {
+export function christTheKing(year: number): Date {
   return addDaysUTC(firstSundayOfAdvent(year), -7);
 }
 
 /**
- * Baptism of the Lord:
- * simplified: Sunday after Jan 6.
+ * Epiphany: Jan 6, or the Sunday between Jan 2 and Jan 8 where it is
+ * transferred.
  */
-function baptismOfTheLord(year: number): Date {
-  const jan6 = utcNoonDate(year, 0, 6);
-  return nextWeekday(jan6, 0, false);
-}
-
-/** Ordinary Time begins: Monday after Baptism */
-function ordinaryTimeBeginsPart1(year: number): Date {
-  return addDaysUTC(baptismOfTheLord(year), 1);
+export function epiphanyOfTheLord(year: number, onSunday = false): Date {
+  if (!onSunday) return utcNoonDate(year, 0, 6);
+  return sundayOnOrAfter(utcNoonDate(year, 0, 2));
 }
 
 /**
- * Ascension:
- * show both Thursday and transferred Sunday.
+ * Baptism of the Lord: Sunday after Jan 6. Where Epiphany is kept on
+ * Jan 7 or 8, it moves to the Monday after.
  */
-function ascensionThursday(easter: Date): Date {
-  return addDaysUTC(easter, 39);
-}
-function ascensionSunday(easter: Date): Date {
-  return addDaysUTC(easter, 42);
+export function baptismOfTheLord(year: number, epiphanyOnSunday = false): Date {
+  const epiphany = epiphanyOfTheLord(year, epiphanyOnSunday);
+  if (epiphany.getUTCDate() >= 7) return addDaysUTC(epiphany, 1);
+  return nextWeekday(utcNoonDate(year, 0, 6), 0, false);
 }
 
 /**
- * Corpus Christi:
- * Thursday after Trinity = Easter + 60; transferred Sunday = +63
+ * Holy Family: Sunday within the Christmas octave,
+ * or Dec 30 when Christmas itself is a Sunday.
  */
-function corpusChristiThursday(easter: Date): Date {
-  return addDaysUTC(easter, 60);
+export function holyFamily(year: number): Date {
+  const christmas = utcNoonDate(year, 11, 25);
+  if (christmas.getUTCDay() === 0) return utcNoonDate(year, 11, 30);
+  return nextWeekday(christmas, 0, false);
 }
-function corpusChristiSunday(easter: Date): Date {
-  return addDaysUTC(easter, 63);
+
+/** Ascension: Thursday, 40th day of Easter, or the 7th Sunday of Easter */
+export function ascensionOfTheLord(easter: Date, onSunday = false): Date {
+  return addDaysUTC(easter, onSunday ? 42 : 39);
+}
+
+/** Corpus Christi: Thursday after Trinity, or the Sunday after it */
+export function corpusChristi(easter: Date, onSunday = false): Date {
+  return addDaysUTC(easter, onSunday ? 63 : 60);
 }
 
 /**
  * Sacred Heart / Immaculate Heart:
- * Sacred Heart commonly = Easter + 68; IHM = +69
+ * Friday and Saturday after the second Sunday after Pentecost.
  */
 function sacredHeart(easter: Date): Date {
   return addDaysUTC(easter, 68);
@@ -210,83 +186,24 @@ function immaculateHeart(easter: Date): Date {
   return addDaysUTC(easter, 69);
 }
 
+/**
+ * Named temporal celebrations for the civil year, keyed by YYYY-MM-DD.
+ * Defaults to the universal norms (Epiphany Jan 6, Ascension and Corpus
+ * Christi on Thursday); `transfers` applies a national calendar's choices.
+ */
 export function computeMovableFeastsForYear(
   year: number,
+  transfers: TransferOptions = UNIVERSAL,
 ): Record<string, MovableObservance[]> {
   const out: Record<string, MovableObservance[]> = {};
 
   const easter = computeEasterSunday(year);
 
-  // ---------------------------
-  // SEASON FRAMEWORK (markers)
-  // ---------------------------
-
-  const a1 = firstSundayOfAdvent(year);
-  const christmas = utcNoonDate(year, 11, 25); // fixed, but critical anchor
-  const baptism = baptismOfTheLord(year);
-
   const ashWednesday = addDaysUTC(easter, -46);
-  const holyThursday = addDaysUTC(easter, -3);
-  const goodFriday = addDaysUTC(easter, -2);
-  const holySaturday = addDaysUTC(easter, -1);
   const pentecost = addDaysUTC(easter, 49);
 
-  push(out, a1, {
-    id: "season_advent_begins",
-    title: "Season begins: Advent",
-    rank: "Sunday",
-    color: "Purple",
-    season: "Advent",
-    kind: "SeasonMarker",
-  });
-
-  push(out, christmas, {
-    id: "season_christmas_begins",
-    title: "Season begins: Christmas",
-    rank: "Solemnity",
-    color: "White",
-    season: "Christmas",
-    kind: "SeasonMarker",
-  });
-
-  push(out, ordinaryTimeBeginsPart1(year), {
-    id: "season_ordinary_time_begins_part1",
-    title: "Season begins: Ordinary Time (after Baptism)",
-    rank: "Weekday",
-    color: "Green",
-    season: "Ordinary Time",
-    kind: "SeasonMarker",
-  });
-
-  push(out, ashWednesday, {
-    id: "season_lent_begins",
-    title: "Season begins: Lent (Ash Wednesday)",
-    rank: "Weekday",
-    color: "Purple",
-    season: "Lent",
-    kind: "SeasonMarker",
-  });
-
-  push(out, easter, {
-    id: "season_easter_begins",
-    title: "Season begins: Easter (Easter Sunday)",
-    rank: "Solemnity",
-    color: "White",
-    season: "Easter",
-    kind: "SeasonMarker",
-  });
-
-  push(out, addDaysUTC(pentecost, 1), {
-    id: "season_ordinary_time_begins_part2",
-    title: "Season resumes: Ordinary Time (after Pentecost)",
-    rank: "Weekday",
-    color: "Green",
-    season: "Ordinary Time",
-    kind: "SeasonMarker",
-  });
-
   // ---------------------------
-  // CHRISTMAS CYCLE (important fixed anchors)
+  // CHRISTMAS CYCLE
   // ---------------------------
 
   push(out, utcNoonDate(year, 0, 1), {
@@ -294,49 +211,35 @@ export function computeMovableFeastsForYear(
     title: "Mary, the Holy Mother of God",
     rank: "Solemnity",
     color: "White",
-    season: "Christmas",
   });
 
-  push(out, utcNoonDate(year, 0, 6), {
+  push(out, epiphanyOfTheLord(year, transfers.epiphanyOnSunday), {
     id: "epiphany",
     title: "Epiphany of the Lord",
     rank: "Solemnity",
     color: "White",
-    season: "Christmas",
   });
 
-  push(out, baptism, {
+  push(out, baptismOfTheLord(year, transfers.epiphanyOnSunday), {
     id: "baptism_of_the_lord",
     title: "Baptism of the Lord",
     rank: "Feast",
     color: "White",
-    season: "Christmas",
   });
 
-  // ---------------------------
-  // ORDINARY TIME (Part 1) — Sundays after Baptism until Lent
-  // ---------------------------
+  push(out, utcNoonDate(year, 11, 25), {
+    id: "christmas",
+    title: "The Nativity of the Lord (Christmas)",
+    rank: "Solemnity",
+    color: "White",
+  });
 
-  const ot1Monday = ordinaryTimeBeginsPart1(year);
-  const otPart1FirstSunday = sundayOnOrAfter(ot1Monday); // Sunday after OT begins
-  const dayBeforeAsh = addDaysUTC(ashWednesday, -1);
-  const otPart1LastSunday = sundayOnOrBefore(dayBeforeAsh);
-
-  for (
-    let s = otPart1FirstSunday;
-    s.getTime() <= otPart1LastSunday.getTime();
-    s = addDaysUTC(s, 7)
-  ) {
-    const week = 1 + Math.floor(diffDaysUTC(s, ot1Monday) / 7);
-    const sundayNum = week + 1; // week 1 => "Second Sunday in Ordinary Time"
-    push(out, s, {
-      id: `ordinary_time_${sundayNum}_sunday_part1`,
-      title: `${ordinal(sundayNum)} Sunday in Ordinary Time`,
-      rank: "Sunday",
-      color: "Green",
-      season: "Ordinary Time",
-    });
-  }
+  push(out, holyFamily(year), {
+    id: "holy_family",
+    title: "The Holy Family of Jesus, Mary and Joseph",
+    rank: "Feast",
+    color: "White",
+  });
 
   // ---------------------------
   // LENT / HOLY WEEK / EASTER
@@ -347,82 +250,34 @@ export function computeMovableFeastsForYear(
     title: "Ash Wednesday",
     rank: "Weekday",
     color: "Purple",
-    season: "Lent",
-  });
-
-  const lent1 = addDaysUTC(ashWednesday, 4);
-  push(out, lent1, {
-    id: "lent_1",
-    title: "First Sunday of Lent",
-    rank: "Sunday",
-    color: "Purple",
-    season: "Lent",
-  });
-
-  push(out, addDaysUTC(lent1, 7), {
-    id: "lent_2",
-    title: "Second Sunday of Lent",
-    rank: "Sunday",
-    color: "Purple",
-    season: "Lent",
   });
 
-  push(out, addDaysUTC(lent1, 14), {
-    id: "lent_3",
-    title: "Third Sunday of Lent",
-    rank: "Sunday",
-    color: "Purple",
-    season: "Lent",
-  });
-
-  const laetare = addDaysUTC(lent1, 21);
-  push(out, laetare, {
-    id: "lent_4_laetare",
-    title: "Fourth Sunday of Lent (Laetare Sunday)",
-    rank: "Sunday",
-    color: "Rose",
-    season: "Lent",
-  });
-
-  push(out, addDaysUTC(lent1, 28), {
-    id: "lent_5",
-    title: "Fifth Sunday of Lent",
-    rank: "Sunday",
-    color: "Purple",
-    season: "Lent",
-  });
-
-  const palmSunday = addDaysUTC(easter, -7);
-  push(out, palmSunday, {
+  push(out, addDaysUTC(easter, -7), {
     id: "palm_sunday",
     title: "Palm Sunday of the Passion of the Lord",
     rank: "Sunday",
     color: "Red",
-    season: "Lent",
   });
 
-  push(out, holyThursday, {
+  push(out, addDaysUTC(easter, -3), {
     id: "holy_thursday",
     title: "Holy Thursday (Evening Mass of the Lord’s Supper)",
     rank: "Triduum",
     color: "White",
-    season: "Easter",
   });
 
-  push(out, goodFriday, {
+  push(out, addDaysUTC(easter, -2), {
     id: "good_friday",
     title: "Good Friday of the Passion of the Lord",
     rank: "Triduum",
     color: "Red",
-    season: "Easter",
   });
 
-  push(out, holySaturday, {
+  push(out, addDaysUTC(easter, -1), {
     id: "holy_saturday",
     title: "Holy Saturday",
     rank: "Triduum",
     color: "Purple",
-    season: "Easter",
   });
 
   push(out, easter, {
@@ -430,41 +285,38 @@ export function computeMovableFeastsForYear(
     title: "Easter Sunday of the Resurrection of the Lord",
     rank: "Solemnity",
     color: "White",
-    season: "Easter",
   });
 
   // Easter Octave (Mon–Sat after Easter)
-  for (let i = 1; i <= 6; i++) {
-    push(out, addDaysUTC(easter, i), {
-      id: `easter_octave_day_${i}`,
-      title: `Easter Octave (Day ${i + 1})`,
+  const octaveDays = [
+    "Monday",
+    "Tuesday",
+    "Wednesday",
+    "Thursday",
+    "Friday",
+    "Saturday",
+  ];
+  octaveDays.forEach((weekday, i) => {
+    push(out, addDaysUTC(easter, i + 1), {
+      id: `easter_octave_day_${i + 1}`,
+      title: `${weekday} within the Octave of Easter`,
       rank: "Solemnity",
       color: "White",
-      season: "Easter",
     });
-  }
+  });
 
   push(out, addDaysUTC(easter, 7), {
     id: "divine_mercy_sunday",
     title: "Second Sunday of Easter (Divine Mercy Sunday)",
     rank: "Sunday",
     color: "White",
-    season: "Easter",
   });
 
-  push(out, ascensionThursday(easter), {
-    id: "ascension_thursday",
-    title: "Ascension of the Lord (Thursday)",
-    rank: "Solemnity",
-    color: "White",
-    season: "Easter",
-  });
-  push(out, ascensionSunday(easter), {
-    id: "ascension_sunday",
-    title: "Ascension of the Lord (Transferred to Sunday)",
+  push(out, ascensionOfTheLord(easter, transfers.ascensionOnSunday), {
+    id: "ascension",
+    title: "The Ascension of the Lord",
     rank: "Solemnity",
     color: "White",
-    season: "Easter",
   });
 
   push(out, pentecost, {
@@ -472,122 +324,45 @@ export function computeMovableFeastsForYear(
     title: "Pentecost Sunday",
     rank: "Solemnity",
     color: "Red",
-    season: "Easter",
   });
 
   // ---------------------------
-  // ORDINARY TIME (Part 2) — Sundays after Pentecost until Christ the King
+  // AFTER PENTECOST
   // ---------------------------
 
-  const ot2Monday = addDaysUTC(pentecost, 1);
-
-  // What OT week number did we reach before Lent?
-  const lastOTWeekBeforeLent =
-    1 + Math.floor(diffDaysUTC(dayBeforeAsh, ot1Monday) / 7);
-
-  const ot2BaseWeek = lastOTWeekBeforeLent + 1;
-
-  const ot2FirstSunday = sundayOnOrAfter(ot2Monday); // Trinity Sunday lands here
-  const ot2LastSunday = christTheKing(year);
-
-  for (
-    let s = ot2FirstSunday;
-    s.getTime() <= ot2LastSunday.getTime();
-    s = addDaysUTC(s, 7)
-  ) {
-    const week = ot2BaseWeek + Math.floor(diffDaysUTC(s, ot2Monday) / 7);
-    const sundayNum = week + 1;
-
-    // Cap at 34 to avoid weirdness in edge cases
-    if (sundayNum > 34) break;
-
-    push(out, s, {
-      id: `ordinary_time_${sundayNum}_sunday_part2`,
-      title: `${ordinal(sundayNum)} Sunday in Ordinary Time`,
-      rank: "Sunday",
-      color: "Green",
-      season: "Ordinary Time",
-    });
-  }
-
-  // ---------------------------
-  // OTHER IMPORTANT MOVEABLES
-  // ---------------------------
-
-  const trinity = addDaysUTC(easter, 56);
-  push(out, trinity, {
-    id: "trinity_sunday",
-    title: "Trinity Sunday",
-    rank: "Solemnity",
+  push(out, addDaysUTC(pentecost, 1), {
+    id: "mary_mother_of_the_church",
+    title: "The Blessed Virgin Mary, Mother of the Church",
+    rank: "Memorial",
     color: "White",
-    season: "Ordinary Time",
   });
 
-  push(out, corpusChristiThursday(easter), {
-    id: "corpus_christi_thursday",
-    title: "The Most Holy Body and Blood of Christ (Corpus Christi) — Thursday",
+  push(out, addDaysUTC(easter, 56), {
+    id: "trinity_sunday",
+    title: "The Most Holy Trinity",
     rank: "Solemnity",
     color: "White",
-    season: "Ordinary Time",
   });
-  push(out, corpusChristiSunday(easter), {
-    id: "corpus_christi_sunday",
-    title: "The Most Holy Body and Blood of Christ (Corpus Christi) — Sunday",
+
+  push(out, corpusChristi(easter, transfers.corpusChristiOnSunday), {
+    id: "corpus_christi",
+    title: "The Most Holy Body and Blood of Christ (Corpus Christi)",
     rank: "Solemnity",
     color: "White",
-    season: "Ordinary Time",
   });
 
   push(out, sacredHeart(easter), {
     id: "sacred_heart",
-    title: "Most Sacred Heart of Jesus",
+    title: "The Most Sacred Heart of Jesus",
     rank: "Solemnity",
     color: "White",
-    season: "Ordinary Time",
   });
+
   push(out, immaculateHeart(easter), {
     id: "immaculate_heart",
-    title: "Immaculate Heart of Mary",
+    title: "The Immaculate Heart of the Blessed Virgin Mary",
     rank: "Memorial",
     color: "White",
-    season: "Ordinary Time",
-  });
-
-  // ---------------------------
-  // ADVENT + END OF YEAR SUNDAYS
-  // ---------------------------
-
-  const a2 = addDaysUTC(a1, 7);
-  const a3 = addDaysUTC(a1, 14);
-  const a4 = addDaysUTC(a1, 21);
-
-  push(out, a1, {
-    id: "advent_1",
-    title: "First Sunday of Advent",
-    rank: "Sunday",
-    color: "Purple",
-    season: "Advent",
-  });
-  push(out, a2, {
-    id: "advent_2",
-    title: "Second Sunday of Advent",
-    rank: "Sunday",
-    color: "Purple",
-    season: "Advent",
-  });
-  push(out, a3, {
-    id: "advent_3_gaudete",
-    title: "Third Sunday of Advent (Gaudete Sunday)",
-    rank: "Sunday",
-    color: "Rose",
-    season: "Advent",
-  });
-  push(out, a4, {
-    id: "advent_4",
-    title: "Fourth Sunday of Advent",
-    rank: "Sunday",
-    color: "Purple",
-    season: "Advent",
   });
 
   push(out, christTheKing(year), {
@@ -595,9 +370,7 @@ export function computeMovableFeastsForYear(
     title: "Our Lord Jesus Christ, King of the Universe (Christ the King)",
     rank: "Solemnity",
     color: "White",
-    season: "Ordinary Time",
   });
 
-  normalize(out);
   return out;
 }
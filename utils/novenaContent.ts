@@ -0,0 +1,71 @@
+// utils/novenaContent.ts
+//
+// Helpers for novena content docs (data/novenas/<id>.json).
+// Scraped docs keep their days either at `days` or `content.days`, and some
+// prayers still carry CSS from the source pages; the screen strips it at
+// render time and scripts/validate-data.ts reports it.
+
+export type NovenaDay = {
+  day: number;
+  title?: string;
+  scripture?: string;
+  prayer?: string;
+  reflection?: string;
+};
+
+/** Text fields of a day that may carry leaked CSS. */
+export const NOVENA_DAY_TEXT_FIELDS = [
+  "scripture",
+  "prayer",
+  "reflection",
+] as const;
+
+export function extractNovenaDays(doc: any): NovenaDay[] {
+  if (!doc) return [];
+  if (Array.isArray(doc.days)) return doc.days;
+  if (doc.content && Array.isArray(doc.content.days)) return doc.content.days;
+  return [];
+}
+
+function isCssLine(line: string): boolean {
+  const s = line.trim();
+  if (!s) return false;
+
+  const looksLikeCss =
+    s.startsWith("@media") ||
+    s.startsWith("#") ||
+    s.startsWith(".") ||
+    (s.includes("{") && s.includes("}")) ||
+    (s.includes("{") && s.includes(":")) ||
+    s.includes("!important") ||
+    s.includes("font-size:") ||
+    s.includes("padding:") ||
+    s.includes("max-width:");
+
+  const justBraces = s === "{" || s === "}" || s === "}}";
+
+  return looksLikeCss || justBraces;
+}
+
+/** Lines of raw that stripLeakedCss would drop. */
+export function findLeakedCss(raw?: string | null): string[] {
+  if (!raw) return [];
+  return raw.split(/\r?\n/).filter(isCssLine);
+}
+
+/**
+ * Strip leaked CSS that sometimes appears in scraped prayer content.
+ */
+export function stripLeakedCss(raw?: string): string | undefined {
+  if (!raw) return raw;
+
+  const kept = raw.split(/\r?\n/).filter((line) => !isCssLine(line));
+
+  const out = kept
+    .map((line) => (line.trim() ? line : ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return out.length ? out : undefined;
+}
@@ -0,0 +1,149 @@
+// utils/novenaFilters.ts
+//
+// Novenas tab filters (category, tag, duration), persisted in AsyncStorage.
+// - Within a group any selected value matches (OR); across groups all
+//   groups must match (AND). An empty group doesn't filter.
+// - Durations are bucketed: 9 days / several weeks (30- and 54-day novenas)
+//   / months (year-long devotions).
+
+import { createPersistedStore } from "./persistedStore";
+import type { NovenaCategory, NovenaDef } from "./novenasRules";
+
+const STORAGE_KEY = "novena_filters";
+
+export const NOVENA_CATEGORIES: NovenaCategory[] = [
+  "Devotion",
+  "Marian",
+  "Feast",
+  "Saint",
+  "Intention",
+];
+
+export type DurationBucket = "nine" | "weeks" | "months";
+
+export const DURATION_BUCKETS: DurationBucket[] = ["nine", "weeks", "months"];
+
+export type NovenaFilters = {
+  categories: NovenaCategory[];
+  tags: string[];
+  durations: DurationBucket[];
+};
+
+export const EMPTY_NOVENA_FILTERS: NovenaFilters = {
+  categories: [],
+  tags: [],
+  durations: [],
+};
+
+/** Anything with the fields filters look at (NovenaDef or NovenaInstance). */
+type Filterable = {
+  category: NovenaCategory;
+  tags?: string[];
+  durationDays?: number;
+};
+
+function stringsIn<T extends string>(raw: unknown, allowed?: readonly T[]) {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (x): x is T =>
+      typeof x === "string" && (!allowed || allowed.includes(x as T)),
+  );
+}
+
+function parseFilters(raw: unknown): NovenaFilters | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const r = raw as Record<string, unknown>;
+  return {
+    categories: stringsIn(r.categories, NOVENA_CATEGORIES),
+    tags: stringsIn<string>(r.tags),
+    durations: stringsIn(r.durations, DURATION_BUCKETS),
+  };
+}
+
+export const novenaFiltersStore = createPersistedStore<NovenaFilters>(
+  STORAGE_KEY,
+  EMPTY_NOVENA_FILTERS,
+  parseFilters,
+);
+
+export function durationBucketOf(durationDays: number = 9): DurationBucket {
+  if (durationDays <= 9) return "nine";
+  if (durationDays <= 60) return "weeks";
+  return "months";
+}
+
+export function hasActiveFilters(f: NovenaFilters): boolean {
+  return f.categories.length + f.tags.length + f.durations.length > 0;
+}
+
+export function matchesNovenaFilters(n: Filterable, f: NovenaFilters) {
+  if (f.categories.length && !f.categories.includes(n.category)) return false;
+  if (f.tags.length && !(n.tags ?? []).some((t) => f.tags.includes(t))) {
+    return false;
+  }
+  if (
+    f.durations.length &&
+    !f.durations.includes(durationBucketOf(n.durationDays))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Tags worth offering as chips: shared by 2+ novenas, and not just another
+ * name for a category (every novena is tagged "Novena" and its category).
+ */
+export function filterableTags(novenas: NovenaDef[]): string[] {
+  const byTag = new Map<string, Set<string>>();
+  const byCategory = new Map<string, Set<string>>();
+
+  for (const n of novenas) {
+    if (!byCategory.has(n.category)) byCategory.set(n.category, new Set());
+    byCategory.get(n.category)!.add(n.id);
+    for (const t of n.tags ?? []) {
+      if (!byTag.has(t)) byTag.set(t, new Set());
+      byTag.get(t)!.add(n.id);
+    }
+  }
+
+  const sameSet = (a: Set<string>, b: Set<string>) =>
+    a.size === b.size && [...a].every((x) => b.has(x));
+
+  return [...byTag.entries()]
+    .filter(([, ids]) => ids.size >= 2 && ids.size < novenas.length)
+    .filter(([, ids]) => ![...byCategory.values()].some((c) => sameSet(c, ids)))
+    .map(([tag]) => tag)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value)
+    ? list.filter((x) => x !== value)
+    : [...list, value];
+}
+
+export async function toggleCategoryFilter(c: NovenaCategory) {
+  await novenaFiltersStore.set((prev) => ({
+    ...prev,
+    categories: toggle(prev.categories, c),
+  }));
+}
+
+export async function toggleTagFilter(tag: string) {
+  await novenaFiltersStore.set((prev) => ({
+    ...prev,
+    tags: toggle(prev.tags, tag),
+  }));
+}
+
+export async function toggleDurationFilter(d: DurationBucket) {
+  await novenaFiltersStore.set((prev) => ({
+    ...prev,
+    durations: toggle(prev.durations, d),
+  }));
+}
+
+export async function clearNovenaFilters() {
+  await novenaFiltersStore.set(EMPTY_NOVENA_FILTERS);
+}
@@ -0,0 +1,135 @@
+// utils/novenaProgress.ts
+//
+// "I'm praying this" enrollments + per-day progress, persisted in AsyncStorage.
+//
+// An enrollment is tied to ONE concrete run of a novena (a resolved
+// NovenaInstance), keyed by novena id + feast date, so praying the same
+// novena again next year is a separate run.
+//
+// Day numbers are 1-based: day 1 = instance.startDate, day N = feast date.
+
+import { createPersistedStore } from "./persistedStore";
+import { dateToKeyUTC, diffDateKeys, isDateKey } from "./dateKeys";
+import { novenaInstanceId, type NovenaInstance } from "./novenasRules";
+
+const STORAGE_KEY = "novena_enrollments";
+
+export type NovenaEnrollment = {
+  key: string;
+  novenaId: string;
+  title: string;
+  startDate: string; // YYYY-MM-DD (day 1)
+  feastDate: string; // YYYY-MM-DD (day N)
+  durationDays: number;
+  prayedDays: number[]; // sorted, 1..durationDays
+  enrolledAt: string; // ISO timestamp
+};
+
+export type EnrollmentMap = Record<string, NovenaEnrollment>;
+
+function isEnrollment(v: any): v is NovenaEnrollment {
+  return (
+    !!v &&
+    typeof v.key === "string" &&
+    typeof v.novenaId === "string" &&
+    typeof v.title === "string" &&
+    isDateKey(v.startDate) &&
+    isDateKey(v.feastDate) &&
+    Number.isInteger(v.durationDays) &&
+    Array.isArray(v.prayedDays)
+  );
+}
+
+function parseEnrollments(raw: unknown): EnrollmentMap | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const out: EnrollmentMap = {};
+  for (const v of Object.values(raw as Record<string, unknown>)) {
+    if (isEnrollment(v)) out[v.key] = v;
+  }
+  return out;
+}
+
+export const enrollmentsStore = createPersistedStore<EnrollmentMap>(
+  STORAGE_KEY,
+  {},
+  parseEnrollments,
+);
+
+/** Same as the run's instance id (novenaInstanceId). */
+export function enrollmentKey(novenaId: string, feastDateKey: string): string {
+  return novenaInstanceId(novenaId, feastDateKey);
+}
+
+export function enrollmentKeyForInstance(n: NovenaInstance): string {
+  return n.instanceId;
+}
+
+export async function enrollInNovena(n: NovenaInstance) {
+  const key = enrollmentKeyForInstance(n);
+  await enrollmentsStore.set((prev) => {
+    if (prev[key]) return prev;
+    return {
+      ...prev,
+      [key]: {
+        key,
+        novenaId: n.id,
+        title: n.title,
+        startDate: dateToKeyUTC(n.startDate),
+        feastDate: dateToKeyUTC(n.feastDate),
+        durationDays: n.durationDays,
+        prayedDays: [],
+        enrolledAt: new Date().toISOString(),
+      },
+    };
+  });
+  return key;
+}
+
+export async function unenrollFromNovena(key: string) {
+  await enrollmentsStore.set((prev) => {
+    if (!prev[key]) return prev;
+    const next = { ...prev };
+    delete next[key];
+    return next;
+  });
+}
+
+export async function setDayPrayed(key: string, day: number, prayed: boolean) {
+  await enrollmentsStore.set((prev) => {
+    const e = prev[key];
+    if (!e || day < 1 || day > e.durationDays) return prev;
+
+    const days = new Set(e.prayedDays);
+    if (prayed) days.add(day);
+    else days.delete(day);
+
+    return {
+      ...prev,
+      [key]: { ...e, prayedDays: Array.from(days).sort((a, b) => a - b) },
+    };
+  });
+}
+
+/**
+ * Day number (1..N) of a run on dateKey, or null when dateKey is outside it.
+ */
+export function dayNumberOn(e: NovenaEnrollment, dateKey: string) {
+  const day = diffDateKeys(e.startDate, dateKey) + 1;
+  if (day < 1 || day > e.durationDays) return null;
+  return day;
+}
+
+/**
+ * Runs in progress on dateKey (optionally only for one novena),
+ * most recently started first.
+ */
+export function activeEnrollmentsOn(
+  enrollments: EnrollmentMap,
+  dateKey: string,
+  novenaId?: string,
+): NovenaEnrollment[] {
+  return Object.values(enrollments)
+    .filter((e) => !novenaId || e.novenaId === novenaId)
+    .filter((e) => dayNumberOn(e, dateKey) !== null)
+    .sort((a, b) => b.startDate.localeCompare(a.startDate));
+}
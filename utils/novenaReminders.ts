@@ -0,0 +1,294 @@
+// utils/novenaReminders.ts
+//
+// Local notification reminders for novenas.
+// - One reminder per remaining day of every enrolled run ("Day 4 of 9")
+// - Optional "starts tomorrow" heads-up for starred novenas
+//
+// Scheduling is always a full re-sync: cancel everything we own, recompute
+// from the resolver, schedule again. Because start dates are recomputed from
+// the rules every time, movable-feast novenas follow their feast each year.
+//
+// Only a rolling window is scheduled (iOS keeps at most 64 pending local
+// notifications); the app re-syncs on launch and when it returns to the
+// foreground, which tops the window up.
+
+import { Platform } from "react-native";
+import * as Notifications from "expo-notifications";
+
+import i18n from "../i18n";
+import { getNovenaInstancesInRange } from "../data/calendar";
+import { getNovenaContent } from "../data/novenasManifest";
+import { createPersistedStore } from "./persistedStore";
+import { addDaysToKey, dateToKeyUTC, todayKeyLocal } from "./dateKeys";
+import { enrollmentKeyForInstance, type EnrollmentMap } from "./novenaProgress";
+import type { CalendarProfileId } from "./calendarProfiles";
+
+const STORAGE_KEY = "novena_reminder_settings";
+
+const ID_PREFIX = "novena:";
+const ANDROID_CHANNEL_ID = "novena-reminders";
+
+const HORIZON_DAYS = 45;
+const MAX_PENDING = 60;
+
+export type ReminderSettings = {
+  enabled: boolean;
+  hour: number; // 0..23 local time
+  minute: number; // 0..59
+  startsTomorrow: boolean; // heads-up for starred novenas
+};
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  hour: 8,
+  minute: 0,
+  startsTomorrow: true,
+};
+
+function parseSettings(raw: unknown): ReminderSettings | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Partial<ReminderSettings>;
+  const hour = Number(r.hour);
+  const minute = Number(r.minute);
+  return {
+    enabled: r.enabled === true,
+    hour: Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : 8,
+    minute:
+      Number.isInteger(minute) && minute >= 0 && minute <= 59 ? minute : 0,
+    startsTomorrow: r.startsTomorrow !== false,
+  };
+}
+
+export const reminderSettingsStore = createPersistedStore<ReminderSettings>(
+  STORAGE_KEY,
+  DEFAULT_REMINDER_SETTINGS,
+  parseSettings,
+);
+
+export type PlannedReminder = {
+  identifier: string;
+  kind: "day" | "startsTomorrow";
+  fireAt: Date; // local wall-clock time
+  novenaId: string;
+  run: string; // instance id of the run (novenaInstanceId), used for routing
+  title: string;
+  startDate: string; // YYYY-MM-DD of the run
+  day?: number;
+  totalDays?: number;
+};
+
+function fireTimeLocal(dateKey: string, s: ReminderSettings): Date {
+  const [y, m, d] = dateKey.split("-").map((x) => parseInt(x, 10));
+  return new Date(y, m - 1, d, s.hour, s.minute, 0, 0);
+}
+
+function displayTitle(novenaId: string, fallback: string): string {
+  const doc = getNovenaContent(novenaId);
+  return typeof doc?.title === "string" && doc.title ? doc.title : fallback;
+}
+
+/**
+ * Pure planner: which reminders should be pending right now.
+ * Sorted by fire time and capped at MAX_PENDING.
+ */
+export function planNovenaReminders({
+  enrollments,
+  starred,
+  settings,
+  profile,
+  now = new Date(),
+}: {
+  enrollments: EnrollmentMap;
+  starred: string[];
+  settings: ReminderSettings;
+  profile?: CalendarProfileId;
+  now?: Date;
+}): PlannedReminder[] {
+  if (!settings.enabled) return [];
+
+  const todayKey = todayKeyLocal(now);
+  const lastKey = addDaysToKey(todayKey, HORIZON_DAYS);
+  const out: PlannedReminder[] = [];
+
+  for (const e of Object.values(enrollments)) {
+    for (let day = 1; day <= e.durationDays; day++) {
+      const dateKey = addDaysToKey(e.startDate, day - 1);
+      if (dateKey < todayKey) continue;
+      if (dateKey > lastKey) break;
+
+      const fireAt = fireTimeLocal(dateKey, settings);
+      if (fireAt.getTime() <= now.getTime()) continue;
+
+      out.push({
+        identifier: `${ID_PREFIX}day:${e.key}:${day}`,
+        kind: "day",
+        fireAt,
+        novenaId: e.novenaId,
+        run: e.key,
+        title: displayTitle(e.novenaId, e.title),
+        startDate: e.startDate,
+        day,
+        totalDays: e.durationDays,
+      });
+    }
+  }
+
+  if (settings.startsTomorrow && starred.length > 0) {
+    const wanted = new Set(starred);
+    const runs = getNovenaInstancesInRange(
+      addDaysToKey(todayKey, 1),
+      addDaysToKey(lastKey, 1),
+      profile,
+    );
+
+    for (const n of runs) {
+      if (!wanted.has(n.id)) continue;
+      const startKey = dateToKeyUTC(n.startDate);
+      const eveKey = addDaysToKey(startKey, -1);
+      if (eveKey < todayKey || eveKey > lastKey) continue;
+      // Already enrolled in this run: the day reminders cover it.
+      if (enrollments[enrollmentKeyForInstance(n)]) continue;
+
+      const fireAt = fireTimeLocal(eveKey, settings);
+      if (fireAt.getTime() <= now.getTime()) continue;
+
+      out.push({
+        identifier: `${ID_PREFIX}start:${n.id}@${startKey}`,
+        kind: "startsTomorrow",
+        fireAt,
+        novenaId: n.id,
+        run: n.instanceId,
+        title: displayTitle(n.id, n.title),
+        startDate: startKey,
+      });
+    }
+  }
+
+  out.sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+  return out.slice(0, MAX_PENDING);
+}
+
+function contentFor(
+  r: PlannedReminder,
+): Notifications.NotificationContentInput {
+  const body =
+    r.kind === "day"
+      ? i18n.t("reminder_day_body", {
+          defaultValue:
+            "Day {{day}} of {{total}} — tap to pray today's prayers.",
+          day: r.day,
+          total: r.totalDays,
+        })
+      : i18n.t("reminder_starts_tomorrow_body", {
+          defaultValue: "Starts tomorrow ({{date}}).",
+          date: r.startDate,
+        });
+
+  return {
+    title: r.title,
+    body,
+    data: {
+      novenaId: r.novenaId,
+      date: r.startDate,
+      run: r.run,
+      kind: r.kind,
+    },
+  };
+}
+
+export function remindersSupported() {
+  return Platform.OS === "ios" || Platform.OS === "android";
+}
+
+/**
+ * Asks for notification permission if we don't have it yet.
+ * Returns whether reminders can be delivered.
+ */
+export async function ensureReminderPermission(): Promise<boolean> {
+  if (!remindersSupported()) return false;
+
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+
+  const asked = await Notifications.requestPermissionsAsync();
+  return asked.granted;
+}
+
+let androidChannelReady = false;
+
+async function ensureAndroidChannel() {
+  if (Platform.OS !== "android" || androidChannelReady) return;
+  await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+    name: i18n.t("reminder_channel_name", { defaultValue: "Novena reminders" }),
+    importance: Notifications.AndroidImportance.DEFAULT,
+  });
+  androidChannelReady = true;
+}
+
+/**
+ * Cancels every reminder we own and schedules the current plan.
+ * Safe to call often; calls are serialized.
+ */
+let syncing: Promise<void> = Promise.resolve();
+
+export function syncNovenaReminders(input: {
+  enrollments: EnrollmentMap;
+  starred: string[];
+  settings: ReminderSettings;
+  profile?: CalendarProfileId;
+}): Promise<void> {
+  syncing = syncing
+    .catch(() => undefined)
+    .then(async () => {
+      if (!remindersSupported()) return;
+
+      const pending = await Notifications.getAllScheduledNotificationsAsync();
+      for (const p of pending) {
+        if (p.identifier.startsWith(ID_PREFIX)) {
+          await Notifications.cancelScheduledNotificationAsync(p.identifier);
+        }
+      }
+
+      const plan = planNovenaReminders(input);
+      if (plan.length === 0) return;
+
+      const perm = await Notifications.getPermissionsAsync();
+      if (!perm.granted) return;
+
+      await ensureAndroidChannel();
+
+      for (const r of plan) {
+        await Notifications.scheduleNotificationAsync({
+          identifier: r.identifier,
+          content: contentFor(r),
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: r.fireAt,
+            channelId: ANDROID_CHANNEL_ID,
+          },
+        });
+      }
+    });
+  return syncing;
+}
+
+/**
+ * Route params for a tapped reminder, or null if it isn't one of ours.
+ * Reminders scheduled before runs had ids carry no `run`.
+ */
+export function reminderRouteFromData(
+  data: unknown,
+): { id: string; date: string; run?: string } | null {
+  const d = data as {
+    novenaId?: unknown;
+    date?: unknown;
+    run?: unknown;
+  } | null;
+  if (!d || typeof d.novenaId !== "string" || typeof d.date !== "string") {
+    return null;
+  }
+  return typeof d.run === "string"
+    ? { id: d.novenaId, date: d.date, run: d.run }
+    : { id: d.novenaId, date: d.date };
+}
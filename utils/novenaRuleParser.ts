@@ -0,0 +1,610 @@
+// utils/novenaRuleParser.ts
+//
+// Reads the "Starts:" / "Feast:" phrases of the novena source list into
+// NovenaRules (utils/novenasRules.ts). Used by scripts/build-novenas-index.ts;
+// the phrase corpus it is checked against is scripts/novena-rule-corpus.ts
+// (npm run novenas:parse-check).
+//
+// Grammar (case-insensitive; "the", "feast of", "solemnity of" are ignored):
+//   date     := "Month D" | "D Month"                          -> fixed
+//             | anchor name or synonym (ANCHOR_SYNONYMS)        -> anchor
+//             | "<weekday> of the <nth> week of Easter|Lent|Advent"
+//             | "<nth> Sunday of Easter|Lent|Advent"
+//             | "<N> days|weeks before|after <date>"
+//             | "[<nth>] <weekday> before|after <date>"
+//             | "the day before|after <date>" | "eve of <date>"
+//   rule     := date
+//             | "<N> days before the feast(day)"               -> before_feast
+//             | "<nth>|last <weekday> of <Month>"              -> nth_weekday_of_month
+//             | "<nth>|last <weekday> of every month"
+//             | "every <weekday> [in <Month>]"                 -> weekly
+//             | "<nth> of every month"                         -> monthly
+//
+// Nested dates ("Friday after the second Sunday after Pentecost") are folded
+// into one anchor + offset when the weekday of the inner date is known
+// (Pentecost is always a Sunday); otherwise the phrase doesn't parse.
+// parseNovenaRuleText returns null for anything outside the grammar; the
+// index builder then keeps the text as a { type: "raw" } rule.
+
+import type { AnchorKey, NovenaRule } from "./novenasRules";
+
+/**
+ * Names used for each anchor of buildNovenaAnchorsForYear
+ * (utils/liturgicalDates.ts). Written as they'd be read; matching ignores
+ * case, punctuation, "the", "Saint"/"St." and a leading "feast of".
+ */
+export const ANCHOR_SYNONYMS: Record<AnchorKey, string[]> = {
+  easter: ["Easter", "Easter Sunday", "Easter Day", "Resurrection of the Lord"],
+  ash_wednesday: ["Ash Wednesday"],
+  shrove_tuesday: ["Shrove Tuesday", "Mardi Gras", "Fat Tuesday"],
+  // Not "Passion Sunday": in the 1962 Missal that is the Sunday before
+  palm_sunday: ["Palm Sunday", "Palm Sunday of the Passion of the Lord"],
+  holy_thursday: ["Holy Thursday", "Maundy Thursday"],
+  good_friday: ["Good Friday", "Friday of the Passion of the Lord"],
+  holy_saturday: ["Holy Saturday"],
+  divine_mercy_sunday: [
+    "Divine Mercy Sunday",
+    "Divine Mercy",
+    "Mercy Sunday",
+    "Second Sunday of Easter",
+    "Low Sunday",
+  ],
+  ascension: ["Ascension", "Ascension of the Lord", "Ascension Day"],
+  ascension_thursday: ["Ascension Thursday"],
+  ascension_sunday: ["Ascension Sunday"],
+  pentecost: ["Pentecost", "Pentecost Sunday", "Whitsunday", "Whit Sunday"],
+  trinity_sunday: ["Trinity Sunday", "Holy Trinity", "Most Holy Trinity"],
+  corpus_christi: [
+    "Corpus Christi",
+    "Body and Blood of Christ",
+    "Most Holy Body and Blood of Christ",
+  ],
+  corpus_christi_thursday: ["Corpus Christi Thursday"],
+  corpus_christi_sunday: ["Corpus Christi Sunday"],
+  sacred_heart: [
+    "Sacred Heart",
+    "Sacred Heart of Jesus",
+    "Most Sacred Heart of Jesus",
+  ],
+  immaculate_heart: ["Immaculate Heart", "Immaculate Heart of Mary"],
+  christmas: ["Christmas", "Christmas Day", "Nativity of the Lord"],
+  christmas_eve: ["Christmas Eve"],
+  mary_mother_of_god: [
+    "Mary, Mother of God",
+    "Solemnity of Mary, Mother of God",
+    "New Year's Day",
+  ],
+  new_years_eve: ["New Year's Eve"],
+  epiphany: ["Epiphany", "Epiphany of the Lord", "Three Kings Day"],
+  baptism_of_the_lord: ["Baptism of the Lord", "Baptism of Our Lord"],
+  holy_family: [
+    "Holy Family",
+    "Holy Family of Jesus, Mary and Joseph",
+    "Sunday within the Octave of Christmas",
+  ],
+  advent_1: [
+    "First Sunday of Advent",
+    "Advent Sunday",
+    "Beginning of Advent",
+    "Advent",
+  ],
+  christ_king: [
+    "Christ the King",
+    "Christ the King Sunday",
+    "Our Lord Jesus Christ, King of the Universe",
+    "Last Sunday before Advent",
+  ],
+  st_joseph: [
+    "St. Joseph",
+    "St. Joseph, Spouse of Mary",
+    "St. Joseph, Spouse of the Blessed Virgin Mary",
+  ],
+  annunciation: ["Annunciation", "Annunciation of the Lord"],
+  assumption: [
+    "Assumption",
+    "Assumption of Mary",
+    "Assumption of the Blessed Virgin Mary",
+  ],
+  all_saints: ["All Saints", "All Saints' Day"],
+  immaculate_conception: [
+    "Immaculate Conception",
+    "Immaculate Conception of the Blessed Virgin Mary",
+  ],
+  our_lady_of_czestochowa: ["Our Lady of Czestochowa", "Black Madonna"],
+  our_lady_of_guadalupe: ["Our Lady of Guadalupe"],
+};
+
+// Anchors that always fall on the same weekday, so dates counted from them
+// can be folded into a plain offset.
+const ANCHOR_WEEKDAY: Record<AnchorKey, number> = {
+  easter: 0,
+  ash_wednesday: 3,
+  shrove_tuesday: 2,
+  palm_sunday: 0,
+  holy_thursday: 4,
+  good_friday: 5,
+  holy_saturday: 6,
+  divine_mercy_sunday: 0,
+  ascension_thursday: 4,
+  ascension_sunday: 0,
+  pentecost: 0,
+  trinity_sunday: 0,
+  corpus_christi_thursday: 4,
+  corpus_christi_sunday: 0,
+  sacred_heart: 5,
+  immaculate_heart: 6,
+  advent_1: 0,
+  christ_king: 0,
+};
+
+const MONTHS: Record<string, number> = {
+  january: 1,
+  february: 2,
+  march: 3,
+  april: 4,
+  may: 5,
+  june: 6,
+  july: 7,
+  august: 8,
+  september: 9,
+  october: 10,
+  november: 11,
+  december: 12,
+  // Abbreviations ("Feb 2", "Sept. 8"; the period is dropped by tokenize)
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  apr: 4,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  sept: 9,
+  oct: 10,
+  nov: 11,
+  dec: 12,
+};
+
+// Longest day of each month; February 29 is allowed (leap years)
+const MONTH_LENGTHS = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0,
+  monday: 1,
+  tuesday: 2,
+  wednesday: 3,
+  thursday: 4,
+  friday: 5,
+  saturday: 6,
+};
+
+const COUNTS: Record<string, number> = {
+  a: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+};
+
+const ORDINALS: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+  sixth: 6,
+  seventh: 7,
+  eighth: 8,
+  ninth: 9,
+  tenth: 10,
+};
+
+// Where week 1 of a season starts (its first Sunday), from an anchor, and
+// how many weeks it has. "First Sunday of Easter" is Easter Day itself, so
+// its named Sundays start at the second; Holy Week is not a week of Lent.
+type Season = {
+  anchor: AnchorKey;
+  offset: number;
+  weeks: number;
+  firstSunday: number;
+};
+
+const EASTER_SEASON: Season = {
+  anchor: "easter",
+  offset: 0,
+  weeks: 7,
+  firstSunday: 2,
+};
+
+const SEASONS: Record<string, Season> = {
+  easter: EASTER_SEASON,
+  eastertide: EASTER_SEASON,
+  lent: { anchor: "ash_wednesday", offset: 4, weeks: 5, firstSunday: 1 },
+  advent: { anchor: "advent_1", offset: 0, weeks: 4, firstSunday: 1 },
+};
+
+const FEAST_WORDS = new Set(["feast", "feastday", "feast day", "feasts day"]);
+
+/** A date before lowering to a NovenaRule. */
+type DateExpr =
+  | { kind: "anchor"; anchor: AnchorKey }
+  | { kind: "fixed"; month: number; day: number }
+  | { kind: "shift"; base: DateExpr; days: number }
+  | {
+      kind: "weekday";
+      base: DateExpr;
+      weekday: number;
+      n: number;
+      dir: 1 | -1;
+    };
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/'s\b/g, "s")
+    .replace(/\bsaint\b/g, "st")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((w) => w && w !== "the");
+}
+
+const SYNONYM_TO_ANCHOR = new Map<string, AnchorKey>();
+for (const [anchor, names] of Object.entries(ANCHOR_SYNONYMS)) {
+  for (const name of names) {
+    SYNONYM_TO_ANCHOR.set(tokenize(name).join(" "), anchor);
+  }
+}
+
+function anchorFor(tok: string[]): AnchorKey | null {
+  const phrase = tok.join(" ");
+  const hit = SYNONYM_TO_ANCHOR.get(phrase);
+  if (hit) return hit;
+  const m = phrase.match(/^(feast|solemnity|memorial)( day)? of (.+)$/);
+  return m ? (SYNONYM_TO_ANCHOR.get(m[3]) ?? null) : null;
+}
+
+/** "9", "nine", "twenty one" */
+function countOf(tok: string[]): number | null {
+  if (tok.length === 1) {
+    if (/^\d{1,3}$/.test(tok[0])) return Number(tok[0]);
+    return COUNTS[tok[0]] ?? null;
+  }
+  if (tok.length === 2 && (COUNTS[tok[0]] ?? 0) >= 20) {
+    const unit = COUNTS[tok[1]];
+    if (unit && unit < 10 && tok[1] !== "a") return COUNTS[tok[0]] + unit;
+  }
+  return null;
+}
+
+/** "second", "2nd", "2" */
+function ordinalOf(word: string | undefined): number | null {
+  if (!word) return null;
+  const m = word.match(/^(\d{1,2})(st|nd|rd|th)?$/);
+  if (m) return Number(m[1]);
+  return ORDINALS[word] ?? null;
+}
+
+function weekdayOf(word: string | undefined): number | null {
+  if (!word) return null;
+  return WEEKDAYS[word] ?? WEEKDAYS[word.replace(/s$/, "")] ?? null;
+}
+
+function monthOf(word: string | undefined): number | null {
+  return word ? (MONTHS[word] ?? null) : null;
+}
+
+/** "July 30", "30 July", "30th of July" */
+function monthDay(tok: string[]): DateExpr | null {
+  let month: number | null = null;
+  let day: number | null = null;
+  if (tok.length === 2) {
+    month = monthOf(tok[0]) ?? monthOf(tok[1]);
+    day = monthOf(tok[0]) ? ordinalOf(tok[1]) : ordinalOf(tok[0]);
+  } else if (tok.length === 3 && tok[1] === "of") {
+    month = monthOf(tok[2]);
+    day = ordinalOf(tok[0]);
+  }
+  if (!month || !day || day > MONTH_LENGTHS[month - 1]) return null;
+  return { kind: "fixed", month, day };
+}
+
+/** "Thursday of the fifth week of Easter", "third Sunday of Lent" */
+function weekOfSeason(tok: string[]): DateExpr | null {
+  let weekday: number | null = null;
+  let week: number | null = null;
+  let season: string | undefined;
+
+  const isOf = (w: string | undefined) => w === "of" || w === "in";
+  if (tok.length === 6 && isOf(tok[1]) && tok[3] === "week" && isOf(tok[4])) {
+    weekday = weekdayOf(tok[0]);
+    week = ordinalOf(tok[2]);
+    season = tok[5];
+  } else if (tok.length === 4 && tok[1] === "sunday" && isOf(tok[2])) {
+    weekday = 0;
+    week = ordinalOf(tok[0]);
+    season = tok[3];
+  }
+
+  const s = season ? SEASONS[season] : undefined;
+  if (weekday === null || !week || !s) return null;
+  if (week > s.weeks || (weekday === 0 && week < s.firstSunday)) return null;
+  return {
+    kind: "shift",
+    base: { kind: "anchor", anchor: s.anchor },
+    days: s.offset + 7 * (week - 1) + weekday,
+  };
+}
+
+/** The part before "before"/"after": "9 days", "second Sunday", "day". */
+function relativeTo(
+  head: string[],
+  dir: 1 | -1,
+  base: DateExpr,
+): DateExpr | null {
+  if (head.length === 1 && head[0] === "day") {
+    return { kind: "shift", base, days: dir };
+  }
+
+  const unit = head[head.length - 1];
+  if (
+    unit === "day" ||
+    unit === "days" ||
+    unit === "week" ||
+    unit === "weeks"
+  ) {
+    const n = countOf(head.slice(0, -1));
+    if (n === null) return null;
+    return {
+      kind: "shift",
+      base,
+      days: dir * n * (unit.startsWith("week") ? 7 : 1),
+    };
+  }
+
+  const weekday = weekdayOf(unit);
+  if (weekday === null || head.length > 2) return null;
+  // "the last Sunday before Advent" is the first one before it
+  const n =
+    head.length === 1
+      ? 1
+      : head[0] === "last" && dir === -1
+        ? 1
+        : ordinalOf(head[0]);
+  if (!n || n > 10) return null;
+  return { kind: "weekday", base, weekday, n, dir };
+}
+
+function parseDate(tok: string[]): DateExpr | null {
+  if (!tok.length) return null;
+
+  const anchor = anchorFor(tok);
+  if (anchor) return { kind: "anchor", anchor };
+
+  const fixed = monthDay(tok);
+  if (fixed) return fixed;
+
+  const seasonal = weekOfSeason(tok);
+  if (seasonal) return seasonal;
+
+  if ((tok[0] === "eve" || tok[0] === "vigil") && tok[1] === "of") {
+    const base = parseDate(tok.slice(2));
+    return base ? { kind: "shift", base, days: -1 } : null;
+  }
+
+  const i = tok.findIndex((w) => w === "before" || w === "after");
+  if (i <= 0) return null;
+  const base = parseDate(tok.slice(i + 1));
+  if (!base) return null;
+  return relativeTo(tok.slice(0, i), tok[i] === "after" ? 1 : -1, base);
+}
+
+/** Rules that aren't a single date: before_feast and the recurring ones. */
+function parseSpecial(tok: string[]): NovenaRule | null {
+  // "nine days before the feastday"
+  const before = tok.indexOf("before");
+  if (
+    before > 0 &&
+    ["day", "days"].includes(tok[before - 1]) &&
+    FEAST_WORDS.has(tok.slice(before + 1).join(" "))
+  ) {
+    const n = countOf(tok.slice(0, before - 1));
+    if (n !== null) return { type: "before_feast", daysBefore: n };
+  }
+
+  // "every Wednesday", "every Wednesday in May"
+  if (tok[0] === "every" || tok[0] === "each") {
+    const weekday = weekdayOf(tok[1]);
+    if (weekday !== null && tok.length === 2)
+      return { type: "weekly", weekday };
+    const month = monthOf(tok[3]);
+    if (weekday !== null && tok.length === 4 && tok[2] === "in" && month) {
+      return { type: "weekly", weekday, months: [month] };
+    }
+    return null;
+  }
+
+  // "first Friday of every month", "last Sunday of October", "13th of every month"
+  if (
+    tok[1] === "of" ||
+    tok[1] === "in" ||
+    tok[2] === "of" ||
+    tok[2] === "in"
+  ) {
+    const everyMonth =
+      tok[tok.length - 1] === "month" &&
+      ["every", "each", "of", "in"].includes(tok[tok.length - 2]);
+    const month = monthOf(tok[tok.length - 1]);
+
+    if (tok.length === 4 && tok[1] === "of" && everyMonth) {
+      const day = ordinalOf(tok[0]);
+      if (day && day <= 31) return { type: "monthly", day };
+    }
+
+    const n = tok[0] === "last" ? -1 : ordinalOf(tok[0]);
+    const weekday = weekdayOf(tok[1]);
+    if (n !== null && n <= 5 && weekday !== null) {
+      if (everyMonth && (tok.length === 4 || tok.length === 5)) {
+        return { type: "nth_weekday_of_month", weekday, n };
+      }
+      if (month && tok.length === 4) {
+        return { type: "nth_weekday_of_month", weekday, n, months: [month] };
+      }
+    }
+  }
+
+  return null;
+}
+
+type Point = { anchor: AnchorKey; offset: number; weekday: number | null };
+
+/** A date as anchor + offset, when every step in it is a fixed number of days. */
+function pointOf(e: DateExpr): Point | null {
+  switch (e.kind) {
+    case "anchor":
+      return {
+        anchor: e.anchor,
+        offset: 0,
+        weekday: ANCHOR_WEEKDAY[e.anchor] ?? null,
+      };
+    case "fixed":
+      return null;
+    case "shift": {
+      const p = pointOf(e.base);
+      if (!p) return null;
+      return {
+        anchor: p.anchor,
+        offset: p.offset + e.days,
+        weekday:
+          p.weekday === null ? null : (((p.weekday + e.days) % 7) + 7) % 7,
+      };
+    }
+    case "weekday": {
+      const p = pointOf(e.base);
+      if (!p || p.weekday === null) return null;
+      const gap =
+        e.dir === 1
+          ? (e.weekday - p.weekday + 7) % 7 || 7
+          : (p.weekday - e.weekday + 7) % 7 || 7;
+      return {
+        anchor: p.anchor,
+        offset: p.offset + e.dir * (gap + 7 * (e.n - 1)),
+        weekday: e.weekday,
+      };
+    }
+  }
+}
+
+/** Month/day `days` away from a fixed date, if leap years don't change it. */
+function shiftFixed(
+  month: number,
+  day: number,
+  days: number,
+): NovenaRule | null {
+  const at = (year: number) => {
+    const d = new Date(Date.UTC(year, month - 1, day + days));
+    return {
+      y: d.getUTCFullYear() - year,
+      m: d.getUTCMonth() + 1,
+      d: d.getUTCDate(),
+    };
+  };
+  const a = at(2023);
+  const b = at(2024);
+  if (a.y !== 0 || a.m !== b.m || a.d !== b.d || b.y !== 0) return null;
+  return { type: "fixed", month: a.m, day: a.d };
+}
+
+function toRule(e: DateExpr): NovenaRule | null {
+  switch (e.kind) {
+    case "anchor":
+      return { type: "anchor", anchor: e.anchor };
+    case "fixed":
+      return { type: "fixed", month: e.month, day: e.day };
+    case "shift":
+      if (e.base.kind === "fixed") {
+        return shiftFixed(e.base.month, e.base.day, e.days);
+      }
+      break;
+    case "weekday":
+      if (e.base.kind === "anchor") {
+        return e.dir === 1
+          ? {
+              type: "nth_weekday_after",
+              anchor: e.base.anchor,
+              weekday: e.weekday,
+              n: e.n,
+            }
+          : {
+              type: "relative",
+              anchor: e.base.anchor,
+              offsetDays: -1 - 7 * (e.n - 1),
+              weekday: e.weekday,
+              weekdayPolicy: "onOrBefore",
+            };
+      }
+      break;
+  }
+
+  const p = pointOf(e);
+  if (!p) return null;
+  return p.offset === 0
+    ? { type: "anchor", anchor: p.anchor }
+    : { type: "relative", anchor: p.anchor, offsetDays: p.offset };
+}
+
+function parseTokens(tok: string[]): NovenaRule | null {
+  const special = parseSpecial(tok);
+  if (special) return special;
+  const date = parseDate(tok);
+  return date ? toRule(date) : null;
+}
+
+// "The feast is celebrated on …", "Novena begins on …"
+const INTRO_VERBS = new Set([
+  "celebrated",
+  "kept",
+  "observed",
+  "falls",
+  "begins",
+  "starts",
+]);
+
+function withoutIntro(tok: string[]): string[] {
+  const i = tok.indexOf("on");
+  return i > 0 && INTRO_VERBS.has(tok[i - 1]) ? tok.slice(i + 1) : tok;
+}
+
+/**
+ * The NovenaRule for a "Starts:" / "Feast:" phrase of the source list, or
+ * null if it's outside the grammar above. Long explanations are cut to their
+ * first clause ("… on the Sunday within the Octave of Christmas, that is …").
+ */
+export function parseNovenaRuleText(text: string): NovenaRule | null {
+  const clauses = [text, text.split(/[,;:(]/)[0]];
+  for (const clause of clauses) {
+    const tok = tokenize(clause);
+    const rule = parseTokens(tok) ?? parseTokens(withoutIntro(tok));
+    if (rule) return rule;
+  }
+  return null;
+}
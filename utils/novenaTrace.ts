@@ -0,0 +1,219 @@
+// utils/novenaTrace.ts
+//
+// Plain-language explanation of how a novena run's dates were worked out
+// (NovenaInstance.trace, recorded by utils/novenasRules.ts).
+// One translated sentence per step; dates, weekdays and anchor (feast) names
+// are localized too. Used by the "Why these dates?" section of /novena/[id].
+
+import type { TFunction } from "i18next";
+
+import { keyToUTCNoon } from "./dateKeys";
+import type {
+  NovenaTrace,
+  NovenaTraceStep,
+  RecurringRule,
+} from "./novenasRules";
+
+// Any Sunday, to get weekday names from Intl.
+const A_SUNDAY = Date.UTC(2023, 0, 1, 12);
+
+function formatDate(key: string, lang: string): string {
+  try {
+    return keyToUTCNoon(key).toLocaleDateString(lang, {
+      timeZone: "UTC",
+      weekday: "short",
+      day: "numeric",
+      month: "long",
+      year: "numeric",
+    });
+  } catch {
+    return key;
+  }
+}
+
+function weekdayName(weekday: number, lang: string): string {
+  const d = new Date(A_SUNDAY + weekday * 24 * 60 * 60 * 1000);
+  try {
+    return d.toLocaleDateString(lang, { timeZone: "UTC", weekday: "long" });
+  } catch {
+    return String(weekday);
+  }
+}
+
+/** "divine_mercy_sunday" -> translated name, else "divine mercy sunday". */
+export function anchorName(anchor: string, t: TFunction): string {
+  return t(`anchor_${anchor}`, { defaultValue: anchor.replace(/_/g, " ") });
+}
+
+function describeRecurrence(
+  rule: RecurringRule,
+  t: TFunction,
+  lang: string,
+  date: string,
+): string {
+  switch (rule.type) {
+    case "weekly":
+      return t("trace_weekly", {
+        defaultValue: "Every {{weekday}}; this one is {{date}}",
+        weekday: weekdayName(rule.weekday, lang),
+        date,
+      });
+    case "monthly":
+      return t("trace_monthly", {
+        defaultValue: "Day {{day}} of every month; this one is {{date}}",
+        day: rule.day,
+        date,
+      });
+    case "nth_weekday_of_month": {
+      const weekday = weekdayName(rule.weekday, lang);
+      if (rule.n === 1) {
+        return t("trace_first_weekday_of_month", {
+          defaultValue:
+            "The first {{weekday}} of every month; this one is {{date}}",
+          weekday,
+          date,
+        });
+      }
+      if (rule.n === -1) {
+        return t("trace_last_weekday_of_month", {
+          defaultValue:
+            "The last {{weekday}} of every month; this one is {{date}}",
+          weekday,
+          date,
+        });
+      }
+      return t("trace_nth_weekday_of_month", {
+        defaultValue:
+          "{{weekday}} number {{n}} of every month; this one is {{date}}",
+        weekday,
+        n: rule.n,
+        date,
+      });
+    }
+  }
+}
+
+function describeStep(s: NovenaTraceStep, t: TFunction, lang: string): string {
+  const date = formatDate(s.date, lang);
+  switch (s.step) {
+    case "fixed":
+      return t("trace_fixed", { defaultValue: "Fixed date: {{date}}", date });
+    case "anchor":
+      return t("trace_anchor", {
+        defaultValue: "{{anchor}} falls on {{date}}",
+        anchor: anchorName(s.anchor, t),
+        date,
+      });
+    case "offset":
+      return s.days > 0
+        ? t("trace_offset_after", {
+            defaultValue: "{{days}} days after that: {{date}}",
+            days: s.days,
+            date,
+          })
+        : t("trace_offset_before", {
+            defaultValue: "{{days}} days before that: {{date}}",
+            days: -s.days,
+            date,
+          });
+    case "weekday": {
+      const weekday = weekdayName(s.weekday, lang);
+      if (!s.moved) {
+        return t("trace_weekday_kept", {
+          defaultValue: "Already a {{weekday}}",
+          weekday,
+        });
+      }
+      return s.policy === "onOrAfter"
+        ? t("trace_weekday_after", {
+            defaultValue: "Moved to the following {{weekday}}: {{date}}",
+            weekday,
+            date,
+          })
+        : t("trace_weekday_before", {
+            defaultValue: "Moved to the preceding {{weekday}}: {{date}}",
+            weekday,
+            date,
+          });
+    }
+    case "nth_weekday": {
+      const weekday = weekdayName(s.weekday, lang);
+      return s.n === 1
+        ? t("trace_next_weekday", {
+            defaultValue: "The next {{weekday}} after that: {{date}}",
+            weekday,
+            date,
+          })
+        : t("trace_nth_weekday", {
+            defaultValue: "{{weekday}} number {{n}} after that: {{date}}",
+            weekday,
+            n: s.n,
+            date,
+          });
+    }
+    case "days_before":
+      return t("trace_days_before", {
+        defaultValue:
+          "Counting {{days}} days back, that day included: {{date}}",
+        days: s.daysBefore,
+        date,
+      });
+    case "recurrence":
+      return describeRecurrence(s.rule, t, lang, date);
+    case "year_rollover":
+      return t("trace_year_rollover", {
+        defaultValue:
+          "That would be after the feast, so it's the previous year's: {{date}}",
+        date,
+      });
+    case "from_duration":
+      return t("trace_from_duration", {
+        defaultValue:
+          "A {{days}}-day novena ending on the feast starts on {{date}}",
+        days: s.durationDays,
+        date,
+      });
+    case "hint_accepted":
+      return t("trace_hint_accepted", {
+        defaultValue: "The listed start date agrees ✓",
+      });
+    case "hint_overridden":
+      return t("trace_hint_overridden", {
+        defaultValue:
+          "The listed start date ({{hinted}}) doesn't fit the feast and length, so {{date}} is used",
+        hinted: formatDate(s.hinted, lang),
+        date,
+      });
+    case "hint_unusable":
+      return t("trace_hint_unusable", {
+        defaultValue:
+          "The listed start date couldn't be worked out, so {{date}} is used",
+        date,
+      });
+  }
+}
+
+/** Sentences explaining the feast date and the start date, in order. */
+export function describeNovenaTrace(
+  trace: NovenaTrace,
+  t: TFunction,
+  lang: string,
+): { feast: string[]; start: string[] } {
+  const start: string[] = [];
+  for (const s of trace.start) {
+    // Steps after the computed start come from the novena's listed start
+    // date (startRule); say so before the first one.
+    if (start.length === 1 && s.step !== "hint_unusable") {
+      start.push(
+        t("trace_hint_intro", {
+          defaultValue: "The novena's source also lists a start date:",
+        }),
+      );
+    }
+    start.push(describeStep(s, t, lang));
+  }
+  return {
+    feast: trace.feast.map((s) => describeStep(s, t, lang)),
+    start,
+  };
+}
@@ -9,6 +9,18 @@
 //     - If it matches feast - (durationDays - 1), we accept it.
 //     - If it does NOT match, we IGNORE it and compute start from feast.
 //   This avoids endless crashes caused by off-by-one scraped "Starts:" dates.
+//   A startRule that can't be resolved at all is ignored the same way.
+//
+// - Every instance carries a trace: the steps that produced its feast and
+//   start dates (rule -> anchor -> offset -> weekday, startRule accepted or
+//   overridden, year rollover), for "why this date?" explanations.
+//
+// - resolveNovenasForYearWithDiagnostics never throws: a novena that can't
+//   be resolved is left out and reported, together with ignored startRules.
+//
+// - Recurring feastRules (weekly, monthly, nth_weekday_of_month) describe
+//   perpetual devotions: every occurrence in the year is the feast of its
+//   own run (resolveNovenaRunsForYear). They can't be startRules.
 //
 // - Also handles fixed-date year boundary (Dec -> Jan) safely.
 // - All internal math uses UTC midnight to avoid DST edge cases.
@@ -18,7 +30,10 @@ export type RuleType =
   | "anchor"
   | "relative"
   | "nth_weekday_after"
-  | "before_feast";
+  | "before_feast"
+  | "weekly"
+  | "monthly"
+  | "nth_weekday_of_month";
 
 export type AnchorKey = string;
 
@@ -43,12 +58,33 @@ export type BeforeFeastRule = {
   anchor?: AnchorKey;
 };
 
+// Recurring rules. `months` (1..12) limits them to those months.
+export type WeeklyRule = {
+  type: "weekly";
+  weekday: number; // 0=Sun..6=Sat
+  months?: number[];
+};
+export type MonthlyRule = {
+  type: "monthly";
+  day: number; // 1..31; months without that day are skipped
+  months?: number[];
+};
+export type NthWeekdayOfMonthRule = {
+  type: "nth_weekday_of_month";
+  weekday: number; // 0=Sun..6=Sat
+  n: number; // 1..5 (months without a 5th are skipped), or -1 = last
+  months?: number[];
+};
+
+export type RecurringRule = WeeklyRule | MonthlyRule | NthWeekdayOfMonthRule;
+
 export type NovenaRule =
   | FixedRule
   | AnchorRule
   | RelativeRule
   | NthWeekdayAfterRule
-  | BeforeFeastRule;
+  | BeforeFeastRule
+  | RecurringRule;
 
 export type NovenaCategory =
   | "Devotion"
@@ -78,8 +114,42 @@ export type NovenaDef = {
 
 export type Anchors = Record<AnchorKey, Date>;
 
+/**
+ * One step of working out a date, in order. Dates are YYYY-MM-DD (UTC).
+ * utils/novenaTrace.ts turns these into sentences.
+ */
+export type NovenaTraceStep =
+  | { step: "fixed"; month: number; day: number; date: string }
+  | { step: "anchor"; anchor: AnchorKey; date: string }
+  | { step: "offset"; days: number; date: string }
+  | {
+      step: "weekday";
+      weekday: number; // 0=Sun..6=Sat
+      policy: "onOrAfter" | "onOrBefore";
+      moved: boolean; // false: the date already was that weekday
+      date: string;
+    }
+  | { step: "nth_weekday"; n: number; weekday: number; date: string }
+  | { step: "days_before"; daysBefore: number; date: string }
+  // one occurrence of a recurring feastRule
+  | { step: "recurrence"; rule: RecurringRule; date: string }
+  // fixed start after the feast (Dec 29 for Jan 6): previous year's date
+  | { step: "year_rollover"; date: string }
+  // start = feast - (durationDays - 1)
+  | { step: "from_duration"; durationDays: number; date: string }
+  | { step: "hint_accepted"; date: string }
+  | { step: "hint_overridden"; hinted: string; date: string }
+  | { step: "hint_unusable"; reason: string; date: string };
+
+export type NovenaTrace = {
+  feast: NovenaTraceStep[];
+  start: NovenaTraceStep[];
+};
+
 export type NovenaInstance = {
   id: string;
+  /** This run: novena id + feast date ("divine_mercy@2026-04-12"). */
+  instanceId: string;
   title: string;
   category: NovenaCategory;
   tags: string[];
@@ -87,18 +157,103 @@ export type NovenaInstance = {
   feastDate: Date;
   durationDays: number;
   sourceUrl?: string;
+  /** How startDate / feastDate were worked out. */
+  trace: NovenaTrace;
+};
+
+export type NovenaDiagnosticCode =
+  | "missing_anchor" // feast/start rule names an anchor the year doesn't have
+  | "invalid_rule" // malformed rule (month 13, weekday 9, ...)
+  | "invalid_duration" // durationDays not an integer in 1..4000
+  | "duration_mismatch" // resolved span disagrees with durationDays
+  | "start_rule_off_by_one" // startRule one day early (usual scraping slip)
+  | "start_rule_ignored"; // startRule otherwise unusable / disagreeing
+
+export type NovenaDiagnostic = {
+  novenaId: string;
+  title: string;
+  year: number;
+  severity: "error" | "warning"; // error: no run for this year
+  code: NovenaDiagnosticCode;
+  message: string;
+};
+
+export type NovenaResolution = {
+  instances: NovenaInstance[];
+  diagnostics: NovenaDiagnostic[];
+};
+
+/** The same problem across years, e.g. for a report. */
+export type NovenaDiagnosticGroup = Omit<NovenaDiagnostic, "year"> & {
+  years: number[];
 };
 
+/**
+ * Folds diagnostics with the same novena, severity and code into one group
+ * (keeps the first message; input order is preserved).
+ */
+export function groupNovenaDiagnostics(
+  diagnostics: NovenaDiagnostic[],
+): NovenaDiagnosticGroup[] {
+  const groups = new Map<string, NovenaDiagnosticGroup>();
+  for (const d of diagnostics) {
+    const key = `${d.severity}:${d.code}:${d.novenaId}`;
+    const g = groups.get(key);
+    if (g) {
+      if (!g.years.includes(d.year)) g.years.push(d.year);
+      continue;
+    }
+    const { year, ...rest } = d;
+    groups.set(key, { ...rest, years: [year] });
+  }
+  return [...groups.values()];
+}
+
+/** Thrown by the resolver; `code` says what kind of data problem it is. */
+export class NovenaRuleError extends Error {
+  constructor(
+    readonly code: NovenaDiagnosticCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "NovenaRuleError";
+  }
+}
+
 const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
-function assert(cond: any, msg: string): asserts cond {
-  if (!cond) throw new Error(msg);
+/**
+ * Stable id of one run of a novena: novena id + feast date (YYYY-MM-DD).
+ * The feast date names the run no matter which calendar year it was
+ * resolved for, so a run straddling New Year has one id.
+ */
+export function novenaInstanceId(novenaId: string, feastDateKey: string) {
+  return `${novenaId}@${feastDateKey}`;
+}
+
+export function parseNovenaInstanceId(
+  instanceId: string,
+): { novenaId: string; feastDate: string } | null {
+  const m = /^(.+)@(\d{4}-\d{2}-\d{2})$/.exec(instanceId);
+  return m ? { novenaId: m[1], feastDate: m[2] } : null;
+}
+
+function assert(
+  cond: any,
+  msg: string,
+  code: NovenaDiagnosticCode = "invalid_rule",
+): asserts cond {
+  if (!cond) throw new NovenaRuleError(code, msg);
 }
 
 function isValidDate(d: any): d is Date {
   return d instanceof Date && !isNaN(d.getTime());
 }
 
+function ymd(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
 function toUTCDate(y: number, m1: number, d: number): Date {
   return new Date(Date.UTC(y, m1 - 1, d, 0, 0, 0, 0));
 }
@@ -143,6 +298,70 @@ function alignToWeekday(
   }
 }
 
+export function isRecurringRule(rule: NovenaRule): rule is RecurringRule {
+  return (
+    rule.type === "weekly" ||
+    rule.type === "monthly" ||
+    rule.type === "nth_weekday_of_month"
+  );
+}
+
+/** Every date of a recurring rule in `year`, in order (UTC midnight). */
+export function recurringDatesInYear(rule: RecurringRule, year: number): Date[] {
+  const months = rule.months ?? [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+  assert(
+    Array.isArray(months) &&
+      months.every((m) => Number.isInteger(m) && m >= 1 && m <= 12),
+    `${rule.type}.months must be 1..12, got ${JSON.stringify(rule.months)}`,
+  );
+  const wanted = new Set(months);
+  const out: Date[] = [];
+
+  switch (rule.type) {
+    case "weekly": {
+      const target = clampWeekday(rule.weekday);
+      let d = alignToWeekday(toUTCDate(year, 1, 1), target, "onOrAfter");
+      for (; d.getUTCFullYear() === year; d = addDays(d, 7)) {
+        if (wanted.has(d.getUTCMonth() + 1)) out.push(d);
+      }
+      return out;
+    }
+
+    case "monthly": {
+      assert(
+        Number.isInteger(rule.day) && rule.day >= 1 && rule.day <= 31,
+        `monthly.day must be 1..31, got ${rule.day}`,
+      );
+      for (let m = 1; m <= 12; m++) {
+        if (!wanted.has(m)) continue;
+        const d = toUTCDate(year, m, rule.day);
+        if (d.getUTCMonth() + 1 === m) out.push(d); // skip Feb 30 etc.
+      }
+      return out;
+    }
+
+    case "nth_weekday_of_month": {
+      const target = clampWeekday(rule.weekday);
+      assert(
+        rule.n === -1 || (Number.isInteger(rule.n) && rule.n >= 1 && rule.n <= 5),
+        `nth_weekday_of_month.n must be 1..5 or -1, got ${rule.n}`,
+      );
+      for (let m = 1; m <= 12; m++) {
+        if (!wanted.has(m)) continue;
+        const d =
+          rule.n === -1
+            ? alignToWeekday(addDays(toUTCDate(year, m + 1, 1), -1), target, "onOrBefore")
+            : addDays(
+                alignToWeekday(toUTCDate(year, m, 1), target, "onOrAfter"),
+                7 * (rule.n - 1),
+              );
+        if (d.getUTCMonth() + 1 === m) out.push(d); // no 5th Friday: skip
+      }
+      return out;
+    }
+  }
+}
+
 export function normalizeAnchors(anchors: Anchors): Anchors {
   const out: Anchors = {};
   for (const [k, v] of Object.entries(anchors)) {
@@ -156,9 +375,10 @@ function resolveRule(
   rule: NovenaRule,
   year: number,
   anchorsRaw: Anchors,
-  ctx?: { feastRule?: NovenaRule },
+  ctx?: { feastRule?: NovenaRule; trace?: NovenaTraceStep[] },
 ): Date {
   const anchors = normalizeAnchors(anchorsRaw);
+  const trace = ctx?.trace;
 
   switch (rule.type) {
     case "fixed": {
@@ -170,13 +390,30 @@ function resolveRule(
         rule.day >= 1 && rule.day <= 31,
         `fixed.day must be 1..31, got ${rule.day}`,
       );
-      return toUTCDate(year, rule.month, rule.day);
+      const date = toUTCDate(year, rule.month, rule.day);
+      trace?.push({
+        step: "fixed",
+        month: rule.month,
+        day: rule.day,
+        date: ymd(date),
+      });
+      return date;
     }
 
     case "anchor": {
       const a = anchors[rule.anchor];
-      assert(isValidDate(a), `Missing/invalid anchor: ${rule.anchor}`);
-      return toUTCDate(a.getUTCFullYear(), a.getUTCMonth() + 1, a.getUTCDate());
+      assert(
+        isValidDate(a),
+        `Missing/invalid anchor: ${rule.anchor}`,
+        "missing_anchor",
+      );
+      const date = toUTCDate(
+        a.getUTCFullYear(),
+        a.getUTCMonth() + 1,
+        a.getUTCDate(),
+      );
+      trace?.push({ step: "anchor", anchor: rule.anchor, date: ymd(date) });
+      return date;
     }
 
     case "relative": {
@@ -184,11 +421,27 @@ function resolveRule(
         { type: "anchor", anchor: rule.anchor },
         year,
         anchors,
+        { trace },
       );
       const moved = addDays(base, rule.offsetDays);
+      if (rule.offsetDays !== 0) {
+        trace?.push({
+          step: "offset",
+          days: rule.offsetDays,
+          date: ymd(moved),
+        });
+      }
       if (typeof rule.weekday === "number") {
         const policy = rule.weekdayPolicy ?? "onOrAfter";
-        return alignToWeekday(moved, rule.weekday, policy);
+        const aligned = alignToWeekday(moved, rule.weekday, policy);
+        trace?.push({
+          step: "weekday",
+          weekday: rule.weekday,
+          policy,
+          moved: aligned.getTime() !== moved.getTime(),
+          date: ymd(aligned),
+        });
+        return aligned;
       }
       return moved;
     }
@@ -198,6 +451,7 @@ function resolveRule(
         { type: "anchor", anchor: rule.anchor },
         year,
         anchors,
+        { trace },
       );
       const target = clampWeekday(rule.weekday);
       assert(
@@ -210,7 +464,15 @@ function resolveRule(
       while (true) {
         if (weekdayUTC(d) === target) {
           count++;
-          if (count === rule.n) return d;
+          if (count === rule.n) {
+            trace?.push({
+              step: "nth_weekday",
+              n: rule.n,
+              weekday: target,
+              date: ymd(d),
+            });
+            return d;
+          }
         }
         d = addDays(d, 1);
       }
@@ -233,13 +495,32 @@ function resolveRule(
         `before_feast requires anchor or feastRule must be type=anchor`,
       );
 
-      const feast = resolveRule({ type: "anchor", anchor }, year, anchors);
-      return addDays(feast, -(rule.daysBefore - 1));
+      const feast = resolveRule({ type: "anchor", anchor }, year, anchors, {
+        trace,
+      });
+      const date = addDays(feast, -(rule.daysBefore - 1));
+      trace?.push({
+        step: "days_before",
+        daysBefore: rule.daysBefore,
+        date: ymd(date),
+      });
+      return date;
     }
 
+    case "weekly":
+    case "monthly":
+    case "nth_weekday_of_month":
+      throw new NovenaRuleError(
+        "invalid_rule",
+        `${rule.type} repeats; it can only be a feastRule`,
+      );
+
     default: {
       const _exhaustive: never = rule;
-      return _exhaustive;
+      throw new NovenaRuleError(
+        "invalid_rule",
+        `Unknown rule type: ${(_exhaustive as any)?.type}`,
+      );
     }
   }
 }
@@ -254,50 +535,105 @@ function maybeRollFixedStartAcrossYear(
   year: number,
   startDate: Date,
   feastDate: Date,
+  trace?: NovenaTraceStep[],
 ): Date {
   if (n.startRule?.type !== "fixed") return startDate;
   if (startDate.getTime() > feastDate.getTime()) {
-    return toUTCDate(year - 1, n.startRule.month, n.startRule.day);
+    const rolled = toUTCDate(year - 1, n.startRule.month, n.startRule.day);
+    trace?.push({ step: "year_rollover", date: ymd(rolled) });
+    return rolled;
   }
   return startDate;
 }
 
+/**
+ * Start date the (optional) startRule points at, before the feast +
+ * duration policy accepts or ignores it. Exposed so data checks can report
+ * startRules that disagree with durationDays.
+ */
+export function resolveStartHint(
+  n: NovenaDef,
+  year: number,
+  anchors: Anchors,
+  feastDate: Date = resolveRule(n.feastRule, year, anchors),
+  trace?: NovenaTraceStep[],
+): Date {
+  assert(n.startRule, `Novena ${n.id} has no startRule`);
+  const hinted = resolveRule(n.startRule, year, anchors, {
+    feastRule: n.feastRule,
+    trace,
+  });
+  return maybeRollFixedStartAcrossYear(n, year, hinted, feastDate, trace);
+}
+
 function normalizeDurationDays(n: NovenaDef): number {
   const d = n.durationDays ?? 9;
   assert(
     Number.isInteger(d) && d >= 1 && d <= 4000,
     `durationDays invalid for ${n.id}: ${d}`,
+    "invalid_duration",
   );
   return d;
 }
 
+/**
+ * One run of `n` for `year`. Throws NovenaRuleError if the feast can't be
+ * resolved; startRule problems only go to `warn`.
+ */
 export function resolveNovenaForYear(
   n: NovenaDef,
   year: number,
   anchors: Anchors,
+  warn?: (code: NovenaDiagnosticCode, message: string) => void,
 ): NovenaInstance {
   const durationDays = normalizeDurationDays(n);
 
   // 1) resolve feast/end date (authoritative)
-  const feastDate = resolveRule(n.feastRule, year, anchors);
+  const feastTrace: NovenaTraceStep[] = [];
+  const feastDate = resolveRule(n.feastRule, year, anchors, {
+    trace: feastTrace,
+  });
 
   // 2) compute canonical start from feast + duration (authoritative)
   const computedStart = addDays(feastDate, -(durationDays - 1));
+  const startTrace: NovenaTraceStep[] = [
+    { step: "from_duration", durationDays, date: ymd(computedStart) },
+  ];
 
   // 3) if we have a startRule, only accept it if it matches computedStart
   let startDate = computedStart;
 
   if (n.startRule) {
-    let hinted = resolveRule(n.startRule, year, anchors, {
-      feastRule: n.feastRule,
-    });
-    hinted = maybeRollFixedStartAcrossYear(n, year, hinted, feastDate);
+    let hinted: Date | null = null;
+    try {
+      hinted = resolveStartHint(n, year, anchors, feastDate, startTrace);
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : String(e);
+      startTrace.push({
+        step: "hint_unusable",
+        reason,
+        date: ymd(computedStart),
+      });
+      warn?.("start_rule_ignored", `startRule ignored: ${reason}`);
+    }
 
-    if (hinted.getTime() === computedStart.getTime()) {
+    if (hinted && hinted.getTime() === computedStart.getTime()) {
       startDate = hinted; // matches: accept
-    } else {
+      startTrace.push({ step: "hint_accepted", date: ymd(hinted) });
+    } else if (hinted) {
       // mismatch: ignore startRule (scraped data is often off-by-one)
       startDate = computedStart;
+      startTrace.push({
+        step: "hint_overridden",
+        hinted: ymd(hinted),
+        date: ymd(computedStart),
+      });
+      warn?.(
+        diffDays(hinted, computedStart) === 1
+          ? "start_rule_off_by_one"
+          : "start_rule_ignored",
+        `startRule gives ${ymd(hinted)}, feast ${ymd(feastDate)} minus ${durationDays - 1} day(s) is ${ymd(computedStart)}; using ${ymd(computedStart)}`,
+      );
     }
   }
 
@@ -305,16 +641,32 @@ export function resolveNovenaForYear(
   assert(
     startDate.getTime() <= feastDate.getTime(),
     `Novena ${n.id} invalid: start after feast (${startDate.toISOString()} > ${feastDate.toISOString()})`,
+    "duration_mismatch",
   );
 
   const span = diffDays(startDate, feastDate) + 1;
   assert(
     span === durationDays,
     `Novena ${n.id} duration mismatch: computed inclusive span=${span} but durationDays=${durationDays}`,
+    "duration_mismatch",
   );
 
+  return makeInstance(n, startDate, feastDate, durationDays, {
+    feast: feastTrace,
+    start: startTrace,
+  });
+}
+
+function makeInstance(
+  n: NovenaDef,
+  startDate: Date,
+  feastDate: Date,
+  durationDays: number,
+  trace: NovenaTrace,
+): NovenaInstance {
   return {
     id: n.id,
+    instanceId: novenaInstanceId(n.id, ymd(feastDate)),
     title: n.title,
     category: n.category,
     tags: n.tags ?? [],
@@ -322,23 +674,99 @@ export function resolveNovenaForYear(
     feastDate,
     durationDays,
     sourceUrl: n.source?.url,
+    trace,
   };
 }
 
-export function resolveNovenasForYear(
-  novenas: NovenaDef[],
+/**
+ * Every run of `n` whose feast falls in `year`: one for yearly rules, one
+ * per occurrence for recurring ones (each ending on its occurrence).
+ * Throws NovenaRuleError like resolveNovenaForYear.
+ */
+export function resolveNovenaRunsForYear(
+  n: NovenaDef,
   year: number,
   anchors: Anchors,
+  warn?: (code: NovenaDiagnosticCode, message: string) => void,
 ): NovenaInstance[] {
+  if (!isRecurringRule(n.feastRule)) {
+    return [resolveNovenaForYear(n, year, anchors, warn)];
+  }
+
+  const rule = n.feastRule;
+  const durationDays = normalizeDurationDays(n);
+  if (n.startRule) {
+    warn?.(
+      "start_rule_ignored",
+      `startRule ignored: a ${rule.type} novena starts ${durationDays - 1} day(s) before each occurrence`,
+    );
+  }
+
+  return recurringDatesInYear(rule, year).map((feastDate) => {
+    const startDate = addDays(feastDate, -(durationDays - 1));
+    return makeInstance(n, startDate, feastDate, durationDays, {
+      feast: [{ step: "recurrence", rule, date: ymd(feastDate) }],
+      start: [
+        { step: "from_duration", durationDays, date: ymd(startDate) },
+      ],
+    });
+  });
+}
+
+/**
+ * Every novena for `year`, plus what went wrong on the way. A novena that
+ * fails is left out (one "error" diagnostic); the rest still resolve.
+ */
+export function resolveNovenasForYearWithDiagnostics(
+  novenas: NovenaDef[],
+  year: number,
+  anchors: Anchors,
+): NovenaResolution {
   const out: NovenaInstance[] = [];
-  for (const n of novenas) out.push(resolveNovenaForYear(n, year, anchors));
+  const diagnostics: NovenaDiagnostic[] = [];
+
+  for (const n of novenas) {
+    const report = (
+      severity: NovenaDiagnostic["severity"],
+      code: NovenaDiagnosticCode,
+      message: string,
+    ) =>
+      diagnostics.push({
+        novenaId: n.id,
+        title: n.title,
+        year,
+        severity,
+        code,
+        message,
+      });
+
+    try {
+      out.push(
+        ...resolveNovenaRunsForYear(n, year, anchors, (code, message) =>
+          report("warning", code, message),
+        ),
+      );
+    } catch (e) {
+      if (e instanceof NovenaRuleError) report("error", e.code, e.message);
+      else report("error", "invalid_rule", String(e));
+    }
+  }
 
   out.sort((a, b) => {
     const d = a.startDate.getTime() - b.startDate.getTime();
     if (d !== 0) return d;
     return a.title.localeCompare(b.title);
   });
-  return out;
+  return { instances: out, diagnostics };
+}
+
+/** Every novena that resolves for `year` (see ...WithDiagnostics). */
+export function resolveNovenasForYear(
+  novenas: NovenaDef[],
+  year: number,
+  anchors: Anchors,
+): NovenaInstance[] {
+  return resolveNovenasForYearWithDiagnostics(novenas, year, anchors).instances;
 }
 
 /**
@@ -0,0 +1,75 @@
+// utils/persistedStore.ts
+//
+// Tiny AsyncStorage-backed value store (same storage i18n.ts uses for language).
+// - Loads lazily once, then serves the in-memory value synchronously
+// - Every write is persisted and broadcast to subscribers
+// - React screens read it through hooks/use-persisted-store.ts
+//
+// Corrupt or outdated payloads are dropped (parse returns null) so a bad
+// write can never take down a screen.
+
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+export type PersistedStore<T> = {
+  key: string;
+  get: () => T;
+  load: () => Promise<T>;
+  set: (next: T | ((prev: T) => T)) => Promise<void>;
+  subscribe: (listener: () => void) => () => void;
+};
+
+export function createPersistedStore<T>(
+  key: string,
+  fallback: T,
+  parse: (raw: unknown) => T | null,
+): PersistedStore<T> {
+  let value = fallback;
+  let loading: Promise<T> | null = null;
+  const listeners = new Set<() => void>();
+
+  const emit = () => {
+    for (const l of listeners) l();
+  };
+
+  const load = () => {
+    if (!loading) {
+      loading = AsyncStorage.getItem(key)
+        .then((raw) => {
+          if (raw == null) return value;
+          const parsed = parse(JSON.parse(raw));
+          if (parsed !== null) {
+            value = parsed;
+            emit();
+          }
+          return value;
+        })
+        .catch((e) => {
+          console.warn(`[persistedStore] failed to load "${key}":`, e);
+          return value;
+        });
+    }
+    return loading;
+  };
+
+  const set = async (next: T | ((prev: T) => T)) => {
+    // Never overwrite stored data with the fallback before we've read it.
+    await load();
+    value =
+      typeof next === "function" ? (next as (prev: T) => T)(value) : next;
+    emit();
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  };
+
+  return {
+    key,
+    get: () => value,
+    load,
+    set,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
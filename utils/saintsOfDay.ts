@@ -0,0 +1,81 @@
+// utils/saintsOfDay.ts
+//
+// Saints for a calendar date (fixed MM-DD, every year):
+// - data/saints_index.json   => "primary saint" per MM-DD (has a /saint/[id] doc)
+// - data/saints_by_mmdd.json => other saints + feast label
+//
+// Shared by the Saints tab and the /day/[date] screen so both list the
+// same names.
+
+import saintsIndex from "../data/saints_index.json";
+import saintsByMmdd from "../data/saints_by_mmdd.json";
+
+export type SaintIndexEntry = {
+  id: string;
+  name: string;
+  mmdd: string; // "01-08"
+  feast?: string | null;
+};
+
+type DaySaints = {
+  feast: string | null;
+  saints: string[];
+  featuredSaint?: string | null;
+};
+
+export type SaintsOfDay = {
+  mmdd: string; // MM-DD
+  feast: string | null;
+  primary: SaintIndexEntry | null;
+  others: string[]; // without the primary saint
+};
+
+export function toMmdd(dateKey: string) {
+  const parts = dateKey.split("-");
+  return `${parts[1]}-${parts[2]}`;
+}
+
+function normKey(s: string) {
+  return (s ?? "").trim().toLowerCase();
+}
+
+function isJunkSaintName(s: string) {
+  const t = normKey(s);
+  if (!t) return true;
+  if (t === "all saints for today") return true;
+  if (t === "all saints") return true;
+  if (t === "saint") return true;
+  if (t === "saints") return true;
+  return false;
+}
+
+const primaryByMmdd = (() => {
+  const map = new Map<string, SaintIndexEntry>();
+  for (const e of saintsIndex as unknown as SaintIndexEntry[]) {
+    map.set(e.mmdd, e);
+  }
+  return map;
+})();
+
+export function getSaintsOfDay(dateKey: string): SaintsOfDay {
+  const mmdd = toMmdd(dateKey);
+
+  const primary = primaryByMmdd.get(mmdd) ?? null;
+  const dayInfo = (saintsByMmdd as unknown as Record<string, DaySaints>)[mmdd];
+
+  let others = (dayInfo?.saints ?? [])
+    .map((s) => (s ?? "").trim())
+    .filter((s) => !isJunkSaintName(s));
+
+  if (primary?.name) {
+    const pk = normKey(primary.name);
+    others = others.filter((s) => normKey(s) !== pk);
+  }
+
+  return {
+    mmdd,
+    feast: dayInfo?.feast ?? primary?.feast ?? null,
+    primary,
+    others,
+  };
+}
@@ -0,0 +1,298 @@
+// utils/search.ts
+//
+// Global search over saints, novenas and feasts.
+// - Saints:  every name in data/saints_by_mmdd.json (all days, not only the
+//            featured saint). The day's primary saint opens /saint/[id];
+//            the others open /day/[date] for their MM-DD.
+// - Novenas: title, tags, patronage and category from data/novenas_index.json
+// - Feasts:  observances from computeMovableFeastsForYear, for the user's
+//            calendar profile, dated to their next occurrence.
+//
+// Matching is accent- and case-insensitive ("Jose" finds "José") and
+// forgiving: every query word must match a word of the entry as a prefix,
+// substring or with a typo or two ("francis asisi").
+
+import saintsByMmdd from "../data/saints_by_mmdd.json";
+import saintsIndex from "../data/saints_index.json";
+import { NOVENAS } from "../data/calendar";
+import { computeMovableFeastsForYear } from "./movableFeastsRules";
+import { getCalendarProfile, type CalendarProfileId } from "./calendarProfiles";
+import { isDateKey, toDateKey, yearOfKey } from "./dateKeys";
+import type { LinkTarget } from "./deepLinks";
+
+export type SearchKind = "saint" | "novena" | "feast";
+
+export type SearchEntry = {
+  kind: SearchKind;
+  title: string;
+  subtitle: string | null; // MM-DD, date or category
+  target: LinkTarget;
+};
+
+export type SearchResult = SearchEntry & { score: number };
+
+type IndexedEntry = SearchEntry & {
+  titleWords: string[];
+  extraWords: string[]; // tags / patronage: matched, but weighted lower
+  titleNorm: string;
+};
+
+type DaySaints = { feast: string | null; saints: string[] };
+type SaintIndexEntry = { id: string; name: string; mmdd: string };
+
+const KIND_ORDER: Record<SearchKind, number> = {
+  saint: 0,
+  novena: 1,
+  feast: 2,
+};
+
+// Common abbreviations in saint / novena names.
+const WORD_ALIASES: Record<string, string> = {
+  st: "saint",
+  sts: "saints",
+  ss: "saints",
+  bl: "blessed",
+  ste: "sainte",
+};
+
+/** Same as stripDiacritics in scripts/build-saints-index.ts. */
+export function stripDiacritics(s: string) {
+  return (s ?? "").normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+}
+
+/** Lowercase, accent-free, punctuation-free words. */
+export function searchWords(s: string): string[] {
+  return stripDiacritics(s)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter(Boolean)
+    .map((w) => WORD_ALIASES[w] ?? w);
+}
+
+/** Levenshtein distance, giving up early once it exceeds `max`. */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, cur[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/** How well one query word matches one entry word (0 = not at all). */
+function wordScore(q: string, w: string): number {
+  if (w === q) return 3;
+  if (w.startsWith(q)) return 2;
+  if (q.length >= 3 && w.includes(q)) return 1.5;
+
+  const maxTypos = q.length >= 7 ? 2 : q.length >= 4 ? 1 : 0;
+  if (maxTypos > 0 && editDistance(q, w, maxTypos) <= maxTypos) return 1;
+  return 0;
+}
+
+function bestScore(q: string, words: string[]): number {
+  let best = 0;
+  for (const w of words) {
+    best = Math.max(best, wordScore(q, w));
+    if (best === 3) break;
+  }
+  return best;
+}
+
+/** Date key of the next `mmdd` on/after `fromKey` (Feb 29 waits for a leap year). */
+function nextDateForMmdd(mmdd: string, fromKey: string): string {
+  const [m, d] = mmdd.split("-").map((x) => parseInt(x, 10));
+  let year = yearOfKey(fromKey);
+  for (let i = 0; i < 8; i++, year++) {
+    const key = toDateKey(year, m, d);
+    if (isDateKey(key) && key >= fromKey) return key;
+  }
+  return toDateKey(yearOfKey(fromKey), m, d);
+}
+
+function indexed(
+  entry: SearchEntry,
+  extra: (string | null | undefined)[] = [],
+): IndexedEntry {
+  return {
+    ...entry,
+    titleWords: searchWords(entry.title),
+    extraWords: extra.flatMap((s) => (s ? searchWords(s) : [])),
+    titleNorm: searchWords(entry.title).join(" "),
+  };
+}
+
+function saintEntries(todayKey: string): IndexedEntry[] {
+  const primaryByMmdd = new Map<string, SaintIndexEntry>();
+  for (const e of saintsIndex as unknown as SaintIndexEntry[]) {
+    primaryByMmdd.set(e.mmdd, e);
+  }
+
+  const out: IndexedEntry[] = [];
+  const days = saintsByMmdd as unknown as Record<string, DaySaints>;
+
+  for (const [mmdd, day] of Object.entries(days)) {
+    const primary = primaryByMmdd.get(mmdd);
+    const primaryNorm = primary ? searchWords(primary.name).join(" ") : null;
+    const date = nextDateForMmdd(mmdd, todayKey);
+    let primarySeen = false;
+
+    for (const raw of day.saints ?? []) {
+      const name = (raw ?? "").trim();
+      if (!name) continue;
+
+      const isPrimary =
+        !!primary && searchWords(name).join(" ") === primaryNorm;
+      if (isPrimary) primarySeen = true;
+
+      out.push(
+        indexed({
+          kind: "saint",
+          title: name,
+          subtitle: mmdd,
+          target: isPrimary
+            ? { kind: "saint", id: primary!.id, date }
+            : { kind: "day", date },
+        }),
+      );
+    }
+
+    // The index can name a primary saint the day list spells differently.
+    if (primary && !primarySeen) {
+      out.push(
+        indexed({
+          kind: "saint",
+          title: primary.name,
+          subtitle: mmdd,
+          target: { kind: "saint", id: primary.id, date },
+        }),
+      );
+    }
+  }
+
+  return out;
+}
+
+function novenaEntries(): IndexedEntry[] {
+  return NOVENAS.map((n) =>
+    indexed(
+      {
+        kind: "novena",
+        title: n.title,
+        subtitle: n.category,
+        target: { kind: "novena", id: n.id },
+      },
+      [...(n.tags ?? []), ...(n.patronage ?? []), n.category],
+    ),
+  );
+}
+
+function feastEntries(
+  todayKey: string,
+  profileId: CalendarProfileId,
+): IndexedEntry[] {
+  const transfers = getCalendarProfile(profileId);
+  const year = yearOfKey(todayKey);
+  const nextById = new Map<string, { date: string; title: string }>();
+
+  // This year's date if it is still ahead, else next year's.
+  for (const y of [year, year + 1]) {
+    const byDate = computeMovableFeastsForYear(y, transfers);
+    for (const [date, list] of Object.entries(byDate)) {
+      if (date < todayKey) continue;
+      for (const o of list) {
+        const cur = nextById.get(o.id);
+        if (!cur || date < cur.date)
+          nextById.set(o.id, { date, title: o.title });
+      }
+    }
+  }
+
+  return Array.from(nextById.values()).map(({ date, title }) =>
+    indexed({
+      kind: "feast",
+      title,
+      subtitle: date,
+      target: { kind: "day", date },
+    }),
+  );
+}
+
+let cache: { key: string; entries: IndexedEntry[] } | null = null;
+
+function getIndex(todayKey: string, profileId: CalendarProfileId) {
+  const key = `${profileId}:${todayKey}`;
+  if (!cache || cache.key !== key) {
+    cache = {
+      key,
+      entries: [
+        ...saintEntries(todayKey),
+        ...novenaEntries(),
+        ...feastEntries(todayKey, profileId),
+      ],
+    };
+  }
+  return cache.entries;
+}
+
+/**
+ * Ranked matches for `query`.
+ * Every query word has to match; title words count more than tags/patronage.
+ */
+export function searchAll(
+  query: string,
+  opts: { todayKey: string; profile: CalendarProfileId; limit?: number },
+): SearchResult[] {
+  const qWords = searchWords(query);
+  if (qWords.length === 0) return [];
+  const qNorm = qWords.join(" ");
+
+  const results: SearchResult[] = [];
+  for (const e of getIndex(opts.todayKey, opts.profile)) {
+    let score = 0;
+    let matchedAll = true;
+
+    for (const q of qWords) {
+      const s = Math.max(
+        bestScore(q, e.titleWords),
+        bestScore(q, e.extraWords) / 2,
+      );
+      if (s === 0) {
+        matchedAll = false;
+        break;
+      }
+      score += s;
+    }
+    if (!matchedAll) continue;
+
+    if (e.titleNorm === qNorm) score += 4;
+    else if (e.titleNorm.includes(qNorm)) score += 2;
+
+    results.push({
+      kind: e.kind,
+      title: e.title,
+      subtitle: e.subtitle,
+      target: e.target,
+      score,
+    });
+  }
+
+  results.sort(
+    (a, b) =>
+      b.score - a.score ||
+      KIND_ORDER[a.kind] - KIND_ORDER[b.kind] ||
+      a.title.localeCompare(b.title),
+  );
+
+  return results.slice(0, opts.limit ?? 50);
+}
@@ -0,0 +1,25 @@
+// utils/starredNovenas.ts
+//
+// Novenas the user has starred (by novena id, not by run).
+// Starred novenas get an optional "starts tomorrow" heads-up reminder.
+
+import { createPersistedStore } from "./persistedStore";
+
+const STORAGE_KEY = "starred_novenas";
+
+function parseStarred(raw: unknown): string[] | null {
+  if (!Array.isArray(raw)) return null;
+  return raw.filter((x): x is string => typeof x === "string");
+}
+
+export const starredNovenasStore = createPersistedStore<string[]>(
+  STORAGE_KEY,
+  [],
+  parseStarred,
+);
+
+export async function toggleStarredNovena(id: string) {
+  await starredNovenasStore.set((prev) =>
+    prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id].sort(),
+  );
+}
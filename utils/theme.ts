@@ -9,7 +9,11 @@ export type LiturgicalSeason =
   | "Christmas"
   | "Lent"
   | "Easter"
-  | "Ordinary Time";
+  | "Ordinary Time"
+  // 1962 Missal
+  | "Time after Epiphany"
+  | "Septuagesima"
+  | "Time after Pentecost";
 
 export const AppTheme = {
   brandName: "Sanctuary",
@@ -29,6 +33,8 @@ export const AppTheme = {
    * - Lent: Purple/Violet (distinct from Advent via warmer hue)
    * - Easter: White/Gold (we use White)
    * - Ordinary Time: Green
+   * - 1962 Missal: Time after Epiphany / after Pentecost: Green;
+   *   Septuagesima: Violet (muted, so it reads as "pre-Lent")
    *
    * UI constraints:
    * - readable on dark bg
@@ -50,6 +56,13 @@ export const AppTheme = {
 
     // Ordinary Time = green
     "Ordinary Time": "rgba(60, 155, 95, 0.95)",
+
+    // 1962 Missal: the green seasons share Ordinary Time's green
+    "Time after Epiphany": "rgba(60, 155, 95, 0.95)",
+    "Time after Pentecost": "rgba(60, 155, 95, 0.95)",
+
+    // Septuagesima = violet (greyed, between Ordinary Time and Lent)
+    Septuagesima: "rgba(140, 115, 165, 0.95)",
   } as const,
 
   // Fallback outline when season is unknown
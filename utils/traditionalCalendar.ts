@@ -0,0 +1,1003 @@
+// utils/traditionalCalendar.ts
+//
+// Per-day resolver for the 1962 Roman Missal (the "traditional" calendar
+// profile). utils/liturgicalCalendar.ts hands years of that profile to
+// buildTraditionalYear; the result has the same LiturgicalDay shape.
+// - Seasons: Advent, Christmas (to Jan 13), Time after Epiphany,
+//   Septuagesima, Lent (Passiontide from Passion Sunday), Easter (to the
+//   Saturday after Pentecost), Time after Pentecost
+// - Sundays are numbered after Epiphany / after Pentecost as in the Missal;
+//   Sundays left over after Epiphany are resumed before the Last Sunday
+//   after Pentecost
+// - Ember Days (Lent, Pentecost, September, Advent) and Rogation Days
+// - Ranks are Class I–IV (Code of Rubrics, 1960); there are no psalter weeks
+//
+// Precedence is a simplified reading of the 1960 rubrics:
+// - one winning celebration per day; the others are commemorated, or
+//   suppressed on Class I days (only the temporal day is commemorated there)
+// - impeded Class I feasts move to the next day that is not of Class I or II
+//   (St Joseph / the Annunciation in Holy Week go after Low Sunday)
+//
+// Fixed-date saints: data/traditionalCalendar.ts. All dates use UTC noon.
+
+import { TRADITIONAL_CALENDAR } from "../data/traditionalCalendar";
+import {
+  addDaysUTC,
+  computeEasterSunday,
+  nextWeekday,
+  prevWeekday,
+  toYmd,
+  utcNoonDate,
+} from "./liturgicalEngine";
+import {
+  firstSundayOfAdvent,
+  ordinal,
+  type LiturgicalColor,
+  type LiturgicalRank,
+  type LiturgicalSeason,
+} from "./movableFeastsRules";
+import { keyToUTCNoon } from "./dateKeys";
+import type {
+  Celebration,
+  CelebrationStatus,
+  LiturgicalDay,
+} from "./liturgicalCalendar";
+
+type Candidate = {
+  id: string;
+  title: string;
+  rank: LiturgicalRank;
+  color: LiturgicalColor;
+  source: "temporal" | "sanctoral";
+  precedence: number; // 1 = highest, see PRECEDENCE
+  transferredFrom?: string;
+};
+
+// Order of precedence (1960 rubrics, simplified), lower wins.
+const PRECEDENCE = {
+  principal: 1, // Triduum, Christmas, Easter, Pentecost
+  immaculateConception: 2, // outranks the Second Sunday of Advent
+  classIDay: 3, // Class I Sundays, privileged ferias, vigils and octaves
+  classIFeast: 4,
+  classIIFeastOfTheLord: 5,
+  classIISunday: 6,
+  classIIFeast: 7,
+  classIIFeria: 8, // Ember Days, Dec 17–23, vigils, Christmas octave
+  lentFeria: 9,
+  classIIIFeast: 10,
+  adventFeria: 11,
+  feria: 12, // Class IV ferias
+  commemoration: 13, // Class IV saints: only ever commemorated
+} as const;
+
+const WEEKDAYS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+const SEASON_COLOR: Record<LiturgicalSeason, LiturgicalColor> = {
+  Advent: "Purple",
+  Christmas: "White",
+  "Time after Epiphany": "Green",
+  Septuagesima: "Purple",
+  Lent: "Purple",
+  Easter: "White",
+  "Time after Pentecost": "Green",
+  "Ordinary Time": "Green", // not used by the 1962 calendar
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function daysBetween(a: Date, b: Date): number {
+  return Math.round((b.getTime() - a.getTime()) / MS_PER_DAY);
+}
+
+function sundayOnOrBefore(d: Date): Date {
+  return prevWeekday(d, 0, true);
+}
+
+function weeksBetweenSundays(from: Date, d: Date): number {
+  return Math.floor(
+    daysBetween(sundayOnOrBefore(from), sundayOnOrBefore(d)) / 7,
+  );
+}
+
+type YearAnchors = {
+  prevChristmas: Date;
+  epiphany: Date;
+  baptism: Date; // Jan 13, last day of Christmastide
+  septuagesima: Date;
+  ashWednesday: Date;
+  lent1: Date;
+  easter: Date;
+  pentecost: Date;
+  trinity: Date;
+  advent1: Date;
+  christmas: Date;
+};
+
+function anchorsForYear(year: number): YearAnchors {
+  const easter = computeEasterSunday(year);
+  return {
+    prevChristmas: utcNoonDate(year - 1, 11, 25),
+    epiphany: utcNoonDate(year, 0, 6),
+    baptism: utcNoonDate(year, 0, 13),
+    septuagesima: addDaysUTC(easter, -63),
+    ashWednesday: addDaysUTC(easter, -46),
+    lent1: addDaysUTC(easter, -42),
+    easter,
+    pentecost: addDaysUTC(easter, 49),
+    trinity: addDaysUTC(easter, 56),
+    advent1: firstSundayOfAdvent(year),
+    christmas: utcNoonDate(year, 11, 25),
+  };
+}
+
+type SeasonPosition = {
+  season: LiturgicalSeason;
+  // Advent 1–4, Christmas 1–4, Time after Epiphany 1–6 (Sundays after
+  // Epiphany), Septuagesima 1–3, Lent 0 (Ash Wed–Sat) to 6 (Holy Week),
+  // Easter 1 (Easter week) to 8 (Pentecost week), Time after Pentecost 1–28
+  // (Sundays after Pentecost, Trinity = 1).
+  seasonWeek: number;
+};
+
+function seasonPosition(d: Date, a: YearAnchors): SeasonPosition {
+  const t = d.getTime();
+
+  if (t <= a.baptism.getTime()) {
+    return {
+      season: "Christmas",
+      seasonWeek: 1 + weeksBetweenSundays(a.prevChristmas, d),
+    };
+  }
+  if (t < a.septuagesima.getTime()) {
+    return {
+      season: "Time after Epiphany",
+      seasonWeek: weeksBetweenSundays(a.epiphany, d),
+    };
+  }
+  if (t < a.ashWednesday.getTime()) {
+    return {
+      season: "Septuagesima",
+      seasonWeek: 1 + weeksBetweenSundays(a.septuagesima, d),
+    };
+  }
+  if (t < a.lent1.getTime()) {
+    return { season: "Lent", seasonWeek: 0 };
+  }
+  if (t < a.easter.getTime()) {
+    return { season: "Lent", seasonWeek: 1 + weeksBetweenSundays(a.lent1, d) };
+  }
+  if (t < a.trinity.getTime()) {
+    return {
+      season: "Easter",
+      seasonWeek: 1 + Math.floor(daysBetween(a.easter, d) / 7),
+    };
+  }
+  if (t < a.advent1.getTime()) {
+    return {
+      season: "Time after Pentecost",
+      seasonWeek: 1 + weeksBetweenSundays(a.trinity, d),
+    };
+  }
+  if (t < a.christmas.getTime()) {
+    return {
+      season: "Advent",
+      seasonWeek: 1 + weeksBetweenSundays(a.advent1, d),
+    };
+  }
+  return {
+    season: "Christmas",
+    seasonWeek: 1 + weeksBetweenSundays(a.christmas, d),
+  };
+}
+
+/**
+ * The k-th Sunday after Pentecost. The last one always takes the propers of
+ * the 24th; with more than 24 Sundays the leftover Sundays after Epiphany
+ * are resumed before it, with 23 the 23rd is omitted.
+ */
+function sundayAfterPentecost(
+  k: number,
+  total: number,
+): { id: string; title: string } {
+  if (k === total) {
+    return {
+      id: "pentecost_24",
+      title: "Twenty-Fourth and Last Sunday after Pentecost",
+    };
+  }
+  if (k >= 24) {
+    const n = 6 - (total - 1 - k);
+    return {
+      id: `epiphany_${n}_resumed`,
+      title: `${ordinal(n)} Sunday after Epiphany (resumed)`,
+    };
+  }
+  return {
+    id: `pentecost_${k}`,
+    title: `${ordinal(k)} Sunday after Pentecost`,
+  };
+}
+
+/** Sunday or feria of the season; null where a named day takes its place. */
+function temporalDay(
+  d: Date,
+  pos: SeasonPosition,
+  a: YearAnchors,
+): Candidate | null {
+  const weekday = d.getUTCDay();
+  const dayName = WEEKDAYS[weekday];
+  const slug = dayName.toLowerCase();
+  const { season, seasonWeek: week } = pos;
+  const color = SEASON_COLOR[season];
+  const day = (
+    id: string,
+    title: string,
+    rank: LiturgicalRank,
+    precedence: number,
+    c: LiturgicalColor = color,
+  ): Candidate => ({
+    id,
+    title,
+    rank,
+    color: c,
+    source: "temporal",
+    precedence,
+  });
+
+  switch (season) {
+    case "Advent": {
+      if (weekday === 0) {
+        return week === 3
+          ? day(
+              "advent_3",
+              "Third Sunday of Advent (Gaudete Sunday)",
+              "Class I",
+              PRECEDENCE.classIDay,
+              "Rose",
+            )
+          : day(
+              `advent_${week}`,
+              `${ordinal(week)} Sunday of Advent`,
+              "Class I",
+              PRECEDENCE.classIDay,
+            );
+      }
+      const date = d.getUTCDate();
+      if (d.getUTCMonth() === 11 && date === 24) return null; // the Vigil
+      const title = `${dayName} of the ${ordinal(week)} Week of Advent`;
+      return d.getUTCMonth() === 11 && date >= 17
+        ? day(
+            `advent_${week}_${slug}`,
+            title,
+            "Class II",
+            PRECEDENCE.classIIFeria,
+          )
+        : day(
+            `advent_${week}_${slug}`,
+            title,
+            "Class III",
+            PRECEDENCE.adventFeria,
+          );
+    }
+
+    case "Christmas": {
+      const month = d.getUTCMonth();
+      const date = d.getUTCDate();
+      if (month === 11) {
+        if (date === 25) return null;
+        return day(
+          `christmas_octave_day_${date - 24}`,
+          `${ordinal(date - 24)} Day within the Octave of the Nativity`,
+          "Class II",
+          PRECEDENCE.classIIFeria,
+        );
+      }
+      if (date === 1 || date === 6) return null;
+      if (date < 6) {
+        return day(
+          `christmastide_jan_${date}`,
+          `${dayName} of Christmastide`,
+          "Class IV",
+          PRECEDENCE.feria,
+        );
+      }
+      if (weekday === 0) {
+        return day(
+          "epiphany_1",
+          "First Sunday after Epiphany",
+          "Class II",
+          PRECEDENCE.classIISunday,
+        );
+      }
+      return day(
+        `${slug}_after_epiphany`,
+        `${dayName} after Epiphany`,
+        "Class IV",
+        PRECEDENCE.feria,
+      );
+    }
+
+    case "Time after Epiphany":
+      return weekday === 0
+        ? day(
+            `epiphany_${week}`,
+            `${ordinal(week)} Sunday after Epiphany`,
+            "Class II",
+            PRECEDENCE.classIISunday,
+          )
+        : day(
+            `epiphany_${week}_${slug}`,
+            `${dayName} of the ${ordinal(week)} Week after Epiphany`,
+            "Class IV",
+            PRECEDENCE.feria,
+          );
+
+    case "Septuagesima": {
+      const name = ["Septuagesima", "Sexagesima", "Quinquagesima"][week - 1];
+      return weekday === 0
+        ? day(
+            name.toLowerCase(),
+            `${name} Sunday`,
+            "Class II",
+            PRECEDENCE.classIISunday,
+          )
+        : day(
+            `${name.toLowerCase()}_${slug}`,
+            `${dayName} after ${name} Sunday`,
+            "Class IV",
+            PRECEDENCE.feria,
+          );
+    }
+
+    case "Lent": {
+      if (week === 0) {
+        return weekday === 3
+          ? day(
+              "ash_wednesday",
+              "Ash Wednesday",
+              "Class I",
+              PRECEDENCE.classIDay,
+            )
+          : day(
+              `${slug}_after_ash_wednesday`,
+              `${dayName} after Ash Wednesday`,
+              "Class III",
+              PRECEDENCE.lentFeria,
+            );
+      }
+      if (week === 6) {
+        switch (weekday) {
+          case 0:
+            return day(
+              "palm_sunday",
+              "Second Sunday of the Passion (Palm Sunday)",
+              "Class I",
+              PRECEDENCE.classIDay,
+            );
+          case 4:
+            return day(
+              "holy_thursday",
+              "Holy Thursday (Mass of the Lord's Supper)",
+              "Class I",
+              PRECEDENCE.principal,
+              "White",
+            );
+          case 5:
+            return day(
+              "good_friday",
+              "Good Friday of the Passion and Death of the Lord",
+              "Class I",
+              PRECEDENCE.principal,
+              "Black",
+            );
+          case 6:
+            return day(
+              "holy_saturday",
+              "Holy Saturday",
+              "Class I",
+              PRECEDENCE.principal,
+            );
+          default:
+            return day(
+              `holy_week_${slug}`,
+              `${dayName} of Holy Week`,
+              "Class I",
+              PRECEDENCE.classIDay,
+            );
+        }
+      }
+      if (weekday === 0) {
+        if (week === 5) {
+          return day(
+            "passion_sunday",
+            "First Sunday of the Passion (Passion Sunday)",
+            "Class I",
+            PRECEDENCE.classIDay,
+          );
+        }
+        return week === 4
+          ? day(
+              "lent_4",
+              "Fourth Sunday of Lent (Laetare Sunday)",
+              "Class I",
+              PRECEDENCE.classIDay,
+              "Rose",
+            )
+          : day(
+              `lent_${week}`,
+              `${ordinal(week)} Sunday of Lent`,
+              "Class I",
+              PRECEDENCE.classIDay,
+            );
+      }
+      return week === 5
+        ? day(
+            `passion_week_${slug}`,
+            `${dayName} of Passion Week`,
+            "Class III",
+            PRECEDENCE.lentFeria,
+          )
+        : day(
+            `lent_${week}_${slug}`,
+            `${dayName} of the ${ordinal(week)} Week of Lent`,
+            "Class III",
+            PRECEDENCE.lentFeria,
+          );
+    }
+
+    case "Easter": {
+      if (week === 1) {
+        return weekday === 0
+          ? day(
+              "easter_sunday",
+              "Easter Sunday of the Resurrection of the Lord",
+              "Class I",
+              PRECEDENCE.principal,
+            )
+          : day(
+              `easter_octave_${slug}`,
+              `${dayName} within the Octave of Easter`,
+              "Class I",
+              PRECEDENCE.classIDay,
+            );
+      }
+      if (week === 8) {
+        return weekday === 0
+          ? day(
+              "pentecost",
+              "Pentecost Sunday",
+              "Class I",
+              PRECEDENCE.principal,
+              "Red",
+            )
+          : day(
+              `pentecost_octave_${slug}`,
+              `${dayName} within the Octave of Pentecost`,
+              "Class I",
+              PRECEDENCE.classIDay,
+              "Red",
+            );
+      }
+      if (weekday === 0) {
+        if (week === 2) {
+          return day(
+            "low_sunday",
+            "Low Sunday (First Sunday after Easter)",
+            "Class I",
+            PRECEDENCE.classIDay,
+          );
+        }
+        return week === 7
+          ? day(
+              "sunday_after_ascension",
+              "Sunday after the Ascension",
+              "Class II",
+              PRECEDENCE.classIISunday,
+            )
+          : day(
+              `easter_${week - 1}`,
+              `${ordinal(week - 1)} Sunday after Easter`,
+              "Class II",
+              PRECEDENCE.classIISunday,
+            );
+      }
+      if (week === 7 && weekday === 6) {
+        return day(
+          "vigil_of_pentecost",
+          "Vigil of Pentecost",
+          "Class I",
+          PRECEDENCE.classIDay,
+          "Red",
+        );
+      }
+      return day(
+        `paschaltide_${week}_${slug}`,
+        `${dayName} of the ${ordinal(week)} Week of Paschaltide`,
+        "Class IV",
+        PRECEDENCE.feria,
+      );
+    }
+
+    case "Time after Pentecost":
+    default: {
+      if (weekday === 0) {
+        if (week === 1) {
+          return day(
+            "trinity_sunday",
+            "The Most Holy Trinity",
+            "Class I",
+            PRECEDENCE.classIDay,
+            "White",
+          );
+        }
+        const total = weeksBetweenSundays(a.trinity, a.advent1);
+        const { id, title } = sundayAfterPentecost(week, total);
+        return day(id, title, "Class II", PRECEDENCE.classIISunday);
+      }
+      return day(
+        `pentecost_${week}_${slug}`,
+        `${dayName} of the ${ordinal(week)} Week after Pentecost`,
+        "Class IV",
+        PRECEDENCE.feria,
+      );
+    }
+  }
+}
+
+/**
+ * Ember and Rogation Days, keyed by YYYY-MM-DD. They take the place of the
+ * feria of the season.
+ */
+function emberAndRogationDays(
+  year: number,
+  a: YearAnchors,
+): Map<string, Candidate> {
+  const m = new Map<string, Candidate>();
+  const add = (
+    d: Date,
+    id: string,
+    title: string,
+    rank: LiturgicalRank,
+    color: LiturgicalColor,
+    precedence: number,
+  ) =>
+    m.set(toYmd(d), { id, title, rank, color, source: "temporal", precedence });
+
+  const ember = (
+    sunday: Date,
+    slug: string,
+    label: string,
+    rank: LiturgicalRank,
+    color: LiturgicalColor,
+    precedence: number,
+  ) => {
+    for (const [offset, day] of [
+      [3, "Wednesday"],
+      [5, "Friday"],
+      [6, "Saturday"],
+    ] as const) {
+      add(
+        addDaysUTC(sunday, offset),
+        `ember_${day.toLowerCase()}_${slug}`,
+        `Ember ${day} ${label}`,
+        rank,
+        color,
+        precedence,
+      );
+    }
+  };
+
+  ember(
+    a.lent1,
+    "lent",
+    "of Lent",
+    "Class II",
+    "Purple",
+    PRECEDENCE.classIIFeria,
+  );
+  ember(
+    a.pentecost,
+    "pentecost",
+    "within the Octave of Pentecost",
+    "Class I",
+    "Red",
+    PRECEDENCE.classIDay,
+  );
+  const septemberSunday3 = addDaysUTC(
+    nextWeekday(utcNoonDate(year, 8, 1), 0, true),
+    14,
+  );
+  ember(
+    septemberSunday3,
+    "september",
+    "of September",
+    "Class II",
+    "Purple",
+    PRECEDENCE.classIIFeria,
+  );
+  ember(
+    addDaysUTC(a.advent1, 14),
+    "advent",
+    "of Advent",
+    "Class II",
+    "Purple",
+    PRECEDENCE.classIIFeria,
+  );
+
+  add(
+    addDaysUTC(a.easter, 36),
+    "rogation_monday",
+    "Rogation Monday",
+    "Class II",
+    "Purple",
+    PRECEDENCE.classIIFeria,
+  );
+  add(
+    addDaysUTC(a.easter, 37),
+    "rogation_tuesday",
+    "Rogation Tuesday",
+    "Class IV",
+    "White",
+    PRECEDENCE.feria,
+  );
+  add(
+    addDaysUTC(a.easter, 38),
+    "vigil_of_the_ascension",
+    "Rogation Wednesday (Vigil of the Ascension)",
+    "Class II",
+    "White",
+    PRECEDENCE.classIIFeria,
+  );
+  return m;
+}
+
+/** Named days of the temporal cycle, keyed by YYYY-MM-DD. */
+function namedTemporalForYear(
+  year: number,
+  a: YearAnchors,
+): Map<string, Candidate[]> {
+  const m = new Map<string, Candidate[]>();
+  const add = (
+    d: Date,
+    id: string,
+    title: string,
+    rank: LiturgicalRank,
+    color: LiturgicalColor,
+    precedence: number,
+  ) => {
+    const key = toYmd(d);
+    const arr = m.get(key) ?? [];
+    arr.push({ id, title, rank, color, source: "temporal", precedence });
+    m.set(key, arr);
+  };
+
+  add(
+    utcNoonDate(year, 0, 1),
+    "octave_of_the_nativity",
+    "The Octave Day of the Nativity of Our Lord",
+    "Class I",
+    "White",
+    PRECEDENCE.classIDay,
+  );
+
+  // Sunday between Jan 2 and 5, else Jan 2.
+  const jan2 = utcNoonDate(year, 0, 2);
+  const holyNameSunday = nextWeekday(jan2, 0, true);
+  add(
+    holyNameSunday.getUTCDate() <= 5 ? holyNameSunday : jan2,
+    "holy_name_of_jesus",
+    "The Most Holy Name of Jesus",
+    "Class II",
+    "White",
+    PRECEDENCE.classIIFeastOfTheLord,
+  );
+
+  add(
+    a.epiphany,
+    "epiphany",
+    "The Epiphany of Our Lord",
+    "Class I",
+    "White",
+    PRECEDENCE.classIDay,
+  );
+
+  // Sunday after Epiphany (Jan 7–13).
+  add(
+    nextWeekday(a.epiphany, 0),
+    "holy_family",
+    "The Holy Family of Jesus, Mary and Joseph",
+    "Class II",
+    "White",
+    PRECEDENCE.classIIFeastOfTheLord,
+  );
+
+  add(
+    addDaysUTC(a.easter, 39),
+    "ascension",
+    "The Ascension of Our Lord",
+    "Class I",
+    "White",
+    PRECEDENCE.classIDay,
+  );
+  add(
+    addDaysUTC(a.easter, 60),
+    "corpus_christi",
+    "The Feast of Corpus Christi",
+    "Class I",
+    "White",
+    PRECEDENCE.classIFeast,
+  );
+  add(
+    addDaysUTC(a.easter, 68),
+    "sacred_heart",
+    "The Most Sacred Heart of Jesus",
+    "Class I",
+    "White",
+    PRECEDENCE.classIFeast,
+  );
+
+  // Last Sunday of October.
+  add(
+    prevWeekday(utcNoonDate(year, 9, 31), 0, true),
+    "christ_king",
+    "Our Lord Jesus Christ the King",
+    "Class I",
+    "White",
+    PRECEDENCE.classIFeast,
+  );
+
+  // Kept on Monday when Nov 2 is a Sunday.
+  const nov2 = utcNoonDate(year, 10, 2);
+  add(
+    nov2.getUTCDay() === 0 ? addDaysUTC(nov2, 1) : nov2,
+    "all_souls",
+    "The Commemoration of All the Faithful Departed (All Souls)",
+    "Class I",
+    "Black",
+    PRECEDENCE.classIDay,
+  );
+
+  add(
+    utcNoonDate(year, 11, 24),
+    "vigil_of_the_nativity",
+    "Vigil of the Nativity of Our Lord",
+    "Class I",
+    "Purple",
+    PRECEDENCE.immaculateConception,
+  );
+  add(
+    a.christmas,
+    "christmas",
+    "The Nativity of Our Lord Jesus Christ",
+    "Class I",
+    "White",
+    PRECEDENCE.principal,
+  );
+
+  // Sunday between Dec 29 and 31, else Dec 30.
+  const dec29 = utcNoonDate(year, 11, 29);
+  const octaveSunday = nextWeekday(dec29, 0, true);
+  add(
+    octaveSunday.getUTCMonth() === 11 ? octaveSunday : addDaysUTC(dec29, 1),
+    "sunday_within_the_octave_of_christmas",
+    "Sunday within the Octave of the Nativity",
+    "Class II",
+    "White",
+    PRECEDENCE.classIISunday,
+  );
+
+  return m;
+}
+
+function sanctoralPrecedence(
+  rank: LiturgicalRank,
+  id: string,
+  ofTheLord?: boolean,
+): number {
+  if (id === "immaculate_conception") return PRECEDENCE.immaculateConception;
+  switch (rank) {
+    case "Class I":
+      return PRECEDENCE.classIFeast;
+    case "Class II":
+      return ofTheLord
+        ? PRECEDENCE.classIIFeastOfTheLord
+        : PRECEDENCE.classIIFeast;
+    case "Class III":
+      return PRECEDENCE.classIIIFeast;
+    default:
+      return PRECEDENCE.commemoration;
+  }
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+/** Sanctoral candidates for the year, keyed by YYYY-MM-DD. */
+function sanctoralForYear(year: number): Map<string, Candidate[]> {
+  const m = new Map<string, Candidate[]>();
+  const leap = isLeapYear(year);
+
+  for (const e of TRADITIONAL_CALENDAR) {
+    let key = `${year}-${e.mmdd}`;
+
+    // Leap years double Feb 24: the feasts of Feb 24–28 move one day later.
+    if (leap && e.mmdd >= "02-24" && e.mmdd <= "02-28") {
+      key = toYmd(addDaysUTC(utcNoonDate(year, 1, Number(e.mmdd.slice(3))), 1));
+    }
+
+    // Holy Family takes the Sunday; the Baptism is not commemorated.
+    if (
+      e.id === "baptism_of_the_lord" &&
+      utcNoonDate(year, 0, 13).getUTCDay() === 0
+    ) {
+      continue;
+    }
+
+    const arr = m.get(key) ?? [];
+    arr.push({
+      id: e.id,
+      title: e.title,
+      rank: e.rank,
+      color: e.color,
+      source: "sanctoral",
+      precedence: sanctoralPrecedence(e.rank, e.id, e.ofTheLord),
+    });
+    m.set(key, arr);
+  }
+  return m;
+}
+
+function byPrecedence(x: Candidate, y: Candidate): number {
+  const dp = x.precedence - y.precedence;
+  if (dp !== 0) return dp;
+  // Same rank: the temporal cycle comes first.
+  if (x.source !== y.source) return x.source === "temporal" ? -1 : 1;
+  return x.title.localeCompare(y.title);
+}
+
+const STATUS_ORDER: Record<CelebrationStatus, number> = {
+  celebrated: 0,
+  optional: 1,
+  commemorated: 2,
+  transferred: 3,
+  suppressed: 4,
+};
+
+/** Nearest day after `fromKey` that is not of Class I or II. */
+function findTransferTarget(
+  fromKey: string,
+  keys: string[],
+  candidates: Map<string, Candidate[]>,
+): string | null {
+  for (let i = keys.indexOf(fromKey) + 1; i < keys.length; i++) {
+    const list = candidates.get(keys[i]) ?? [];
+    if (list.every((c) => c.precedence > PRECEDENCE.classIIFeria)) {
+      return keys[i];
+    }
+  }
+  return null;
+}
+
+function resolveDay(
+  list: Candidate[],
+  weekday: number,
+  transferredTo: Map<Candidate, string>,
+): Celebration[] {
+  const sorted = [...list].sort(byPrecedence);
+  const winner = sorted[0];
+
+  return sorted
+    .filter(
+      // A Class IV feria that loses is simply not a celebration of the day.
+      (c) =>
+        c === winner || !(c.source === "temporal" && c.rank === "Class IV"),
+    )
+    .map((c): Celebration => {
+      if (c === winner) return { ...c, status: "celebrated" };
+
+      const to = transferredTo.get(c);
+      if (to) return { ...c, status: "transferred", transferredTo: to };
+
+      // Class I days admit only the commemoration of the temporal day;
+      // vigils are not kept on Sundays.
+      if (
+        (winner.rank === "Class I" && c.source !== "temporal") ||
+        (weekday === 0 && c.id.startsWith("vigil_"))
+      ) {
+        return { ...c, status: "suppressed" };
+      }
+      return { ...c, status: "commemorated" };
+    })
+    .sort((x, y) => STATUS_ORDER[x.status] - STATUS_ORDER[y.status]);
+}
+
+/** Every day of the civil year in the 1962 calendar, keyed by YYYY-MM-DD. */
+export function buildTraditionalYear(year: number): Map<string, LiturgicalDay> {
+  const anchors = anchorsForYear(year);
+  const special = emberAndRogationDays(year, anchors);
+  const named = namedTemporalForYear(year, anchors);
+  const sanctoral = sanctoralForYear(year);
+
+  // Pass 1: what falls on each date.
+  const keys: string[] = [];
+  const positions = new Map<string, SeasonPosition>();
+  const candidates = new Map<string, Candidate[]>();
+
+  for (
+    let d = utcNoonDate(year, 0, 1);
+    d.getUTCFullYear() === year;
+    d = addDaysUTC(d, 1)
+  ) {
+    const key = toYmd(d);
+    const pos = seasonPosition(d, anchors);
+    const day = special.get(key) ?? temporalDay(d, pos, anchors);
+
+    keys.push(key);
+    positions.set(key, pos);
+    candidates.set(key, [
+      ...(day ? [day] : []),
+      ...(named.get(key) ?? []),
+      ...(sanctoral.get(key) ?? []),
+    ]);
+  }
+
+  // Pass 2: move impeded Class I feasts.
+  const transferredTo = new Map<Candidate, string>();
+
+  for (const key of keys) {
+    const list = candidates.get(key) ?? [];
+    const top = [...list].sort(byPrecedence)[0];
+
+    for (const c of list) {
+      if (
+        c === top ||
+        c.source !== "sanctoral" ||
+        c.rank !== "Class I" ||
+        c.transferredFrom
+      ) {
+        continue;
+      }
+      const target = findTransferTarget(key, keys, candidates);
+      if (!target) continue;
+
+      transferredTo.set(c, target);
+      candidates.get(target)?.push({ ...c, transferredFrom: key });
+    }
+  }
+
+  // Pass 3: one winner per day.
+  const out = new Map<string, LiturgicalDay>();
+
+  for (const key of keys) {
+    const pos = positions.get(key)!;
+    const weekday = keyToUTCNoon(key).getUTCDay();
+    const celebrations = resolveDay(
+      candidates.get(key) ?? [],
+      weekday,
+      transferredTo,
+    );
+    const winner = celebrations[0];
+
+    out.set(key, {
+      date: key,
+      season: pos.season,
+      seasonWeek: pos.seasonWeek,
+      psalterWeek: null,
+      weekday,
+      rank: winner.rank,
+      color: winner.color,
+      celebrations,
+    });
+  }
+
+  return out;
+}